@@ -8,14 +8,25 @@
  * @module
  */
 
+import type * as appointments from "../appointments.js";
+import type * as auditLogs from "../auditLogs.js";
 import type * as barangayOfficials from "../barangayOfficials.js";
+import type * as certificateTemplates from "../certificateTemplates.js";
+import type * as certificates from "../certificates.js";
+import type * as counters from "../counters.js";
+import type * as crons from "../crons.js";
 import type * as documentRequestItems from "../documentRequestItems.js";
 import type * as documentRequests from "../documentRequests.js";
 import type * as documentTypes from "../documentTypes.js";
 import type * as http from "../http.js";
 import type * as kiosk from "../kiosk.js";
+import type * as kioskDevices from "../kioskDevices.js";
+import type * as lib_certificates from "../lib/certificates.js";
 import type * as queue from "../queue.js";
+import type * as residentImports from "../residentImports.js";
 import type * as residents from "../residents.js";
+import type * as sequences from "../sequences.js";
+import type * as serviceTypes from "../serviceTypes.js";
 import type * as statistics from "../statistics.js";
 import type * as users from "../users.js";
 
@@ -26,14 +37,25 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  appointments: typeof appointments;
+  auditLogs: typeof auditLogs;
   barangayOfficials: typeof barangayOfficials;
+  certificateTemplates: typeof certificateTemplates;
+  certificates: typeof certificates;
+  counters: typeof counters;
+  crons: typeof crons;
   documentRequestItems: typeof documentRequestItems;
   documentRequests: typeof documentRequests;
   documentTypes: typeof documentTypes;
   http: typeof http;
   kiosk: typeof kiosk;
+  kioskDevices: typeof kioskDevices;
+  "lib/certificates": typeof lib_certificates;
   queue: typeof queue;
+  residentImports: typeof residentImports;
   residents: typeof residents;
+  sequences: typeof sequences;
+  serviceTypes: typeof serviceTypes;
   statistics: typeof statistics;
   users: typeof users;
 }>;
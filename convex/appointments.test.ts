@@ -0,0 +1,91 @@
+import { convexTest } from "convex-test"
+import { describe, expect, test } from "vitest"
+import { api } from "./_generated/api"
+import schema from "./schema"
+import { modules, testResident } from "./test.setup"
+import { manilaDayStart, manilaWeekdayHour } from "./sequences"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 8 AM Manila on the next weekday, the first slot under the default settings
+ */
+function nextWeekdaySlot(): number {
+  let dayStart = manilaDayStart(Date.now()) + DAY_MS
+  while ([0, 6].includes(manilaWeekdayHour(dayStart).weekday)) dayStart += DAY_MS
+  return dayStart + 8 * 60 * 60 * 1000
+}
+
+/**
+ * Seed resident BH-00001 (born 1990-01-01) and one active document type
+ */
+async function seed(t: ReturnType<typeof convexTest>) {
+  return await t.run(async (ctx) => {
+    const now = Date.now()
+    await ctx.db.insert("residents", testResident())
+    return await ctx.db.insert("documentTypes", {
+      name: "Barangay Clearance",
+      templateKey: "clearance.pdf",
+      price: 5000,
+      requiresPurpose: false,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    })
+  })
+}
+
+describe("book", () => {
+  test("books a slot for a matching Resident ID and birthdate", async () => {
+    const t = convexTest(schema, modules)
+    const documentTypeId = await seed(t)
+    const slotStart = nextWeekdaySlot()
+
+    const result = await t.action(api.appointments.book, {
+      residentId: "bh-00001",
+      birthdate: "1990-01-01",
+      documentTypeId,
+      purpose: "",
+      slotStart,
+    })
+
+    expect(result.slotStart).toBe(slotStart)
+    expect(result.bookingCode).toMatch(/^[A-Z2-9]{6}$/)
+  })
+
+  test("stops guessing birthdates after the attempt limit", async () => {
+    const t = convexTest(schema, modules)
+    const documentTypeId = await seed(t)
+    const args = { residentId: "BH-00001", documentTypeId, purpose: "", slotStart: nextWeekdaySlot() }
+
+    for (let day = 1; day <= 5; day++) {
+      await expect(
+        t.action(api.appointments.book, { ...args, birthdate: `1990-01-0${day + 1}` })
+      ).rejects.toThrow("Resident ID and birthdate don't match our records")
+    }
+
+    // Even the right birthdate is refused until the window ends
+    await expect(t.action(api.appointments.book, { ...args, birthdate: "1990-01-01" })).rejects.toThrow(
+      "Too many booking attempts"
+    )
+    const appointments = await t.run((ctx) => ctx.db.query("appointments").collect())
+    expect(appointments).toHaveLength(0)
+  })
+
+  test("limits unknown Resident IDs the same way", async () => {
+    const t = convexTest(schema, modules)
+    const documentTypeId = await seed(t)
+    const args = {
+      residentId: "BH-99999",
+      birthdate: "1990-01-01",
+      documentTypeId,
+      purpose: "",
+      slotStart: nextWeekdaySlot(),
+    }
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(t.action(api.appointments.book, args)).rejects.toThrow("don't match our records")
+    }
+    await expect(t.action(api.appointments.book, args)).rejects.toThrow("Too many booking attempts")
+  })
+})
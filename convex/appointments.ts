@@ -0,0 +1,556 @@
+/**
+ * Convex functions for appointments (pre-booked certificate pickup)
+ * Residents book online with their Resident ID and birthdate, or staff book for them;
+ * the booking code is checked in at the kiosk (see kiosk.checkInAppointment)
+ */
+
+import { v } from "convex/values"
+import { action, query, mutation, internalMutation, MutationCtx, QueryCtx } from "./_generated/server"
+import { internal } from "./_generated/api"
+import { Doc, Id } from "./_generated/dataModel"
+import { requireRole, STAFF_ROLES, SUPERADMIN_ROLES, userByExternalId } from "./users"
+import { logAudit } from "./auditLogs"
+import { manilaDateKey, manilaDayStart, manilaDayStartFromKey, manilaWeekdayHour } from "./sequences"
+import { findResidentByCode } from "./residents"
+
+// ==================== HELPERS ====================
+
+// Used until a superadmin saves appointment settings: 8 AM-5 PM, 30-minute slots, weekdays only
+const DEFAULT_APPOINTMENT_SETTINGS = {
+  openHour: 8,
+  closeHour: 17,
+  slotMinutes: 30,
+  capacityByWeekday: [0, 3, 3, 3, 3, 3, 0],
+  bookingDaysAhead: 14,
+}
+
+// No 0/O or 1/I so codes read back correctly over the phone
+const BOOKING_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+const BOOKING_CODE_LENGTH = 6
+
+// Online bookings a resident can hold at once (staff bookings are not limited)
+const MAX_OPEN_ONLINE_BOOKINGS = 2
+
+// Online booking attempts per Resident ID per window (failed identity checks included)
+const BOOKING_ATTEMPT_LIMIT = 5
+const BOOKING_ATTEMPT_WINDOW_MS = 60 * 60 * 1000
+
+// Arriving earlier than this before the slot starts, or later than this after it ends,
+// still checks in, but without priority
+export const APPOINTMENT_GRACE_MS = 30 * 60 * 1000
+
+/**
+ * Get the appointment settings (or the defaults if none saved yet)
+ */
+export async function getAppointmentSettings(ctx: QueryCtx) {
+  const settings = await ctx.db.query("appointmentSettings").first()
+  return settings ?? { _id: null, ...DEFAULT_APPOINTMENT_SETTINGS }
+}
+
+/**
+ * Slot start times for a Manila day with the capacity of each slot
+ * Empty when the day has no bookings
+ */
+function getDaySlots(
+  settings: Awaited<ReturnType<typeof getAppointmentSettings>>,
+  dayStart: number
+): { slots: Array<number>; capacity: number } {
+  const { weekday } = manilaWeekdayHour(dayStart)
+  const capacity = settings.capacityByWeekday[weekday] ?? 0
+  if (capacity <= 0) return { slots: [], capacity: 0 }
+
+  const slots: Array<number> = []
+  const slotMs = settings.slotMinutes * 60 * 1000
+  const close = dayStart + settings.closeHour * 60 * 60 * 1000
+  for (let start = dayStart + settings.openHour * 60 * 60 * 1000; start + slotMs <= close; start += slotMs) {
+    slots.push(start)
+  }
+  return { slots, capacity }
+}
+
+/**
+ * Active bookings (booked or checked in) per slot start for a Manila day
+ */
+async function getBookedCounts(ctx: QueryCtx, dayStart: number) {
+  const appointments = await ctx.db
+    .query("appointments")
+    .withIndex("by_slotStart", (q) =>
+      q.gte("slotStart", dayStart).lt("slotStart", dayStart + 24 * 60 * 60 * 1000)
+    )
+    .collect()
+
+  const counts = new Map<number, number>()
+  for (const appointment of appointments) {
+    if (appointment.status === "booked" || appointment.status === "checked_in") {
+      counts.set(appointment.slotStart, (counts.get(appointment.slotStart) ?? 0) + 1)
+    }
+  }
+  return counts
+}
+
+async function generateBookingCode(ctx: QueryCtx): Promise<string> {
+  for (;;) {
+    const bytes = new Uint8Array(BOOKING_CODE_LENGTH)
+    crypto.getRandomValues(bytes)
+    const code = Array.from(bytes, (byte) => BOOKING_CODE_ALPHABET[byte % BOOKING_CODE_ALPHABET.length]).join("")
+
+    const existing = await ctx.db
+      .query("appointments")
+      .withIndex("by_bookingCode", (q) => q.eq("bookingCode", code))
+      .first()
+    if (!existing) return code
+  }
+}
+
+/**
+ * Validate a booking and insert it
+ * Shared by online booking and staff booking
+ */
+async function createAppointment(
+  ctx: MutationCtx,
+  args: {
+    resident: Doc<"residents">
+    documentTypeId: Id<"documentTypes">
+    purpose: string
+    slotStart: number
+    source: "online" | "staff"
+    bookedBy?: string
+  }
+) {
+  const documentType = await ctx.db.get(args.documentTypeId)
+  if (!documentType || !documentType.isActive) {
+    throw new Error("This document type can't be booked right now")
+  }
+  if (documentType.requiresPurpose && !args.purpose.trim()) {
+    throw new Error(`Purpose is required for ${documentType.name}`)
+  }
+
+  const now = Date.now()
+  const settings = await getAppointmentSettings(ctx)
+  const dayStart = manilaDayStart(args.slotStart)
+  const { slots, capacity } = getDaySlots(settings, dayStart)
+
+  if (!slots.includes(args.slotStart)) {
+    throw new Error("That time is not a bookable slot")
+  }
+  if (args.slotStart <= now) {
+    throw new Error("That slot has already started")
+  }
+  if (dayStart > manilaDayStart(now) + settings.bookingDaysAhead * 24 * 60 * 60 * 1000) {
+    throw new Error(`Bookings open ${settings.bookingDaysAhead} days ahead`)
+  }
+
+  const booked = (await getBookedCounts(ctx, dayStart)).get(args.slotStart) ?? 0
+  if (booked >= capacity) {
+    throw new Error("That slot is full. Please pick another time.")
+  }
+
+  const id = await ctx.db.insert("appointments", {
+    bookingCode: await generateBookingCode(ctx),
+    residentId: args.resident._id,
+    documentTypeId: args.documentTypeId,
+    purpose: args.purpose.trim(),
+    slotStart: args.slotStart,
+    status: "booked",
+    source: args.source,
+    bookedBy: args.bookedBy,
+    createdAt: now,
+  })
+
+  return (await ctx.db.get(id))!
+}
+
+/**
+ * Whether a stored birthdate falls on a YYYY-MM-DD date
+ * Birthdates are saved from date inputs (UTC midnight) or imports (Manila midnight)
+ */
+function birthdateMatches(birthdate: number, date: string): boolean {
+  return (
+    new Date(birthdate).toISOString().slice(0, 10) === date ||
+    manilaDateKey(birthdate) === date.replace(/-/g, "")
+  )
+}
+
+// ==================== QUERIES ====================
+
+/**
+ * Open slots for a Manila day (YYYYMMDD) with remaining capacity
+ * Public for the online booking page; returns counts only
+ */
+export const getAvailableSlots = query({
+  args: { date: v.string() },
+  handler: async (ctx, args) => {
+    const dayStart = manilaDayStartFromKey(args.date)
+    if (dayStart === null) throw new Error("Invalid date")
+
+    const settings = await getAppointmentSettings(ctx)
+    const now = Date.now()
+    const lastDay = manilaDayStart(now) + settings.bookingDaysAhead * 24 * 60 * 60 * 1000
+    if (dayStart < manilaDayStart(now) || dayStart > lastDay) {
+      return { bookingDaysAhead: settings.bookingDaysAhead, slots: [] }
+    }
+
+    const { slots, capacity } = getDaySlots(settings, dayStart)
+    const booked = await getBookedCounts(ctx, dayStart)
+
+    return {
+      bookingDaysAhead: settings.bookingDaysAhead,
+      slots: slots
+        .filter((slotStart) => slotStart > now)
+        .map((slotStart) => ({
+          slotStart,
+          remaining: Math.max(0, capacity - (booked.get(slotStart) ?? 0)),
+        })),
+    }
+  },
+})
+
+/**
+ * List a Manila day's appointments (YYYYMMDD) with resident and document names
+ * Ordered by slot
+ */
+export const listForDay = query({
+  args: { date: v.string() },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view appointments")
+
+    const dayStart = manilaDayStartFromKey(args.date)
+    if (dayStart === null) throw new Error("Invalid date")
+
+    const appointments = await ctx.db
+      .query("appointments")
+      .withIndex("by_slotStart", (q) =>
+        q.gte("slotStart", dayStart).lt("slotStart", dayStart + 24 * 60 * 60 * 1000)
+      )
+      .collect()
+
+    return await Promise.all(
+      appointments.map(async (appointment) => {
+        const resident = await ctx.db.get(appointment.residentId)
+        const documentType = await ctx.db.get(appointment.documentTypeId)
+        const bookedBy = appointment.bookedBy ? await userByExternalId(ctx, appointment.bookedBy) : null
+        return {
+          ...appointment,
+          residentName: resident ? `${resident.firstName} ${resident.lastName}` : "Unknown",
+          residentCode: resident?.residentId ?? null,
+          documentTypeName: documentType?.name ?? "Unknown",
+          bookedByName: bookedBy?.name ?? null,
+        }
+      })
+    )
+  },
+})
+
+/**
+ * Get the bookable hours and slot capacity
+ */
+export const getSettings = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view appointment settings")
+
+    const settings = await getAppointmentSettings(ctx)
+    return {
+      openHour: settings.openHour,
+      closeHour: settings.closeHour,
+      slotMinutes: settings.slotMinutes,
+      capacityByWeekday: settings.capacityByWeekday,
+      bookingDaysAhead: settings.bookingDaysAhead,
+    }
+  },
+})
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Count one online booking attempt against the Resident ID's rate limit
+ * Runs in its own transaction (see book) so attempts that fail the identity check still count
+ * Keyed by the resident when found, so aliases and spelling of the ID share one limit
+ */
+export const recordBookingAttempt = internalMutation({
+  args: { residentId: v.string() },
+  handler: async (ctx, args) => {
+    const resident = await findResidentByCode(ctx, args.residentId)
+    const key = resident?._id ?? args.residentId.trim().toUpperCase()
+    const now = Date.now()
+
+    const attempts = await ctx.db
+      .query("bookingAttempts")
+      .withIndex("by_key", (q) => q.eq("key", key))
+      .unique()
+
+    if (!attempts) {
+      await ctx.db.insert("bookingAttempts", { key, windowStart: now, count: 1 })
+      return
+    }
+
+    const windowExpired = now - attempts.windowStart >= BOOKING_ATTEMPT_WINDOW_MS
+    const windowCount = windowExpired ? 0 : attempts.count
+
+    if (windowCount >= BOOKING_ATTEMPT_LIMIT) {
+      throw new Error("Too many booking attempts for this Resident ID. Please try again in an hour.")
+    }
+
+    await ctx.db.patch(attempts._id, {
+      windowStart: windowExpired ? now : attempts.windowStart,
+      count: windowCount + 1,
+    })
+  },
+})
+
+/**
+ * Check the resident's identity and book the slot (see book)
+ * The resident proves who they are with their Resident ID and birthdate (YYYY-MM-DD)
+ * and can hold a limited number of open bookings
+ */
+export const bookOnline = internalMutation({
+  args: {
+    residentId: v.string(), // BH-00001
+    birthdate: v.string(), // YYYY-MM-DD
+    documentTypeId: v.id("documentTypes"),
+    purpose: v.string(),
+    slotStart: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const resident = await findResidentByCode(ctx, args.residentId)
+
+    // Same message for both so the form can't be used to probe Resident IDs
+    if (!resident || resident.status !== "resident" || !birthdateMatches(resident.birthdate, args.birthdate)) {
+      throw new Error("Resident ID and birthdate don't match our records")
+    }
+
+    const openBookings = await ctx.db
+      .query("appointments")
+      .withIndex("by_residentId_status", (q) => q.eq("residentId", resident._id).eq("status", "booked"))
+      .collect()
+    if (openBookings.filter((booking) => booking.source === "online").length >= MAX_OPEN_ONLINE_BOOKINGS) {
+      throw new Error(
+        `You already have ${MAX_OPEN_ONLINE_BOOKINGS} upcoming bookings. Please use or cancel one first.`
+      )
+    }
+
+    const appointment = await createAppointment(ctx, {
+      resident,
+      documentTypeId: args.documentTypeId,
+      purpose: args.purpose,
+      slotStart: args.slotStart,
+      source: "online",
+    })
+
+    await logAudit(ctx, {
+      user: null, // Public booking page
+      action: "create_appointment",
+      resourceType: "appointment",
+      resourceId: appointment._id,
+      before: null,
+      after: appointment,
+      details: { source: "online" },
+    })
+
+    return {
+      bookingCode: appointment.bookingCode,
+      slotStart: appointment.slotStart,
+    }
+  },
+})
+
+/**
+ * Book a slot on a resident's behalf (Staff action, e.g. over the phone)
+ */
+export const bookForResident = mutation({
+  args: {
+    residentId: v.id("residents"),
+    documentTypeId: v.id("documentTypes"),
+    purpose: v.string(),
+    slotStart: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can book appointments")
+
+    const resident = await ctx.db.get(args.residentId)
+    if (!resident) throw new Error("Resident not found")
+
+    const appointment = await createAppointment(ctx, {
+      resident,
+      documentTypeId: args.documentTypeId,
+      purpose: args.purpose,
+      slotStart: args.slotStart,
+      source: "staff",
+      bookedBy: user.externalId,
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: "create_appointment",
+      resourceType: "appointment",
+      resourceId: appointment._id,
+      before: null,
+      after: appointment,
+      details: { source: "staff" },
+    })
+
+    return {
+      bookingCode: appointment.bookingCode,
+      slotStart: appointment.slotStart,
+    }
+  },
+})
+
+/**
+ * Cancel a booking (Staff action); frees the slot
+ */
+export const cancel = mutation({
+  args: { id: v.id("appointments") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can cancel appointments")
+
+    const appointment = await ctx.db.get(args.id)
+    if (!appointment) throw new Error("Appointment not found")
+    if (appointment.status !== "booked") {
+      throw new Error(`Booking ${appointment.bookingCode} can no longer be cancelled`)
+    }
+
+    await ctx.db.patch(args.id, {
+      status: "cancelled",
+      cancelledAt: Date.now(),
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: "cancel_appointment",
+      resourceType: "appointment",
+      resourceId: args.id,
+      before: appointment,
+      after: await ctx.db.get(args.id),
+    })
+
+    return args.id
+  },
+})
+
+/**
+ * Update the bookable hours and slot capacity (Superadmin only)
+ * Existing bookings are kept even if their slot no longer exists
+ */
+export const updateSettings = mutation({
+  args: {
+    openHour: v.number(),
+    closeHour: v.number(),
+    slotMinutes: v.number(),
+    capacityByWeekday: v.array(v.number()),
+    bookingDaysAhead: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can change appointment settings")
+
+    if (!Number.isInteger(args.openHour) || !Number.isInteger(args.closeHour) ||
+        args.openHour < 0 || args.closeHour > 24 || args.openHour >= args.closeHour) {
+      throw new Error("Opening hour must be before closing hour")
+    }
+    if (![15, 20, 30, 60].includes(args.slotMinutes)) {
+      throw new Error("Slots must be 15, 20, 30 or 60 minutes")
+    }
+    if (args.capacityByWeekday.length !== 7 ||
+        args.capacityByWeekday.some((capacity) => !Number.isInteger(capacity) || capacity < 0 || capacity > 50)) {
+      throw new Error("Capacity must be a whole number from 0 to 50 for each day")
+    }
+    if (!Number.isInteger(args.bookingDaysAhead) || args.bookingDaysAhead < 1 || args.bookingDaysAhead > 90) {
+      throw new Error("Residents can book from 1 to 90 days ahead")
+    }
+
+    const before = await ctx.db.query("appointmentSettings").first()
+    const updates = {
+      ...args,
+      updatedAt: Date.now(),
+      updatedBy: user.externalId,
+    }
+
+    let id = before?._id
+    if (id) {
+      await ctx.db.patch(id, updates)
+    } else {
+      id = await ctx.db.insert("appointmentSettings", updates)
+    }
+
+    await logAudit(ctx, {
+      user,
+      action: "update_appointment_settings",
+      resourceType: "appointment",
+      resourceId: id,
+      before,
+      after: await ctx.db.get(id),
+    })
+
+    return id
+  },
+})
+
+/**
+ * Mark bookings whose day has ended without check-in as no-shows (end of day, see crons.ts)
+ */
+export const expireNoShows = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const endOfToday = manilaDayStart(Date.now()) + 24 * 60 * 60 * 1000
+    const missed = await ctx.db
+      .query("appointments")
+      .withIndex("by_status_slotStart", (q) => q.eq("status", "booked").lt("slotStart", endOfToday))
+      .take(500)
+
+    for (const appointment of missed) {
+      await ctx.db.patch(appointment._id, { status: "no_show" })
+
+      await logAudit(ctx, {
+        user: null, // Scheduled job
+        action: "expire_appointment",
+        resourceType: "appointment",
+        resourceId: appointment._id,
+        before: appointment,
+        after: await ctx.db.get(appointment._id),
+        details: { reason: "no_show" },
+      })
+    }
+
+    return missed.length
+  },
+})
+
+/**
+ * Delete booking attempt windows that ended more than a day ago (end of day, see crons.ts)
+ */
+export const clearBookingAttempts = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const stale = await ctx.db
+      .query("bookingAttempts")
+      .withIndex("by_windowStart", (q) => q.lt("windowStart", Date.now() - 24 * 60 * 60 * 1000))
+      .take(500)
+
+    for (const attempts of stale) {
+      await ctx.db.delete(attempts._id)
+    }
+
+    return stale.length
+  },
+})
+
+// ==================== ACTIONS ====================
+
+/**
+ * Book a slot online (Public)
+ * The resident proves who they are with their Resident ID and birthdate (YYYY-MM-DD).
+ * An action so the rate limit is recorded before the identity check, which rolls back when it fails
+ */
+export const book = action({
+  args: {
+    residentId: v.string(), // BH-00001
+    birthdate: v.string(), // YYYY-MM-DD
+    documentTypeId: v.id("documentTypes"),
+    purpose: v.string(),
+    slotStart: v.number(),
+  },
+  handler: async (ctx, args): Promise<{ bookingCode: string; slotStart: number }> => {
+    await ctx.runMutation(internal.appointments.recordBookingAttempt, { residentId: args.residentId })
+    return await ctx.runMutation(internal.appointments.bookOnline, args)
+  },
+})
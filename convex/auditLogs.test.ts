@@ -0,0 +1,73 @@
+import { convexTest } from "convex-test"
+import { describe, expect, test } from "vitest"
+import { api } from "./_generated/api"
+import schema from "./schema"
+import { modules } from "./test.setup"
+
+describe("list", () => {
+  test("pages through one resource type with a cursor, newest first", async () => {
+    const t = convexTest(schema, modules)
+    await t.run(async (ctx) => {
+      const now = Date.now()
+      await ctx.db.insert("users", {
+        name: "Superadmin",
+        externalId: "user_superadmin",
+        role: "superadmin",
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      for (let i = 0; i < 5; i++) {
+        await ctx.db.insert("auditLogs", {
+          action: "update_resident",
+          resourceType: "resident",
+          resourceId: `resident-${i}`,
+          details: {},
+          createdAt: now + i,
+        })
+        await ctx.db.insert("auditLogs", {
+          action: "update_document_type",
+          resourceType: "documentType",
+          details: {},
+          createdAt: now + i,
+        })
+      }
+    })
+
+    const superadmin = t.withIdentity({ subject: "user_superadmin" })
+    const first = await superadmin.query(api.auditLogs.list, {
+      resourceType: "resident",
+      paginationOpts: { numItems: 3, cursor: null },
+    })
+    expect(first.page.map((entry) => entry.resourceId)).toEqual(["resident-4", "resident-3", "resident-2"])
+    expect(first.isDone).toBe(false)
+
+    const second = await superadmin.query(api.auditLogs.list, {
+      resourceType: "resident",
+      paginationOpts: { numItems: 3, cursor: first.continueCursor },
+    })
+    expect(second.page.map((entry) => entry.resourceId)).toEqual(["resident-1", "resident-0"])
+    expect(second.isDone).toBe(true)
+  })
+
+  test("rejects staff", async () => {
+    const t = convexTest(schema, modules)
+    await t.run(async (ctx) => {
+      const now = Date.now()
+      await ctx.db.insert("users", {
+        name: "Staff",
+        externalId: "user_staff",
+        role: "staff",
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+    })
+
+    await expect(
+      t.withIdentity({ subject: "user_staff" }).query(api.auditLogs.list, {
+        paginationOpts: { numItems: 10, cursor: null },
+      })
+    ).rejects.toThrow("Only superadmin can view audit logs")
+  })
+})
@@ -0,0 +1,185 @@
+/**
+ * Convex functions for the audit trail
+ * Mutations that touch resident records, document types, the queue and
+ * document requests call logAudit so we can always answer who changed what
+ */
+
+import { v } from "convex/values"
+import { paginationOptsValidator } from "convex/server"
+import { query, MutationCtx, QueryCtx } from "./_generated/server"
+import { Doc } from "./_generated/dataModel"
+import { requireRole, SUPERADMIN_ROLES } from "./users"
+
+// ==================== HELPERS ====================
+
+const filterArgs = {
+  userId: v.optional(v.string()), // Clerk user ID of the actor
+  resourceType: v.optional(v.string()),
+  resourceId: v.optional(v.string()),
+  startDate: v.optional(v.number()), // Timestamp
+  endDate: v.optional(v.number()), // Timestamp
+}
+
+type AuditFilters = {
+  userId?: string
+  resourceType?: string
+  resourceId?: string
+  startDate?: number
+  endDate?: number
+}
+
+// Maximum rows per CSV export
+const EXPORT_LIMIT = 5000
+
+async function requireSuperadmin(ctx: QueryCtx) {
+  return await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can view audit logs")
+}
+
+/**
+ * Audit entries newest first, picking the most selective index:
+ * by_resourceType_resourceId, then by_userId, then by_resourceType, then by_createdAt
+ * Remaining filters are applied on top of the index range
+ */
+function queryAuditLogs(ctx: QueryCtx, filters: AuditFilters) {
+  const auditLogs = ctx.db.query("auditLogs")
+  const indexed =
+    filters.resourceType && filters.resourceId
+      ? auditLogs.withIndex("by_resourceType_resourceId", (q) =>
+          q.eq("resourceType", filters.resourceType!).eq("resourceId", filters.resourceId)
+        )
+      : filters.userId
+        ? auditLogs.withIndex("by_userId", (q) => q.eq("userId", filters.userId))
+        : filters.resourceType
+          ? auditLogs.withIndex("by_resourceType", (q) => q.eq("resourceType", filters.resourceType!))
+          : auditLogs.withIndex("by_createdAt", (q) => {
+              if (filters.startDate && filters.endDate) {
+                return q.gte("createdAt", filters.startDate).lte("createdAt", filters.endDate)
+              }
+              if (filters.startDate) return q.gte("createdAt", filters.startDate)
+              if (filters.endDate) return q.lte("createdAt", filters.endDate)
+              return q
+            })
+
+  return indexed.order("desc").filter((q) => {
+    const conditions = []
+    if (filters.userId) conditions.push(q.eq(q.field("userId"), filters.userId))
+    if (filters.resourceType) conditions.push(q.eq(q.field("resourceType"), filters.resourceType))
+    if (filters.resourceId) conditions.push(q.eq(q.field("resourceId"), filters.resourceId))
+    if (filters.startDate) conditions.push(q.gte(q.field("createdAt"), filters.startDate))
+    if (filters.endDate) conditions.push(q.lte(q.field("createdAt"), filters.endDate))
+    return q.and(...conditions)
+  })
+}
+
+export type AuditResourceType = "resident" | "documentType" | "queue" | "documentRequest" | "user" | "kioskDevice" | "counter" | "serviceType" | "appointment" | "importBatch" | "importMappingProfile" | "certificateTemplate"
+
+export type FieldChange = {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+// Fields that change on every write and would only add noise to diffs
+const IGNORED_FIELDS = new Set(["_id", "_creationTime", "updatedAt"])
+
+/**
+ * Compare two versions of a record field by field
+ * Pass null for `before` on create and for `after` on delete
+ */
+export function diffFields(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): Array<FieldChange> {
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+  const changes: Array<FieldChange> = []
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue
+    const beforeValue = before?.[field]
+    const afterValue = after?.[field]
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) continue
+
+    // Convex can't store undefined - null marks "not set"
+    changes.push({
+      field,
+      before: beforeValue ?? null,
+      after: afterValue ?? null,
+    })
+  }
+
+  return changes
+}
+
+/**
+ * Write one audit log entry
+ * `user` is the actor; null for unauthenticated callers (e.g. the kiosk)
+ */
+export async function logAudit(
+  ctx: MutationCtx,
+  entry: {
+    user: Doc<"users"> | null
+    action: string // e.g. "update_resident", "process_queue"
+    resourceType: AuditResourceType
+    resourceId?: string
+    before?: Record<string, unknown> | null
+    after?: Record<string, unknown> | null
+    details?: Record<string, unknown> // Extra context, e.g. { source: "import" }
+  }
+) {
+  const changes =
+    entry.before !== undefined || entry.after !== undefined
+      ? diffFields(entry.before ?? null, entry.after ?? null)
+      : []
+
+  await ctx.db.insert("auditLogs", {
+    userId: entry.user?.externalId, // Clerk user ID
+    action: entry.action,
+    resourceType: entry.resourceType,
+    resourceId: entry.resourceId,
+    details: {
+      actorName: entry.user?.name ?? "Anonymous",
+      actorRole: entry.user?.role ?? null,
+      changes,
+      ...entry.details,
+    },
+    createdAt: Date.now(),
+  })
+}
+
+// ==================== QUERIES ====================
+
+/**
+ * List audit entries with filters (Superadmin only)
+ * Cursor pagination; pages can come back short when filters skip entries, so use isDone
+ */
+export const list = query({
+  args: {
+    ...filterArgs,
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    await requireSuperadmin(ctx)
+
+    const { paginationOpts, ...filters } = args
+    return await queryAuditLogs(ctx, filters).paginate(paginationOpts)
+  },
+})
+
+/**
+ * Get every entry matching the filters for CSV export (Superadmin only)
+ * Capped so a single export stays within query limits - narrow the date range for more
+ */
+export const listForExport = query({
+  args: filterArgs,
+  handler: async (ctx, args) => {
+    await requireSuperadmin(ctx)
+
+    // One extra row tells us whether the export was cut short
+    const entries = await queryAuditLogs(ctx, args).take(EXPORT_LIMIT + 1)
+
+    return {
+      entries: entries.slice(0, EXPORT_LIMIT),
+      isTruncated: entries.length > EXPORT_LIMIT,
+    }
+  },
+})
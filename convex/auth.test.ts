@@ -0,0 +1,141 @@
+import { convexTest } from "convex-test"
+import { describe, expect, test } from "vitest"
+import { api } from "./_generated/api"
+import schema from "./schema"
+import { modules, testResident } from "./test.setup"
+
+// Every required resident field, as the admin form sends them
+const residentFields = {
+  block: "1",
+  lot: "2",
+  phase: "1",
+  purok: "1",
+  firstName: "Juan",
+  middleName: "Santos",
+  lastName: "Dela Cruz",
+  sex: "male" as const,
+  birthdate: Date.UTC(1990, 0, 1),
+  civilStatus: "Single" as const,
+  educationalAttainment: "College" as const,
+  employmentStatus: "Employed" as const,
+  isResidentVoter: true,
+  isRegisteredVoter: true,
+  housingType: "Owned" as const,
+  constructionType: "Heavy" as const,
+  status: "resident" as const,
+}
+
+/**
+ * Seed a resident with a pending document request and a waiting queue ticket
+ * Seeded directly so the mutations under test only see the caller's identity
+ */
+async function seed(t: ReturnType<typeof convexTest>) {
+  return await t.run(async (ctx) => {
+    const now = Date.now()
+    const residentId = await ctx.db.insert("residents", testResident())
+    const documentRequestId = await ctx.db.insert("documentRequests", {
+      residentId,
+      requestNumber: "REQ-20260101-001",
+      status: "pending",
+      totalPrice: 0,
+      requestedAt: now,
+    })
+    const queueId = await ctx.db.insert("queue", {
+      documentRequestId,
+      queueNumber: "Q-001",
+      serviceType: "service",
+      status: "waiting",
+      createdAt: now,
+    })
+    return { residentId, documentRequestId, queueId }
+  })
+}
+
+/**
+ * Seed a users row for the Clerk identity "user_1"
+ */
+async function seedUser(
+  t: ReturnType<typeof convexTest>,
+  fields: { role?: "superadmin" | "admin" | "staff"; isActive: boolean }
+) {
+  await t.run(async (ctx) => {
+    const now = Date.now()
+    await ctx.db.insert("users", { name: "Test User", externalId: "user_1", ...fields, createdAt: now, updatedAt: now })
+  })
+  return t.withIdentity({ subject: "user_1" })
+}
+
+/**
+ * One call per protected mutation, so every case below covers all of them
+ */
+function protectedMutations(
+  caller: Pick<ReturnType<typeof convexTest>, "mutation">,
+  ids: Awaited<ReturnType<typeof seed>>
+) {
+  return {
+    "residents.create": () => caller.mutation(api.residents.create, residentFields),
+    "residents.remove": () => caller.mutation(api.residents.remove, { id: ids.residentId }),
+    "documentRequests.create": () =>
+      caller.mutation(api.documentRequests.create, { residentId: ids.residentId, totalPrice: 0 }),
+    "documentRequests.updateStatus": () =>
+      caller.mutation(api.documentRequests.updateStatus, { id: ids.documentRequestId, status: "cancelled" }),
+    "queue.create": () => caller.mutation(api.queue.create, { documentRequestId: ids.documentRequestId }),
+    "queue.updateStatus": () => caller.mutation(api.queue.updateStatus, { id: ids.queueId, status: "done" }),
+    "queue.processNext": () => caller.mutation(api.queue.processNext, {}),
+  }
+}
+
+describe("protected mutations", () => {
+  test("reject callers who are not signed in", async () => {
+    const t = convexTest(schema, modules)
+    const ids = await seed(t)
+
+    for (const [name, call] of Object.entries(protectedMutations(t, ids))) {
+      await expect(call(), name).rejects.toThrow(/^Unauthorized$/m)
+    }
+  })
+
+  test("reject signed-in Clerk users with no users row", async () => {
+    const t = convexTest(schema, modules)
+    const ids = await seed(t)
+    const stranger = t.withIdentity({ subject: "user_unknown" })
+
+    for (const [name, call] of Object.entries(protectedMutations(stranger, ids))) {
+      await expect(call(), name).rejects.toThrow(/^Unauthorized$/m)
+    }
+  })
+
+  test("reject deactivated accounts", async () => {
+    const t = convexTest(schema, modules)
+    const ids = await seed(t)
+    const deactivated = await seedUser(t, { role: "superadmin", isActive: false })
+
+    for (const [name, call] of Object.entries(protectedMutations(deactivated, ids))) {
+      await expect(call(), name).rejects.toThrow("Unauthorized: Account is deactivated")
+    }
+  })
+
+  test("reject accounts still waiting for a role", async () => {
+    const t = convexTest(schema, modules)
+    const ids = await seed(t)
+    const pending = await seedUser(t, { isActive: true })
+
+    for (const [name, call] of Object.entries(protectedMutations(pending, ids))) {
+      await expect(call(), name).rejects.toThrow(/Unauthorized: Only/)
+    }
+  })
+
+  test("reject staff on admin-only resident mutations", async () => {
+    const t = convexTest(schema, modules)
+    const ids = await seed(t)
+    const staff = await seedUser(t, { role: "staff", isActive: true })
+    const calls = protectedMutations(staff, ids)
+
+    await expect(calls["residents.create"]()).rejects.toThrow("Unauthorized: Only admins can create residents")
+    await expect(calls["residents.remove"]()).rejects.toThrow("Unauthorized: Only admins can delete residents")
+
+    // Nothing was written by the rejected calls
+    const residents = await t.run((ctx) => ctx.db.query("residents").collect())
+    expect(residents).toHaveLength(1)
+  })
+})
@@ -5,6 +5,7 @@
 
 import { v } from "convex/values"
 import { query } from "./_generated/server"
+import { requireRole, STAFF_ROLES } from "./users"
 
 // ==================== QUERIES ====================
 
@@ -17,6 +18,8 @@ export const list = query({
     includeInactive: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view barangay officials")
+
     if (args.includeInactive) {
       // Return all officials
       return await ctx.db.query("barangayOfficials").order("desc").collect()
@@ -39,6 +42,8 @@ export const list = query({
 export const getActive = query({
   args: {},
   handler: async (ctx) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view barangay officials")
+
     return await ctx.db
       .query("barangayOfficials")
       .withIndex("by_isActive", (q) => q.eq("isActive", true))
@@ -55,6 +60,8 @@ export const getActive = query({
 export const getByPosition = query({
   args: { position: v.string() },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view barangay officials")
+
     return await ctx.db
       .query("barangayOfficials")
       .withIndex("by_position", (q) => q.eq("position", args.position))
@@ -68,6 +75,8 @@ export const getByPosition = query({
 export const get = query({
   args: { id: v.id("barangayOfficials") },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view barangay officials")
+
     return await ctx.db.get(args.id)
   },
 })
@@ -0,0 +1,75 @@
+import { convexTest } from "convex-test"
+import { describe, expect, test } from "vitest"
+import { api } from "./_generated/api"
+import schema from "./schema"
+import { modules } from "./test.setup"
+
+/**
+ * Seed a superadmin and return a client acting as them
+ */
+async function asSuperadmin(t: ReturnType<typeof convexTest>) {
+  await t.run(async (ctx) => {
+    const now = Date.now()
+    await ctx.db.insert("users", {
+      name: "Superadmin",
+      externalId: "user_superadmin",
+      role: "superadmin",
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    })
+  })
+  return t.withIdentity({ subject: "user_superadmin" })
+}
+
+describe("audit", () => {
+  test("records create, save, restore and deactivate", async () => {
+    const t = convexTest(schema, modules)
+    const superadmin = await asSuperadmin(t)
+
+    const templateId = await superadmin.mutation(api.certificateTemplates.create, {
+      name: "Clearance",
+      baseTemplateKey: "clearance.pdf",
+    })
+    await superadmin.mutation(api.certificateTemplates.saveVersion, {
+      templateId,
+      name: "Barangay Clearance",
+      pageSize: "a4",
+      elements: [],
+    })
+    await superadmin.mutation(api.certificateTemplates.restoreVersion, { templateId, version: 1 })
+    await superadmin.mutation(api.certificateTemplates.toggleActive, { id: templateId, isActive: false })
+
+    const entries = await t.run((ctx) =>
+      ctx.db
+        .query("auditLogs")
+        .withIndex("by_resourceType_resourceId", (q) =>
+          q.eq("resourceType", "certificateTemplate").eq("resourceId", templateId)
+        )
+        .collect()
+    )
+    expect(entries.map((entry) => entry.action)).toEqual([
+      "create_certificate_template",
+      "save_certificate_template",
+      "restore_certificate_template",
+      "deactivate_certificate_template",
+    ])
+    expect(entries[1].details.changes).toContainEqual({
+      field: "name",
+      before: "Clearance",
+      after: "Barangay Clearance",
+    })
+    expect(entries[2].details).toMatchObject({ version: 3, restoredVersion: 1 })
+  })
+
+  test("toggleActive rejects a missing template", async () => {
+    const t = convexTest(schema, modules)
+    const superadmin = await asSuperadmin(t)
+    const templateId = await superadmin.mutation(api.certificateTemplates.create, { name: "Clearance" })
+    await t.run((ctx) => ctx.db.delete(templateId))
+
+    await expect(
+      superadmin.mutation(api.certificateTemplates.toggleActive, { id: templateId, isActive: false })
+    ).rejects.toThrow("Template not found")
+  })
+})
@@ -0,0 +1,322 @@
+/**
+ * Convex functions for managing certificate templates
+ * Templates are versioned: every save writes a new immutable version row,
+ * so printed documents can always be traced back to the exact layout used
+ */
+
+import { v } from "convex/values"
+import { query, mutation, QueryCtx } from "./_generated/server"
+import { Id } from "./_generated/dataModel"
+import { requireRole, STAFF_ROLES, SUPERADMIN_ROLES } from "./users"
+import { getBuiltInLayout, layoutElementValidator, pageSizeValidator } from "./lib/certificates"
+import { logAudit } from "./auditLogs"
+
+// ==================== HELPERS ====================
+
+/**
+ * Get a specific version of a template
+ * Uses by_templateId_version index
+ */
+export async function getTemplateVersion(
+  ctx: QueryCtx,
+  templateId: Id<"certificateTemplates">,
+  version: number
+) {
+  return await ctx.db
+    .query("certificateTemplateVersions")
+    .withIndex("by_templateId_version", (q) =>
+      q.eq("templateId", templateId).eq("version", version)
+    )
+    .unique()
+}
+
+async function requireSuperadmin(ctx: QueryCtx) {
+  return await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage certificate templates")
+}
+
+// ==================== QUERIES ====================
+
+/**
+ * List all certificate templates
+ * Uses by_isActive index for filtering active templates
+ */
+export const list = query({
+  args: {
+    includeInactive: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view certificate templates")
+
+    if (args.includeInactive) {
+      return await ctx.db.query("certificateTemplates").order("desc").collect()
+    }
+
+    return await ctx.db
+      .query("certificateTemplates")
+      .withIndex("by_isActive", (q) => q.eq("isActive", true))
+      .order("desc")
+      .collect()
+  },
+})
+
+/**
+ * Get a template with its current version and background URL
+ * Used by the template designer and certificate previews
+ */
+export const get = query({
+  args: { id: v.id("certificateTemplates") },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view certificate templates")
+
+    const template = await ctx.db.get(args.id)
+    if (!template) return null
+
+    const version = await getTemplateVersion(ctx, template._id, template.currentVersion)
+    if (!version) return null
+
+    const backgroundUrl = version.backgroundStorageId
+      ? await ctx.storage.getUrl(version.backgroundStorageId)
+      : null
+
+    return { template, version, backgroundUrl }
+  },
+})
+
+/**
+ * List version history for a template (newest first)
+ * Uses by_templateId_version index
+ */
+export const listVersions = query({
+  args: { templateId: v.id("certificateTemplates") },
+  handler: async (ctx, args) => {
+    await requireSuperadmin(ctx)
+
+    return await ctx.db
+      .query("certificateTemplateVersions")
+      .withIndex("by_templateId_version", (q) => q.eq("templateId", args.templateId))
+      .order("desc")
+      .take(50)
+  },
+})
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Generate an upload URL for a background/letterhead image
+ * Superadmin only
+ */
+export const generateUploadUrl = mutation({
+  args: {},
+  handler: async (ctx) => {
+    await requireSuperadmin(ctx)
+    return await ctx.storage.generateUploadUrl()
+  },
+})
+
+/**
+ * Create a new certificate template (version 1)
+ * Starts from a built-in layout so the designer never opens on a blank page
+ * Superadmin only
+ */
+export const create = mutation({
+  args: {
+    name: v.string(),
+    baseTemplateKey: v.optional(v.string()), // Built-in layout to start from (e.g., "clearance.pdf")
+  },
+  handler: async (ctx, args) => {
+    const user = await requireSuperadmin(ctx)
+
+    const name = args.name.trim()
+    if (!name) throw new Error("Template name is required")
+
+    const existing = await ctx.db
+      .query("certificateTemplates")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first()
+
+    if (existing) {
+      throw new Error(`Template "${name}" already exists`)
+    }
+
+    const now = Date.now()
+    const templateId = await ctx.db.insert("certificateTemplates", {
+      name,
+      currentVersion: 1,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    const layout = getBuiltInLayout(args.baseTemplateKey ?? "")
+    await ctx.db.insert("certificateTemplateVersions", {
+      templateId,
+      version: 1,
+      pageSize: layout.pageSize,
+      elements: layout.elements,
+      createdBy: user.externalId,
+      createdAt: now,
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: "create_certificate_template",
+      resourceType: "certificateTemplate",
+      resourceId: templateId,
+      before: null,
+      after: await ctx.db.get(templateId),
+      details: { baseTemplateKey: args.baseTemplateKey ?? null },
+    })
+
+    return templateId
+  },
+})
+
+/**
+ * Save the designer's layout as a new version
+ * Previous versions are kept so already-printed certificates stay reproducible
+ * Superadmin only
+ */
+export const saveVersion = mutation({
+  args: {
+    templateId: v.id("certificateTemplates"),
+    name: v.optional(v.string()),
+    pageSize: pageSizeValidator,
+    backgroundStorageId: v.optional(v.id("_storage")),
+    elements: v.array(layoutElementValidator),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireSuperadmin(ctx)
+
+    const template = await ctx.db.get(args.templateId)
+    if (!template) throw new Error("Template not found")
+
+    const name = args.name?.trim()
+    if (name !== undefined && name !== template.name) {
+      if (!name) throw new Error("Template name is required")
+
+      const existing = await ctx.db
+        .query("certificateTemplates")
+        .withIndex("by_name", (q) => q.eq("name", name))
+        .first()
+
+      if (existing && existing._id !== args.templateId) {
+        throw new Error(`Template "${name}" already exists`)
+      }
+    }
+
+    const now = Date.now()
+    const version = template.currentVersion + 1
+
+    await ctx.db.insert("certificateTemplateVersions", {
+      templateId: args.templateId,
+      version,
+      pageSize: args.pageSize,
+      backgroundStorageId: args.backgroundStorageId,
+      elements: args.elements,
+      createdBy: user.externalId,
+      createdAt: now,
+    })
+
+    await ctx.db.patch(args.templateId, {
+      name: name || template.name,
+      currentVersion: version,
+      updatedAt: now,
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: "save_certificate_template",
+      resourceType: "certificateTemplate",
+      resourceId: args.templateId,
+      before: template,
+      after: await ctx.db.get(args.templateId),
+      details: { version },
+    })
+
+    return { templateId: args.templateId, version }
+  },
+})
+
+/**
+ * Restore an older version by copying it as the newest version
+ * Superadmin only
+ */
+export const restoreVersion = mutation({
+  args: {
+    templateId: v.id("certificateTemplates"),
+    version: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireSuperadmin(ctx)
+
+    const template = await ctx.db.get(args.templateId)
+    if (!template) throw new Error("Template not found")
+
+    const source = await getTemplateVersion(ctx, args.templateId, args.version)
+    if (!source) throw new Error(`Version ${args.version} not found`)
+
+    const now = Date.now()
+    const version = template.currentVersion + 1
+
+    await ctx.db.insert("certificateTemplateVersions", {
+      templateId: args.templateId,
+      version,
+      pageSize: source.pageSize,
+      backgroundStorageId: source.backgroundStorageId,
+      elements: source.elements,
+      createdBy: user.externalId,
+      createdAt: now,
+    })
+
+    await ctx.db.patch(args.templateId, {
+      currentVersion: version,
+      updatedAt: now,
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: "restore_certificate_template",
+      resourceType: "certificateTemplate",
+      resourceId: args.templateId,
+      before: template,
+      after: await ctx.db.get(args.templateId),
+      details: { version, restoredVersion: args.version },
+    })
+
+    return { templateId: args.templateId, version }
+  },
+})
+
+/**
+ * Toggle template active status
+ * Inactive templates can't be assigned to document types
+ * Superadmin only
+ */
+export const toggleActive = mutation({
+  args: {
+    id: v.id("certificateTemplates"),
+    isActive: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireSuperadmin(ctx)
+
+    const template = await ctx.db.get(args.id)
+    if (!template) throw new Error("Template not found")
+
+    await ctx.db.patch(args.id, {
+      isActive: args.isActive,
+      updatedAt: Date.now(),
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: args.isActive ? "activate_certificate_template" : "deactivate_certificate_template",
+      resourceType: "certificateTemplate",
+      resourceId: args.id,
+      before: template,
+      after: await ctx.db.get(args.id),
+    })
+
+    return args.id
+  },
+})
@@ -0,0 +1,101 @@
+import { convexTest } from "convex-test"
+import { describe, expect, test } from "vitest"
+import { api } from "./_generated/api"
+import { insertPrintedDocument } from "./certificates"
+import { generateVerificationCode } from "./lib/certificates"
+import schema from "./schema"
+import { modules, testResident } from "./test.setup"
+
+/**
+ * Seed a request with one clearance item
+ */
+async function seedItem(t: ReturnType<typeof convexTest>) {
+  return await t.run(async (ctx) => {
+    const now = Date.now()
+    const documentTypeId = await ctx.db.insert("documentTypes", {
+      name: "Barangay Clearance",
+      templateKey: "clearance.pdf",
+      price: 5000,
+      requiresPurpose: false,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    })
+    const residentId = await ctx.db.insert("residents", testResident())
+    const documentRequestId = await ctx.db.insert("documentRequests", {
+      residentId,
+      requestNumber: "REQ-20260101-001",
+      status: "serving",
+      totalPrice: 5000,
+      requestedAt: now,
+    })
+    return await ctx.db.insert("documentRequestItems", {
+      documentRequestId,
+      documentTypeId,
+      purpose: "",
+      status: "pending",
+      createdAt: now,
+    })
+  })
+}
+
+describe("reprints", () => {
+  test("supersede every earlier copy, and verify reports it", async () => {
+    const t = convexTest(schema, modules)
+    const documentRequestItemId = await seedItem(t)
+    const codes = [generateVerificationCode(), generateVerificationCode(), generateVerificationCode()]
+
+    const printedAt = [Date.UTC(2026, 0, 5, 1), Date.UTC(2026, 0, 5, 2), Date.UTC(2026, 0, 6, 1)]
+    for (const [index, verificationCode] of codes.entries()) {
+      await t.run((ctx) =>
+        insertPrintedDocument(ctx, {
+          documentRequestItemId,
+          printedBy: "user_1",
+          printedAt: printedAt[index],
+          verificationCode,
+          reprintReason: index > 0 ? "Printer jam" : undefined,
+        })
+      )
+    }
+
+    const [first, second, latest] = await Promise.all(
+      codes.map((code) => t.query(api.certificates.verify, { code }))
+    )
+    expect(first).toMatchObject({ issuedAt: printedAt[0], supersededAt: printedAt[1], revokedAt: null })
+    expect(second).toMatchObject({ issuedAt: printedAt[1], supersededAt: printedAt[2], revokedAt: null })
+    expect(latest).toMatchObject({ issuedAt: printedAt[2], supersededAt: null, revokedAt: null })
+
+    const copies = await t.run((ctx) => ctx.db.query("printedDocuments").collect())
+    expect(copies.map((copy) => copy.supersededById ?? null)).toEqual([copies[1]._id, copies[2]._id, null])
+  })
+})
+
+describe("render", () => {
+  test("deletes the stored PDF when a double-click loses the race", async () => {
+    const t = convexTest(schema, modules)
+    const documentRequestItemId = await seedItem(t)
+    await t.run(async (ctx) => {
+      const now = Date.now()
+      await ctx.db.insert("users", {
+        name: "Staff",
+        externalId: "user_staff",
+        role: "staff",
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+    })
+
+    const staff = t.withIdentity({ subject: "user_staff" })
+    const results = await Promise.allSettled([
+      staff.action(api.certificates.render, { documentRequestItemId }),
+      staff.action(api.certificates.render, { documentRequestItemId }),
+    ])
+    expect(results.map((result) => result.status).sort()).toEqual(["fulfilled", "rejected"])
+
+    const printed = await t.run((ctx) => ctx.db.query("printedDocuments").collect())
+    const files = await t.run((ctx) => ctx.db.system.query("_storage").collect())
+    expect(printed).toHaveLength(1)
+    expect(files.map((file) => file._id)).toEqual([printed[0].pdfPath])
+  })
+})
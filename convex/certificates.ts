@@ -0,0 +1,600 @@
+/**
+ * Convex functions for rendering certificates to PDF
+ * Resolves the document type's template, fills it with resident/request data,
+ * stores the PDF in Convex file storage and records it in printedDocuments
+ */
+
+import { v } from "convex/values"
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib"
+import {
+  action,
+  internalMutation,
+  internalQuery,
+  mutation,
+  MutationCtx,
+  query,
+  QueryCtx,
+} from "./_generated/server"
+import { internal } from "./_generated/api"
+import { Doc, Id } from "./_generated/dataModel"
+import { requireUser, requireRole, STAFF_ROLES, ADMIN_ROLES, userByExternalId } from "./users"
+import { getTemplateVersion } from "./certificateTemplates"
+import {
+  CertificateLayout,
+  CertificateValues,
+  PAGE_SIZES,
+  buildCertificateValues,
+  fillLayout,
+  generateVerificationCode,
+  getBuiltInLayout,
+  getQrModules,
+  getQrPlacement,
+  normalizeVerificationCode,
+  wrapText,
+} from "./lib/certificates"
+
+// ==================== HELPERS ====================
+
+/**
+ * Resolve the layout for a document type
+ * Prefers the stored template's current version; falls back to the built-in layout
+ */
+async function resolveLayout(ctx: QueryCtx, documentType: Doc<"documentTypes">) {
+  const template = documentType.templateId ? await ctx.db.get(documentType.templateId) : null
+  const templateVersion = template
+    ? await getTemplateVersion(ctx, template._id, template.currentVersion)
+    : null
+
+  const layout: CertificateLayout = templateVersion
+    ? { pageSize: templateVersion.pageSize, elements: templateVersion.elements }
+    : getBuiltInLayout(documentType.templateKey)
+
+  return { layout, templateVersion }
+}
+
+/**
+ * Write a printedDocuments row for an item and mark the item as printed
+ * Printing an item that was already printed counts as a reprint:
+ * a reason is required, reprintCount continues from the previous print
+ * and the earlier copies are marked superseded so verification flags them
+ */
+export async function insertPrintedDocument(
+  ctx: MutationCtx,
+  args: {
+    documentRequestItemId: Id<"documentRequestItems">
+    printedBy: string // Clerk user ID
+    printedAt: number
+    pdfPath?: string
+    templateVersionId?: Id<"certificateTemplateVersions">
+    verificationCode?: string
+    reprintReason?: string
+  }
+) {
+  const item = await ctx.db.get(args.documentRequestItemId)
+  if (!item) throw new Error("Document request item not found")
+
+  const previous = await ctx.db
+    .query("printedDocuments")
+    .withIndex("by_documentRequestItemId", (q) =>
+      q.eq("documentRequestItemId", args.documentRequestItemId)
+    )
+    .order("desc")
+    .first()
+
+  // Items printed before print history was recorded have no previous row
+  const isReprint = previous !== null || item.status === "printed"
+  const reprintReason = args.reprintReason?.trim()
+  if (isReprint && !reprintReason) {
+    throw new Error("A reason is required to reprint a document")
+  }
+
+  const printedDocumentId = await ctx.db.insert("printedDocuments", {
+    documentRequestItemId: args.documentRequestItemId,
+    printedBy: args.printedBy,
+    printedAt: args.printedAt,
+    reprintCount: isReprint ? (previous?.reprintCount ?? 0) + 1 : 0,
+    reprintReason: isReprint ? reprintReason : undefined,
+    pdfPath: args.pdfPath,
+    templateVersionId: args.templateVersionId,
+    verificationCode: args.verificationCode,
+  })
+
+  if (isReprint) {
+    const earlier = await ctx.db
+      .query("printedDocuments")
+      .withIndex("by_documentRequestItemId", (q) =>
+        q.eq("documentRequestItemId", args.documentRequestItemId)
+      )
+      .collect()
+    for (const doc of earlier) {
+      if (doc._id === printedDocumentId || doc.supersededAt !== undefined) continue
+      await ctx.db.patch(doc._id, { supersededAt: args.printedAt, supersededById: printedDocumentId })
+    }
+  }
+
+  await ctx.db.patch(args.documentRequestItemId, {
+    status: "printed",
+    printedAt: args.printedAt,
+  })
+
+  return printedDocumentId
+}
+
+/**
+ * Find a printed document by its verification code
+ * Uses by_verificationCode index
+ */
+async function getByVerificationCode(ctx: QueryCtx, code: string) {
+  return await ctx.db
+    .query("printedDocuments")
+    .withIndex("by_verificationCode", (q) =>
+      q.eq("verificationCode", normalizeVerificationCode(code))
+    )
+    .first()
+}
+
+/**
+ * Mask a name for the public verification page: "Juan Dela Cruz" -> "J*** D*** C***"
+ */
+function maskName(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => `${part[0]}***`)
+    .join(" ")
+}
+
+// ==================== QUERIES ====================
+
+/**
+ * Load everything needed to render one document request item
+ * Staff only - called from the render action
+ */
+export const getRenderContext = internalQuery({
+  args: { documentRequestItemId: v.id("documentRequestItems") },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can print certificates")
+
+    const item = await ctx.db.get(args.documentRequestItemId)
+    if (!item) throw new Error("Document request item not found")
+
+    const request = await ctx.db.get(item.documentRequestId)
+    if (!request) throw new Error("Document request not found")
+
+    const resident = await ctx.db.get(request.residentId)
+    if (!resident) throw new Error("Resident not found")
+
+    const documentType = await ctx.db.get(item.documentTypeId)
+    if (!documentType) throw new Error("Document type not found")
+
+    const officials = await ctx.db
+      .query("barangayOfficials")
+      .withIndex("by_isActive", (q) => q.eq("isActive", true))
+      .collect()
+
+    const { layout, templateVersion } = await resolveLayout(ctx, documentType)
+
+    return {
+      isPrinted: item.status === "printed",
+      layout,
+      backgroundStorageId: templateVersion?.backgroundStorageId ?? null,
+      templateVersionId: templateVersion?._id ?? null,
+      resident,
+      documentTypeName: documentType.name,
+      requestNumber: request.requestNumber,
+      purpose: item.purpose,
+      officials: officials.map((official) => ({
+        position: official.position,
+        name: official.name,
+      })),
+    }
+  },
+})
+
+/**
+ * Get the layout, background and signatories for previewing an item
+ * Resident fields and purpose come from the client so edits preview instantly
+ */
+export const getPreviewLayout = query({
+  args: { documentRequestItemId: v.id("documentRequestItems") },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can preview certificates")
+
+    const item = await ctx.db.get(args.documentRequestItemId)
+    if (!item) return null
+
+    const documentType = await ctx.db.get(item.documentTypeId)
+    if (!documentType) return null
+
+    const { layout, templateVersion } = await resolveLayout(ctx, documentType)
+
+    const officials = await ctx.db
+      .query("barangayOfficials")
+      .withIndex("by_isActive", (q) => q.eq("isActive", true))
+      .collect()
+
+    return {
+      layout,
+      backgroundUrl: templateVersion?.backgroundStorageId
+        ? await ctx.storage.getUrl(templateVersion.backgroundStorageId)
+        : null,
+      officials: officials.map((official) => ({
+        position: official.position,
+        name: official.name,
+      })),
+    }
+  },
+})
+
+/**
+ * Get a download URL for a printed certificate's stored PDF
+ * Used to reopen/reprint the exact document that was issued
+ */
+export const getPdfUrl = query({
+  args: { printedDocumentId: v.id("printedDocuments") },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view printed documents")
+
+    const printed = await ctx.db.get(args.printedDocumentId)
+    if (!printed?.pdfPath) return null
+
+    return await ctx.storage.getUrl(printed.pdfPath as Id<"_storage">)
+  },
+})
+
+/**
+ * List printed documents for a document request item (newest first)
+ * Uses by_documentRequestItemId index
+ */
+export const listByItem = query({
+  args: { documentRequestItemId: v.id("documentRequestItems") },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view printed documents")
+
+    return await ctx.db
+      .query("printedDocuments")
+      .withIndex("by_documentRequestItemId", (q) =>
+        q.eq("documentRequestItemId", args.documentRequestItemId)
+      )
+      .order("desc")
+      .take(20)
+  },
+})
+
+/**
+ * List reprints across all of a resident's requests (newest first)
+ * Shown in the resident's transaction history - Admin only
+ */
+export const listReprintsByResident = query({
+  args: { residentId: v.id("residents") },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can view reprint history")
+
+    const requests = await ctx.db
+      .query("documentRequests")
+      .withIndex("by_residentId", (q) => q.eq("residentId", args.residentId))
+      .order("desc")
+      .take(100) // Same window as the transaction history table
+
+    const reprints = []
+    for (const request of requests) {
+      const items = await ctx.db
+        .query("documentRequestItems")
+        .withIndex("by_documentRequestId", (q) => q.eq("documentRequestId", request._id))
+        .take(50)
+
+      for (const item of items) {
+        const printed = await ctx.db
+          .query("printedDocuments")
+          .withIndex("by_documentRequestItemId", (q) => q.eq("documentRequestItemId", item._id))
+          .collect()
+
+        for (const doc of printed) {
+          if (doc.reprintCount === 0) continue
+          const documentType = await ctx.db.get(item.documentTypeId)
+          const printedBy = await userByExternalId(ctx, doc.printedBy)
+          reprints.push({
+            _id: doc._id,
+            documentRequestId: request._id,
+            requestNumber: request.requestNumber,
+            documentTypeName: documentType?.name ?? "Unknown",
+            reprintCount: doc.reprintCount,
+            reprintReason: doc.reprintReason ?? "",
+            printedAt: doc.printedAt,
+            printedByName: printedBy?.name ?? "Unknown",
+          })
+        }
+      }
+    }
+
+    return reprints.sort((a, b) => b.printedAt - a.printedAt)
+  },
+})
+
+/**
+ * Verify a certificate by the code printed on it (public - no auth)
+ * Only reveals what a verifier needs: document type, masked name, issue date and status
+ * (revoked, or superseded by a reprint)
+ */
+export const verify = query({
+  args: { code: v.string() },
+  handler: async (ctx, args) => {
+    const printed = await getByVerificationCode(ctx, args.code)
+    if (!printed) return null
+
+    const item = await ctx.db.get(printed.documentRequestItemId)
+    const request = item ? await ctx.db.get(item.documentRequestId) : null
+    const resident = request ? await ctx.db.get(request.residentId) : null
+    const documentType = item ? await ctx.db.get(item.documentTypeId) : null
+
+    return {
+      printedDocumentId: printed._id,
+      verificationCode: printed.verificationCode,
+      documentTypeName: documentType?.name ?? "Certificate",
+      residentName: resident ? maskName(`${resident.firstName} ${resident.lastName}`) : "",
+      issuedAt: printed.printedAt,
+      revokedAt: printed.revokedAt ?? null,
+      supersededAt: printed.supersededAt ?? null,
+    }
+  },
+})
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Record a rendered PDF and mark the item as printed
+ * Called by the render action after the PDF is stored
+ */
+export const recordPrinted = internalMutation({
+  args: {
+    documentRequestItemId: v.id("documentRequestItems"),
+    storageId: v.id("_storage"),
+    printedAt: v.number(),
+    templateVersionId: v.optional(v.id("certificateTemplateVersions")),
+    verificationCode: v.string(),
+    reprintReason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx)
+
+    // Codes are random; a collision is practically impossible but must never go unnoticed
+    if (await getByVerificationCode(ctx, args.verificationCode)) {
+      throw new Error("Verification code collision - please print again")
+    }
+
+    return await insertPrintedDocument(ctx, {
+      documentRequestItemId: args.documentRequestItemId,
+      printedBy: user.externalId, // Store Clerk user ID
+      printedAt: args.printedAt,
+      pdfPath: args.storageId,
+      templateVersionId: args.templateVersionId,
+      verificationCode: args.verificationCode,
+      reprintReason: args.reprintReason,
+    })
+  },
+})
+
+/**
+ * Revoke a printed certificate (Admin action)
+ * The verification page will show it as revoked from then on
+ */
+export const revoke = mutation({
+  args: {
+    printedDocumentId: v.id("printedDocuments"),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admins can revoke certificates")
+
+    const reason = args.reason.trim()
+    if (!reason) throw new Error("A reason is required to revoke a certificate")
+
+    const printed = await ctx.db.get(args.printedDocumentId)
+    if (!printed) throw new Error("Printed document not found")
+    if (printed.revokedAt) throw new Error("Certificate is already revoked")
+
+    await ctx.db.patch(args.printedDocumentId, {
+      revokedAt: Date.now(),
+      revokedBy: user.externalId, // Store Clerk user ID
+      revocationReason: reason,
+    })
+
+    return args.printedDocumentId
+  },
+})
+
+// ==================== ACTIONS ====================
+
+/**
+ * Render a document request item to PDF (Staff action)
+ * Stores the PDF in file storage, writes a printedDocuments row,
+ * marks the item as printed, and returns a URL for printing
+ * Rendering an already printed item is a reprint and needs a reason
+ */
+export const render = action({
+  args: {
+    documentRequestItemId: v.id("documentRequestItems"),
+    reprintReason: v.optional(v.string()),
+  },
+  handler: async (
+    ctx,
+    args
+  ): Promise<{ printedDocumentId: Id<"printedDocuments">; url: string | null }> => {
+    const renderContext = await ctx.runQuery(internal.certificates.getRenderContext, {
+      documentRequestItemId: args.documentRequestItemId,
+    })
+
+    // Fail before rendering; recordPrinted enforces this again
+    if (renderContext.isPrinted && !args.reprintReason?.trim()) {
+      throw new Error("A reason is required to reprint a document")
+    }
+
+    const printedAt = Date.now()
+    const verificationCode = generateVerificationCode()
+    const values = buildCertificateValues({
+      resident: renderContext.resident,
+      documentTypeName: renderContext.documentTypeName,
+      requestNumber: renderContext.requestNumber,
+      purpose: renderContext.purpose,
+      issuedAt: printedAt,
+      officials: renderContext.officials,
+      verificationCode,
+      siteUrl: process.env.SITE_URL, // Public app URL, set in the Convex dashboard
+    })
+
+    const background = renderContext.backgroundStorageId
+      ? await ctx.storage.get(renderContext.backgroundStorageId)
+      : null
+
+    const pdfBytes = await renderPdf(renderContext.layout, values, background)
+    const storageId = await ctx.storage.store(
+      new Blob([new Uint8Array(pdfBytes)], { type: "application/pdf" })
+    )
+
+    let printedDocumentId: Id<"printedDocuments">
+    try {
+      printedDocumentId = await ctx.runMutation(internal.certificates.recordPrinted, {
+        documentRequestItemId: args.documentRequestItemId,
+        storageId,
+        printedAt,
+        templateVersionId: renderContext.templateVersionId ?? undefined,
+        verificationCode,
+        reprintReason: args.reprintReason,
+      })
+    } catch (error) {
+      // Nothing points at the PDF (e.g. a double-click already printed the item), so drop it
+      await ctx.storage.delete(storageId)
+      throw error
+    }
+
+    return {
+      printedDocumentId,
+      url: await ctx.storage.getUrl(storageId),
+    }
+  },
+})
+
+// ==================== PDF RENDERING ====================
+
+const LINE_HEIGHT = 1.4 // Multiple of font size
+
+/**
+ * Drop characters the standard PDF fonts cannot encode (e.g. emoji, ₱)
+ * so a stray character in resident data never fails a print
+ */
+function toEncodable(text: string, font: PDFFont): string {
+  const supported = new Set(font.getCharacterSet())
+  return Array.from(text)
+    .filter((char) => supported.has(char.codePointAt(0)!))
+    .join("")
+}
+
+/**
+ * Embed a background/letterhead image, detecting PNG vs JPEG from its signature
+ */
+async function embedBackground(pdf: PDFDocument, background: Blob) {
+  const bytes = new Uint8Array(await background.arrayBuffer())
+  const isPng = bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47
+  return isPng ? await pdf.embedPng(bytes) : await pdf.embedJpg(bytes)
+}
+
+/**
+ * Draw the verification QR code and its code label in the bottom-right corner
+ */
+function drawVerificationQr(
+  page: PDFPage,
+  layout: CertificateLayout,
+  values: CertificateValues,
+  font: PDFFont
+) {
+  const { height } = PAGE_SIZES[layout.pageSize]
+  const placement = getQrPlacement(layout.pageSize)
+  const modules = getQrModules(values.verification.url)
+  const cell = placement.size / modules.length
+
+  // White quiet zone so the code still scans over a letterhead background
+  page.drawRectangle({
+    x: placement.x - 4,
+    y: height - placement.y - placement.size - 4,
+    width: placement.size + 8,
+    height: placement.size + 8,
+    color: rgb(1, 1, 1),
+  })
+
+  modules.forEach((row, rowIndex) => {
+    row.forEach((isDark, colIndex) => {
+      if (!isDark) return
+      page.drawRectangle({
+        x: placement.x + colIndex * cell,
+        y: height - placement.y - (rowIndex + 1) * cell,
+        width: cell,
+        height: cell,
+        color: rgb(0, 0, 0),
+      })
+    })
+  })
+
+  const label = values.verification.code
+  const labelWidth = font.widthOfTextAtSize(label, placement.labelFontSize)
+  page.drawText(label, {
+    x: placement.x + (placement.size - labelWidth) / 2,
+    y: height - placement.y - placement.size - placement.labelFontSize - 3,
+    size: placement.labelFontSize,
+    font,
+    color: rgb(0, 0, 0),
+  })
+}
+
+/**
+ * Draw a filled layout onto a single PDF page
+ * Layout coordinates are top-left based; pdf-lib draws from the bottom-left
+ */
+async function renderPdf(
+  layout: CertificateLayout,
+  values: CertificateValues,
+  background: Blob | null
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create()
+  const { width, height } = PAGE_SIZES[layout.pageSize]
+  const page = pdf.addPage([width, height])
+
+  if (background) {
+    // Background is stretched to the full page, like the designer preview
+    const image = await embedBackground(pdf, background)
+    page.drawImage(image, { x: 0, y: 0, width, height })
+  }
+
+  const regular = await pdf.embedFont(StandardFonts.Helvetica)
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold)
+
+  for (const element of fillLayout(layout, values)) {
+    const font = element.bold ? bold : regular
+    const text = toEncodable(element.text, font)
+    const measure = (line: string) => font.widthOfTextAtSize(line, element.fontSize)
+    const lines = element.maxWidth ? wrapText(text, element.maxWidth, measure) : [text]
+
+    lines.forEach((line, index) => {
+      const lineWidth = measure(line)
+      let x = element.x
+      if (element.align === "center") x -= lineWidth / 2
+      if (element.align === "right") x -= lineWidth
+
+      page.drawText(line, {
+        x,
+        y: height - element.y - element.fontSize - index * element.fontSize * LINE_HEIGHT,
+        size: element.fontSize,
+        font,
+        color: rgb(0, 0, 0),
+      })
+    })
+  }
+
+  if (values.verification.code) {
+    drawVerificationQr(page, layout, values, regular)
+  }
+
+  pdf.setTitle(values.documentType.name)
+  pdf.setCreator("BHIMS")
+
+  return await pdf.save()
+}
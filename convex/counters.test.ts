@@ -0,0 +1,107 @@
+import { convexTest } from "convex-test"
+import { describe, expect, test } from "vitest"
+import { canServeRequest } from "./counters"
+import schema from "./schema"
+import { modules, testResident } from "./test.setup"
+
+/**
+ * Seed a request for a clearance and an indigency certificate, a clearance counter and a permit counter
+ */
+async function seed(t: ReturnType<typeof convexTest>) {
+  return await t.run(async (ctx) => {
+    const now = Date.now()
+    const documentType = { templateKey: "clearance.pdf", price: 0, requiresPurpose: false, isActive: true }
+    const clearanceId = await ctx.db.insert("documentTypes", {
+      ...documentType,
+      name: "Barangay Clearance",
+      createdAt: now,
+      updatedAt: now,
+    })
+    const indigencyId = await ctx.db.insert("documentTypes", {
+      ...documentType,
+      name: "Certificate of Indigency",
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    const residentId = await ctx.db.insert("residents", testResident())
+    const documentRequestId = await ctx.db.insert("documentRequests", {
+      residentId,
+      requestNumber: "REQ-20260101-001",
+      status: "queued",
+      totalPrice: 0,
+      requestedAt: now,
+    })
+    for (const documentTypeId of [clearanceId, indigencyId]) {
+      await ctx.db.insert("documentRequestItems", {
+        documentRequestId,
+        documentTypeId,
+        purpose: "",
+        status: "pending",
+        createdAt: now,
+      })
+    }
+
+    const counter = { isOpen: true, createdAt: now, updatedAt: now }
+    const clearanceCounterId = await ctx.db.insert("counters", {
+      ...counter,
+      number: 1,
+      name: "Clearances",
+      documentTypeIds: [clearanceId],
+    })
+    // Counter 2 serves a document type the request doesn't have
+    const permitId = await ctx.db.insert("documentTypes", {
+      ...documentType,
+      name: "Business Permit",
+      createdAt: now,
+      updatedAt: now,
+    })
+    const otherCounterId = await ctx.db.insert("counters", {
+      ...counter,
+      number: 2,
+      name: "Permits",
+      documentTypeIds: [permitId],
+    })
+
+    return { documentRequestId, clearanceCounterId, otherCounterId }
+  })
+}
+
+describe("canServeRequest", () => {
+  test("lets a counter serving one of the documents take a mixed request when no counter serves all", async () => {
+    const t = convexTest(schema, modules)
+    const { documentRequestId, clearanceCounterId, otherCounterId } = await seed(t)
+
+    const result = await t.run(async (ctx) => ({
+      clearance: await canServeRequest(ctx, (await ctx.db.get(clearanceCounterId))!, documentRequestId),
+      other: await canServeRequest(ctx, (await ctx.db.get(otherCounterId))!, documentRequestId),
+    }))
+
+    expect(result).toEqual({ clearance: true, other: false })
+  })
+
+  test("leaves mixed requests to an open general counter", async () => {
+    const t = convexTest(schema, modules)
+    const { documentRequestId, clearanceCounterId, otherCounterId } = await seed(t)
+    await t.run((ctx) => ctx.db.patch(otherCounterId, { documentTypeIds: [] }))
+
+    const result = await t.run(async (ctx) => ({
+      clearance: await canServeRequest(ctx, (await ctx.db.get(clearanceCounterId))!, documentRequestId),
+      general: await canServeRequest(ctx, (await ctx.db.get(otherCounterId))!, documentRequestId),
+    }))
+
+    expect(result).toEqual({ clearance: false, general: true })
+  })
+
+  test("falls back while the general counter is closed", async () => {
+    const t = convexTest(schema, modules)
+    const { documentRequestId, clearanceCounterId, otherCounterId } = await seed(t)
+    await t.run((ctx) => ctx.db.patch(otherCounterId, { documentTypeIds: [], isOpen: false }))
+
+    const canServe = await t.run(async (ctx) =>
+      canServeRequest(ctx, (await ctx.db.get(clearanceCounterId))!, documentRequestId)
+    )
+
+    expect(canServe).toBe(true)
+  })
+})
@@ -0,0 +1,299 @@
+/**
+ * Convex functions for service counters
+ * Superadmin defines counters and the document types each serves
+ * (service types list their own counters); staff pick their counter at the start of a shift
+ */
+
+import { v } from "convex/values"
+import { query, mutation, QueryCtx } from "./_generated/server"
+import { Doc, Id } from "./_generated/dataModel"
+import { requireRole, STAFF_ROLES, SUPERADMIN_ROLES, userByExternalId } from "./users"
+import { logAudit } from "./auditLogs"
+
+// ==================== HELPERS ====================
+
+/**
+ * Get the counter a staff member is currently assigned to (or null)
+ */
+export async function getCounterForStaff(ctx: QueryCtx, externalId: string) {
+  return await ctx.db
+    .query("counters")
+    .withIndex("by_activeStaffId", (q) => q.eq("activeStaffId", externalId))
+    .first()
+}
+
+/**
+ * Whether a counter can serve a request
+ * A counter with no document types is a general counter and serves everything.
+ * A request mixing document types goes to a counter that serves all of them; while no open
+ * counter does, any counter serving at least one of them takes it instead of leaving it waiting
+ */
+export async function canServeRequest(
+  ctx: QueryCtx,
+  counter: Doc<"counters">,
+  documentRequestId: Id<"documentRequests">
+) {
+  if (counter.documentTypeIds.length === 0) return true
+
+  const items = await ctx.db
+    .query("documentRequestItems")
+    .withIndex("by_documentRequestId", (q) => q.eq("documentRequestId", documentRequestId))
+    .take(50)
+
+  const servesItem = (other: Doc<"counters">, item: Doc<"documentRequestItems">) =>
+    other.documentTypeIds.length === 0 || other.documentTypeIds.includes(item.documentTypeId)
+
+  if (items.every((item) => servesItem(counter, item))) return true
+  if (!items.some((item) => servesItem(counter, item))) return false
+
+  const counters = await ctx.db.query("counters").withIndex("by_number").collect()
+  return !counters.some((other) => other.isOpen && items.every((item) => servesItem(other, item)))
+}
+
+/**
+ * Whether a counter can call a queue ticket
+ * Service tickets follow their service type's counters (empty = any counter);
+ * document request tickets follow the counter's document types
+ */
+export async function canServeQueueItem(ctx: QueryCtx, counter: Doc<"counters">, item: Doc<"queue">) {
+  if (item.serviceTypeId) {
+    const serviceType = await ctx.db.get(item.serviceTypeId)
+    if (!serviceType) return true
+    return serviceType.counterIds.length === 0 || serviceType.counterIds.includes(counter._id)
+  }
+  if (!item.documentRequestId) return true
+  return await canServeRequest(ctx, counter, item.documentRequestId)
+}
+
+async function ensureUniqueNumber(ctx: QueryCtx, number: number, excludeId?: Id<"counters">) {
+  const existing = await ctx.db
+    .query("counters")
+    .withIndex("by_number", (q) => q.eq("number", number))
+    .first()
+
+  if (existing && existing._id !== excludeId) {
+    throw new Error(`Counter ${number} already exists`)
+  }
+}
+
+// ==================== QUERIES ====================
+
+/**
+ * List all counters with the name of the staff currently assigned
+ * Ordered by counter number
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view counters")
+
+    const counters = await ctx.db.query("counters").withIndex("by_number").collect()
+
+    return await Promise.all(
+      counters.map(async (counter) => {
+        const staff = counter.activeStaffId
+          ? await userByExternalId(ctx, counter.activeStaffId)
+          : null
+        return { ...counter, activeStaffName: staff?.name ?? null }
+      })
+    )
+  },
+})
+
+/**
+ * Get the counter the current staff member is working at
+ */
+export const getMine = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can view counters")
+    return await getCounterForStaff(ctx, user.externalId)
+  },
+})
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Create a counter (Superadmin only)
+ */
+export const create = mutation({
+  args: {
+    number: v.number(),
+    name: v.string(),
+    documentTypeIds: v.array(v.id("documentTypes")),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage counters")
+
+    if (!Number.isInteger(args.number) || args.number < 1) {
+      throw new Error("Counter number must be a positive whole number")
+    }
+    await ensureUniqueNumber(ctx, args.number)
+
+    const now = Date.now()
+    const id = await ctx.db.insert("counters", {
+      number: args.number,
+      name: args.name.trim() || `Counter ${args.number}`,
+      documentTypeIds: args.documentTypeIds,
+      isOpen: false,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: "create_counter",
+      resourceType: "counter",
+      resourceId: id,
+      before: null,
+      after: await ctx.db.get(id),
+    })
+
+    return id
+  },
+})
+
+/**
+ * Update a counter's number, name or document types (Superadmin only)
+ */
+export const update = mutation({
+  args: {
+    id: v.id("counters"),
+    number: v.optional(v.number()),
+    name: v.optional(v.string()),
+    documentTypeIds: v.optional(v.array(v.id("documentTypes"))),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage counters")
+
+    const before = await ctx.db.get(args.id)
+    if (!before) throw new Error("Counter not found")
+
+    if (args.number !== undefined) {
+      if (!Number.isInteger(args.number) || args.number < 1) {
+        throw new Error("Counter number must be a positive whole number")
+      }
+      await ensureUniqueNumber(ctx, args.number, args.id)
+    }
+
+    const { id, ...updates } = args
+    const cleanUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([_, value]) => value !== undefined)
+    )
+
+    await ctx.db.patch(id, {
+      ...cleanUpdates,
+      updatedAt: Date.now(),
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: "update_counter",
+      resourceType: "counter",
+      resourceId: id,
+      before,
+      after: await ctx.db.get(id),
+    })
+
+    return id
+  },
+})
+
+/**
+ * Delete a counter (Superadmin only)
+ * Refuses while a staff member is working at it
+ */
+export const remove = mutation({
+  args: { id: v.id("counters") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage counters")
+
+    const counter = await ctx.db.get(args.id)
+    if (!counter) throw new Error("Counter not found")
+
+    if (counter.isOpen && counter.activeStaffId) {
+      throw new Error(`Counter ${counter.number} is open. Close it before deleting.`)
+    }
+
+    await ctx.db.delete(args.id)
+
+    // Drop the counter from service types that list it (an emptied list means any counter)
+    const serviceTypes = await ctx.db.query("serviceTypes").collect()
+    for (const serviceType of serviceTypes) {
+      if (serviceType.counterIds.includes(args.id)) {
+        await ctx.db.patch(serviceType._id, {
+          counterIds: serviceType.counterIds.filter((id) => id !== args.id),
+          updatedAt: Date.now(),
+        })
+      }
+    }
+
+    await logAudit(ctx, {
+      user,
+      action: "delete_counter",
+      resourceType: "counter",
+      resourceId: args.id,
+      before: counter,
+      after: null,
+    })
+
+    return args.id
+  },
+})
+
+/**
+ * Start working at a counter (Staff action, at shift start)
+ * Releases any other counter the staff member was holding
+ */
+export const open = mutation({
+  args: { id: v.id("counters") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can open counters")
+
+    const counter = await ctx.db.get(args.id)
+    if (!counter) throw new Error("Counter not found")
+
+    if (counter.activeStaffId && counter.activeStaffId !== user.externalId) {
+      const staff = await userByExternalId(ctx, counter.activeStaffId)
+      throw new Error(`Counter ${counter.number} is in use by ${staff?.name ?? "another staff member"}`)
+    }
+
+    const current = await getCounterForStaff(ctx, user.externalId)
+    if (current && current._id !== counter._id) {
+      await ctx.db.patch(current._id, {
+        activeStaffId: undefined,
+        isOpen: false,
+        updatedAt: Date.now(),
+      })
+    }
+
+    await ctx.db.patch(counter._id, {
+      activeStaffId: user.externalId,
+      isOpen: true,
+      updatedAt: Date.now(),
+    })
+
+    return counter._id
+  },
+})
+
+/**
+ * Close the current staff member's counter (end of shift / break)
+ */
+export const close = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can close counters")
+
+    const counter = await getCounterForStaff(ctx, user.externalId)
+    if (!counter) return null
+
+    await ctx.db.patch(counter._id, {
+      activeStaffId: undefined,
+      isOpen: false,
+      updatedAt: Date.now(),
+    })
+
+    return counter._id
+  },
+})
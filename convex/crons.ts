@@ -0,0 +1,40 @@
+/**
+ * Scheduled jobs
+ * Times are UTC; the barangay runs on Asia/Manila (UTC+8)
+ */
+
+import { cronJobs } from "convex/server"
+import { internal } from "./_generated/api"
+
+const crons = cronJobs()
+
+// 11:59 PM Manila: skipped queue numbers nobody recalled become no-shows
+crons.daily(
+  "expire skipped queue numbers",
+  { hourUTC: 15, minuteUTC: 59 },
+  internal.queue.expireSkipped
+)
+
+// 11:59 PM Manila: bookings never checked in become no-shows
+crons.daily(
+  "expire missed appointments",
+  { hourUTC: 15, minuteUTC: 59 },
+  internal.appointments.expireNoShows
+)
+
+// 11:59 PM Manila: old online booking rate limit windows
+crons.daily(
+  "clear booking attempts",
+  { hourUTC: 15, minuteUTC: 59 },
+  internal.appointments.clearBookingAttempts
+)
+
+// Residents saved before fuzzy name search have no searchKey and are invisible to
+// name search, duplicate checks and kiosk matching until this fills it in
+crons.interval(
+  "backfill resident search keys",
+  { minutes: 15 },
+  internal.residents.backfillSearchKeys
+)
+
+export default crons
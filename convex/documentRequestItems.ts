@@ -5,7 +5,8 @@
 
 import { v } from "convex/values"
 import { query, mutation } from "./_generated/server"
-import { getCurrentUser } from "./users"
+import { requireRole, STAFF_ROLES } from "./users"
+import { syncQueueDocumentTypes } from "./queue"
 
 // ==================== QUERIES ====================
 
@@ -19,6 +20,8 @@ export const listByRequest = query({
     status: v.optional(v.union(v.literal("pending"), v.literal("printed"))),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view document request items")
+
     if (args.status) {
       // ✅ OPTIMIZED: Use composite index for efficient filtering
       return await ctx.db
@@ -47,6 +50,8 @@ export const listByRequest = query({
 export const get = query({
   args: { id: v.id("documentRequestItems") },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view document request items")
+
     return await ctx.db.get(args.id)
   },
 })
@@ -55,7 +60,7 @@ export const get = query({
 
 /**
  * Create a new document request item
- * Public users (via kiosk) can create items
+ * Staff only - kiosk submissions go through kiosk.submitRequest
  */
 export const create = mutation({
   args: {
@@ -64,7 +69,8 @@ export const create = mutation({
     purpose: v.string(),
   },
   handler: async (ctx, args) => {
-    // Can be called by public users (kiosk) - no auth required
+    await requireRole(ctx, STAFF_ROLES, "Only staff can create document request items")
+
     // Validate that documentType exists and requiresPurpose if purpose is provided
     const documentType = await ctx.db.get(args.documentTypeId)
     if (!documentType) {
@@ -76,13 +82,16 @@ export const create = mutation({
     }
 
     const now = Date.now()
-    return await ctx.db.insert("documentRequestItems", {
+    const id = await ctx.db.insert("documentRequestItems", {
       documentRequestId: args.documentRequestId,
       documentTypeId: args.documentTypeId,
       purpose: args.purpose,
       status: "pending",
       createdAt: now,
     })
+
+    await syncQueueDocumentTypes(ctx, args.documentRequestId)
+    return id
   },
 })
 
@@ -96,13 +105,7 @@ export const updatePurpose = mutation({
     purpose: v.string(),
   },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-
-    // Only staff can update purposes
-    if (user.role !== "staff" && user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only staff can update purposes")
-    }
+    await requireRole(ctx, STAFF_ROLES, "Only staff can update purposes")
 
     // Get the item to check if purpose is required
     const item = await ctx.db.get(args.id)
@@ -123,67 +126,6 @@ export const updatePurpose = mutation({
   },
 })
 
-/**
- * Mark document request item as printed
- * Staff marks item as printed after generating PDF
- */
-export const markPrinted = mutation({
-  args: { id: v.id("documentRequestItems") },
-  handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-
-    // Only staff can mark items as printed
-    if (user.role !== "staff" && user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only staff can mark items as printed")
-    }
-
-    await ctx.db.patch(args.id, {
-      status: "printed",
-      printedAt: Date.now(),
-    })
-
-    return args.id
-  },
-})
-
-/**
- * Mark all items in a request as printed
- * Used when staff prints all services at once
- */
-export const markAllPrinted = mutation({
-  args: { documentRequestId: v.id("documentRequests") },
-  handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-
-    // Only staff can mark items as printed
-    if (user.role !== "staff" && user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only staff can mark items as printed")
-    }
-
-    // ✅ OPTIMIZED: Get all items for this request (with limit)
-    const items = await ctx.db
-      .query("documentRequestItems")
-      .withIndex("by_documentRequestId", (q) =>
-        q.eq("documentRequestId", args.documentRequestId)
-      )
-      .take(50) // ✅ OPTIMIZED: Limit items per request (should never exceed this)
-
-    const now = Date.now()
-    for (const item of items) {
-      if (item.status !== "printed") {
-        await ctx.db.patch(item._id, {
-          status: "printed",
-          printedAt: now,
-        })
-      }
-    }
-
-    return items.map((item) => item._id)
-  },
-})
-
 /**
  * Create multiple document request items at once
  * Used when creating a request with multiple services
@@ -199,7 +141,8 @@ export const createBatch = mutation({
     ),
   },
   handler: async (ctx, args) => {
-    // Can be called by public users (kiosk)
+    await requireRole(ctx, STAFF_ROLES, "Only staff can create document request items")
+
     const now = Date.now()
     const createdIds = []
 
@@ -225,6 +168,7 @@ export const createBatch = mutation({
       createdIds.push(id)
     }
 
+    await syncQueueDocumentTypes(ctx, args.documentRequestId)
     return createdIds
   },
 })
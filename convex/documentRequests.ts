@@ -4,8 +4,10 @@
  */
 
 import { v } from "convex/values"
-import { query, mutation } from "./_generated/server"
-import { getCurrentUser } from "./users"
+import { query, mutation, MutationCtx } from "./_generated/server"
+import { requireRole, STAFF_ROLES, ADMIN_ROLES } from "./users"
+import { logAudit } from "./auditLogs"
+import { manilaDateKey, manilaDayStart, maxSequenceNumber, nextSequence } from "./sequences"
 
 // ==================== QUERIES ====================
 
@@ -21,6 +23,7 @@ export const list = query({
         v.literal("pending"),
         v.literal("queued"),
         v.literal("serving"),
+        v.literal("skipped"),
         v.literal("completed"),
         v.literal("cancelled")
       )
@@ -33,6 +36,8 @@ export const list = query({
     offset: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view document requests")
+
     const limit = args.limit ?? 50
     const offset = args.offset ?? 0
 
@@ -108,6 +113,8 @@ export const list = query({
 export const get = query({
   args: { id: v.id("documentRequests") },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view document requests")
+
     return await ctx.db.get(args.id)
   },
 })
@@ -119,6 +126,8 @@ export const get = query({
 export const getForProcessing = query({
   args: { id: v.id("documentRequests") },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view document requests")
+
     const request = await ctx.db.get(args.id)
     if (!request) return null
 
@@ -177,6 +186,8 @@ export const listByResident = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can view resident request history")
+
     return await ctx.db
       .query("documentRequests")
       .withIndex("by_residentId", (q) => q.eq("residentId", args.residentId))
@@ -195,12 +206,15 @@ export const listByStatus = query({
       v.literal("pending"),
       v.literal("queued"),
       v.literal("serving"),
+      v.literal("skipped"),
       v.literal("completed"),
       v.literal("cancelled")
     ),
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view document requests")
+
     return await ctx.db
       .query("documentRequests")
       .withIndex("by_status_requestedAt", (q) => q.eq("status", args.status))
@@ -221,6 +235,7 @@ export const listEnriched = query({
         v.literal("pending"),
         v.literal("queued"),
         v.literal("serving"),
+        v.literal("skipped"),
         v.literal("completed"),
         v.literal("cancelled")
       )
@@ -233,6 +248,8 @@ export const listEnriched = query({
     offset: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can view transactions")
+
     const limit = args.limit ?? 50
     const offset = args.offset ?? 0
 
@@ -354,7 +371,7 @@ export const listEnriched = query({
 
 /**
  * Get document requests for staff dashboard
- * Returns requests grouped by status (queued, serving, completed)
+ * Returns requests grouped by status (queued, serving, completed, skipped)
  * Enriched with resident and document type information
  * Optimized with limits and error handling
  */
@@ -364,6 +381,8 @@ export const getStaffRequests = query({
     servingLimit: v.optional(v.number()), // Limit for serving requests (default: 20)
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view document requests")
+
     // Get requests by status with reasonable limits
     const queued = await ctx.db
       .query("documentRequests")
@@ -383,8 +402,15 @@ export const getStaffRequests = query({
       .order("desc") // Most recent first
       .take(20) // Show last 20 completed
 
+    // Recall pool: residents who didn't answer when called
+    const skipped = await ctx.db
+      .query("documentRequests")
+      .withIndex("by_status_requestedAt", (q) => q.eq("status", "skipped"))
+      .order("asc")
+      .take(50)
+
     // Collect all requests for batch processing
-    const allRequests = [...queued, ...serving, ...completed]
+    const allRequests = [...queued, ...serving, ...completed, ...skipped]
     
     // Batch fetch all residents (unique IDs)
     const residentIds = [...new Set(allRequests.map((r: any) => r.residentId))]
@@ -428,26 +454,43 @@ export const getStaffRequests = query({
       })
     })
 
+    // Queue tickets for waiting/serving/skipped requests (ticket number and lane)
+    const queueItems = await Promise.all(
+      [...queued, ...serving, ...skipped].map((request: any) =>
+        ctx.db
+          .query("queue")
+          .withIndex("by_documentRequestId", (q) => q.eq("documentRequestId", request._id))
+          .first()
+      )
+    )
+    const queueItemMap = new Map(
+      queueItems.filter(Boolean).map((item: any) => [item.documentRequestId, item])
+    )
+
     // Enrich requests with batched data
     const enrichRequest = (request: any) => ({
       ...request,
       resident: residentMap.get(request.residentId) || null,
       items: itemsByRequestId.get(request._id) || [],
+      queueItem: queueItemMap.get(request._id) || null,
     })
 
     // Enrich all requests (no async needed, using pre-fetched data)
     const enrichedQueued = queued.map(enrichRequest)
     const enrichedServing = serving.map(enrichRequest)
     const enrichedCompleted = completed.map(enrichRequest)
+    const enrichedSkipped = skipped.map(enrichRequest)
 
     return {
       queued: enrichedQueued,
       serving: enrichedServing,
       completed: enrichedCompleted,
+      skipped: enrichedSkipped,
       counts: {
         queued: enrichedQueued.length,
         serving: enrichedServing.length,
         completed: enrichedCompleted.length,
+        skipped: enrichedSkipped.length,
         total: enrichedQueued.length + enrichedServing.length + enrichedCompleted.length,
       },
     }
@@ -458,43 +501,29 @@ export const getStaffRequests = query({
 
 /**
  * Generate unique request number
- * ✅ OPTIMIZED: Uses by_requestedAt index to query only today's requests
- * Format: REQ-YYYYMMDD-001 (increments daily)
+ * Format: REQ-YYYYMMDD-001, daily sequence in Asia/Manila time
  */
-async function generateRequestNumber(ctx: any): Promise<string> {
-  const today = new Date()
-  const todayStart = new Date(today)
-  todayStart.setHours(0, 0, 0, 0)
-  const todayEnd = new Date(today)
-  todayEnd.setHours(23, 59, 59, 999)
-  
-  const datePrefix = today.toISOString().slice(0, 10).replace(/-/g, "") // YYYYMMDD
-
-  // ✅ OPTIMIZED: Query only today's requests using by_requestedAt index
-  const todayRequests = await ctx.db
-    .query("documentRequests")
-    .withIndex("by_requestedAt", (q: any) =>
-      q.gte("requestedAt", todayStart.getTime()).lte("requestedAt", todayEnd.getTime())
-    )
-    .collect()
-
-  let maxNumber = 0
+export async function generateRequestNumber(ctx: MutationCtx, now = Date.now()): Promise<string> {
+  const datePrefix = manilaDateKey(now) // YYYYMMDD
 
-  for (const req of todayRequests) {
-    const match = req.requestNumber.match(new RegExp(`${datePrefix}-(\\d+)`))
-    if (match) {
-      const num = parseInt(match[1], 10)
-      if (num > maxNumber) maxNumber = num
-    }
-  }
+  const number = await nextSequence(ctx, "request", datePrefix, async () => {
+    // Requests made today before the sequence row existed
+    const todayRequests = await ctx.db
+      .query("documentRequests")
+      .withIndex("by_requestedAt", (q) => q.gte("requestedAt", manilaDayStart(now)))
+      .collect()
+    return maxSequenceNumber(
+      todayRequests.map((request) => request.requestNumber),
+      new RegExp(`^REQ-${datePrefix}-(\\d+)$`)
+    )
+  })
 
-  const nextNumber = (maxNumber + 1).toString().padStart(3, "0")
-  return `REQ-${datePrefix}-${nextNumber}`
+  return `REQ-${datePrefix}-${number.toString().padStart(3, "0")}`
 }
 
 /**
  * Create a new document request
- * Public users (via kiosk) can create requests
+ * Staff only - kiosk submissions go through kiosk.submitRequest
  * Creates request with status "pending", then should be moved to "queued" when queue item is created
  */
 export const create = mutation({
@@ -504,9 +533,8 @@ export const create = mutation({
     requestNumber: v.optional(v.string()), // Optional - will auto-generate
   },
   handler: async (ctx, args) => {
-    // Note: This can be called by public users (kiosk), so no auth check needed
-    // Or we can make it require auth - depends on requirements
-    // For now, allowing public creation (kiosk use case)
+    // Kiosk submissions go through kiosk.submitRequest instead
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can create document requests")
 
     // Generate request number if not provided
     const requestNumber = args.requestNumber || (await generateRequestNumber(ctx))
@@ -533,13 +561,24 @@ export const create = mutation({
     }
 
     const now = Date.now()
-    return await ctx.db.insert("documentRequests", {
+    const id = await ctx.db.insert("documentRequests", {
       residentId: args.residentId,
       requestNumber,
       status: "pending", // Will be changed to "queued" when queue item is created
       totalPrice: args.totalPrice,
       requestedAt: now,
     })
+
+    await logAudit(ctx, {
+      user,
+      action: "create_document_request",
+      resourceType: "documentRequest",
+      resourceId: id,
+      before: null,
+      after: await ctx.db.get(id),
+    })
+
+    return id
   },
 })
 
@@ -554,13 +593,13 @@ export const updateStatus = mutation({
       v.literal("pending"),
       v.literal("queued"),
       v.literal("serving"),
+      v.literal("skipped"),
       v.literal("completed"),
       v.literal("cancelled")
     ),
   },
   handler: async (ctx, args) => {
-    // Optional: Check auth if you want to restrict to staff/admin
-    // For now, allowing updates (queue system will update status)
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can update request status")
 
     const updates: any = {
       status: args.status,
@@ -571,7 +610,20 @@ export const updateStatus = mutation({
       updates.completedAt = Date.now()
     }
 
+    const before = await ctx.db.get(args.id)
+    if (!before) throw new Error("Document request not found")
+
     await ctx.db.patch(args.id, updates)
+
+    await logAudit(ctx, {
+      user,
+      action: "update_document_request_status",
+      resourceType: "documentRequest",
+      resourceId: args.id,
+      before,
+      after: await ctx.db.get(args.id),
+    })
+
     return args.id
   },
 })
@@ -583,19 +635,25 @@ export const updateStatus = mutation({
 export const complete = mutation({
   args: { id: v.id("documentRequests") },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can complete requests")
 
-    // Only staff/admin can complete requests
-    if (user.role !== "staff" && user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only staff can complete requests")
-    }
+    const before = await ctx.db.get(args.id)
+    if (!before) throw new Error("Document request not found")
 
     await ctx.db.patch(args.id, {
       status: "completed",
       completedAt: Date.now(),
     })
 
+    await logAudit(ctx, {
+      user,
+      action: "complete_document_request",
+      resourceType: "documentRequest",
+      resourceId: args.id,
+      before,
+      after: await ctx.db.get(args.id),
+    })
+
     return args.id
   },
 })
@@ -607,13 +665,7 @@ export const complete = mutation({
 export const markAsClaim = mutation({
   args: { id: v.id("documentRequests") },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-
-    // Only staff can mark as claim
-    if (user.role !== "staff" && user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only staff can mark requests as claim")
-    }
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can mark requests as claim")
 
     // ✅ OPTIMIZED: Check that all items are printed (with limit)
     const items = await ctx.db
@@ -628,6 +680,9 @@ export const markAsClaim = mutation({
       throw new Error("Cannot mark as claim: Not all services have been printed")
     }
 
+    const before = await ctx.db.get(args.id)
+    if (!before) throw new Error("Document request not found")
+
     // Update request status to "completed" (claim is represented by completed status)
     await ctx.db.patch(args.id, {
       status: "completed",
@@ -644,6 +699,16 @@ export const markAsClaim = mutation({
       })
     }
 
+    await logAudit(ctx, {
+      user,
+      action: "claim_document_request",
+      resourceType: "documentRequest",
+      resourceId: args.id,
+      before,
+      after: await ctx.db.get(args.id),
+      details: { queueId: queueItem?._id ?? null },
+    })
+
     return args.id
   },
 })
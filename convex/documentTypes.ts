@@ -4,8 +4,10 @@
  */
 
 import { v } from "convex/values"
-import { query, mutation } from "./_generated/server"
-import { getCurrentUser } from "./users"
+import { query, mutation, MutationCtx } from "./_generated/server"
+import { Id } from "./_generated/dataModel"
+import { requireRole, STAFF_ROLES, SUPERADMIN_ROLES } from "./users"
+import { logAudit } from "./auditLogs"
 
 // ==================== QUERIES ====================
 
@@ -18,6 +20,8 @@ export const list = query({
     includeInactive: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view document types")
+
     if (args.includeInactive) {
       // Return all document types
       return await ctx.db.query("documentTypes").order("desc").collect()
@@ -54,6 +58,8 @@ export const getActive = query({
 export const get = query({
   args: { id: v.id("documentTypes") },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view document types")
+
     return await ctx.db.get(args.id)
   },
 })
@@ -65,6 +71,8 @@ export const get = query({
 export const getByName = query({
   args: { name: v.string() },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view document types")
+
     return await ctx.db
       .query("documentTypes")
       .withIndex("by_name", (q) => q.eq("name", args.name))
@@ -79,6 +87,8 @@ export const getByName = query({
 export const getByTemplateKey = query({
   args: { templateKey: v.string() },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view document types")
+
     // No index for templateKey, so scan all active types (should be small set)
     const types = await ctx.db
       .query("documentTypes")
@@ -91,6 +101,17 @@ export const getByTemplateKey = query({
 
 // ==================== MUTATIONS ====================
 
+/**
+ * Ensure a certificate template exists and is active before assigning it
+ */
+async function assertTemplateAssignable(ctx: MutationCtx, templateId: Id<"certificateTemplates">) {
+  const template = await ctx.db.get(templateId)
+  if (!template) throw new Error("Certificate template not found")
+  if (!template.isActive) {
+    throw new Error(`Certificate template "${template.name}" is not active`)
+  }
+}
+
 /**
  * Create a new document type
  * Superadmin only
@@ -98,19 +119,14 @@ export const getByTemplateKey = query({
 export const create = mutation({
   args: {
     name: v.string(),
-    templateKey: v.string(), // PDF template filename (e.g., "clearance.pdf")
+    templateKey: v.optional(v.string()), // Built-in layout key (e.g., "clearance.pdf")
+    templateId: v.optional(v.id("certificateTemplates")), // Stored template (takes precedence over templateKey)
     price: v.number(), // In cents (e.g., 5000 = ₱50.00)
     requiresPurpose: v.boolean(),
     isActive: v.optional(v.boolean()), // Default: true
   },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-
-    // Only superadmin can create document types
-    if (user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only superadmin can create document types")
-    }
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can create document types")
 
     // Check if name already exists
     const existing = await ctx.db
@@ -122,16 +138,32 @@ export const create = mutation({
       throw new Error(`Document type "${args.name}" already exists`)
     }
 
+    if (args.templateId) {
+      await assertTemplateAssignable(ctx, args.templateId)
+    }
+
     const now = Date.now()
-    return await ctx.db.insert("documentTypes", {
+    const id = await ctx.db.insert("documentTypes", {
       name: args.name,
-      templateKey: args.templateKey,
+      templateKey: args.templateKey ?? "",
+      templateId: args.templateId,
       price: args.price,
       requiresPurpose: args.requiresPurpose,
       isActive: args.isActive ?? true,
       createdAt: now,
       updatedAt: now,
     })
+
+    await logAudit(ctx, {
+      user,
+      action: "create_document_type",
+      resourceType: "documentType",
+      resourceId: id,
+      before: null,
+      after: await ctx.db.get(id),
+    })
+
+    return id
   },
 })
 
@@ -144,20 +176,15 @@ export const update = mutation({
     id: v.id("documentTypes"),
     name: v.optional(v.string()),
     templateKey: v.optional(v.string()),
+    templateId: v.optional(v.union(v.id("certificateTemplates"), v.null())), // null clears the stored template
     price: v.optional(v.number()),
     requiresPurpose: v.optional(v.boolean()),
     isActive: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-
-    // Only superadmin can update document types
-    if (user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only superadmin can update document types")
-    }
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can update document types")
 
-    const { id, ...updates } = args
+    const { id, templateId, ...updates } = args
 
     // Check if name already exists (if name is being changed)
     if (updates.name !== undefined) {
@@ -179,9 +206,29 @@ export const update = mutation({
       }
     }
 
+    if (templateId === null) {
+      cleanUpdates.templateId = undefined // Fall back to the built-in layout
+    } else if (templateId !== undefined) {
+      await assertTemplateAssignable(ctx, templateId)
+      cleanUpdates.templateId = templateId
+    }
+
     cleanUpdates.updatedAt = Date.now()
 
+    const before = await ctx.db.get(id)
+    if (!before) throw new Error("Document type not found")
+
     await ctx.db.patch(id, cleanUpdates)
+
+    await logAudit(ctx, {
+      user,
+      action: "update_document_type",
+      resourceType: "documentType",
+      resourceId: id,
+      before,
+      after: await ctx.db.get(id),
+    })
+
     return id
   },
 })
@@ -193,13 +240,7 @@ export const update = mutation({
 export const remove = mutation({
   args: { id: v.id("documentTypes") },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-
-    // Only superadmin can delete document types
-    if (user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only superadmin can delete document types")
-    }
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can delete document types")
 
     // Check if document type is being used in any requests
     const documentRequestItems = await ctx.db
@@ -216,7 +257,20 @@ export const remove = mutation({
       )
     }
 
+    const documentType = await ctx.db.get(args.id)
+    if (!documentType) throw new Error("Document type not found")
+
     await ctx.db.delete(args.id)
+
+    await logAudit(ctx, {
+      user,
+      action: "delete_document_type",
+      resourceType: "documentType",
+      resourceId: args.id,
+      before: documentType,
+      after: null,
+    })
+
     return args.id
   },
 })
@@ -231,19 +285,25 @@ export const toggleActive = mutation({
     isActive: v.boolean(),
   },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can toggle document types")
 
-    // Only superadmin can toggle document types
-    if (user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only superadmin can toggle document types")
-    }
+    const before = await ctx.db.get(args.id)
+    if (!before) throw new Error("Document type not found")
 
     await ctx.db.patch(args.id, {
       isActive: args.isActive,
       updatedAt: Date.now(),
     })
 
+    await logAudit(ctx, {
+      user,
+      action: "toggle_document_type",
+      resourceType: "documentType",
+      resourceId: args.id,
+      before,
+      after: await ctx.db.get(args.id),
+    })
+
     return args.id
   },
 })
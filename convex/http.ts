@@ -38,6 +38,12 @@ http.route({
         break;
       }
 
+      case "session.created":
+        await ctx.runMutation(internal.users.recordLogin, {
+          clerkUserId: event.data.user_id,
+        });
+        break;
+
       default:
         console.log("Ignored Clerk webhook event", event.type);
     }
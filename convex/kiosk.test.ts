@@ -0,0 +1,153 @@
+import { convexTest } from "convex-test"
+import { afterEach, describe, expect, test, vi } from "vitest"
+import { api } from "./_generated/api"
+import schema from "./schema"
+import { modules, testResident } from "./test.setup"
+
+const DEVICE_TOKEN = "kiosk-test-token"
+
+/**
+ * Seed a registered kiosk device and one active document type
+ */
+async function seed(t: ReturnType<typeof convexTest>) {
+  return await t.run(async (ctx) => {
+    const now = Date.now()
+    await ctx.db.insert("kioskDevices", {
+      name: "Lobby Kiosk 1",
+      token: DEVICE_TOKEN,
+      isActive: true,
+      createdBy: "user_1",
+      createdAt: now,
+      rateWindowStart: now,
+      rateWindowCount: 0,
+    })
+    return await ctx.db.insert("documentTypes", {
+      name: "Barangay Clearance",
+      templateKey: "clearance.pdf",
+      price: 5000,
+      requiresPurpose: true,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    })
+  })
+}
+
+const guest = {
+  firstName: "Maria",
+  middleName: "Reyes",
+  lastName: "Santos",
+  sex: "female" as const,
+  birthdate: Date.UTC(1955, 5, 15),
+  purok: "3",
+}
+
+describe("submitRequest", () => {
+  test("creates a pending guest record that passes the residents schema", async () => {
+    const t = convexTest(schema, modules)
+    const documentTypeId = await seed(t)
+
+    const result = await t.mutation(api.kiosk.submitRequest, {
+      deviceToken: DEVICE_TOKEN,
+      guestResident: { ...guest, seniorOrPwd: "both" },
+      items: [{ documentTypeId, purpose: "Employment" }],
+    })
+
+    const resident = await t.run((ctx) => ctx.db.get(result.residentId))
+    expect(resident).toMatchObject({
+      residentId: "GUEST-TEMP",
+      firstName: "Maria",
+      purok: "3",
+      status: "pending",
+      isSeniorCitizen: true,
+      isPWD: true,
+    })
+    expect(resident).not.toHaveProperty("seniorOrPwd")
+  })
+
+  test("puts guests who answer senior or PWD in the priority lane", async () => {
+    const t = convexTest(schema, modules)
+    const documentTypeId = await seed(t)
+
+    const result = await t.mutation(api.kiosk.submitRequest, {
+      deviceToken: DEVICE_TOKEN,
+      guestResident: { ...guest, seniorOrPwd: "pwd" },
+      items: [{ documentTypeId, purpose: "Employment" }],
+    })
+
+    expect(result.lane).toBe("priority")
+    const ticket = await t.run((ctx) => ctx.db.query("queue").first())
+    expect(ticket?.documentTypeIds).toEqual([documentTypeId])
+    const resident = await t.run((ctx) => ctx.db.get(result.residentId))
+    expect(resident).toMatchObject({ isSeniorCitizen: false, isPWD: true })
+  })
+
+  test("keeps guests who answer none in the regular lane", async () => {
+    const t = convexTest(schema, modules)
+    const documentTypeId = await seed(t)
+
+    const result = await t.mutation(api.kiosk.submitRequest, {
+      deviceToken: DEVICE_TOKEN,
+      guestResident: { ...guest, seniorOrPwd: "none" },
+      items: [{ documentTypeId, purpose: "Employment" }],
+    })
+
+    expect(result.lane).toBe("regular")
+    const resident = await t.run((ctx) => ctx.db.get(result.residentId))
+    expect(resident).toMatchObject({ isSeniorCitizen: false, isPWD: false })
+  })
+})
+
+describe("checkInAppointment", () => {
+  // Monday 2026-01-05, 10:00 AM Manila
+  const now = Date.UTC(2026, 0, 5, 2, 0)
+  const manilaTime = (hour: number, minute = 0) => Date.UTC(2026, 0, 4, 16 + hour, minute)
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  /**
+   * Check in a booking for a 30-minute slot starting at slotStart
+   */
+  async function checkInAt(slotStart: number) {
+    vi.useFakeTimers()
+    vi.setSystemTime(now)
+    const t = convexTest(schema, modules)
+    const documentTypeId = await seed(t)
+    await t.run(async (ctx) => {
+      const residentId = await ctx.db.insert("residents", testResident())
+      await ctx.db.insert("appointments", {
+        bookingCode: "K7M2QX",
+        residentId,
+        documentTypeId,
+        purpose: "Employment",
+        slotStart,
+        status: "booked",
+        source: "online",
+        createdAt: now,
+      })
+    })
+    return await t.mutation(api.kiosk.checkInAppointment, { deviceToken: DEVICE_TOKEN, bookingCode: "k7m2qx" })
+  }
+
+  test("gives priority from 30 minutes before the slot starts", async () => {
+    const result = await checkInAt(manilaTime(10, 30))
+    expect(result).toMatchObject({ lane: "priority", priorityReason: "appointment" })
+  })
+
+  test("gives priority until 30 minutes after the slot ends", async () => {
+    const result = await checkInAt(manilaTime(9))
+    expect(result).toMatchObject({ lane: "priority", priorityReason: "appointment" })
+  })
+
+  test("checks in early arrivals without priority", async () => {
+    const result = await checkInAt(manilaTime(11))
+    expect(result).toMatchObject({ lane: "regular", priorityReason: null })
+  })
+
+  test("checks in late arrivals without priority", async () => {
+    const result = await checkInAt(manilaTime(8))
+    expect(result).toMatchObject({ lane: "regular", priorityReason: null })
+  })
+})
@@ -4,17 +4,150 @@
  */
 
 import { v } from "convex/values"
-import { mutation } from "./_generated/server"
+import { query, mutation } from "./_generated/server"
+import { Id } from "./_generated/dataModel"
+import { logAudit } from "./auditLogs"
+import { getKioskDevice, requireKioskDevice } from "./kioskDevices"
+import { estimateWaitTimes, generateNextQueueNumber, getPriorityReason, QueueLane } from "./queue"
+import { generateRequestNumber } from "./documentRequests"
+import { APPOINTMENT_GRACE_MS, getAppointmentSettings } from "./appointments"
+import { manilaDateKey } from "./sequences"
+import { findResidentByCode, findSimilarResidents, isSameBirthday, STRONG_NAME_SCORE } from "./residents"
+import { residentSearchKey } from "./lib/names"
+
+// ==================== HELPERS ====================
+
+// The kiosk only asks guests for name, sex, birthdate and purok
+// Placeholders for the other required fields until an admin completes the record on approval
+const GUEST_RESIDENT_DEFAULTS = {
+  block: "",
+  lot: "",
+  phase: "",
+  civilStatus: "Single",
+  educationalAttainment: "No Grade",
+  employmentStatus: "Unemployed",
+  isResidentVoter: false,
+  isRegisteredVoter: false,
+  isOFW: false,
+  isOSY: false,
+  isSoloParent: false,
+  isIP: false,
+  isMigrant: false,
+  housingType: "Owned",
+  constructionType: "Medium",
+  isWheelchairBound: false,
+  isDialysisPatient: false,
+  isCancerPatient: false,
+  isNationalPensioner: false,
+  isLocalPensioner: false,
+} as const
+
+// ==================== QUERIES ====================
+
+/**
+ * Look up a resident by scanned or typed Resident ID
+ * Public, but only for registered kiosk devices; returns just what the
+ * confirmation screen shows instead of the full resident record
+ */
+export const lookupResident = query({
+  args: {
+    deviceToken: v.string(),
+    residentId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await getKioskDevice(ctx, args.deviceToken)
+
+    const resident = await findResidentByCode(ctx, args.residentId)
+    if (!resident) return null
+
+    return {
+      _id: resident._id,
+      residentId: resident.residentId,
+      firstName: resident.firstName,
+      middleName: resident.middleName,
+      lastName: resident.lastName,
+      purok: resident.purok,
+    }
+  },
+})
+
+/**
+ * Active service types for the kiosk's "Other services" buttons
+ */
+export const listServiceTypes = query({
+  args: { deviceToken: v.string() },
+  handler: async (ctx, args) => {
+    await getKioskDevice(ctx, args.deviceToken)
+
+    const serviceTypes = await ctx.db
+      .query("serviceTypes")
+      .withIndex("by_isActive", (q) => q.eq("isActive", true))
+      .collect()
+
+    return serviceTypes
+      .map((serviceType) => ({
+        _id: serviceType._id,
+        name: serviceType.name,
+        description: serviceType.description,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+  },
+})
+
+/**
+ * Position in line and estimated wait for a ticket just issued at this kiosk
+ * Shown on the confirmation screen; updates live as the queue moves
+ * Pass documentRequestId for document requests, queueId for service tickets
+ */
+export const getWaitEstimate = query({
+  args: {
+    deviceToken: v.string(),
+    documentRequestId: v.optional(v.id("documentRequests")),
+    queueId: v.optional(v.id("queue")),
+  },
+  handler: async (ctx, args) => {
+    await getKioskDevice(ctx, args.deviceToken)
+
+    const documentRequestId = args.documentRequestId
+    const queueItem = args.queueId
+      ? await ctx.db.get(args.queueId)
+      : documentRequestId
+        ? await ctx.db
+            .query("queue")
+            .withIndex("by_documentRequestId", (q) => q.eq("documentRequestId", documentRequestId))
+            .first()
+        : null
+    if (!queueItem) return null
+
+    if (queueItem.status !== "waiting") {
+      return { status: queueItem.status, position: null, estimatedMinutes: null }
+    }
+
+    const { estimates } = await estimateWaitTimes(ctx)
+    const estimate = estimates.get(queueItem._id)
+    return {
+      status: queueItem.status,
+      position: estimate?.position ?? null,
+      estimatedMinutes: estimate?.estimatedMinutes ?? null,
+    }
+  },
+})
+
+// ==================== MUTATIONS ====================
 
 /**
  * Submit complete request from kiosk
  * Creates: documentRequest + documentRequestItems + queue item
- * Public access (no auth required)
+ * Public access (no user auth), but only from a registered kiosk device
+ * and rate-limited per device
  * 
  * This is the main kiosk submission endpoint - handles everything in one call
  */
 export const submitRequest = mutation({
   args: {
+    // Token issued when the kiosk was registered in superadmin settings
+    deviceToken: v.string(),
+
     // Resident info (can be existing residentId or null for new guest)
     residentId: v.optional(v.id("residents")),
     
@@ -37,6 +170,9 @@ export const submitRequest = mutation({
       })
     ),
     
+    // Asked on the kiosk; pregnant residents go to the priority lane
+    isPregnant: v.optional(v.boolean()),
+
     // Document request items (services)
     items: v.array(
       v.object({
@@ -46,27 +182,60 @@ export const submitRequest = mutation({
     ),
   },
   handler: async (ctx, args) => {
-    // ✅ PUBLIC: No auth required (kiosk is public)
+    // ✅ PUBLIC: No user auth (kiosk is public), but the device must be registered
+    const device = await requireKioskDevice(ctx, args.deviceToken)
 
-    // Step 1: Handle resident (existing or create guest)
+    // Step 1: Handle resident (existing, matched guest or create guest)
     let finalResidentId = args.residentId
+    let guestMatchedResidentId: Id<"residents"> | undefined
+
+    if (!finalResidentId && args.guestResident) {
+      // Returning guests and residents without their ID card: reuse the record with a
+      // sound-alike name and the same birthdate instead of creating another pending record
+      const guest = args.guestResident
+      const matches = await findSimilarResidents(ctx, `${guest.firstName} ${guest.lastName}`, { limit: 20 })
+      const match = matches.find(
+        ({ resident, score }) =>
+          score >= STRONG_NAME_SCORE &&
+          (resident.status === "resident" || resident.status === "pending") &&
+          isSameBirthday(resident.birthdate, guest.birthdate)
+      )
+      if (match) {
+        finalResidentId = match.resident._id
+        guestMatchedResidentId = match.resident._id
+      }
+    }
 
     if (!finalResidentId && args.guestResident) {
       // Create guest resident (status: pending)
+      const { seniorOrPwd } = args.guestResident
       finalResidentId = await ctx.db.insert("residents", {
+        ...GUEST_RESIDENT_DEFAULTS,
         residentId: "GUEST-TEMP", // Will be updated later by admin
         firstName: args.guestResident.firstName,
         middleName: args.guestResident.middleName,
         lastName: args.guestResident.lastName,
         suffix: args.guestResident.suffix,
+        searchKey: residentSearchKey(args.guestResident),
         sex: args.guestResident.sex,
         birthdate: args.guestResident.birthdate,
         purok: args.guestResident.purok,
-        seniorOrPwd: args.guestResident.seniorOrPwd,
+        isSeniorCitizen: seniorOrPwd === "senior" || seniorOrPwd === "both",
+        isPWD: seniorOrPwd === "pwd" || seniorOrPwd === "both",
         status: "pending", // Guest record
         createdAt: Date.now(),
         updatedAt: Date.now(),
       })
+
+      await logAudit(ctx, {
+        user: null, // Kiosk is anonymous
+        action: "create_resident",
+        resourceType: "resident",
+        resourceId: finalResidentId,
+        before: null,
+        after: await ctx.db.get(finalResidentId),
+        details: { source: "kiosk", kioskDeviceId: device._id },
+      })
     }
 
     if (!finalResidentId) {
@@ -86,36 +255,11 @@ export const submitRequest = mutation({
       totalPrice += docType.price
     }
 
-    // Step 3: Generate request number
-    // ✅ OPTIMIZED: Use by_requestedAt index to query only today's requests
-    const today = new Date()
-    const todayStart = new Date(today)
-    todayStart.setHours(0, 0, 0, 0)
-    const todayEnd = new Date(today)
-    todayEnd.setHours(23, 59, 59, 999)
-    
-    const datePrefix = today.toISOString().slice(0, 10).replace(/-/g, "")
-    
-    // ✅ OPTIMIZED: Query only today's requests using by_requestedAt index
-    const todayRequests = await ctx.db
-      .query("documentRequests")
-      .withIndex("by_requestedAt", (q) =>
-        q.gte("requestedAt", todayStart.getTime()).lte("requestedAt", todayEnd.getTime())
-      )
-      .collect()
-    
-    let maxNum = 0
-    for (const req of todayRequests) {
-      const match = req.requestNumber?.match(new RegExp(`${datePrefix}-(\\d+)`))
-      if (match) {
-        const num = parseInt(match[1], 10)
-        if (num > maxNum) maxNum = num
-      }
-    }
-    const requestNumber = `REQ-${datePrefix}-${(maxNum + 1).toString().padStart(3, "0")}`
+    // Step 3: Generate request number (daily sequence, Asia/Manila)
+    const now = Date.now()
+    const requestNumber = await generateRequestNumber(ctx, now)
 
     // Step 4: Create document request
-    const now = Date.now()
     const documentRequestId = await ctx.db.insert("documentRequests", {
       residentId: finalResidentId,
       requestNumber,
@@ -140,54 +284,212 @@ export const submitRequest = mutation({
       })
     }
 
-    // Step 6: Generate queue number
-    // ✅ OPTIMIZED: Use by_status_createdAt index to query only today's queue items
-    const queueTodayStart = new Date(today)
-    queueTodayStart.setHours(0, 0, 0, 0)
-    
-    // ✅ OPTIMIZED: Query today's queue items using by_status_createdAt index
-    // Query recent items (last 1000) and filter by date client-side
-    // This is more efficient than .collect() all items
-    const recentItems = await ctx.db
-      .query("queue")
-      .withIndex("by_status_createdAt", (q) => q.eq("status", "waiting"))
-      .order("desc") // Newest first
-      .take(1000) // ✅ OPTIMIZED: Limit to 1000 (should cover a day's worth)
-    
-    // Filter to only today's items
-    const todayItems = recentItems.filter(
-      (item: any) => item.createdAt >= queueTodayStart.getTime()
-    )
-    
-    let maxQueueNum = 0
-    for (const item of todayItems) {
-      const match = item.queueNumber?.match(/Q-(\d+)/)
-      if (match) {
-        const num = parseInt(match[1], 10)
-        if (num > maxQueueNum) maxQueueNum = num
-      }
-    }
-    const queueNumber = `Q-${(maxQueueNum + 1).toString().padStart(3, "0")}`
+    // Step 6: Classify lane (senior citizens, PWDs and pregnant residents get priority)
+    const resident = await ctx.db.get(finalResidentId)
+    const priorityReason = getPriorityReason({
+      isSeniorCitizen: resident?.isSeniorCitizen,
+      isPWD: resident?.isPWD,
+      seniorOrPwd: args.guestResident?.seniorOrPwd,
+      isPregnant: args.isPregnant,
+    })
+    const lane: QueueLane = priorityReason ? "priority" : "regular"
+
+    // Step 7: Generate queue number (separate daily sequence per lane)
+    const queueNumber = await generateNextQueueNumber(ctx, lane, now)
 
-    // Step 7: Create queue item
+    // Step 8: Create queue item
     await ctx.db.insert("queue", {
       documentRequestId,
+      documentTypeIds: args.items.map((item) => item.documentTypeId),
       queueNumber,
       serviceType: "service",
+      lane,
+      priorityReason: priorityReason ?? undefined,
       status: "waiting",
       createdAt: now,
     })
 
-    // Step 8: Update document request status to "queued"
+    // Step 9: Update document request status to "queued"
     await ctx.db.patch(documentRequestId, {
       status: "queued",
     })
 
+    await logAudit(ctx, {
+      user: null, // Kiosk is anonymous
+      action: "create_document_request",
+      resourceType: "documentRequest",
+      resourceId: documentRequestId,
+      before: null,
+      after: await ctx.db.get(documentRequestId),
+      details: { source: "kiosk", kioskDeviceId: device._id, queueNumber, guestMatchedResidentId },
+    })
+
     // Return queue number for display
     return {
       queueNumber,
+      lane,
       documentRequestId,
       residentId: finalResidentId,
     }
   },
 })
+
+/**
+ * Join a service queue from the kiosk (blotter, health center, payments)
+ * Creates only a queue ticket - no document request
+ * A name is optional, for staff to call out alongside the number
+ * Public access (no user auth), but only from a registered kiosk device
+ * and rate-limited per device
+ */
+export const joinServiceQueue = mutation({
+  args: {
+    deviceToken: v.string(),
+    serviceTypeId: v.id("serviceTypes"),
+    guestName: v.optional(v.string()),
+    priorityReason: v.optional(
+      v.union(v.literal("senior"), v.literal("pwd"), v.literal("pregnant"))
+    ),
+  },
+  handler: async (ctx, args) => {
+    const device = await requireKioskDevice(ctx, args.deviceToken)
+
+    const serviceType = await ctx.db.get(args.serviceTypeId)
+    if (!serviceType || !serviceType.isActive) {
+      throw new Error("This service is not available right now")
+    }
+
+    const priorityReason = args.priorityReason ?? null
+    const lane: QueueLane = priorityReason ? "priority" : "regular"
+
+    const now = Date.now()
+    const queueNumber = await generateNextQueueNumber(ctx, lane, now, serviceType)
+
+    const queueId = await ctx.db.insert("queue", {
+      queueNumber,
+      serviceType: serviceType.name,
+      serviceTypeId: serviceType._id,
+      guestName: args.guestName?.trim() || undefined,
+      lane,
+      priorityReason: priorityReason ?? undefined,
+      status: "waiting",
+      createdAt: now,
+    })
+
+    await logAudit(ctx, {
+      user: null, // Kiosk is anonymous
+      action: "create_queue",
+      resourceType: "queue",
+      resourceId: queueId,
+      before: null,
+      after: await ctx.db.get(queueId),
+      details: { source: "kiosk", kioskDeviceId: device._id, serviceTypeId: serviceType._id },
+    })
+
+    return {
+      queueNumber,
+      lane,
+      queueId,
+      serviceTypeName: serviceType.name,
+    }
+  },
+})
+
+/**
+ * Check in a booked appointment at the kiosk
+ * Creates the documentRequest, its item and a queue ticket in one call
+ * On time (from 30 minutes before the slot starts until 30 minutes after it ends): priority lane
+ * Earlier or later: regular lane, unless the resident qualifies for priority anyway
+ * Public access (no user auth), but only from a registered kiosk device
+ * and rate-limited per device
+ */
+export const checkInAppointment = mutation({
+  args: {
+    deviceToken: v.string(),
+    bookingCode: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const device = await requireKioskDevice(ctx, args.deviceToken)
+
+    const appointment = await ctx.db
+      .query("appointments")
+      .withIndex("by_bookingCode", (q) => q.eq("bookingCode", args.bookingCode.trim().toUpperCase()))
+      .first()
+
+    if (!appointment) throw new Error("Booking code not found")
+    if (appointment.status === "checked_in") throw new Error("This booking has already been checked in")
+    if (appointment.status !== "booked") throw new Error("This booking is no longer valid")
+
+    const now = Date.now()
+    if (manilaDateKey(appointment.slotStart) !== manilaDateKey(now)) {
+      throw new Error("This booking is for another day")
+    }
+
+    const documentType = await ctx.db.get(appointment.documentTypeId)
+    if (!documentType || !documentType.isActive) {
+      throw new Error("The booked document is no longer available. Please ask the staff.")
+    }
+
+    // Request number, request and its single item (same shape as submitRequest)
+    const requestNumber = await generateRequestNumber(ctx, now)
+    const documentRequestId = await ctx.db.insert("documentRequests", {
+      residentId: appointment.residentId,
+      requestNumber,
+      status: "queued",
+      totalPrice: documentType.price,
+      requestedAt: now,
+    })
+    await ctx.db.insert("documentRequestItems", {
+      documentRequestId,
+      documentTypeId: appointment.documentTypeId,
+      purpose: appointment.purpose,
+      status: "pending",
+      createdAt: now,
+    })
+
+    // Appointment priority only while on time, so an early check-in can't jump the queue
+    const settings = await getAppointmentSettings(ctx)
+    const slotEnd = appointment.slotStart + settings.slotMinutes * 60 * 1000
+    const resident = await ctx.db.get(appointment.residentId)
+    const priorityReason =
+      now >= appointment.slotStart - APPOINTMENT_GRACE_MS && now <= slotEnd + APPOINTMENT_GRACE_MS
+        ? "appointment"
+        : getPriorityReason({ isSeniorCitizen: resident?.isSeniorCitizen, isPWD: resident?.isPWD })
+    const lane: QueueLane = priorityReason ? "priority" : "regular"
+
+    const queueNumber = await generateNextQueueNumber(ctx, lane, now)
+    await ctx.db.insert("queue", {
+      documentRequestId,
+      documentTypeIds: [appointment.documentTypeId],
+      queueNumber,
+      serviceType: "service",
+      lane,
+      priorityReason: priorityReason ?? undefined,
+      status: "waiting",
+      createdAt: now,
+    })
+
+    await ctx.db.patch(appointment._id, {
+      status: "checked_in",
+      checkedInAt: now,
+      documentRequestId,
+    })
+
+    await logAudit(ctx, {
+      user: null, // Kiosk is anonymous
+      action: "check_in_appointment",
+      resourceType: "appointment",
+      resourceId: appointment._id,
+      before: appointment,
+      after: await ctx.db.get(appointment._id),
+      details: { source: "kiosk", kioskDeviceId: device._id, queueNumber, documentRequestId },
+    })
+
+    return {
+      queueNumber,
+      lane,
+      priorityReason: priorityReason ?? null,
+      documentRequestId,
+      residentId: appointment.residentId,
+    }
+  },
+})
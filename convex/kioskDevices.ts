@@ -0,0 +1,211 @@
+/**
+ * Convex functions for kiosk device registration
+ * Only registered, active kiosks can call the public kiosk endpoints,
+ * and each device is rate-limited on its own
+ */
+
+import { v } from "convex/values"
+import { query, mutation, MutationCtx, QueryCtx } from "./_generated/server"
+import { requireRole, SUPERADMIN_ROLES } from "./users"
+import { logAudit } from "./auditLogs"
+
+// ==================== HELPERS ====================
+
+// Maximum kiosk submissions per device per window
+// A resident takes well over a minute at the kiosk, so this only stops scripted abuse
+export const KIOSK_RATE_LIMIT = 5
+export const KIOSK_RATE_WINDOW_MS = 60 * 1000
+
+function generateDeviceToken(): string {
+  const bytes = new Uint8Array(24)
+  crypto.getRandomValues(bytes)
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+/**
+ * Look up an active kiosk device by its token or throw
+ */
+export async function getKioskDevice(ctx: QueryCtx, token: string) {
+  const device = await ctx.db
+    .query("kioskDevices")
+    .withIndex("by_token", (q) => q.eq("token", token))
+    .unique()
+
+  if (!device || !device.isActive) {
+    throw new Error("Unauthorized: This kiosk is not registered")
+  }
+
+  return device
+}
+
+/**
+ * Validate a kiosk device and count one submission against its rate limit
+ * Fixed window per device; throws once the window is used up
+ */
+export async function requireKioskDevice(ctx: MutationCtx, token: string) {
+  const device = await getKioskDevice(ctx, token)
+  const now = Date.now()
+
+  const windowExpired = now - device.rateWindowStart >= KIOSK_RATE_WINDOW_MS
+  const windowCount = windowExpired ? 0 : device.rateWindowCount
+
+  if (windowCount >= KIOSK_RATE_LIMIT) {
+    throw new Error("Too many requests from this kiosk. Please wait a minute and try again.")
+  }
+
+  await ctx.db.patch(device._id, {
+    rateWindowStart: windowExpired ? now : device.rateWindowStart,
+    rateWindowCount: windowCount + 1,
+    lastSeenAt: now,
+  })
+
+  return device
+}
+
+// ==================== QUERIES ====================
+
+/**
+ * List registered kiosk devices (Superadmin only)
+ * Tokens are never returned here - they are shown once when issued
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage kiosk devices")
+
+    const devices = await ctx.db.query("kioskDevices").collect()
+    return devices.map(({ token: _token, ...device }) => device)
+  },
+})
+
+/**
+ * Check a kiosk's stored token (Public)
+ * The kiosk page calls this on load to decide whether to show the setup screen
+ */
+export const validate = query({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const device = await ctx.db
+      .query("kioskDevices")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .unique()
+
+    if (!device || !device.isActive) return null
+    return { name: device.name }
+  },
+})
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Register a new kiosk device (Superadmin only)
+ * Returns the device token to enter on the kiosk
+ */
+export const register = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage kiosk devices")
+
+    const name = args.name.trim()
+    if (!name) throw new Error("Device name is required")
+
+    const token = generateDeviceToken()
+    const now = Date.now()
+    const deviceId = await ctx.db.insert("kioskDevices", {
+      name,
+      token,
+      isActive: true,
+      createdBy: user.externalId,
+      createdAt: now,
+      rateWindowStart: now,
+      rateWindowCount: 0,
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: "register_kiosk_device",
+      resourceType: "kioskDevice",
+      resourceId: deviceId,
+      details: { name },
+    })
+
+    return { deviceId, token }
+  },
+})
+
+/**
+ * Issue a new token for a device (Superadmin only)
+ * The old token stops working immediately
+ */
+export const regenerateToken = mutation({
+  args: { id: v.id("kioskDevices") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage kiosk devices")
+
+    const device = await ctx.db.get(args.id)
+    if (!device) throw new Error("Kiosk device not found")
+
+    const token = generateDeviceToken()
+    await ctx.db.patch(args.id, { token })
+
+    await logAudit(ctx, {
+      user,
+      action: "regenerate_kiosk_token",
+      resourceType: "kioskDevice",
+      resourceId: args.id,
+      details: { name: device.name },
+    })
+
+    return token
+  },
+})
+
+/**
+ * Enable or disable a kiosk device (Superadmin only)
+ */
+export const setActive = mutation({
+  args: {
+    id: v.id("kioskDevices"),
+    isActive: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage kiosk devices")
+
+    const device = await ctx.db.get(args.id)
+    if (!device) throw new Error("Kiosk device not found")
+
+    await ctx.db.patch(args.id, { isActive: args.isActive })
+
+    await logAudit(ctx, {
+      user,
+      action: args.isActive ? "enable_kiosk_device" : "disable_kiosk_device",
+      resourceType: "kioskDevice",
+      resourceId: args.id,
+      before: { isActive: device.isActive },
+      after: { isActive: args.isActive },
+    })
+  },
+})
+
+/**
+ * Delete a kiosk device (Superadmin only)
+ */
+export const remove = mutation({
+  args: { id: v.id("kioskDevices") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage kiosk devices")
+
+    const device = await ctx.db.get(args.id)
+    if (!device) throw new Error("Kiosk device not found")
+
+    await ctx.db.delete(args.id)
+
+    await logAudit(ctx, {
+      user,
+      action: "delete_kiosk_device",
+      resourceType: "kioskDevice",
+      resourceId: args.id,
+      details: { name: device.name },
+    })
+  },
+})
@@ -0,0 +1,470 @@
+/**
+ * Certificate layouts and placeholder filling
+ * Shared by the PDF renderer (convex/certificates.ts) and the in-browser previews
+ * Pure functions only - no database or storage access here
+ */
+
+import { v } from "convex/values"
+import qrcode from "qrcode-generator"
+
+// ==================== VALIDATORS ====================
+
+export const pageSizeValidator = v.union(v.literal("letter"), v.literal("a4"), v.literal("legal"))
+
+export const layoutElementValidator = v.object({
+  id: v.string(),
+  text: v.string(),
+  x: v.number(),
+  y: v.number(),
+  fontSize: v.number(),
+  bold: v.optional(v.boolean()),
+  align: v.optional(v.union(v.literal("left"), v.literal("center"), v.literal("right"))),
+  maxWidth: v.optional(v.number()),
+})
+
+// ==================== TYPES ====================
+
+export type PageSize = "letter" | "a4" | "legal"
+
+export type LayoutElement = {
+  id: string
+  text: string // May contain {{placeholders}}, e.g. "{{resident.fullName}}"
+  x: number // Points from the left edge
+  y: number // Points from the top edge
+  fontSize: number
+  bold?: boolean
+  align?: "left" | "center" | "right"
+  maxWidth?: number // Wrap text to this width (points)
+}
+
+export type CertificateLayout = {
+  pageSize: PageSize
+  elements: Array<LayoutElement>
+}
+
+export type CertificateValues = {
+  resident: {
+    residentId: string
+    fullName: string
+    firstName: string
+    middleName: string
+    lastName: string
+    suffix: string
+    sex: string
+    civilStatus: string
+    birthdate: string
+    age: string
+    address: string
+    purok: string
+  }
+  documentType: {
+    name: string
+  }
+  request: {
+    requestNumber: string
+  }
+  purpose: string
+  issuedAt: string
+  officials: Record<string, string>
+  verification: {
+    code: string
+    url: string
+  }
+}
+
+// Page dimensions in points (1/72 inch)
+export const PAGE_SIZES: Record<PageSize, { width: number; height: number }> = {
+  letter: { width: 612, height: 792 },
+  a4: { width: 595.28, height: 841.89 },
+  legal: { width: 612, height: 1008 },
+}
+
+// ==================== BUILT-IN LAYOUTS ====================
+
+const BODY_WIDTH = 472 // Letter width minus 70pt margins
+
+function headerElements(): Array<LayoutElement> {
+  return [
+    { id: "republic", text: "Republic of the Philippines", x: 306, y: 60, fontSize: 11, align: "center" },
+    { id: "city", text: "City of Bacolod", x: 306, y: 76, fontSize: 11, align: "center" },
+    { id: "barangay", text: "BARANGAY HANDUMANAN", x: 306, y: 96, fontSize: 14, bold: true, align: "center" },
+    { id: "office", text: "OFFICE OF THE PUNONG BARANGAY", x: 306, y: 114, fontSize: 10, align: "center" },
+  ]
+}
+
+function signatoryElements(): Array<LayoutElement> {
+  return [
+    { id: "captainName", text: "{{officials.captain}}", x: 430, y: 600, fontSize: 12, bold: true, align: "center" },
+    { id: "captainTitle", text: "Punong Barangay", x: 430, y: 616, fontSize: 10, align: "center" },
+    { id: "requestNumber", text: "Control No.: {{request.requestNumber}}", x: 70, y: 700, fontSize: 9 },
+    { id: "residentId", text: "Resident ID: {{resident.residentId}}", x: 70, y: 714, fontSize: 9 },
+  ]
+}
+
+function bodyLayout(title: string, body: string): CertificateLayout {
+  return {
+    pageSize: "letter",
+    elements: [
+      ...headerElements(),
+      { id: "title", text: title, x: 306, y: 170, fontSize: 18, bold: true, align: "center" },
+      { id: "salutation", text: "TO WHOM IT MAY CONCERN:", x: 70, y: 230, fontSize: 12, bold: true },
+      { id: "body", text: body, x: 70, y: 260, fontSize: 12, maxWidth: BODY_WIDTH },
+      {
+        id: "purpose",
+        text: "This certification is issued upon the request of the above-named person for {{purpose}}.",
+        x: 70,
+        y: 400,
+        fontSize: 12,
+        maxWidth: BODY_WIDTH,
+      },
+      { id: "issuedAt", text: "Issued this {{issuedAt}}.", x: 70, y: 450, fontSize: 12 },
+      ...signatoryElements(),
+    ],
+  }
+}
+
+/**
+ * Built-in layouts keyed by documentTypes.templateKey
+ * Unknown keys fall back to DEFAULT_LAYOUT
+ */
+export const BUILT_IN_LAYOUTS: Record<string, CertificateLayout> = {
+  "clearance.pdf": bodyLayout(
+    "BARANGAY CLEARANCE",
+    "This is to certify that {{resident.fullName}}, {{resident.age}} years old, {{resident.civilStatus}}, and a resident of {{resident.address}}, has no derogatory record on file in this office as of this date."
+  ),
+  "residency.pdf": bodyLayout(
+    "CERTIFICATE OF RESIDENCY",
+    "This is to certify that {{resident.fullName}}, {{resident.age}} years old, {{resident.civilStatus}}, is a bona fide resident of {{resident.address}}."
+  ),
+  "indigency.pdf": bodyLayout(
+    "CERTIFICATE OF INDIGENCY",
+    "This is to certify that {{resident.fullName}}, {{resident.age}} years old, a resident of {{resident.address}}, belongs to an indigent family in this barangay."
+  ),
+}
+
+export const DEFAULT_LAYOUT: CertificateLayout = bodyLayout(
+  "{{documentType.name}}",
+  "This is to certify that {{resident.fullName}}, {{resident.age}} years old, is a resident of {{resident.address}}."
+)
+
+/**
+ * Resolve the layout for a document type's templateKey
+ */
+export function getBuiltInLayout(templateKey: string): CertificateLayout {
+  return BUILT_IN_LAYOUTS[templateKey.trim().toLowerCase()] ?? DEFAULT_LAYOUT
+}
+
+/**
+ * Placeholders available to template authors, with a short description
+ * Officials are keyed by barangayOfficials.position
+ */
+export const PLACEHOLDERS: Array<{ key: string; label: string }> = [
+  { key: "resident.fullName", label: "Resident full name" },
+  { key: "resident.firstName", label: "First name" },
+  { key: "resident.middleName", label: "Middle name" },
+  { key: "resident.lastName", label: "Last name" },
+  { key: "resident.suffix", label: "Suffix" },
+  { key: "resident.age", label: "Age" },
+  { key: "resident.sex", label: "Sex" },
+  { key: "resident.civilStatus", label: "Civil status" },
+  { key: "resident.birthdate", label: "Birthdate" },
+  { key: "resident.address", label: "Full address" },
+  { key: "resident.purok", label: "Purok" },
+  { key: "resident.residentId", label: "Resident ID" },
+  { key: "purpose", label: "Purpose" },
+  { key: "issuedAt", label: "Date issued" },
+  { key: "documentType.name", label: "Document type" },
+  { key: "request.requestNumber", label: "Request number" },
+  { key: "verification.code", label: "Verification code" },
+  { key: "verification.url", label: "Verification URL" },
+  { key: "officials.captain", label: "Punong Barangay" },
+  { key: "officials.secretary", label: "Barangay Secretary" },
+  { key: "officials.treasurer", label: "Barangay Treasurer" },
+]
+
+/**
+ * Sample resident used by the template designer's live preview
+ */
+export const SAMPLE_RESIDENT = {
+  residentId: "BH-00001",
+  firstName: "Juan",
+  middleName: "Santos",
+  lastName: "Dela Cruz",
+  suffix: "",
+  sex: "male",
+  civilStatus: "Married",
+  birthdate: Date.UTC(1985, 5, 12),
+  block: "5",
+  lot: "12",
+  phase: "1",
+  purok: "7",
+}
+
+/**
+ * Placeholder code shown in previews - real codes are generated at print time
+ */
+export const SAMPLE_VERIFICATION_CODE = "ABCD-2345"
+
+// ==================== VALUES ====================
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+]
+
+// Certificates are issued in the Philippines - always format dates in Asia/Manila (UTC+8)
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000
+
+function toManilaDate(timestamp: number): Date {
+  return new Date(timestamp + MANILA_OFFSET_MS)
+}
+
+function ordinal(day: number): string {
+  if (day % 100 >= 11 && day % 100 <= 13) return `${day}th`
+  switch (day % 10) {
+    case 1:
+      return `${day}st`
+    case 2:
+      return `${day}nd`
+    case 3:
+      return `${day}rd`
+    default:
+      return `${day}th`
+  }
+}
+
+/**
+ * Format a date the way certificates read: "19th day of October, 2026"
+ */
+export function formatIssuedAt(timestamp: number): string {
+  const date = toManilaDate(timestamp)
+  return `${ordinal(date.getUTCDate())} day of ${MONTHS[date.getUTCMonth()]}, ${date.getUTCFullYear()}`
+}
+
+/**
+ * Format a birthdate as "October 19, 1990"
+ */
+export function formatLongDate(timestamp: number): string {
+  const date = toManilaDate(timestamp)
+  return `${MONTHS[date.getUTCMonth()]} ${date.getUTCDate()}, ${date.getUTCFullYear()}`
+}
+
+function calculateAge(birthdate: number, at: number): number {
+  const birth = toManilaDate(birthdate)
+  const now = toManilaDate(at)
+  let age = now.getUTCFullYear() - birth.getUTCFullYear()
+  const monthDiff = now.getUTCMonth() - birth.getUTCMonth()
+  if (monthDiff < 0 || (monthDiff === 0 && now.getUTCDate() < birth.getUTCDate())) {
+    age--
+  }
+  return age
+}
+
+type ResidentFields = {
+  residentId?: string
+  firstName?: string
+  middleName?: string
+  lastName?: string
+  suffix?: string
+  sex?: string
+  civilStatus?: string
+  birthdate?: number
+  block?: string
+  lot?: string
+  phase?: string
+  purok?: string
+}
+
+/**
+ * Build placeholder values from a resident, request item and active officials
+ * Officials are keyed by their position (e.g. officials.captain, officials.secretary)
+ */
+export function buildCertificateValues(input: {
+  resident: ResidentFields
+  documentTypeName: string
+  requestNumber: string
+  purpose: string
+  issuedAt: number
+  officials: Array<{ position: string; name: string }>
+  verificationCode?: string
+  siteUrl?: string
+}): CertificateValues {
+  const { resident } = input
+  const fullName = [resident.firstName, resident.middleName, resident.lastName, resident.suffix]
+    .map((part) => (part ?? "").trim())
+    .filter(Boolean)
+    .join(" ")
+
+  const addressParts = [
+    resident.block ? `Block ${resident.block}` : "",
+    resident.lot ? `Lot ${resident.lot}` : "",
+    resident.phase ? `Phase ${resident.phase}` : "",
+    resident.purok ? `Purok ${resident.purok}` : "",
+  ].filter(Boolean)
+  const address = [...addressParts, "Barangay Handumanan, Bacolod City"].join(", ")
+
+  const officials: Record<string, string> = {}
+  for (const official of input.officials) {
+    officials[official.position] = official.name
+  }
+
+  return {
+    resident: {
+      residentId: resident.residentId ?? "",
+      fullName,
+      firstName: resident.firstName ?? "",
+      middleName: resident.middleName ?? "",
+      lastName: resident.lastName ?? "",
+      suffix: resident.suffix ?? "",
+      sex: resident.sex ?? "",
+      civilStatus: resident.civilStatus ?? "",
+      birthdate: resident.birthdate ? formatLongDate(resident.birthdate) : "",
+      age: resident.birthdate ? String(calculateAge(resident.birthdate, input.issuedAt)) : "",
+      address,
+      purok: resident.purok ?? "",
+    },
+    documentType: { name: input.documentTypeName },
+    request: { requestNumber: input.requestNumber },
+    purpose: input.purpose.trim(),
+    issuedAt: formatIssuedAt(input.issuedAt),
+    officials,
+    verification: {
+      code: input.verificationCode ?? "",
+      url: input.verificationCode ? buildVerificationUrl(input.verificationCode, input.siteUrl) : "",
+    },
+  }
+}
+
+// ==================== VERIFICATION ====================
+
+// No 0/O, 1/I/L so codes can be typed back from a paper copy
+const VERIFICATION_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ"
+
+/**
+ * Generate a random verification code, e.g. "K7QM-3XPA"
+ */
+export function generateVerificationCode(): string {
+  const bytes = new Uint8Array(8)
+  crypto.getRandomValues(bytes)
+  const chars = Array.from(bytes, (byte) => VERIFICATION_ALPHABET[byte % VERIFICATION_ALPHABET.length])
+  return `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`
+}
+
+/**
+ * Normalize a typed or scanned code: uppercase, trimmed, dash restored
+ */
+export function normalizeVerificationCode(code: string): string {
+  const compact = code.toUpperCase().replace(/[^0-9A-Z]/g, "")
+  return compact.length === 8 ? `${compact.slice(0, 4)}-${compact.slice(4)}` : compact
+}
+
+/**
+ * Public verification page URL for a code (/verify/$code)
+ * Without a site URL the QR code carries the bare code
+ */
+export function buildVerificationUrl(code: string, siteUrl?: string): string {
+  if (!siteUrl) return code
+  return `${siteUrl.replace(/\/+$/, "")}/verify/${code}`
+}
+
+const QR_SIZE = 72 // Points (1 inch)
+const QR_MARGIN = 40 // Points from the bottom-right page edges
+
+/**
+ * Where the verification QR code is drawn on every certificate
+ * Fixed to the bottom-right corner so templates don't need to place it
+ */
+export function getQrPlacement(pageSize: PageSize) {
+  const { width, height } = PAGE_SIZES[pageSize]
+  return {
+    x: width - QR_MARGIN - QR_SIZE,
+    y: height - QR_MARGIN - QR_SIZE - 12, // Leave room for the code underneath
+    size: QR_SIZE,
+    labelFontSize: 7,
+  }
+}
+
+/**
+ * Encode text as a QR matrix (true = dark module)
+ */
+export function getQrModules(text: string): Array<Array<boolean>> {
+  const qr = qrcode(0, "M")
+  qr.addData(text)
+  qr.make()
+
+  const count = qr.getModuleCount()
+  return Array.from({ length: count }, (_row, row) =>
+    Array.from({ length: count }, (_col, col) => qr.isDark(row, col))
+  )
+}
+
+// ==================== PLACEHOLDERS ====================
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g
+
+function resolvePath(values: unknown, path: string): string {
+  let current: unknown = values
+  for (const key of path.split(".")) {
+    if (current === null || typeof current !== "object") return ""
+    current = (current as Record<string, unknown>)[key]
+  }
+  return typeof current === "string" || typeof current === "number" ? String(current) : ""
+}
+
+/**
+ * Replace every {{path.to.value}} in text with the matching value
+ * Unknown placeholders render as empty strings
+ */
+export function fillPlaceholders(text: string, values: CertificateValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_match, path: string) => resolvePath(values, path))
+}
+
+/**
+ * Fill every element of a layout, ready to be drawn
+ */
+export function fillLayout(
+  layout: CertificateLayout,
+  values: CertificateValues
+): Array<LayoutElement> {
+  return layout.elements.map((element) => ({
+    ...element,
+    text: fillPlaceholders(element.text, values),
+  }))
+}
+
+/**
+ * Greedy word wrap using a width measuring function
+ * Shared so PDF output and browser previews break lines identically
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  measure: (line: string) => number
+): Array<string> {
+  const words = text.split(/\s+/).filter(Boolean)
+  const lines: Array<string> = []
+  let line = ""
+
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word
+    if (line && measure(candidate) > maxWidth) {
+      lines.push(line)
+      line = word
+    } else {
+      line = candidate
+    }
+  }
+  if (line) lines.push(line)
+
+  return lines
+}
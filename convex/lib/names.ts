@@ -0,0 +1,159 @@
+/**
+ * Name normalization and fuzzy matching for Filipino names
+ * Shared by resident search, duplicate detection and kiosk guest matching
+ * Pure functions only - no database access here
+ */
+
+// ==================== NORMALIZATION ====================
+
+// Surname particles dropped from the key ("Dela Cruz" and "De la Cruz" both become "cruz")
+const NAME_PARTICLES = new Set(["de", "del", "dela", "delas", "delos", "la", "las", "los", "y", "van", "von"])
+
+// Abbreviations written both ways on IDs and forms
+const NAME_ABBREVIATIONS: Record<string, string> = {
+  ma: "maria",
+  jr: "junior",
+  sr: "senior",
+  sto: "santo",
+  sta: "santa",
+}
+
+/**
+ * Split a name into normalized tokens
+ * Lowercases, removes diacritics (ñ becomes ny), expands abbreviations and drops particles
+ */
+export function normalizeNameTokens(text: string): string[] {
+  const plain = text
+    .toLowerCase()
+    .replace(/ñ/g, "ny")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9\s]/g, " ")
+
+  return plain
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token) => NAME_ABBREVIATIONS[token] ?? token)
+    .filter((token) => !NAME_PARTICLES.has(token))
+}
+
+/**
+ * Sound-alike code for one normalized token
+ * Folds common Filipino/Spanish spelling swaps (c/k/s, v/b, f/p, j/h, y/i, z/s, ll/ly)
+ * then keeps the first letter and the consonants
+ */
+export function phoneticKey(token: string): string {
+  const folded = token
+    .replace(/[^a-z]/g, "")
+    .replace(/ph/g, "f")
+    .replace(/chr/g, "kr")
+    .replace(/ch/g, "ts")
+    .replace(/qu/g, "k")
+    .replace(/gu(?=[ei])/g, "g")
+    .replace(/c(?=[eiy])/g, "s")
+    .replace(/[cq]/g, "k")
+    .replace(/x/g, "ks")
+    .replace(/z/g, "s")
+    .replace(/v/g, "b")
+    .replace(/f/g, "p")
+    .replace(/j/g, "h")
+    .replace(/th/g, "t")
+    .replace(/y/g, "i")
+    .replace(/h/g, "")
+
+  if (!folded) return ""
+  const rest = folded
+    .slice(1)
+    .replace(/[aeiou]/g, "")
+    .replace(/(.)\1+/g, "$1")
+  return (folded[0] + rest).replace(/(.)\1+/g, "$1")
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (!a) return b.length
+  if (!b) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// ==================== SEARCH KEYS ====================
+
+type NameParts = {
+  firstName: string
+  middleName?: string
+  lastName: string
+  suffix?: string
+}
+
+/**
+ * Text stored in residents.searchKey for the search_name index
+ * Normalized tokens followed by their sound-alike codes
+ */
+export function residentSearchKey(name: NameParts): string {
+  const tokens = normalizeNameTokens(
+    [name.firstName, name.middleName, name.lastName, name.suffix].filter(Boolean).join(" ")
+  )
+  const codes = tokens.map(phoneticKey).filter((code) => code.length > 1)
+  return Array.from(new Set([...tokens, ...codes])).join(" ")
+}
+
+/**
+ * Full text query for the search_name index
+ * Includes the sound-alike codes so spelling variants are found too
+ */
+export function nameSearchQuery(text: string): string {
+  const tokens = normalizeNameTokens(text)
+  const codes = tokens.map(phoneticKey).filter((code) => code.length > 1)
+  // The last term is prefix-matched, so the last typed word goes last
+  // Search queries are limited to 16 terms
+  return Array.from(new Set([...codes, ...tokens])).slice(-16).join(" ")
+}
+
+// ==================== RANKING ====================
+
+/**
+ * How well one typed token matches one name token (0 = no match, 1 = exact)
+ */
+function scoreToken(queryToken: string, nameToken: string): number {
+  if (queryToken === nameToken) return 1
+  if (queryToken.length >= 2 && nameToken.startsWith(queryToken)) return 0.9
+  if (phoneticKey(queryToken) === phoneticKey(nameToken) && phoneticKey(queryToken).length > 1) return 0.85
+
+  // Allow one typo in short names and two in long ones
+  const distance = editDistance(queryToken, nameToken)
+  const allowed = Math.max(queryToken.length, nameToken.length) >= 7 ? 2 : queryToken.length >= 4 ? 1 : 0
+  return distance <= allowed ? 0.8 - distance * 0.1 : 0
+}
+
+/**
+ * Score a name against typed text (0 to 1)
+ * Every typed token must match some name token; the score is the average token score
+ */
+export function scoreNameMatch(text: string, name: NameParts): number {
+  const queryTokens = normalizeNameTokens(text)
+  const nameTokens = normalizeNameTokens(
+    [name.firstName, name.middleName, name.lastName, name.suffix].filter(Boolean).join(" ")
+  )
+  if (queryTokens.length === 0 || nameTokens.length === 0) return 0
+
+  let total = 0
+  for (const queryToken of queryTokens) {
+    const best = Math.max(...nameTokens.map((nameToken) => scoreToken(queryToken, nameToken)))
+    if (best === 0) return 0
+    total += best
+  }
+  return total / queryTokens.length
+}
@@ -0,0 +1,99 @@
+/**
+ * Reprint report totals and flagging
+ * getReprintReport (convex/statistics.ts) returns per-staff counts one page at a time;
+ * the statistics page adds the pages up here
+ * Pure functions only - no database access here
+ */
+
+// ==================== TYPES ====================
+
+// Prints by one staff member within one page of printedDocuments
+export type ReprintCounts = {
+  userId: string // Clerk user ID of the staff member
+  name: string
+  prints: number
+  reprints: number
+  reasons: Array<{ reason: string; count: number }>
+}
+
+// Staff with fewer prints than this in the period are never flagged
+const MIN_PRINTS_FOR_REPRINT_FLAG = 10
+
+// ==================== COUNTING ====================
+
+/**
+ * Group printed documents by the staff member who printed them
+ */
+export function countReprints(
+  documents: Array<{ printedBy: string; reprintCount: number; reprintReason?: string }>,
+  nameOf: (userId: string) => string
+): ReprintCounts[] {
+  const byStaff = new Map<string, ReprintCounts>()
+  for (const doc of documents) {
+    const counts = byStaff.get(doc.printedBy) ?? {
+      userId: doc.printedBy,
+      name: nameOf(doc.printedBy),
+      prints: 0,
+      reprints: 0,
+      reasons: [],
+    }
+    counts.prints++
+    if (doc.reprintCount > 0) {
+      counts.reprints++
+      addReason(counts.reasons, doc.reprintReason || "No reason", 1)
+    }
+    byStaff.set(doc.printedBy, counts)
+  }
+  return Array.from(byStaff.values())
+}
+
+function addReason(reasons: ReprintCounts["reasons"], reason: string, count: number) {
+  const existing = reasons.find((r) => r.reason === reason)
+  if (existing) existing.count += count
+  else reasons.push({ reason, count })
+}
+
+// ==================== REPORT ====================
+
+/**
+ * Add up per-page counts into the report shown on the statistics page
+ * Flags staff whose reprint rate is well above the office-wide rate
+ */
+export function buildReprintReport(pages: ReprintCounts[]) {
+  const byStaff = new Map<string, ReprintCounts>()
+  for (const counts of pages) {
+    const total = byStaff.get(counts.userId) ?? { ...counts, prints: 0, reprints: 0, reasons: [] }
+    total.prints += counts.prints
+    total.reprints += counts.reprints
+    for (const { reason, count } of counts.reasons) addReason(total.reasons, reason, count)
+    byStaff.set(counts.userId, total)
+  }
+
+  const totalPrints = pages.reduce((sum, counts) => sum + counts.prints, 0)
+  const totalReprints = pages.reduce((sum, counts) => sum + counts.reprints, 0)
+  const overallRate = totalPrints > 0 ? totalReprints / totalPrints : 0
+
+  const staff = Array.from(byStaff.values()).map((total) => {
+    const reprintRate = total.reprints / total.prints
+    return {
+      userId: total.userId,
+      name: total.name,
+      prints: total.prints,
+      reprints: total.reprints,
+      reprintRate,
+      // Unusual: enough prints to judge, and at least double the office rate
+      isUnusual:
+        total.prints >= MIN_PRINTS_FOR_REPRINT_FLAG &&
+        total.reprints >= 3 &&
+        reprintRate >= Math.max(overallRate * 2, 0.1),
+      topReasons: [...total.reasons].sort((a, b) => b.count - a.count).slice(0, 3),
+    }
+  })
+
+  return {
+    totalPrints,
+    totalReprints,
+    overallRate,
+    staff: staff.sort((a, b) => b.reprintRate - a.reprintRate),
+  }
+}
@@ -0,0 +1,121 @@
+import { convexTest } from "convex-test"
+import { describe, expect, test } from "vitest"
+import { api } from "./_generated/api"
+import schema from "./schema"
+import { modules } from "./test.setup"
+
+describe("getDisplayData", () => {
+  test("returns only what the public display shows", async () => {
+    const t = convexTest(schema, modules)
+    const now = Date.now()
+    await t.run(async (ctx) => {
+      await ctx.db.insert("queue", {
+        queueNumber: "B-001",
+        serviceType: "Blotter / Complaints",
+        guestName: "Maria Santos",
+        status: "serving",
+        counterNumber: 2,
+        servedBy: "user_1",
+        startedAt: now,
+        calledAt: now,
+        handoffs: [
+          {
+            fromCounterNumber: 1,
+            toCounterNumber: 2,
+            toStaffId: "user_1",
+            reason: "Needs the barangay captain's signature",
+            transferredBy: "user_2",
+            transferredAt: now,
+          },
+        ],
+        createdAt: now,
+      })
+      await ctx.db.insert("queue", {
+        queueNumber: "Q-001",
+        serviceType: "service",
+        status: "waiting",
+        createdAt: now,
+      })
+    })
+
+    const display = await t.query(api.queue.getDisplayData, {})
+
+    expect(display.serving).toEqual([
+      {
+        _id: expect.any(String),
+        queueNumber: "B-001",
+        counterNumber: 2,
+        status: "serving",
+        lane: "regular",
+        serviceLabel: "Blotter / Complaints",
+        calledAt: now,
+      },
+    ])
+    expect(display.waiting).toEqual([
+      expect.objectContaining({ queueNumber: "Q-001", serviceLabel: "Documents", position: 1 }),
+    ])
+    for (const ticket of [...display.waiting, ...display.serving]) {
+      expect(ticket).not.toHaveProperty("guestName")
+      expect(ticket).not.toHaveProperty("servedBy")
+      expect(ticket).not.toHaveProperty("handoffs")
+    }
+  })
+})
+
+describe("estimateWaitTimes", () => {
+  test("uses the document types stored on each ticket", async () => {
+    const t = convexTest(schema, modules)
+    const now = Date.now()
+    await t.run(async (ctx) => {
+      const clearanceId = await ctx.db.insert("documentTypes", {
+        name: "Barangay Clearance",
+        templateKey: "clearance.pdf",
+        price: 5000,
+        requiresPurpose: false,
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      await ctx.db.insert("counters", {
+        number: 1,
+        name: "Counter 1",
+        documentTypeIds: [],
+        isOpen: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      // A clearance took 10 minutes; no documentRequestItems exist, so only the tickets are read
+      await ctx.db.insert("queue", {
+        queueNumber: "Q-001",
+        serviceType: "service",
+        documentTypeIds: [clearanceId],
+        status: "done",
+        startedAt: now - 20 * 60000,
+        completedAt: now - 10 * 60000,
+        createdAt: now - 30 * 60000,
+      })
+      await ctx.db.insert("queue", {
+        queueNumber: "Q-002",
+        serviceType: "service",
+        documentTypeIds: [clearanceId, clearanceId],
+        status: "waiting",
+        createdAt: now - 2000,
+      })
+      await ctx.db.insert("queue", {
+        queueNumber: "Q-003",
+        serviceType: "service",
+        documentTypeIds: [clearanceId],
+        status: "waiting",
+        createdAt: now - 1000,
+      })
+    })
+
+    const display = await t.query(api.queue.getDisplayData, {})
+
+    expect(display.waiting.map((ticket) => [ticket.queueNumber, ticket.estimatedMinutes])).toEqual([
+      ["Q-002", 0],
+      ["Q-003", 20],
+    ])
+    expect(display.nextTicketMinutes).toBe(30)
+  })
+})
@@ -4,8 +4,233 @@
  */
 
 import { v } from "convex/values"
-import { query, mutation } from "./_generated/server"
-import { getCurrentUser } from "./users"
+import { query, mutation, internalMutation, MutationCtx, QueryCtx } from "./_generated/server"
+import { Doc, Id } from "./_generated/dataModel"
+import { requireRole, STAFF_ROLES, SUPERADMIN_ROLES, userByExternalId } from "./users"
+import { logAudit } from "./auditLogs"
+import { canServeQueueItem, getCounterForStaff } from "./counters"
+import { manilaDateKey, manilaDayStart, maxSequenceNumber, nextSequence } from "./sequences"
+
+// ==================== HELPERS ====================
+
+export type QueueLane = "regular" | "priority"
+export type PriorityReason = "senior" | "pwd" | "pregnant" | "appointment"
+
+// Ticket prefix per lane: Q-001 regular, P-001 priority
+export const QUEUE_PREFIXES: Record<QueueLane, string> = {
+  regular: "Q",
+  priority: "P",
+}
+
+// Used for wait estimates when a document type has no completed tickets yet
+const DEFAULT_SERVICE_MINUTES = 5
+
+// Used until a superadmin saves queue settings: 1 priority for every 2 regular
+const DEFAULT_LANE_SETTINGS = {
+  priorityPerCycle: 1,
+  regularPerCycle: 2,
+  cyclePosition: 0,
+}
+
+/**
+ * Priority lane classification (senior citizens, PWDs and pregnant residents)
+ * Residents use their isSeniorCitizen/isPWD flags, kiosk guests their seniorOrPwd answer
+ */
+export function getPriorityReason(args: {
+  isSeniorCitizen?: boolean
+  isPWD?: boolean
+  seniorOrPwd?: "none" | "senior" | "pwd" | "both"
+  isPregnant?: boolean
+}): PriorityReason | null {
+  if (args.isSeniorCitizen || args.seniorOrPwd === "senior" || args.seniorOrPwd === "both") {
+    return "senior"
+  }
+  if (args.isPWD || args.seniorOrPwd === "pwd") return "pwd"
+  if (args.isPregnant) return "pregnant"
+  return null
+}
+
+/**
+ * Get the lane interleave settings (or the defaults if none saved yet)
+ */
+export async function getLaneSettings(ctx: QueryCtx) {
+  const settings = await ctx.db.query("queueSettings").first()
+  return settings ?? { _id: null, ...DEFAULT_LANE_SETTINGS }
+}
+
+/**
+ * Oldest waiting item in a lane that the counter can serve
+ * Items created before priority lanes have no lane and count as regular
+ */
+async function findNextInLane(ctx: QueryCtx, counter: Doc<"counters">, lane: QueueLane) {
+  const waiting =
+    lane === "priority"
+      ? await ctx.db
+          .query("queue")
+          .withIndex("by_status_lane_createdAt", (q) =>
+            q.eq("status", "waiting").eq("lane", "priority")
+          )
+          .order("asc")
+          .take(200)
+      : await ctx.db
+          .query("queue")
+          .withIndex("by_status_createdAt", (q) => q.eq("status", "waiting"))
+          .order("asc")
+          .take(200)
+
+  for (const item of waiting) {
+    if (lane === "regular" && item.lane === "priority") continue
+    if (await canServeQueueItem(ctx, counter, item)) {
+      return item
+    }
+  }
+  return null
+}
+
+/**
+ * Document type of each item in a request, stored on its ticket as queue.documentTypeIds
+ */
+export async function getRequestDocumentTypeIds(ctx: QueryCtx, documentRequestId: Id<"documentRequests">) {
+  const items = await ctx.db
+    .query("documentRequestItems")
+    .withIndex("by_documentRequestId", (q) => q.eq("documentRequestId", documentRequestId))
+    .take(50)
+  return items.map((item) => item.documentTypeId)
+}
+
+/**
+ * Refresh a request's ticket after items are added to an already queued request
+ */
+export async function syncQueueDocumentTypes(ctx: MutationCtx, documentRequestId: Id<"documentRequests">) {
+  const ticket = await ctx.db
+    .query("queue")
+    .withIndex("by_documentRequestId", (q) => q.eq("documentRequestId", documentRequestId))
+    .first()
+  if (ticket) {
+    await ctx.db.patch(ticket._id, { documentTypeIds: await getRequestDocumentTypeIds(ctx, documentRequestId) })
+  }
+}
+
+/**
+ * Average minutes to serve one document of each type, from recently completed tickets
+ * A ticket's startedAt → completedAt time is split evenly across its documents
+ */
+async function getServiceMinutesByType(ctx: QueryCtx) {
+  const done = await ctx.db
+    .query("queue")
+    .withIndex("by_status_createdAt", (q) => q.eq("status", "done"))
+    .order("desc")
+    .take(100)
+
+  const totals = new Map<Id<"documentTypes">, { minutes: number; count: number }>()
+  for (const item of done) {
+    const documentTypeIds = item.documentTypeIds ?? []
+    if (!item.startedAt || !item.completedAt || documentTypeIds.length === 0) continue
+
+    const share = (item.completedAt - item.startedAt) / 60000 / documentTypeIds.length
+    for (const documentTypeId of documentTypeIds) {
+      const total = totals.get(documentTypeId) ?? { minutes: 0, count: 0 }
+      totals.set(documentTypeId, {
+        minutes: total.minutes + share,
+        count: total.count + 1,
+      })
+    }
+  }
+
+  return new Map([...totals].map(([typeId, total]) => [typeId, total.minutes / total.count]))
+}
+
+/**
+ * Position in line and estimated minutes until called for every waiting ticket
+ * Follows processNext's order (returned tickets, then lanes interleaved) and
+ * divides the work ahead across the open counters
+ * nextTicketMinutes is the estimate for a ticket taken now
+ */
+export async function estimateWaitTimes(ctx: QueryCtx) {
+  const minutesByType = await getServiceMinutesByType(ctx)
+  const settings = await getLaneSettings(ctx)
+  const openCounters = (await ctx.db.query("counters").collect()).filter((c) => c.isOpen).length
+
+  const waiting = await ctx.db
+    .query("queue")
+    .withIndex("by_status_createdAt", (q) => q.eq("status", "waiting"))
+    .order("asc")
+    .take(1000)
+  const serving = await ctx.db
+    .query("queue")
+    .withIndex("by_status_createdAt", (q) => q.eq("status", "serving"))
+    .take(100)
+
+  // Service tickets have no documents and use the default
+  // Uses the document types stored on the ticket, so no per-ticket reads here
+  const serviceMinutes = (item: Doc<"queue">) => {
+    const documentTypeIds = item.documentTypeIds ?? []
+    if (documentTypeIds.length === 0) return DEFAULT_SERVICE_MINUTES
+    return documentTypeIds.reduce(
+      (sum, documentTypeId) => sum + (minutesByType.get(documentTypeId) ?? DEFAULT_SERVICE_MINUTES),
+      0
+    )
+  }
+
+  // Call order, mirroring processNext
+  const returned = waiting
+    .filter((item) => item.returnedAt !== undefined)
+    .sort((a, b) => (a.returnedAt ?? 0) - (b.returnedAt ?? 0))
+  const priority = waiting.filter((item) => item.returnedAt === undefined && item.lane === "priority")
+  const regular = waiting.filter((item) => item.returnedAt === undefined && item.lane !== "priority")
+
+  const order = [...returned]
+  const cycleLength = settings.priorityPerCycle + settings.regularPerCycle
+  let position = settings.cyclePosition
+  while (priority.length > 0 || regular.length > 0) {
+    const preferPriority =
+      cycleLength > 0 && position % cycleLength < settings.priorityPerCycle
+    const lane = preferPriority ? priority : regular
+    const next = lane.length > 0 ? lane.shift() : (preferPriority ? regular : priority).shift()
+    if (next) order.push(next)
+    position++
+  }
+
+  // Minutes of work ahead: what's left of tickets being served, then each waiting ticket
+  const now = Date.now()
+  let backlog = 0
+  for (const item of serving) {
+    const elapsed = item.startedAt ? (now - item.startedAt) / 60000 : 0
+    backlog += Math.max(0, serviceMinutes(item) - elapsed)
+  }
+
+  const counters = Math.max(1, openCounters)
+  const estimates = new Map<Id<"queue">, { position: number; estimatedMinutes: number }>()
+  for (const [index, item] of order.entries()) {
+    estimates.set(item._id, {
+      position: index + 1,
+      estimatedMinutes: Math.round(backlog / counters),
+    })
+    backlog += serviceMinutes(item)
+  }
+
+  return {
+    estimates,
+    nextTicketMinutes: Math.round(backlog / counters),
+  }
+}
+
+/**
+ * Public view of a ticket for the queue display
+ * Leaves out guest names, staff IDs and handoff reasons
+ * calledAt is when the number was last called, for the display's announcements
+ */
+function toDisplayTicket(item: Doc<"queue">) {
+  return {
+    _id: item._id,
+    queueNumber: item.queueNumber,
+    counterNumber: item.counterNumber,
+    status: item.status,
+    lane: item.lane ?? "regular",
+    serviceLabel: item.serviceType === "service" ? "Documents" : item.serviceType,
+    calledAt: item.calledAt ?? item.startedAt ?? null,
+  }
+}
 
 // ==================== QUERIES ====================
 
@@ -20,13 +245,16 @@ export const list = query({
         v.literal("waiting"),
         v.literal("serving"),
         v.literal("done"),
-        v.literal("skipped")
+        v.literal("skipped"),
+        v.literal("expired")
       )
     ),
     counterNumber: v.optional(v.number()),
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view the queue")
+
     // If counter number is provided, use by_counterNumber_status index
     if (args.counterNumber !== undefined && args.status !== undefined) {
       return await ctx.db
@@ -73,6 +301,8 @@ export const list = query({
 export const getByQueueNumber = query({
   args: { queueNumber: v.string() },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view the queue")
+
     return await ctx.db
       .query("queue")
       .withIndex("by_queueNumber", (q) => q.eq("queueNumber", args.queueNumber))
@@ -88,6 +318,8 @@ export const getByQueueNumber = query({
 export const getByRequestId = query({
   args: { documentRequestId: v.id("documentRequests") },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view the queue")
+
     // ✅ OPTIMIZED: Use by_documentRequestId index instead of .collect()
     return await ctx.db
       .query("queue")
@@ -106,11 +338,14 @@ export const listByStatus = query({
       v.literal("waiting"),
       v.literal("serving"),
       v.literal("done"),
-      v.literal("skipped")
+      v.literal("skipped"),
+      v.literal("expired")
     ),
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view the queue")
+
     return await ctx.db
       .query("queue")
       .withIndex("by_status_createdAt", (q) => q.eq("status", args.status))
@@ -126,6 +361,8 @@ export const listByStatus = query({
 export const getActive = query({
   args: {},
   handler: async (ctx) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view the queue")
+
     // ✅ OPTIMIZED: Add limits for safety (queue items are typically < 1000 per day)
     const waiting = await ctx.db
       .query("queue")
@@ -151,6 +388,8 @@ export const getActive = query({
  * Get all queue data for display screen (waiting + serving + done)
  * Optimized single query for queue display - reduces from 3 queries to 1
  * Uses indexed queries for each status
+ * Waiting items include position in line and estimated minutes until called
+ * Public, so tickets are trimmed to what the screen shows (see toDisplayTicket)
  */
 export const getDisplayData = query({
   args: {
@@ -176,10 +415,25 @@ export const getDisplayData = query({
       .order("asc")
       .take(args.doneLimit ?? 10)
 
+    // Missed numbers that can still be recalled today
+    const skipped = await ctx.db
+      .query("queue")
+      .withIndex("by_status_createdAt", (q) => q.eq("status", "skipped"))
+      .order("asc")
+      .take(50)
+
+    const { estimates, nextTicketMinutes } = await estimateWaitTimes(ctx)
+
     return {
-      waiting,
-      serving,
-      done,
+      waiting: waiting.map((item) => ({
+        ...toDisplayTicket(item),
+        position: estimates.get(item._id)?.position ?? null,
+        estimatedMinutes: estimates.get(item._id)?.estimatedMinutes ?? null,
+      })),
+      serving: serving.map(toDisplayTicket),
+      done: done.map(toDisplayTicket),
+      skipped: skipped.map(toDisplayTicket),
+      nextTicketMinutes,
     }
   },
 })
@@ -193,6 +447,8 @@ export const getStaffQueueData = query({
     counterNumber: v.optional(v.number()), // Filter by counter number (optional)
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view the queue")
+
     // ✅ OPTIMIZED: Get queue items with limits
     const waiting = await ctx.db
       .query("queue")
@@ -214,6 +470,9 @@ export const getStaffQueueData = query({
 
     // Enrich with document request and resident details
     const enrichQueueItem = async (item: any) => {
+      if (!item.documentRequestId) {
+        return { ...item, documentRequest: null, resident: null }
+      }
       const documentRequest = await ctx.db.get(item.documentRequestId)
       if (!documentRequest) {
         return { ...item, documentRequest: null, resident: null }
@@ -267,46 +526,120 @@ export const getStaffQueueData = query({
   },
 })
 
-// ==================== MUTATIONS ====================
+/**
+ * Get service tickets (blotter, health, payments) for the staff queue page
+ * These have no document request, so staff call and finish them from the queue page
+ */
+export const getServiceTickets = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view the queue")
+
+    const byStatus = async (status: "waiting" | "serving" | "skipped") => {
+      const items = await ctx.db
+        .query("queue")
+        .withIndex("by_status_createdAt", (q) => q.eq("status", status))
+        .order("asc")
+        .take(1000)
+      return items.filter((item) => item.serviceTypeId !== undefined)
+    }
+
+    const [waiting, serving, skipped] = await Promise.all([
+      byStatus("waiting"),
+      byStatus("serving"),
+      byStatus("skipped"),
+    ])
+
+    return { waiting, serving, skipped }
+  },
+})
 
 /**
- * Generate next queue number (Q-001 format, resets daily)
- * Finds the highest queue number for today and increments
+ * Get the handoff history of a queue item with staff names
+ * Oldest hop first
  */
-async function generateNextQueueNumber(ctx: any): Promise<string> {
-  const today = new Date()
-  today.setHours(0, 0, 0, 0)
-  const todayStart = today.getTime()
+export const getHandoffHistory = query({
+  args: { id: v.id("queue") },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view the queue")
 
-  // Get all queue items created today
-  const allQueueItems = await ctx.db.query("queue").collect()
-  const todayItems = allQueueItems.filter((item: any) => item.createdAt >= todayStart)
+    const queueItem = await ctx.db.get(args.id)
+    if (!queueItem) return []
 
-  let maxNumber = 0
+    const staffName = async (externalId?: string) =>
+      externalId ? ((await userByExternalId(ctx, externalId))?.name ?? "Unknown staff") : null
+
+    return await Promise.all(
+      (queueItem.handoffs ?? []).map(async (handoff) => ({
+        ...handoff,
+        fromStaffName: await staffName(handoff.fromStaffId),
+        toStaffName: await staffName(handoff.toStaffId),
+        transferredByName: await staffName(handoff.transferredBy),
+      }))
+    )
+  },
+})
+
+/**
+ * Get the priority/regular interleave rule
+ */
+export const getQueueSettings = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view queue settings")
 
-  for (const item of todayItems) {
-    const match = item.queueNumber.match(/Q-(\d+)/)
-    if (match) {
-      const num = parseInt(match[1], 10)
-      if (num > maxNumber) maxNumber = num
+    const settings = await getLaneSettings(ctx)
+    return {
+      priorityPerCycle: settings.priorityPerCycle,
+      regularPerCycle: settings.regularPerCycle,
     }
-  }
+  },
+})
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Generate next queue number for a lane (Q-001 / P-001 format)
+ * Service tickets use their service type's prefix (B-001) in both lanes
+ * Per-lane (or per-service-type) sequence that resets at midnight Asia/Manila
+ */
+export async function generateNextQueueNumber(
+  ctx: MutationCtx,
+  lane: QueueLane,
+  now = Date.now(),
+  serviceType?: Doc<"serviceTypes">
+): Promise<string> {
+  const prefix = serviceType ? serviceType.prefix : QUEUE_PREFIXES[lane]
+  const sequenceName = serviceType ? `queue:service:${serviceType._id}` : `queue:${lane}`
 
-  const nextNumber = (maxNumber + 1).toString().padStart(3, "0")
-  return `Q-${nextNumber}`
+  const number = await nextSequence(ctx, sequenceName, manilaDateKey(now), async () => {
+    // Tickets issued today before the sequence row existed
+    const todayItems = await ctx.db
+      .query("queue")
+      .withIndex("by_createdAt", (q) => q.gte("createdAt", manilaDayStart(now)))
+      .collect()
+    return maxSequenceNumber(
+      todayItems.map((item) => item.queueNumber),
+      new RegExp(`^${prefix}-(\\d+)$`)
+    )
+  })
+
+  return `${prefix}-${number.toString().padStart(3, "0")}`
 }
 
 /**
  * Create a new queue item
- * Public (kiosk) can create queue items when submitting requests
+ * Staff only - kiosk submissions go through kiosk.submitRequest
  */
 export const create = mutation({
   args: {
     documentRequestId: v.id("documentRequests"),
     serviceType: v.optional(v.string()), // Default: 'service'
+    isPregnant: v.optional(v.boolean()), // Priority lane for pregnant residents
   },
   handler: async (ctx, args) => {
-    // ✅ PUBLIC: Kiosk can create queue items (no auth required)
+    // Kiosk submissions go through kiosk.submitRequest instead
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can create queue items")
 
     // ✅ OPTIMIZED: Check if queue item already exists using by_documentRequestId index
     const existing = await ctx.db
@@ -320,14 +653,29 @@ export const create = mutation({
       )
     }
 
+    const documentRequest = await ctx.db.get(args.documentRequestId)
+    if (!documentRequest) throw new Error("Document request not found")
+
+    // Priority lane for senior citizens, PWDs and pregnant residents
+    const resident = await ctx.db.get(documentRequest.residentId)
+    const priorityReason = getPriorityReason({
+      isSeniorCitizen: resident?.isSeniorCitizen,
+      isPWD: resident?.isPWD,
+      isPregnant: args.isPregnant,
+    })
+    const lane: QueueLane = priorityReason ? "priority" : "regular"
+
     // Generate queue number
-    const queueNumber = await generateNextQueueNumber(ctx)
+    const queueNumber = await generateNextQueueNumber(ctx, lane)
 
     const now = Date.now()
     const queueId = await ctx.db.insert("queue", {
       documentRequestId: args.documentRequestId,
+      documentTypeIds: await getRequestDocumentTypeIds(ctx, args.documentRequestId),
       queueNumber,
       serviceType: args.serviceType || "service",
+      lane,
+      priorityReason: priorityReason ?? undefined,
       status: "waiting",
       createdAt: now,
     })
@@ -337,6 +685,15 @@ export const create = mutation({
       status: "queued",
     })
 
+    await logAudit(ctx, {
+      user,
+      action: "create_queue",
+      resourceType: "queue",
+      resourceId: queueId,
+      before: null,
+      after: await ctx.db.get(queueId),
+    })
+
     return queueId
   },
 })
@@ -352,18 +709,13 @@ export const updateStatus = mutation({
       v.literal("waiting"),
       v.literal("serving"),
       v.literal("done"),
-      v.literal("skipped")
+      v.literal("skipped"),
+      v.literal("expired")
     ),
     counterNumber: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-
-    // Only staff can update queue
-    if (user.role !== "staff" && user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only staff can update queue")
-    }
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can update queue")
 
     const updates: any = {
       status: args.status,
@@ -385,57 +737,135 @@ export const updateStatus = mutation({
       updates.counterNumber = args.counterNumber
     }
 
+    const before = await ctx.db.get(args.id)
+    if (!before) throw new Error("Queue item not found")
+
     await ctx.db.patch(args.id, updates)
+
+    await logAudit(ctx, {
+      user,
+      action: "update_queue_status",
+      resourceType: "queue",
+      resourceId: args.id,
+      before,
+      after: await ctx.db.get(args.id),
+    })
+
     return args.id
   },
 })
 
 /**
  * Process next queue item (Staff action)
+ * Hands out the oldest waiting item the staff member's counter can serve
+ * (tickets transferred back to the waiting list first),
+ * alternating lanes by the interleave rule (e.g. 1 priority, then 2 regular)
  * Marks queue as "serving" and assigns counter
  * Updates document request status to "serving"
  */
 export const processNext = mutation({
-  args: {
-    counterNumber: v.optional(v.number()),
-  },
-  handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can process queue")
 
-    // Only staff can process queue
-    if (user.role !== "staff" && user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only staff can process queue")
+    const counter = await getCounterForStaff(ctx, user.externalId)
+    if (!counter || !counter.isOpen) {
+      throw new Error("Select your counter before processing the queue")
     }
 
-    // Get oldest waiting item (FIFO)
-    const nextItem = await ctx.db
+    const hasWaiting = await ctx.db
       .query("queue")
-      .withIndex("by_status_createdAt", (q) => q.eq("status", "waiting"))
-      .order("asc")
+      .withIndex("by_status", (q) => q.eq("status", "waiting"))
       .first()
 
-    if (!nextItem) {
+    if (!hasWaiting) {
       throw new Error("No items in queue")
     }
 
+    // Tickets transferred back to the waiting list go to the head of the line
+    const returned = await ctx.db
+      .query("queue")
+      .withIndex("by_status_returnedAt", (q) => q.eq("status", "waiting").gte("returnedAt", 0))
+      .order("asc")
+      .take(50)
+    let returnedItem = null
+    for (const item of returned) {
+      if (await canServeQueueItem(ctx, counter, item)) {
+        returnedItem = item
+        break
+      }
+    }
+
+    // Priority calls come first in each cycle; fall back to the other lane when empty
+    const settings = await getLaneSettings(ctx)
+    const cycleLength = settings.priorityPerCycle + settings.regularPerCycle
+    const position = cycleLength > 0 ? settings.cyclePosition % cycleLength : 0
+    const preferredLane: QueueLane =
+      position < settings.priorityPerCycle ? "priority" : "regular"
+    const otherLane: QueueLane = preferredLane === "priority" ? "regular" : "priority"
+
+    const nextItem =
+      returnedItem ??
+      (await findNextInLane(ctx, counter, preferredLane)) ??
+      (await findNextInLane(ctx, counter, otherLane))
+
+    if (!nextItem) {
+      throw new Error(`No waiting items can be served at Counter ${counter.number}`)
+    }
+
+    // Returned tickets were already called once; they don't use up a slot in the cycle
+    if (!returnedItem) {
+      const nextPosition = cycleLength > 0 ? (position + 1) % cycleLength : 0
+      if (settings._id) {
+        await ctx.db.patch(settings._id, { cyclePosition: nextPosition })
+      } else {
+        await ctx.db.insert("queueSettings", {
+          ...DEFAULT_LANE_SETTINGS,
+          cyclePosition: nextPosition,
+          updatedAt: Date.now(),
+        })
+      }
+    }
+
     // Update queue item to "serving"
+    const now = Date.now()
     await ctx.db.patch(nextItem._id, {
       status: "serving",
-      startedAt: Date.now(),
+      startedAt: now,
+      calledAt: now,
+      callCount: (nextItem.callCount ?? 0) + 1,
       servedBy: user.externalId,
-      counterNumber: args.counterNumber,
+      counterNumber: counter.number,
+      returnedAt: undefined,
     })
 
-    // Update document request status to "serving"
-    await ctx.db.patch(nextItem.documentRequestId, {
-      status: "serving",
+    // Update document request status to "serving" (service tickets have none)
+    if (nextItem.documentRequestId) {
+      await ctx.db.patch(nextItem.documentRequestId, {
+        status: "serving",
+      })
+    }
+
+    await logAudit(ctx, {
+      user,
+      action: "process_queue",
+      resourceType: "queue",
+      resourceId: nextItem._id,
+      before: nextItem,
+      after: await ctx.db.get(nextItem._id),
+      details: {
+        documentRequestId: nextItem.documentRequestId,
+        counterNumber: counter.number,
+        lane: nextItem.lane ?? "regular",
+      },
     })
 
     // Return both queue ID and documentRequestId for easier navigation
+    // (no documentRequestId for service tickets; staff serve those from the queue page)
     return {
       queueId: nextItem._id,
-      documentRequestId: nextItem.documentRequestId,
+      queueNumber: nextItem.queueNumber,
+      documentRequestId: nextItem.documentRequestId ?? null,
     }
   },
 })
@@ -448,13 +878,7 @@ export const processNext = mutation({
 export const markDone = mutation({
   args: { id: v.id("queue") },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-
-    // Only staff can mark as done
-    if (user.role !== "staff" && user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only staff can mark items as done")
-    }
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can mark items as done")
 
     const queueItem = await ctx.db.get(args.id)
     if (!queueItem) {
@@ -468,11 +892,355 @@ export const markDone = mutation({
     })
 
     // Update document request status to "completed"
-    await ctx.db.patch(queueItem.documentRequestId, {
-      status: "completed",
-      completedAt: Date.now(),
+    if (queueItem.documentRequestId) {
+      await ctx.db.patch(queueItem.documentRequestId, {
+        status: "completed",
+        completedAt: Date.now(),
+      })
+    }
+
+    await logAudit(ctx, {
+      user,
+      action: "complete_queue",
+      resourceType: "queue",
+      resourceId: args.id,
+      before: queueItem,
+      after: await ctx.db.get(args.id),
+      details: { documentRequestId: queueItem.documentRequestId },
+    })
+
+    return args.id
+  },
+})
+
+/**
+ * Transfer a serving ticket (Staff action)
+ * To another open counter (its staff takes over), or back to the head of the
+ * waiting list when no counter is given. Each hop is kept in handoffs
+ */
+export const transfer = mutation({
+  args: {
+    id: v.id("queue"),
+    toCounterId: v.optional(v.id("counters")),
+    reason: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can transfer queue numbers")
+
+    const queueItem = await ctx.db.get(args.id)
+    if (!queueItem) throw new Error("Queue item not found")
+    if (queueItem.status !== "serving") {
+      throw new Error(`${queueItem.queueNumber} is not being served`)
+    }
+
+    const now = Date.now()
+    const handoff = {
+      fromStaffId: queueItem.servedBy,
+      fromCounterNumber: queueItem.counterNumber,
+      reason: args.reason?.trim() || undefined,
+      transferredBy: user.externalId,
+      transferredAt: now,
+    }
+
+    if (args.toCounterId) {
+      const counter = await ctx.db.get(args.toCounterId)
+      if (!counter) throw new Error("Counter not found")
+      if (!counter.isOpen || !counter.activeStaffId) {
+        throw new Error(`Counter ${counter.number} is closed`)
+      }
+      if (counter.number === queueItem.counterNumber) {
+        throw new Error(`${queueItem.queueNumber} is already at Counter ${counter.number}`)
+      }
+      if (!(await canServeQueueItem(ctx, counter, queueItem))) {
+        throw new Error(
+          queueItem.serviceTypeId
+            ? `Counter ${counter.number} doesn't handle ${queueItem.serviceType}`
+            : `Counter ${counter.number} doesn't handle every document in this request`
+        )
+      }
+
+      // Calling again at the new counter so the display tells the resident where to go
+      await ctx.db.patch(args.id, {
+        servedBy: counter.activeStaffId,
+        counterNumber: counter.number,
+        calledAt: now,
+        callCount: (queueItem.callCount ?? 1) + 1,
+        handoffs: [
+          ...(queueItem.handoffs ?? []),
+          { ...handoff, toStaffId: counter.activeStaffId, toCounterNumber: counter.number },
+        ],
+      })
+    } else {
+      await ctx.db.patch(args.id, {
+        status: "waiting",
+        servedBy: undefined,
+        counterNumber: undefined,
+        startedAt: undefined,
+        returnedAt: now,
+        handoffs: [...(queueItem.handoffs ?? []), handoff],
+      })
+
+      if (queueItem.documentRequestId) {
+        await ctx.db.patch(queueItem.documentRequestId, {
+          status: "queued",
+        })
+      }
+    }
+
+    await logAudit(ctx, {
+      user,
+      action: "transfer_queue",
+      resourceType: "queue",
+      resourceId: args.id,
+      before: queueItem,
+      after: await ctx.db.get(args.id),
+      details: { documentRequestId: queueItem.documentRequestId, reason: handoff.reason },
+    })
+
+    return args.id
+  },
+})
+
+/**
+ * Call a serving number again (Staff action)
+ * Bumps calledAt so the display announces it again
+ */
+export const callAgain = mutation({
+  args: { id: v.id("queue") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can call queue numbers")
+
+    const queueItem = await ctx.db.get(args.id)
+    if (!queueItem) throw new Error("Queue item not found")
+    if (queueItem.status !== "serving") {
+      throw new Error(`${queueItem.queueNumber} is not being served`)
+    }
+
+    await ctx.db.patch(args.id, {
+      calledAt: Date.now(),
+      callCount: (queueItem.callCount ?? 1) + 1,
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: "call_again_queue",
+      resourceType: "queue",
+      resourceId: args.id,
+      before: queueItem,
+      after: await ctx.db.get(args.id),
+      details: { documentRequestId: queueItem.documentRequestId },
+    })
+
+    return args.id
+  },
+})
+
+/**
+ * Skip a serving number when the resident doesn't answer (Staff action)
+ * Moves the ticket to the recall pool; the document request becomes "skipped"
+ */
+export const skip = mutation({
+  args: { id: v.id("queue") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can skip queue numbers")
+
+    const queueItem = await ctx.db.get(args.id)
+    if (!queueItem) throw new Error("Queue item not found")
+    if (queueItem.status !== "serving") {
+      throw new Error(`${queueItem.queueNumber} is not being served`)
+    }
+
+    await ctx.db.patch(args.id, {
+      status: "skipped",
+      skippedAt: Date.now(),
+    })
+
+    if (queueItem.documentRequestId) {
+      await ctx.db.patch(queueItem.documentRequestId, {
+        status: "skipped",
+      })
+    }
+
+    await logAudit(ctx, {
+      user,
+      action: "skip_queue",
+      resourceType: "queue",
+      resourceId: args.id,
+      before: queueItem,
+      after: await ctx.db.get(args.id),
+      details: { documentRequestId: queueItem.documentRequestId },
     })
 
     return args.id
   },
 })
+
+/**
+ * Recall a skipped number (Staff action, when the resident comes back)
+ * Serves it right away at the staff member's counter
+ */
+export const recall = mutation({
+  args: { id: v.id("queue") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can recall queue numbers")
+
+    const counter = await getCounterForStaff(ctx, user.externalId)
+    if (!counter || !counter.isOpen) {
+      throw new Error("Select your counter before recalling a number")
+    }
+
+    const queueItem = await ctx.db.get(args.id)
+    if (!queueItem) throw new Error("Queue item not found")
+    if (queueItem.status !== "skipped") {
+      throw new Error(`${queueItem.queueNumber} is not in the recall list`)
+    }
+
+    const now = Date.now()
+    await ctx.db.patch(args.id, {
+      status: "serving",
+      startedAt: now,
+      calledAt: now,
+      callCount: (queueItem.callCount ?? 1) + 1,
+      servedBy: user.externalId,
+      counterNumber: counter.number,
+    })
+
+    if (queueItem.documentRequestId) {
+      await ctx.db.patch(queueItem.documentRequestId, {
+        status: "serving",
+      })
+    }
+
+    await logAudit(ctx, {
+      user,
+      action: "recall_queue",
+      resourceType: "queue",
+      resourceId: args.id,
+      before: queueItem,
+      after: await ctx.db.get(args.id),
+      details: { documentRequestId: queueItem.documentRequestId, counterNumber: counter.number },
+    })
+
+    return {
+      queueId: args.id,
+      queueNumber: queueItem.queueNumber,
+      documentRequestId: queueItem.documentRequestId ?? null,
+    }
+  },
+})
+
+/**
+ * Expire skipped numbers that were never recalled (end of day, see crons.ts)
+ * Marks the queue item "expired" and cancels the document request as a no-show
+ */
+export const expireSkipped = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const skipped = await ctx.db
+      .query("queue")
+      .withIndex("by_status", (q) => q.eq("status", "skipped"))
+      .take(500)
+
+    for (const queueItem of skipped) {
+      await ctx.db.patch(queueItem._id, {
+        status: "expired",
+        completedAt: Date.now(),
+      })
+
+      if (queueItem.documentRequestId) {
+        await ctx.db.patch(queueItem.documentRequestId, {
+          status: "cancelled",
+        })
+      }
+
+      await logAudit(ctx, {
+        user: null, // Scheduled job
+        action: "expire_queue",
+        resourceType: "queue",
+        resourceId: queueItem._id,
+        before: queueItem,
+        after: await ctx.db.get(queueItem._id),
+        details: { documentRequestId: queueItem.documentRequestId, reason: "no_show" },
+      })
+    }
+
+    return skipped.length
+  },
+})
+
+/**
+ * Store documentTypeIds on tickets created before wait estimates read them from the ticket (internal)
+ * Run once from the Convex dashboard; covers the tickets estimateWaitTimes looks at
+ */
+export const backfillDocumentTypeIds = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    let updated = 0
+    for (const status of ["waiting", "serving", "done"] as const) {
+      const tickets = await ctx.db
+        .query("queue")
+        .withIndex("by_status_createdAt", (q) => q.eq("status", status))
+        .order("desc")
+        .take(status === "done" ? 100 : 1000)
+
+      for (const ticket of tickets) {
+        if (ticket.documentTypeIds || !ticket.documentRequestId) continue
+        await ctx.db.patch(ticket._id, {
+          documentTypeIds: await getRequestDocumentTypeIds(ctx, ticket.documentRequestId),
+        })
+        updated++
+      }
+    }
+    return updated
+  },
+})
+
+/**
+ * Update the priority/regular interleave rule (Superadmin only)
+ * e.g. 1 priority for every 2 regular; restarts the current cycle
+ */
+export const updateQueueSettings = mutation({
+  args: {
+    priorityPerCycle: v.number(),
+    regularPerCycle: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can change queue settings")
+
+    for (const value of [args.priorityPerCycle, args.regularPerCycle]) {
+      if (!Number.isInteger(value) || value < 0 || value > 20) {
+        throw new Error("Lane counts must be whole numbers from 0 to 20")
+      }
+    }
+    if (args.priorityPerCycle + args.regularPerCycle === 0) {
+      throw new Error("At least one lane must be called each cycle")
+    }
+
+    const before = await ctx.db.query("queueSettings").first()
+    const updates = {
+      priorityPerCycle: args.priorityPerCycle,
+      regularPerCycle: args.regularPerCycle,
+      cyclePosition: 0,
+      updatedAt: Date.now(),
+      updatedBy: user.externalId,
+    }
+
+    let id = before?._id
+    if (id) {
+      await ctx.db.patch(id, updates)
+    } else {
+      id = await ctx.db.insert("queueSettings", updates)
+    }
+
+    await logAudit(ctx, {
+      user,
+      action: "update_queue_settings",
+      resourceType: "queue",
+      resourceId: id,
+      before,
+      after: await ctx.db.get(id),
+    })
+
+    return id
+  },
+})
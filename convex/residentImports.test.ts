@@ -0,0 +1,167 @@
+import { convexTest } from "convex-test"
+import { describe, expect, test } from "vitest"
+import { api } from "./_generated/api"
+import { Id } from "./_generated/dataModel"
+import schema from "./schema"
+import { modules, testResident } from "./test.setup"
+
+/**
+ * Seed an admin and a committed batch that imported BH-00001, BH-00002, ... (three by default)
+ */
+async function seed(t: ReturnType<typeof convexTest>, rowCount = 3) {
+  return await t.run(async (ctx) => {
+    const now = Date.now()
+    await ctx.db.insert("users", {
+      name: "Admin",
+      externalId: "user_admin",
+      role: "admin",
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    })
+    const batchId = await ctx.db.insert("importBatches", {
+      fileName: "purok-1.xlsx",
+      status: "committed",
+      totalRows: rowCount,
+      stagedRows: rowCount,
+      problemRows: 0,
+      importedRows: rowCount,
+      skippedRows: 0,
+      keptRows: 0,
+      createdBy: "user_admin",
+      createdAt: now,
+      updatedAt: now,
+      committedAt: now,
+    })
+
+    const residentIds: Array<Id<"residents">> = []
+    for (let rowNumber = 1; rowNumber <= rowCount; rowNumber++) {
+      const residentId = await ctx.db.insert(
+        "residents",
+        testResident({ residentId: `BH-${String(rowNumber).padStart(5, "0")}` })
+      )
+      await ctx.db.insert("importRows", {
+        batchId,
+        rowNumber,
+        data: {},
+        errors: [],
+        hasProblems: false,
+        status: "imported",
+        residentId,
+      })
+      residentIds.push(residentId)
+    }
+    return { batchId, residentIds }
+  })
+}
+
+describe("rollbackChunk", () => {
+  test("keeps imported residents that have appointments or merged records", async () => {
+    const t = convexTest(schema, modules)
+    const { batchId, residentIds } = await seed(t)
+    const [withAppointment, withAlias] = residentIds
+    await t.run(async (ctx) => {
+      const now = Date.now()
+      const documentTypeId = await ctx.db.insert("documentTypes", {
+        name: "Barangay Clearance",
+        templateKey: "clearance.pdf",
+        price: 5000,
+        requiresPurpose: false,
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      await ctx.db.insert("appointments", {
+        bookingCode: "K7M2QX",
+        residentId: withAppointment,
+        documentTypeId,
+        purpose: "",
+        slotStart: now,
+        status: "cancelled",
+        source: "online",
+        createdAt: now,
+      })
+      await ctx.db.insert("residentIdAliases", {
+        alias: "BH-00099",
+        residentId: withAlias,
+        mergedBy: "user_admin",
+        mergedAt: now,
+      })
+    })
+
+    const admin = t.withIdentity({ subject: "user_admin" })
+    const result = await admin.mutation(api.residentImports.rollbackChunk, { batchId })
+
+    expect(result).toMatchObject({ keptRows: 2, done: true })
+    const remaining = await t.run(async (ctx) => Promise.all(residentIds.map((id) => ctx.db.get(id))))
+    expect(remaining.map((resident) => resident?._id ?? null)).toEqual([withAppointment, withAlias, null])
+
+    const rows = await t.run((ctx) => ctx.db.query("importRows").collect())
+    expect(rows.map((row) => row.skipReason)).toEqual([
+      "Kept - resident has appointments",
+      "Kept - another record was merged into this resident",
+      undefined,
+    ])
+  })
+  test("audits the total removed across chunks", async () => {
+    const t = convexTest(schema, modules)
+    const { batchId, residentIds } = await seed(t, 150)
+    await t.run((ctx) =>
+      ctx.db.insert("residentIdAliases", {
+        alias: "BH-00999",
+        residentId: residentIds[0],
+        mergedBy: "user_admin",
+        mergedAt: Date.now(),
+      })
+    )
+
+    const admin = t.withIdentity({ subject: "user_admin" })
+    expect(await admin.mutation(api.residentImports.rollbackChunk, { batchId })).toMatchObject({ done: false })
+    expect(await admin.mutation(api.residentImports.rollbackChunk, { batchId })).toMatchObject({
+      keptRows: 1,
+      done: true,
+    })
+
+    const audit = await t.run((ctx) =>
+      ctx.db
+        .query("auditLogs")
+        .withIndex("by_resourceType_resourceId", (q) => q.eq("resourceType", "importBatch").eq("resourceId", batchId))
+        .collect()
+    )
+    expect(audit).toHaveLength(1)
+    expect(audit[0].details).toMatchObject({ removed: 149, kept: 1 })
+  })
+})
+
+describe("mapping profiles", () => {
+  test("audits saving, replacing and deleting a profile", async () => {
+    const t = convexTest(schema, modules)
+    await seed(t, 0)
+    const admin = t.withIdentity({ subject: "user_admin" })
+
+    const id = await admin.mutation(api.residentImports.saveMappingProfile, {
+      name: "Purok census",
+      mapping: { firstName: "First Name" },
+    })
+    await admin.mutation(api.residentImports.saveMappingProfile, {
+      name: "Purok census",
+      mapping: { firstName: "Given Name" },
+    })
+    await admin.mutation(api.residentImports.deleteMappingProfile, { id })
+
+    const entries = await t.run((ctx) =>
+      ctx.db
+        .query("auditLogs")
+        .withIndex("by_resourceType", (q) => q.eq("resourceType", "importMappingProfile"))
+        .collect()
+    )
+    expect(entries.map((entry) => [entry.action, entry.resourceId])).toEqual([
+      ["create_mapping_profile", id],
+      ["update_mapping_profile", id],
+      ["delete_mapping_profile", id],
+    ])
+    await expect(admin.mutation(api.residentImports.deleteMappingProfile, { id })).rejects.toThrow(
+      "Mapping profile not found"
+    )
+  })
+})
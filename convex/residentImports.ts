@@ -0,0 +1,952 @@
+/**
+ * Convex functions for two-phase resident imports
+ * Parsed spreadsheet rows are staged and validated first so admins can fix
+ * them in a grid; the commit then inserts in resumable chunks, and a whole
+ * batch can be rolled back
+ */
+
+import { v } from "convex/values"
+import { query, mutation, MutationCtx, QueryCtx } from "./_generated/server"
+import { Doc, Id } from "./_generated/dataModel"
+import { requireRole, userByExternalId, ADMIN_ROLES } from "./users"
+import { logAudit } from "./auditLogs"
+import {
+  findResidentByCode,
+  findSimilarResidents,
+  generateNextResidentId,
+  isSameBirthday,
+  STRONG_NAME_SCORE,
+} from "./residents"
+import { residentSearchKey } from "./lib/names"
+
+// ==================== HELPERS ====================
+
+// Rows per stageRows call and per commit/rollback chunk - keeps each mutation well under Convex limits
+const STAGE_CHUNK_SIZE = 200
+const COMMIT_CHUNK_SIZE = 100
+const DISCARD_CHUNK_SIZE = 500
+
+const REQUIRED_FIELDS = [
+  "block",
+  "lot",
+  "lastName",
+  "firstName",
+  "birthdate",
+  "sex",
+  "phase",
+  "purok",
+  "civilStatus",
+  "educationalAttainment",
+]
+
+const BOOLEAN_FIELDS = [
+  "isResidentVoter",
+  "isRegisteredVoter",
+  "isOFW",
+  "isPWD",
+  "isOSY",
+  "isSeniorCitizen",
+  "isSoloParent",
+  "isIP",
+  "isMigrant",
+  "isBedBound",
+  "isWheelchairBound",
+  "isDialysisPatient",
+  "isCancerPatient",
+  "isNationalPensioner",
+  "isLocalPensioner",
+] as const
+
+// Every field a spreadsheet row can fill; other keys are dropped when staging
+const IMPORT_FIELDS = new Set([
+  ...REQUIRED_FIELDS,
+  ...BOOLEAN_FIELDS,
+  "middleName",
+  "suffix",
+  "residentId",
+  "occupation",
+  "employmentStatus",
+  "contactNumber",
+  "email",
+  "estimatedMonthlyIncome",
+  "primarySourceOfLivelihood",
+  "tenureStatus",
+  "housingType",
+  "constructionType",
+  "sanitationMethod",
+  "religion",
+  "debilitatingDiseases",
+])
+
+const CIVIL_STATUSES = ["Single", "Married", "Widowed", "Separated", "Live-in"] as const
+const EDUCATION_LEVELS = ["No Grade", "Elementary", "High School", "Vocational", "College", "Grad School"] as const
+const HOUSING_TYPES = ["Owned", "Rented", "Shared"] as const
+const CONSTRUCTION_TYPES = ["Light", "Medium", "Heavy"] as const
+
+type ImportError = { field: string; message: string }
+
+// Resident fields parsed from a row; ID, household and timestamps are filled in on commit
+type ParsedImportRow = Omit<
+  Doc<"residents">,
+  "_id" | "_creationTime" | "residentId" | "householdId" | "familyId" | "relationshipToHead" | "status" | "createdAt" | "updatedAt"
+>
+
+/**
+ * Parse date string to timestamp
+ * Accepts multiple formats: MM/DD/YYYY, DD/MM/YYYY, YYYY-MM-DD, DD-MM-YYYY, MM-DD-YYYY
+ */
+function parseDate(dateStr: string): number | null {
+  if (!dateStr || typeof dateStr !== "string") return null
+  
+  const trimmed = dateStr.trim()
+  if (!trimmed) return null
+
+  // Try different date formats
+  const formats = [
+    /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, // MM/DD/YYYY or DD/MM/YYYY
+    /^(\d{4})-(\d{1,2})-(\d{1,2})$/, // YYYY-MM-DD
+    /^(\d{1,2})-(\d{1,2})-(\d{4})$/, // DD-MM-YYYY or MM-DD-YYYY
+  ]
+
+  for (const format of formats) {
+    const match = trimmed.match(format)
+    if (match) {
+      let year: number, month: number, day: number
+      
+      if (format === formats[1]) {
+        // YYYY-MM-DD
+        year = parseInt(match[1], 10)
+        month = parseInt(match[2], 10)
+        day = parseInt(match[3], 10)
+      } else if (format === formats[0]) {
+        // MM/DD/YYYY or DD/MM/YYYY - try both interpretations
+        const m1 = parseInt(match[1], 10)
+        const m2 = parseInt(match[2], 10)
+        const y = parseInt(match[3], 10)
+        
+        // Heuristic: if first number > 12, it's DD/MM/YYYY
+        if (m1 > 12) {
+          day = m1
+          month = m2
+          year = y
+        } else if (m2 > 12) {
+          month = m1
+          day = m2
+          year = y
+        } else {
+          // Ambiguous - prefer MM/DD/YYYY (US format)
+          month = m1
+          day = m2
+          year = y
+        }
+      } else {
+        // DD-MM-YYYY or MM-DD-YYYY
+        const m1 = parseInt(match[1], 10)
+        const m2 = parseInt(match[2], 10)
+        const y = parseInt(match[3], 10)
+        
+        if (m1 > 12) {
+          day = m1
+          month = m2
+          year = y
+        } else if (m2 > 12) {
+          month = m1
+          day = m2
+          year = y
+        } else {
+          // Ambiguous - prefer MM-DD-YYYY
+          month = m1
+          day = m2
+          year = y
+        }
+      }
+
+      // Validate date
+      if (month < 1 || month > 12 || day < 1 || day > 31 || year < 1900 || year > 2100) {
+        continue
+      }
+
+      const date = new Date(year, month - 1, day)
+      if (date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day) {
+        return date.getTime()
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Parse boolean/yes-no string to boolean
+ * Accepts: Yes/No, Y/N, true/false, 1/0 (case-insensitive)
+ */
+function parseBoolean(value: string | boolean | number | null | undefined): boolean {
+  if (typeof value === "boolean") return value
+  if (typeof value === "number") return value !== 0
+  if (!value) return false
+  
+  const str = String(value).trim().toLowerCase()
+  return str === "yes" || str === "y" || str === "true" || str === "1"
+}
+
+/**
+ * Parse a staged row into resident fields, collecting every problem instead of stopping at the first
+ * Resident is null when any error was found
+ */
+function parseImportRow(data: Record<string, string>): {
+  errors: Array<ImportError>
+  resident: ParsedImportRow | null
+} {
+  const errors: Array<ImportError> = []
+  const text = (field: string) => data[field]?.trim() ?? ""
+  const optional = (field: string) => text(field) || undefined
+  const oneOf = <T extends string>(field: string, allowed: ReadonlyArray<T>, fallback?: T): T | undefined => {
+    const value = text(field)
+    if (!value) return fallback
+    const match = allowed.find((option) => option.toLowerCase() === value.toLowerCase())
+    if (!match) errors.push({ field, message: `"${value}" is not one of: ${allowed.join(", ")}` })
+    return match
+  }
+
+  for (const field of REQUIRED_FIELDS) {
+    if (!text(field)) errors.push({ field, message: "Required" })
+  }
+
+  const birthdate = text("birthdate") ? parseDate(text("birthdate")) : null
+  if (text("birthdate") && birthdate === null) {
+    errors.push({ field: "birthdate", message: `Invalid date: ${text("birthdate")}` })
+  }
+
+  const sexText = text("sex").toLowerCase()
+  const sex = sexText === "male" || sexText === "m" ? "male" : sexText === "female" || sexText === "f" ? "female" : "other"
+
+  const civilStatus = oneOf("civilStatus", CIVIL_STATUSES)
+  const educationalAttainment = oneOf("educationalAttainment", EDUCATION_LEVELS)
+  const employmentStatus = oneOf("employmentStatus", ["Employed", "Unemployed"] as const, "Unemployed")
+  const housingType = oneOf("housingType", HOUSING_TYPES, "Owned")
+  const constructionType = oneOf("constructionType", CONSTRUCTION_TYPES, "Medium")
+
+  if (
+    errors.length > 0 ||
+    birthdate === null ||
+    !civilStatus ||
+    !educationalAttainment ||
+    !employmentStatus ||
+    !housingType ||
+    !constructionType
+  ) {
+    return { errors, resident: null }
+  }
+
+  const income = text("estimatedMonthlyIncome")
+  return {
+    errors,
+    resident: {
+      block: text("block"),
+      lot: text("lot"),
+      phase: text("phase"),
+      purok: text("purok"),
+      firstName: text("firstName"),
+      middleName: text("middleName"),
+      lastName: text("lastName"),
+      suffix: optional("suffix"),
+      sex,
+      birthdate,
+      civilStatus,
+      educationalAttainment,
+      occupation: optional("occupation"),
+      employmentStatus,
+      isResidentVoter: parseBoolean(data.isResidentVoter),
+      isRegisteredVoter: parseBoolean(data.isRegisteredVoter),
+      isOFW: parseBoolean(data.isOFW),
+      isPWD: parseBoolean(data.isPWD),
+      isOSY: parseBoolean(data.isOSY),
+      isSeniorCitizen: parseBoolean(data.isSeniorCitizen),
+      isSoloParent: parseBoolean(data.isSoloParent),
+      isIP: parseBoolean(data.isIP),
+      isMigrant: parseBoolean(data.isMigrant),
+      contactNumber: optional("contactNumber"),
+      email: optional("email"),
+      estimatedMonthlyIncome: income ? parseFloat(income.replace(/[^0-9.]/g, "")) || undefined : undefined,
+      primarySourceOfLivelihood: optional("primarySourceOfLivelihood"),
+      tenureStatus: optional("tenureStatus"),
+      housingType,
+      constructionType,
+      sanitationMethod: optional("sanitationMethod"),
+      religion: optional("religion"),
+      debilitatingDiseases: optional("debilitatingDiseases"),
+      isBedBound: parseBoolean(data.isBedBound) || undefined,
+      isWheelchairBound: parseBoolean(data.isWheelchairBound),
+      isDialysisPatient: parseBoolean(data.isDialysisPatient),
+      isCancerPatient: parseBoolean(data.isCancerPatient),
+      isNationalPensioner: parseBoolean(data.isNationalPensioner),
+      isLocalPensioner: parseBoolean(data.isLocalPensioner),
+    },
+  }
+}
+
+/**
+ * Check for duplicate resident
+ * Checks by: Resident ID (if provided) OR Last Name + First Name + Birthdate
+ * Names also match fuzzily ("Ma. Cristina Dela Cruz" = "Maria Christina De la Cruz")
+ */
+async function findDuplicateResident(
+  ctx: QueryCtx,
+  residentId: string,
+  lastName: string,
+  firstName: string,
+  birthdate: number
+): Promise<Doc<"residents"> | null> {
+  // Check by Resident ID first (IDs retired by a merge included)
+  if (residentId) {
+    const existingById = await findResidentByCode(ctx, residentId)
+    if (existingById) return existingById
+  }
+
+  // Check by Name + Birthdate combination (same calendar day to account for timezone)
+  // The exact lookup also catches rows committed earlier in the same chunk
+  const residents = await ctx.db
+    .query("residents")
+    .withIndex("by_name", (q) => q.eq("lastName", lastName).eq("firstName", firstName))
+    .collect()
+  const exact = residents.find((resident) => isSameBirthday(resident.birthdate, birthdate))
+  if (exact) return exact
+
+  const similar = await findSimilarResidents(ctx, `${firstName} ${lastName}`)
+  return (
+    similar.find(({ resident, score }) => score >= STRONG_NAME_SCORE && isSameBirthday(resident.birthdate, birthdate))
+      ?.resident ?? null
+  )
+}
+
+/**
+ * Validate a row and look for an existing resident it would duplicate
+ */
+async function checkRow(ctx: QueryCtx, data: Record<string, string>, importAnyway: boolean) {
+  const { errors, resident } = parseImportRow(data)
+  const duplicate = resident
+    ? await findDuplicateResident(ctx, data.residentId?.trim() ?? "", resident.lastName, resident.firstName, resident.birthdate)
+    : null
+
+  return {
+    errors,
+    duplicateOfId: duplicate?._id,
+    hasProblems: errors.length > 0 || (duplicate !== null && !importAnyway),
+  }
+}
+
+/**
+ * Keep only known import fields, as trimmed text
+ */
+function cleanRowData(data: Record<string, string>): Record<string, string> {
+  const clean: Record<string, string> = {}
+  for (const [field, value] of Object.entries(data)) {
+    if (IMPORT_FIELDS.has(field)) clean[field] = String(value ?? "").trim()
+  }
+  return clean
+}
+
+/**
+ * Find household by Block+Lot or create it
+ * Reports whether it was created so a rollback can remove it again
+ */
+async function findOrCreateHousehold(
+  ctx: MutationCtx,
+  resident: ParsedImportRow
+): Promise<{ householdId: Id<"households">; created: boolean }> {
+  const existing = await ctx.db
+    .query("households")
+    .withIndex("by_block_lot", (q) => q.eq("block", resident.block).eq("lot", resident.lot))
+    .first()
+  if (existing) return { householdId: existing._id, created: false }
+
+  const now = Date.now()
+  const householdId = await ctx.db.insert("households", {
+    block: resident.block,
+    lot: resident.lot,
+    phase: resident.phase,
+    purok: resident.purok,
+    createdAt: now,
+    updatedAt: now,
+  })
+  return { householdId, created: true }
+}
+
+/**
+ * Insert one staged row as a resident, or mark it skipped
+ * Duplicates are checked again here because earlier rows of the same file may now exist
+ */
+async function commitRow(ctx: MutationCtx, user: Doc<"users">, row: Doc<"importRows">): Promise<boolean> {
+  const { resident } = parseImportRow(row.data)
+  if (!resident) {
+    await ctx.db.patch(row._id, { status: "skipped", skipReason: "Row has errors" })
+    return false
+  }
+
+  const requestedId = row.data.residentId?.trim().toUpperCase() ?? ""
+  const duplicate = await findDuplicateResident(ctx, requestedId, resident.lastName, resident.firstName, resident.birthdate)
+  if (duplicate && !row.importAnyway) {
+    await ctx.db.patch(row._id, {
+      status: "skipped",
+      skipReason: `Duplicate of ${duplicate.residentId}`,
+      duplicateOfId: duplicate._id,
+    })
+    return false
+  }
+
+  // Keep the file's Resident ID when it is well-formed and free, otherwise assign the next one
+  const idTaken =
+    requestedId &&
+    (await ctx.db
+      .query("residents")
+      .withIndex("by_residentId", (q) => q.eq("residentId", requestedId))
+      .first())
+  const residentId =
+    /^BH-\d{5}$/.test(requestedId) && !idTaken ? requestedId : await generateNextResidentId(ctx)
+
+  const { householdId, created } = await findOrCreateHousehold(ctx, resident)
+  const now = Date.now()
+  const id = await ctx.db.insert("residents", {
+    ...resident,
+    searchKey: residentSearchKey(resident),
+    residentId,
+    householdId,
+    status: "resident",
+    createdAt: now,
+    updatedAt: now,
+  })
+
+  await logAudit(ctx, {
+    user,
+    action: "create_resident",
+    resourceType: "resident",
+    resourceId: id,
+    before: null,
+    after: await ctx.db.get(id),
+    details: { source: "import", batchId: row.batchId, row: row.rowNumber },
+  })
+
+  await ctx.db.patch(row._id, {
+    status: "imported",
+    residentId: id,
+    createdHouseholdId: created ? householdId : undefined,
+  })
+  return true
+}
+
+/**
+ * Why a resident created by an import can no longer be removed by a rollback, or null
+ * Anything pointing at the record since the import would be left dangling
+ */
+async function getRollbackKeepReason(ctx: QueryCtx, resident: Doc<"residents">): Promise<string | null> {
+  const request = await ctx.db
+    .query("documentRequests")
+    .withIndex("by_residentId", (q) => q.eq("residentId", resident._id))
+    .first()
+  if (request) return "Kept - resident already has document requests"
+
+  if (resident.familyId) return "Kept - resident is linked to a family"
+
+  const appointment = await ctx.db
+    .query("appointments")
+    .withIndex("by_residentId_status", (q) => q.eq("residentId", resident._id))
+    .first()
+  if (appointment) return "Kept - resident has appointments"
+
+  const alias = await ctx.db
+    .query("residentIdAliases")
+    .withIndex("by_residentId", (q) => q.eq("residentId", resident._id))
+    .first()
+  if (alias) return "Kept - another record was merged into this resident"
+
+  return null
+}
+
+/**
+ * Remove a resident created by an import row
+ * Residents that already have document requests, a family link, appointments
+ * or merged records are kept
+ */
+async function rollbackRow(ctx: MutationCtx, user: Doc<"users">, row: Doc<"importRows">): Promise<boolean> {
+  const resident = row.residentId ? await ctx.db.get(row.residentId) : null
+  if (resident) {
+    const keepReason = await getRollbackKeepReason(ctx, resident)
+    if (keepReason) {
+      await ctx.db.patch(row._id, { status: "rolled_back", skipReason: keepReason })
+      return false
+    }
+
+    await ctx.db.delete(resident._id)
+    await logAudit(ctx, {
+      user,
+      action: "delete_resident",
+      resourceType: "resident",
+      resourceId: resident._id,
+      before: resident,
+      after: null,
+      details: { source: "import_rollback", batchId: row.batchId, row: row.rowNumber },
+    })
+  }
+
+  // Remove the household this row created once nobody lives there any more
+  if (row.createdHouseholdId) {
+    const household = await ctx.db.get(row.createdHouseholdId)
+    const remaining = await ctx.db
+      .query("residents")
+      .withIndex("by_householdId", (q) => q.eq("householdId", row.createdHouseholdId))
+      .first()
+    if (household && !remaining) await ctx.db.delete(household._id)
+  }
+
+  await ctx.db.patch(row._id, { status: "rolled_back", skipReason: undefined })
+  return true
+}
+
+async function getBatchOrThrow(ctx: QueryCtx, batchId: Id<"importBatches">) {
+  const batch = await ctx.db.get(batchId)
+  if (!batch) throw new Error("Import batch not found")
+  return batch
+}
+
+// ==================== QUERIES ====================
+
+/**
+ * Recent import batches, newest first, for resuming and rolling back
+ */
+export const listBatches = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can view imports")
+
+    const batches = await ctx.db.query("importBatches").withIndex("by_createdAt").order("desc").take(20)
+
+    return await Promise.all(
+      batches.map(async (batch) => {
+        const createdBy = await userByExternalId(ctx, batch.createdBy)
+        return { ...batch, createdByName: createdBy?.name ?? "Unknown" }
+      })
+    )
+  },
+})
+
+/**
+ * Get one import batch with its counters
+ */
+export const getBatch = query({
+  args: { batchId: v.id("importBatches") },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can view imports")
+
+    return await ctx.db.get(args.batchId)
+  },
+})
+
+/**
+ * Staged rows of a batch in file order
+ * "problems" lists rows that will be skipped unless fixed; "skipped" lists rows the commit skipped
+ * Page with afterRowNumber (the last row number of the previous page)
+ */
+export const listRows = query({
+  args: {
+    batchId: v.id("importBatches"),
+    filter: v.union(v.literal("all"), v.literal("problems"), v.literal("skipped")),
+    afterRowNumber: v.optional(v.number()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can view imports")
+
+    const limit = Math.min(args.limit ?? 50, 200)
+    const after = args.afterRowNumber ?? 0
+    const rowsQuery =
+      args.filter === "problems"
+        ? ctx.db
+            .query("importRows")
+            .withIndex("by_batchId_hasProblems_rowNumber", (q) =>
+              q.eq("batchId", args.batchId).eq("hasProblems", true).gt("rowNumber", after)
+            )
+        : args.filter === "skipped"
+          ? ctx.db
+              .query("importRows")
+              .withIndex("by_batchId_status_rowNumber", (q) =>
+                q.eq("batchId", args.batchId).eq("status", "skipped").gt("rowNumber", after)
+              )
+          : ctx.db
+              .query("importRows")
+              .withIndex("by_batchId_rowNumber", (q) => q.eq("batchId", args.batchId).gt("rowNumber", after))
+
+    const rows = await rowsQuery.take(limit + 1)
+
+    const page = await Promise.all(
+      rows.slice(0, limit).map(async (row) => {
+        const duplicate = row.duplicateOfId ? await ctx.db.get(row.duplicateOfId) : null
+        return {
+          ...row,
+          duplicateOf: duplicate
+            ? { residentId: duplicate.residentId, name: `${duplicate.firstName} ${duplicate.lastName}` }
+            : null,
+        }
+      })
+    )
+
+    return { rows: page, hasMore: rows.length > limit }
+  },
+})
+
+/**
+ * Saved column mapping profiles, by name
+ */
+export const listMappingProfiles = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can view imports")
+
+    return await ctx.db.query("importMappingProfiles").withIndex("by_name").collect()
+  },
+})
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Start an import - rows follow in stageRows calls
+ */
+export const createBatch = mutation({
+  args: {
+    fileName: v.string(),
+    totalRows: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admins can import residents")
+
+    if (!Number.isInteger(args.totalRows) || args.totalRows < 1) {
+      throw new Error("The file has no rows to import")
+    }
+
+    const now = Date.now()
+    return await ctx.db.insert("importBatches", {
+      fileName: args.fileName,
+      status: "staging",
+      totalRows: args.totalRows,
+      stagedRows: 0,
+      problemRows: 0,
+      importedRows: 0,
+      skippedRows: 0,
+      keptRows: 0,
+      createdBy: user.externalId,
+      createdAt: now,
+      updatedAt: now,
+    })
+  },
+})
+
+/**
+ * Store and validate a chunk of parsed rows (up to 200 per call)
+ * The batch moves to "staged" once every row has arrived
+ */
+export const stageRows = mutation({
+  args: {
+    batchId: v.id("importBatches"),
+    rows: v.array(
+      v.object({
+        rowNumber: v.number(),
+        data: v.record(v.string(), v.string()), // Cell text keyed by import field
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can import residents")
+
+    const batch = await getBatchOrThrow(ctx, args.batchId)
+    if (batch.status !== "staging") throw new Error("This import is no longer accepting rows")
+    if (args.rows.length > STAGE_CHUNK_SIZE) throw new Error(`Send at most ${STAGE_CHUNK_SIZE} rows at a time`)
+
+    let problemRows = 0
+    for (const row of args.rows) {
+      const data = cleanRowData(row.data)
+      const check = await checkRow(ctx, data, false)
+      if (check.hasProblems) problemRows++
+      await ctx.db.insert("importRows", {
+        batchId: args.batchId,
+        rowNumber: row.rowNumber,
+        data,
+        ...check,
+        status: "pending",
+      })
+    }
+
+    const stagedRows = batch.stagedRows + args.rows.length
+    await ctx.db.patch(args.batchId, {
+      stagedRows,
+      problemRows: batch.problemRows + problemRows,
+      status: stagedRows >= batch.totalRows ? "staged" : "staging",
+      updatedAt: Date.now(),
+    })
+
+    return { stagedRows }
+  },
+})
+
+/**
+ * Fix cells of a staged row, or confirm a duplicate is a different person
+ * The row is validated again right away
+ */
+export const updateRow = mutation({
+  args: {
+    rowId: v.id("importRows"),
+    data: v.optional(v.record(v.string(), v.string())),
+    importAnyway: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can import residents")
+
+    const row = await ctx.db.get(args.rowId)
+    if (!row) throw new Error("Row not found")
+    const batch = await getBatchOrThrow(ctx, row.batchId)
+    if (batch.status !== "staged" || row.status !== "pending") {
+      throw new Error("Only rows of an import that hasn't started can be edited")
+    }
+
+    const data = args.data ? cleanRowData({ ...row.data, ...args.data }) : row.data
+    const importAnyway = args.importAnyway ?? row.importAnyway ?? false
+    const check = await checkRow(ctx, data, importAnyway)
+
+    await ctx.db.patch(args.rowId, { data, importAnyway, ...check })
+    if (check.hasProblems !== row.hasProblems) {
+      await ctx.db.patch(batch._id, {
+        problemRows: batch.problemRows + (check.hasProblems ? 1 : -1),
+        updatedAt: Date.now(),
+      })
+    }
+
+    return check
+  },
+})
+
+/**
+ * Insert the next chunk of pending rows (100 per call)
+ * Call until done; an interrupted import resumes from the first pending row
+ */
+export const commitChunk = mutation({
+  args: { batchId: v.id("importBatches") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admins can import residents")
+
+    const batch = await getBatchOrThrow(ctx, args.batchId)
+    if (batch.status !== "staged" && batch.status !== "committing") {
+      throw new Error("This import can't be committed")
+    }
+
+    const rows = await ctx.db
+      .query("importRows")
+      .withIndex("by_batchId_status_rowNumber", (q) => q.eq("batchId", args.batchId).eq("status", "pending"))
+      .take(COMMIT_CHUNK_SIZE)
+
+    let importedRows = batch.importedRows
+    let skippedRows = batch.skippedRows
+    for (const row of rows) {
+      if (await commitRow(ctx, user, row)) importedRows++
+      else skippedRows++
+    }
+
+    const done = rows.length < COMMIT_CHUNK_SIZE
+    const now = Date.now()
+    await ctx.db.patch(args.batchId, {
+      status: done ? "committed" : "committing",
+      importedRows,
+      skippedRows,
+      committedAt: done ? now : undefined,
+      updatedAt: now,
+    })
+
+    // One summary entry per import so the whole batch can be traced
+    if (done) {
+      await logAudit(ctx, {
+        user,
+        action: "import_residents",
+        resourceType: "importBatch",
+        resourceId: args.batchId,
+        details: {
+          fileName: batch.fileName,
+          totalRows: batch.totalRows,
+          successful: importedRows,
+          skipped: skippedRows,
+        },
+      })
+    }
+
+    return { importedRows, skippedRows, totalRows: batch.totalRows, done }
+  },
+})
+
+/**
+ * Undo the next chunk of an import (100 rows per call)
+ * Works on committed and half-committed imports; call until done
+ */
+export const rollbackChunk = mutation({
+  args: { batchId: v.id("importBatches") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admins can roll back imports")
+
+    const batch = await getBatchOrThrow(ctx, args.batchId)
+    if (batch.status !== "committing" && batch.status !== "committed" && batch.status !== "rolling_back") {
+      throw new Error("Only committed imports can be rolled back")
+    }
+
+    const rows = await ctx.db
+      .query("importRows")
+      .withIndex("by_batchId_status_rowNumber", (q) => q.eq("batchId", args.batchId).eq("status", "imported"))
+      .take(COMMIT_CHUNK_SIZE)
+
+    let importedRows = batch.importedRows
+    let keptRows = batch.keptRows
+    let removedRows = batch.removedRows ?? 0
+    for (const row of rows) {
+      if (await rollbackRow(ctx, user, row)) {
+        importedRows--
+        removedRows++
+      } else {
+        keptRows++
+      }
+    }
+
+    const done = rows.length < COMMIT_CHUNK_SIZE
+    const now = Date.now()
+    await ctx.db.patch(args.batchId, {
+      status: done ? "rolled_back" : "rolling_back",
+      importedRows,
+      keptRows,
+      removedRows,
+      rolledBackAt: done ? now : undefined,
+      updatedAt: now,
+    })
+
+    if (done) {
+      await logAudit(ctx, {
+        user,
+        action: "rollback_import",
+        resourceType: "importBatch",
+        resourceId: args.batchId,
+        details: {
+          fileName: batch.fileName,
+          removed: removedRows,
+          kept: keptRows,
+        },
+      })
+    }
+
+    return { importedRows, keptRows, done }
+  },
+})
+
+/**
+ * Throw away an import that was never committed (500 rows per call)
+ * The batch itself is deleted with the last chunk
+ */
+export const discardBatch = mutation({
+  args: { batchId: v.id("importBatches") },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can import residents")
+
+    const batch = await getBatchOrThrow(ctx, args.batchId)
+    if (batch.status !== "staging" && batch.status !== "staged") {
+      throw new Error("Committed imports must be rolled back instead")
+    }
+
+    const rows = await ctx.db
+      .query("importRows")
+      .withIndex("by_batchId_rowNumber", (q) => q.eq("batchId", args.batchId))
+      .take(DISCARD_CHUNK_SIZE)
+    for (const row of rows) {
+      await ctx.db.delete(row._id)
+    }
+
+    const done = rows.length < DISCARD_CHUNK_SIZE
+    if (done) await ctx.db.delete(args.batchId)
+    return { done }
+  },
+})
+
+/**
+ * Save a column mapping under a name; saving an existing name replaces it
+ */
+export const saveMappingProfile = mutation({
+  args: {
+    name: v.string(),
+    mapping: v.record(v.string(), v.string()), // Import field -> file header
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admins can save mapping profiles")
+
+    const name = args.name.trim()
+    if (!name) throw new Error("Profile name is required")
+
+    const mapping: Record<string, string> = {}
+    for (const [field, header] of Object.entries(args.mapping)) {
+      if (IMPORT_FIELDS.has(field) && header.trim()) mapping[field] = header
+    }
+    if (Object.keys(mapping).length === 0) throw new Error("Map at least one column before saving")
+
+    const now = Date.now()
+    const existing = await ctx.db
+      .query("importMappingProfiles")
+      .withIndex("by_name", (q) => q.eq("name", name))
+      .first()
+    if (existing) {
+      await ctx.db.patch(existing._id, { mapping, updatedAt: now })
+      await logAudit(ctx, {
+        user,
+        action: "update_mapping_profile",
+        resourceType: "importMappingProfile",
+        resourceId: existing._id,
+        before: existing,
+        after: await ctx.db.get(existing._id),
+      })
+      return existing._id
+    }
+
+    const id = await ctx.db.insert("importMappingProfiles", {
+      name,
+      mapping,
+      createdBy: user.externalId,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: "create_mapping_profile",
+      resourceType: "importMappingProfile",
+      resourceId: id,
+      before: null,
+      after: await ctx.db.get(id),
+    })
+
+    return id
+  },
+})
+
+/**
+ * Delete a saved column mapping profile
+ */
+export const deleteMappingProfile = mutation({
+  args: { id: v.id("importMappingProfiles") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admins can delete mapping profiles")
+
+    const profile = await ctx.db.get(args.id)
+    if (!profile) throw new Error("Mapping profile not found")
+
+    await ctx.db.delete(args.id)
+
+    await logAudit(ctx, {
+      user,
+      action: "delete_mapping_profile",
+      resourceType: "importMappingProfile",
+      resourceId: args.id,
+      before: profile,
+      after: null,
+    })
+
+    return args.id
+  },
+})
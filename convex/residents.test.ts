@@ -0,0 +1,105 @@
+import { convexTest } from "convex-test"
+import { describe, expect, test } from "vitest"
+import { api, internal } from "./_generated/api"
+import { residentSearchKey } from "./lib/names"
+import schema from "./schema"
+import { modules, testResident } from "./test.setup"
+
+describe("merge", () => {
+  test("re-points import rows from the retired record to the survivor", async () => {
+    const t = convexTest(schema, modules)
+    const { survivorId, retiredId, batchId } = await t.run(async (ctx) => {
+      const now = Date.now()
+      await ctx.db.insert("users", {
+        name: "Admin",
+        externalId: "user_admin",
+        role: "admin",
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      const survivorId = await ctx.db.insert("residents", testResident({ residentId: "BH-00001" }))
+      const retiredId = await ctx.db.insert("residents", testResident({ residentId: "BH-00002" }))
+      const batchId = await ctx.db.insert("importBatches", {
+        fileName: "purok-1.xlsx",
+        status: "committed",
+        totalRows: 2,
+        stagedRows: 2,
+        problemRows: 0,
+        importedRows: 1,
+        skippedRows: 1,
+        keptRows: 0,
+        createdBy: "user_admin",
+        createdAt: now,
+        updatedAt: now,
+      })
+      const row = { batchId, data: {}, errors: [], hasProblems: false }
+      await ctx.db.insert("importRows", { ...row, rowNumber: 1, status: "imported", residentId: retiredId })
+      await ctx.db.insert("importRows", { ...row, rowNumber: 2, status: "skipped", duplicateOfId: retiredId })
+      return { survivorId, retiredId, batchId }
+    })
+
+    const admin = t.withIdentity({ subject: "user_admin" })
+    await admin.mutation(api.residents.merge, { survivorId, retiredId, fromRetired: [] })
+
+    const rows = await t.run((ctx) => ctx.db.query("importRows").collect())
+    expect(rows.map((row) => row.residentId ?? row.duplicateOfId)).toEqual([survivorId, survivorId])
+    expect(await t.run((ctx) => ctx.db.get(retiredId))).toBeNull()
+
+    // Rolling back the import no longer touches a deleted record, and keeps the survivor
+    await admin.mutation(api.residentImports.rollbackChunk, { batchId })
+    expect(await t.run((ctx) => ctx.db.get(survivorId))).not.toBeNull()
+  })
+
+  test("keeps the survivor's values over a guest placeholder ID and empty strings", async () => {
+    const t = convexTest(schema, modules)
+    const { survivorId, retiredId } = await t.run(async (ctx) => {
+      const now = Date.now()
+      await ctx.db.insert("users", {
+        name: "Admin",
+        externalId: "user_admin",
+        role: "admin",
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      const survivorId = await ctx.db.insert("residents", testResident({ residentId: "BH-00001" }))
+      const retiredId = await ctx.db.insert(
+        "residents",
+        testResident({ residentId: "GUEST-TEMP", middleName: "", status: "pending", contactNumber: "09171234567" })
+      )
+      return { survivorId, retiredId }
+    })
+
+    await t.withIdentity({ subject: "user_admin" }).mutation(api.residents.merge, {
+      survivorId,
+      retiredId,
+      fromRetired: ["residentId", "middleName", "contactNumber"],
+    })
+
+    expect(await t.run((ctx) => ctx.db.get(survivorId))).toMatchObject({
+      residentId: "BH-00001",
+      middleName: "Santos",
+      contactNumber: "09171234567",
+    })
+    expect(await t.run((ctx) => ctx.db.query("residentIdAliases").collect())).toEqual([])
+  })
+})
+
+describe("backfillSearchKeys", () => {
+  test("keys only the residents saved without a searchKey", async () => {
+    const t = convexTest(schema, modules)
+    const keyed = testResident({ residentId: "BH-00003", firstName: "Maria" })
+    await t.run(async (ctx) => {
+      await ctx.db.insert("residents", testResident({ residentId: "BH-00001" }))
+      await ctx.db.insert("residents", testResident({ residentId: "BH-00002", firstName: "Jose" }))
+      await ctx.db.insert("residents", { ...keyed, searchKey: residentSearchKey(keyed) })
+    })
+
+    expect(await t.mutation(internal.residents.backfillSearchKeys, {})).toBe(2)
+    expect(await t.mutation(internal.residents.backfillSearchKeys, {})).toBe(0)
+
+    const residents = await t.run((ctx) => ctx.db.query("residents").collect())
+    expect(residents.map((resident) => resident.searchKey)).toEqual(residents.map(residentSearchKey))
+  })
+})
@@ -4,8 +4,128 @@
  */
 
 import { v } from "convex/values"
-import { query, mutation } from "./_generated/server"
-import { getCurrentUser } from "./users"
+import { paginationOptsValidator } from "convex/server"
+import { query, mutation, internalMutation, MutationCtx, QueryCtx } from "./_generated/server"
+import { internal } from "./_generated/api"
+import { Doc } from "./_generated/dataModel"
+import { requireRole, STAFF_ROLES, ADMIN_ROLES } from "./users"
+import { logAudit } from "./auditLogs"
+import { maxSequenceNumber, nextSequence } from "./sequences"
+import { nameSearchQuery, residentSearchKey, scoreNameMatch } from "./lib/names"
+
+// ==================== HELPERS ====================
+
+// Fields a merge can take from the retired record (familyId brings relationshipToHead along)
+const MERGE_FIELDS = [
+  "residentId",
+  "firstName",
+  "middleName",
+  "lastName",
+  "suffix",
+  "sex",
+  "birthdate",
+  "civilStatus",
+  "block",
+  "lot",
+  "phase",
+  "purok",
+  "contactNumber",
+  "email",
+  "educationalAttainment",
+  "occupation",
+  "employmentStatus",
+  "estimatedMonthlyIncome",
+  "primarySourceOfLivelihood",
+  "isResidentVoter",
+  "isRegisteredVoter",
+  "isOFW",
+  "isPWD",
+  "isOSY",
+  "isSeniorCitizen",
+  "isSoloParent",
+  "isIP",
+  "isMigrant",
+  "tenureStatus",
+  "housingType",
+  "constructionType",
+  "sanitationMethod",
+  "religion",
+  "debilitatingDiseases",
+  "isBedBound",
+  "isWheelchairBound",
+  "isDialysisPatient",
+  "isCancerPatient",
+  "isNationalPensioner",
+  "isLocalPensioner",
+  "familyId",
+  "householdId",
+  "status",
+] as const
+
+// Name search tuning (scores come from lib/names.ts scoreNameMatch, 0 to 1)
+const SIMILAR_CANDIDATES = 100 // Search index hits re-ranked per lookup
+const MIN_NAME_SCORE = 0.6 // Below this a hit is not shown at all
+export const SAME_NAME_SCORE = 0.95 // Same name apart from abbreviations and particles
+export const STRONG_NAME_SCORE = 0.85 // Every word matches or sounds alike
+const SEARCH_KEY_BACKFILL_BATCH = 200 // Residents keyed per backfillSearchKeys run
+
+/**
+ * Find residents whose name matches typed text, best match first
+ * Uses the search_name index, so "Ma. Cristina Dela Cruz" finds "Maria Christina De la Cruz"
+ */
+export async function findSimilarResidents(
+  ctx: QueryCtx,
+  text: string,
+  filters: { status?: Doc<"residents">["status"]; purok?: string; phase?: string; limit?: number } = {}
+): Promise<Array<{ resident: Doc<"residents">; score: number }>> {
+  const searchText = nameSearchQuery(text)
+  if (!searchText) return []
+
+  const candidates = await ctx.db
+    .query("residents")
+    .withSearchIndex("search_name", (q) => {
+      let search = q.search("searchKey", searchText)
+      if (filters.status !== undefined) search = search.eq("status", filters.status)
+      if (filters.purok !== undefined) search = search.eq("purok", filters.purok)
+      if (filters.phase !== undefined) search = search.eq("phase", filters.phase)
+      return search
+    })
+    .take(SIMILAR_CANDIDATES)
+
+  return candidates
+    .map((resident) => ({ resident, score: scoreNameMatch(text, resident) }))
+    .filter((match) => match.score >= MIN_NAME_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, filters.limit ?? 50)
+}
+
+/**
+ * Whether two birthdate timestamps fall on the same calendar day
+ */
+export function isSameBirthday(a: number, b: number): boolean {
+  return new Date(a).toDateString() === new Date(b).toDateString()
+}
+
+/**
+ * Find a resident by Resident ID (BH-00001 format)
+ * Falls back to IDs retired by a merge so old barcodes still resolve to the survivor
+ */
+export async function findResidentByCode(ctx: QueryCtx, code: string): Promise<Doc<"residents"> | null> {
+  // Normalize the residentId (uppercase, trimmed)
+  const normalizedId = code.trim().toUpperCase()
+
+  const resident = await ctx.db
+    .query("residents")
+    .withIndex("by_residentId", (q) => q.eq("residentId", normalizedId))
+    .first()
+  if (resident) return resident
+
+  const alias = await ctx.db
+    .query("residentIdAliases")
+    .withIndex("by_alias", (q) => q.eq("alias", normalizedId))
+    .first()
+  return alias ? await ctx.db.get(alias.residentId) : null
+}
 
 // ==================== QUERIES ====================
 
@@ -57,6 +177,8 @@ export const list = query({
     _refreshKey: v.optional(v.number()), // ✅ OPTIMIZATION: Ignored, used for client-side cache invalidation
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can list residents")
+
     const limit = args.limit ?? 50
     const offset = args.offset ?? 0
 
@@ -198,28 +320,23 @@ export const list = query({
 export const get = query({
   args: { id: v.id("residents") },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view residents")
+
     return await ctx.db.get(args.id)
   },
 })
 
 /**
  * Get resident by residentId (BH-00001 format) - Used for barcode scanning
- * Uses by_residentId index for fast lookup
- * ✅ PUBLIC: No auth required (kiosk is public)
+ * Uses by_residentId index for fast lookup; IDs retired by a merge resolve to the survivor
+ * The kiosk uses kiosk.lookupResident instead
  */
 export const getByResidentId = query({
   args: { residentId: v.string() },
   handler: async (ctx, args) => {
-    // Normalize the residentId (uppercase, trimmed)
-    const normalizedId = args.residentId.trim().toUpperCase()
-    
-    // Query using the index
-    const resident = await ctx.db
-      .query("residents")
-      .withIndex("by_residentId", (q) => q.eq("residentId", normalizedId))
-      .first()
-    
-    return resident || null
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view residents")
+
+    return await findResidentByCode(ctx, args.residentId)
   },
 })
 
@@ -231,6 +348,8 @@ export const getByResidentId = query({
 export const getRelatives = query({
   args: { residentId: v.id("residents") },
   handler: async (ctx, args) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view residents")
+
     // Get the resident
     const resident = await ctx.db.get(args.residentId)
     if (!resident) {
@@ -280,6 +399,7 @@ export const getRelatives = query({
  * Search residents by name, ID, block, lot, phase, purok, etc.
  * ✅ OPTIMIZED: Uses indexes efficiently, supports multiple search fields
  * ✅ UPDATED: Now supports searching by resident ID, block, lot, phase, purok
+ * ✅ UPDATED: Name matches are fuzzy and ranked best first (see findSimilarResidents)
  */
 export const search = query({
   args: {
@@ -299,6 +419,8 @@ export const search = query({
     _refreshKey: v.optional(v.number()), // ✅ OPTIMIZATION: Ignored, used for client-side cache invalidation
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can search residents")
+
     const term = args.searchTerm.toLowerCase().trim()
     if (!term) return []
 
@@ -310,11 +432,9 @@ export const search = query({
       const idNumber = residentIdMatch[1].padStart(5, '0')
       const residentId = `BH-${idNumber}`
       
-      // Use by_residentId index for efficient ID lookup
-      const byId = await ctx.db
-        .query("residents")
-        .withIndex("by_residentId", (q) => q.eq("residentId", residentId))
-        .take(1)
+      // Use by_residentId index for efficient ID lookup (IDs retired by a merge included)
+      const resident = await findResidentByCode(ctx, residentId)
+      const byId = resident ? [resident] : []
       
       // Apply optional filters
       let results = byId
@@ -360,73 +480,51 @@ export const search = query({
       return results.slice(0, limit)
     }
 
-    // ✅ OPTIMIZED: Search by last name using by_name index (most efficient)
-    // Uses range query: lastName >= term AND lastName < term + "\uffff"
-    let query = ctx.db.query("residents")
-    
-    // Apply status filter with index if provided
-    if (args.status !== undefined) {
-      query = query.withIndex("by_status", (q) => q.eq("status", args.status!))
-    } else if (args.purok !== undefined) {
-      // Use purok index if no status filter
-      query = query.withIndex("by_purok", (q) => q.eq("purok", args.purok!))
-    } else if (args.phase !== undefined) {
-      // Use phase index if no status/purok filter
-      query = query.withIndex("by_phase", (q) => q.eq("phase", args.phase!))
-    } else {
-      // Use by_name index for name search
-      query = query.withIndex("by_name", (q) => 
-        q.gte("lastName", term).lt("lastName", term + "\uffff")
-      )
-    }
-    
-    const byLastName = await query.take(limit * 2) // Fetch more to account for filtering
-
-    // ✅ OPTIMIZED: Filter by name if we used status/purok/phase index
-    let nameFiltered = byLastName
-    if (args.status !== undefined || args.purok !== undefined || args.phase !== undefined) {
-      nameFiltered = byLastName.filter((r) => 
-        r.lastName.toLowerCase().includes(term) ||
-        r.firstName.toLowerCase().includes(term) ||
-        r.middleName?.toLowerCase().includes(term) ||
-        r.suffix?.toLowerCase().includes(term) ||
-        r.block === term ||
-        r.lot === term ||
-        r.purok?.toLowerCase().includes(term) ||
-        r.phase?.toLowerCase().includes(term)
-      )
-    }
+    // Fuzzy name search via search_name index: tolerant of spelling variants,
+    // "Ma."/"Jr." abbreviations, "Dela"/"De los" particles and missing diacritics
+    const nameMatches = await findSimilarResidents(ctx, args.searchTerm, {
+      status: args.status,
+      purok: args.purok,
+      phase: args.phase,
+      limit,
+    })
+    const byName = nameMatches.map((match) => match.resident)
 
-    // ✅ OPTIMIZED: For first name/middle name search, use a limited scan
+    // Location terms (block, lot, purok, phase) aren't in the name index - use a limited scan
     // Only if we haven't reached the limit yet
-    const remainingLimit = Math.max(0, limit - nameFiltered.length)
-    
-    let byFirstName: any[] = []
-    if (remainingLimit > 0 && args.status === undefined && args.purok === undefined && args.phase === undefined) {
+    const remainingLimit = Math.max(0, limit - byName.length)
+
+    let byLocation: any[] = []
+    if (remainingLimit > 0) {
+      const table = ctx.db.query("residents")
+      const query =
+        args.status !== undefined
+          ? table.withIndex("by_status", (q) => q.eq("status", args.status!))
+          : args.purok !== undefined
+          ? table.withIndex("by_purok", (q) => q.eq("purok", args.purok!))
+          : args.phase !== undefined
+          ? table.withIndex("by_phase", (q) => q.eq("phase", args.phase!))
+          : table
+
       // Use a reasonable scan limit (200 records) instead of 1000
       // This balances search coverage with cost efficiency
-      const scanLimit = Math.min(200, remainingLimit * 4) // Scan 4x to find matches
-      const scannedResidents = await ctx.db
-        .query("residents")
-        .order("desc")
-        .take(scanLimit)
-      
-      byFirstName = scannedResidents
+      const scannedResidents = await query.order("desc").take(200)
+
+      byLocation = scannedResidents
         .filter(
           (r) =>
-            r.firstName.toLowerCase().includes(term) ||
-            r.middleName?.toLowerCase().includes(term) ||
-            r.suffix?.toLowerCase().includes(term) ||
-            r.block === term ||
-            r.lot === term ||
-            r.purok?.toLowerCase().includes(term) ||
-            r.phase?.toLowerCase().includes(term)
+            (args.purok === undefined || r.purok === args.purok) &&
+            (args.phase === undefined || r.phase === args.phase) &&
+            (r.block === term ||
+              r.lot === term ||
+              r.purok?.toLowerCase().includes(term) ||
+              r.phase?.toLowerCase().includes(term))
         )
         .slice(0, remainingLimit)
     }
 
     // Combine and deduplicate
-    const combined = [...nameFiltered, ...byFirstName]
+    const combined = [...byName, ...byLocation]
     const unique = Array.from(
       new Map(combined.map((r) => [r._id, r])).values()
     )
@@ -450,6 +548,8 @@ export const listByStatus = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can list residents")
+
     return await ctx.db
       .query("residents")
       .withIndex("by_status", (q) => q.eq("status", args.status))
@@ -465,6 +565,8 @@ export const listByStatus = query({
 export const getUniquePuroks = query({
   args: {},
   handler: async (ctx) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can list residents")
+
     // Get all residents with status 'resident'
     const residents = await ctx.db
       .query("residents")
@@ -495,6 +597,8 @@ export const listByPurok = query({
     limit: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can list residents")
+
     let residents: any[]
     if (args.status !== undefined) {
       // Use status index, then filter by purok client-side
@@ -517,54 +621,110 @@ export const listByPurok = query({
   },
 })
 
+/**
+ * One page of residents for CSV/XLSX export
+ * The client walks continueCursor until isDone, so 40k residents never hit a single query's read limit.
+ * Filters after the index are applied per page, so a page can hold fewer than numItems rows.
+ */
+export const exportPage = query({
+  args: {
+    status: v.optional(
+      v.union(
+        v.literal("resident"),
+        v.literal("deceased"),
+        v.literal("moved"),
+        v.literal("pending")
+      )
+    ),
+    purok: v.optional(v.string()),
+    phase: v.optional(v.string()),
+    gender: v.optional(v.union(v.literal("male"), v.literal("female"), v.literal("other"))),
+    isOFW: v.optional(v.boolean()),
+    isPWD: v.optional(v.boolean()),
+    isOSY: v.optional(v.boolean()),
+    isSeniorCitizen: v.optional(v.boolean()),
+    isSoloParent: v.optional(v.boolean()),
+    isIP: v.optional(v.boolean()),
+    isMigrant: v.optional(v.boolean()),
+    isResidentVoter: v.optional(v.boolean()),
+    isRegisteredVoter: v.optional(v.boolean()),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can export residents")
+
+    const { status, purok, phase } = args
+    let residentsQuery
+    if (status !== undefined && purok !== undefined) {
+      residentsQuery = ctx.db
+        .query("residents")
+        .withIndex("by_status_zone", (q) => q.eq("status", status).eq("purok", purok))
+    } else if (status !== undefined) {
+      residentsQuery = ctx.db.query("residents").withIndex("by_status", (q) => q.eq("status", status))
+    } else if (purok !== undefined) {
+      residentsQuery = ctx.db.query("residents").withIndex("by_purok", (q) => q.eq("purok", purok))
+    } else if (phase !== undefined) {
+      residentsQuery = ctx.db.query("residents").withIndex("by_phase", (q) => q.eq("phase", phase))
+    } else {
+      residentsQuery = ctx.db.query("residents")
+    }
+
+    const result = await residentsQuery.order("asc").paginate(args.paginationOpts)
+
+    const flags = [
+      "isOFW",
+      "isPWD",
+      "isOSY",
+      "isSeniorCitizen",
+      "isSoloParent",
+      "isIP",
+      "isMigrant",
+      "isResidentVoter",
+      "isRegisteredVoter",
+    ] as const
+    const page = result.page.filter(
+      (r) =>
+        (purok === undefined || r.purok === purok) &&
+        (phase === undefined || r.phase === phase) &&
+        (args.gender === undefined || r.sex === args.gender) &&
+        flags.every((flag) => args[flag] === undefined || r[flag] === args[flag])
+    )
+
+    return {
+      page,
+      isDone: result.isDone,
+      continueCursor: result.continueCursor,
+    }
+  },
+})
+
 // ==================== MUTATIONS ====================
 
 /**
  * Generate next resident ID (BH-00001 format)
- * ✅ OPTIMIZED: Uses by_residentId index to find max efficiently
- * Instead of fetching all residents, queries by pattern
+ * Takes the next number from the "residentId" sequence, skipping any ID that
+ * was assigned by hand or by import
  */
-async function generateNextResidentId(ctx: any): Promise<string> {
-  // ✅ OPTIMIZED: Query residents with BH- prefix using index
-  // Since residentId is indexed, we can query efficiently
-  // Query for residents starting with "BH-" and find max number
-  let maxNumber = 0
-  
-  // Query residents with BH- prefix (using index)
-  // Note: Convex indexes don't support prefix queries directly,
-  // but we can query a range and filter client-side (still more efficient than .collect())
-  // For now, we'll query recent residents (last 1000) which should cover most cases
-  // If needed, we can add a separate counter table for better performance
-  
-  const recentResidents = await ctx.db
-    .query("residents")
-    .order("desc")
-    .take(1000) // ✅ OPTIMIZED: Only check recent 1000 instead of all
-  
-  for (const resident of recentResidents) {
-    const match = resident.residentId.match(/^BH-(\d+)$/)
-    if (match) {
-      const num = parseInt(match[1], 10)
-      if (num > maxNumber) maxNumber = num
-    }
-  }
-  
-  // If no BH- residents found in recent 1000, check if there are any at all
-  // This handles edge case where all residents are old
-  if (maxNumber === 0) {
-    // Fallback: Check a few more to ensure we don't miss anything
-    const allResidents = await ctx.db.query("residents").take(5000)
-    for (const resident of allResidents) {
-      const match = resident.residentId.match(/^BH-(\d+)$/)
-      if (match) {
-        const num = parseInt(match[1], 10)
-        if (num > maxNumber) maxNumber = num
-      }
-    }
-  }
+export async function generateNextResidentId(ctx: MutationCtx): Promise<string> {
+  while (true) {
+    const number = await nextSequence(ctx, "residentId", "all", async () => {
+      // Residents created before the sequence row existed: IDs are zero-padded,
+      // so the highest BH- ID on the by_residentId index is the last one issued
+      const latest = await ctx.db
+        .query("residents")
+        .withIndex("by_residentId", (q) => q.gte("residentId", "BH-").lt("residentId", "BH-\uffff"))
+        .order("desc")
+        .first()
+      return maxSequenceNumber([latest?.residentId], /^BH-(\d+)$/)
+    })
 
-  const nextNumber = (maxNumber + 1).toString().padStart(5, "0")
-  return `BH-${nextNumber}`
+    const residentId = `BH-${number.toString().padStart(5, "0")}`
+    const taken = await ctx.db
+      .query("residents")
+      .withIndex("by_residentId", (q) => q.eq("residentId", residentId))
+      .first()
+    if (!taken) return residentId
+  }
 }
 
 /**
@@ -663,9 +823,7 @@ export const create = mutation({
     residentId: v.optional(v.string()), // Optional - will auto-generate if not provided
   },
   handler: async (ctx, args) => {
-    // Get current user for audit
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admins can create residents")
 
     // Check if residentId already exists if provided
     if (args.residentId !== undefined) {
@@ -682,7 +840,7 @@ export const create = mutation({
     const residentId = args.residentId || (await generateNextResidentId(ctx))
 
     const now = Date.now()
-    return await ctx.db.insert("residents", {
+    const id = await ctx.db.insert("residents", {
       residentId,
       // Location
       block: args.block,
@@ -694,6 +852,7 @@ export const create = mutation({
       middleName: args.middleName,
       lastName: args.lastName,
       suffix: args.suffix,
+      searchKey: residentSearchKey(args),
       // Demographics
       sex: args.sex,
       birthdate: args.birthdate,
@@ -743,6 +902,17 @@ export const create = mutation({
       createdAt: now,
       updatedAt: now,
     })
+
+    await logAudit(ctx, {
+      user,
+      action: "create_resident",
+      resourceType: "resident",
+      resourceId: id,
+      before: null,
+      after: await ctx.db.get(id),
+    })
+
+    return id
   },
 })
 
@@ -838,8 +1008,8 @@ export const update = mutation({
     ),
   },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
+    // Staff correct resident details while processing requests
+    const user = await requireRole(ctx, STAFF_ROLES, "Only staff can update residents")
 
     const { id, ...updates } = args
 
@@ -853,7 +1023,25 @@ export const update = mutation({
 
     cleanUpdates.updatedAt = Date.now()
 
+    const before = await ctx.db.get(id)
+    if (!before) throw new Error("Resident not found")
+
+    // Keep the fuzzy search key in step with name changes
+    if (["firstName", "middleName", "lastName", "suffix"].some((field) => field in cleanUpdates)) {
+      cleanUpdates.searchKey = residentSearchKey({ ...before, ...cleanUpdates })
+    }
+
     await ctx.db.patch(id, cleanUpdates)
+
+    await logAudit(ctx, {
+      user,
+      action: "update_resident",
+      resourceType: "resident",
+      resourceId: id,
+      before,
+      after: await ctx.db.get(id),
+    })
+
     return id
   },
 })
@@ -861,6 +1049,7 @@ export const update = mutation({
 /**
  * Check for duplicate residents based on name and birthdate
  * Used for pending resident approval workflow
+ * Names are matched fuzzily (spelling variants, abbreviations, particles)
  * Returns potential duplicates with match confidence
  */
 export const checkDuplicates = query({
@@ -871,78 +1060,121 @@ export const checkDuplicates = query({
     excludeId: v.optional(v.id("residents")), // Exclude this resident from results (for pending residents)
   },
   handler: async (ctx, args) => {
-    const birthdateDate = new Date(args.birthdate)
-    const birthdateStart = new Date(birthdateDate)
-    birthdateStart.setHours(0, 0, 0, 0)
-    const birthdateEnd = new Date(birthdateDate)
-    birthdateEnd.setHours(23, 59, 59, 999)
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can check for duplicate residents")
 
-    // Normalize names for comparison
-    const normalizedFirstName = args.firstName.toLowerCase().trim()
-    const normalizedLastName = args.lastName.toLowerCase().trim()
+    const birthdateDate = new Date(args.birthdate)
 
-    // Search by last name using index (most efficient)
-    const candidates = await ctx.db
-      .query("residents")
-      .withIndex("by_name", (q) =>
-        q.gte("lastName", normalizedLastName).lt("lastName", normalizedLastName + "\uffff")
-      )
-      .take(100) // Limit for efficiency
+    // Fuzzy name search: "Ma. Cristina Dela Cruz" also finds "Maria Christina De la Cruz"
+    const candidates = await findSimilarResidents(ctx, `${args.firstName} ${args.lastName}`, {
+      limit: 100,
+    })
 
     const duplicates: Array<{
       resident: any
       confidence: "high" | "medium" | "low"
       reason: string
+      score: number
     }> = []
 
-    for (const candidate of candidates) {
+    for (const { resident: candidate, score } of candidates) {
       // Skip if it's the same resident (excludeId)
       if (args.excludeId && candidate._id === args.excludeId) continue
 
-      const candidateFirstName = candidate.firstName.toLowerCase().trim()
-      const candidateLastName = candidate.lastName.toLowerCase().trim()
-      const candidateBirthdate = new Date(candidate.birthdate)
+      const isSameName = score >= SAME_NAME_SCORE
+      const percent = Math.round(score * 100)
 
       // Check exact match: same name + same birthdate (same day)
-      if (
-        candidateFirstName === normalizedFirstName &&
-        candidateLastName === normalizedLastName &&
-        candidateBirthdate >= birthdateStart &&
-        candidateBirthdate <= birthdateEnd
-      ) {
-        duplicates.push({
-          resident: candidate,
-          confidence: "high",
-          reason: "Exact match: Same name and birthdate",
-        })
+      if (isSameBirthday(candidate.birthdate, args.birthdate)) {
+        duplicates.push(
+          isSameName
+            ? { resident: candidate, confidence: "high", reason: "Exact match: Same name and birthdate", score }
+            : {
+                resident: candidate,
+                confidence: "medium",
+                reason: `Similar match: Name is ${percent}% similar, same birthdate`,
+                score,
+              }
+        )
         continue
       }
 
-      // Check similar: same name + birthdate within 1 day
+      // Check similar: birthdate within 1 day
       const dayDiff = Math.abs(
-        Math.floor((candidateBirthdate.getTime() - birthdateDate.getTime()) / (1000 * 60 * 60 * 24))
+        Math.floor((candidate.birthdate - birthdateDate.getTime()) / (1000 * 60 * 60 * 24))
       )
-      if (
-        candidateFirstName === normalizedFirstName &&
-        candidateLastName === normalizedLastName &&
-        dayDiff <= 1
-      ) {
-        duplicates.push({
-          resident: candidate,
-          confidence: "medium",
-          reason: `Similar match: Same name, birthdate differs by ${dayDiff} day(s)`,
-        })
+      if (dayDiff <= 1) {
+        duplicates.push(
+          isSameName
+            ? {
+                resident: candidate,
+                confidence: "medium",
+                reason: `Similar match: Same name, birthdate differs by ${dayDiff} day(s)`,
+                score,
+              }
+            : {
+                resident: candidate,
+                confidence: "low",
+                reason: `Possible match: Name is ${percent}% similar, birthdate differs by ${dayDiff} day(s)`,
+                score,
+              }
+        )
       }
     }
 
     return duplicates.sort((a, b) => {
-      // Sort by confidence: high > medium > low
+      // Sort by confidence: high > medium > low, then by name similarity
       const confidenceOrder = { high: 3, medium: 2, low: 1 }
-      return confidenceOrder[b.confidence] - confidenceOrder[a.confidence]
+      return confidenceOrder[b.confidence] - confidenceOrder[a.confidence] || b.score - a.score
     })
   },
 })
 
+/**
+ * Side-by-side data for the merge screen
+ * Shows what each record is linked to so the admin can pick the survivor
+ */
+export const getMergePreview = query({
+  args: {
+    firstId: v.id("residents"),
+    secondId: v.id("residents"),
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can merge residents")
+
+    const sides = []
+    for (const id of [args.firstId, args.secondId]) {
+      const resident = await ctx.db.get(id)
+      if (!resident) return null
+
+      const requests = await ctx.db
+        .query("documentRequests")
+        .withIndex("by_residentId", (q) => q.eq("residentId", id))
+        .take(1000)
+      const family = resident.familyId ? await ctx.db.get(resident.familyId) : null
+      const household = resident.householdId ? await ctx.db.get(resident.householdId) : null
+      const headsFamily = await ctx.db
+        .query("families")
+        .withIndex("by_headOfFamilyId", (q) => q.eq("headOfFamilyId", id))
+        .first()
+      const headsHousehold = await ctx.db
+        .query("households")
+        .withIndex("by_headOfHouseholdId", (q) => q.eq("headOfHouseholdId", id))
+        .first()
+
+      sides.push({
+        resident,
+        requestCount: requests.length,
+        familyName: family?.familyName ?? null,
+        householdLabel: household ? `Block ${household.block} Lot ${household.lot}, ${household.purok}` : null,
+        isFamilyHead: headsFamily !== null,
+        isHouseholdHead: headsHousehold !== null,
+      })
+    }
+
+    return sides
+  },
+})
+
 /**
  * Approve pending resident (convert guest to full resident)
  * Assigns proper Resident ID and changes status to "resident"
@@ -953,13 +1185,7 @@ export const approvePending = mutation({
     residentId: v.optional(v.string()), // Optional - will auto-generate if not provided
   },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-
-    // Only admin/superadmin can approve
-    if (user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only admin can approve pending residents")
-    }
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admin can approve pending residents")
 
     const resident = await ctx.db.get(args.id)
     if (!resident) {
@@ -990,6 +1216,15 @@ export const approvePending = mutation({
       updatedAt: Date.now(),
     })
 
+    await logAudit(ctx, {
+      user,
+      action: "approve_resident",
+      resourceType: "resident",
+      resourceId: args.id,
+      before: resident,
+      after: await ctx.db.get(args.id),
+    })
+
     return { id: args.id, residentId: newResidentId }
   },
 })
@@ -1001,13 +1236,7 @@ export const approvePending = mutation({
 export const rejectPending = mutation({
   args: { id: v.id("residents") },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-
-    // Only admin/superadmin can reject
-    if (user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only admin can reject pending residents")
-    }
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admin can reject pending residents")
 
     const resident = await ctx.db.get(args.id)
     if (!resident) {
@@ -1020,526 +1249,220 @@ export const rejectPending = mutation({
 
     // Delete the pending resident record
     await ctx.db.delete(args.id)
+
+    await logAudit(ctx, {
+      user,
+      action: "reject_resident",
+      resourceType: "resident",
+      resourceId: args.id,
+      before: resident,
+      after: null,
+    })
+
     return args.id
   },
 })
 
+// Placeholder Resident ID on pending kiosk guest records
+const GUEST_RESIDENT_ID = "GUEST-TEMP"
+
 /**
- * Delete a resident (hard delete)
- * Only Admin/Superadmin should delete residents
- * Note: Consider soft delete (status update) instead
+ * Whether a retired record's value is too empty to overwrite the survivor's in a merge
  */
-export const remove = mutation({
-  args: { id: v.id("residents") },
+function isEmptyMergeValue(field: string, value: unknown): boolean {
+  return value === undefined || value === "" || (field === "residentId" && value === GUEST_RESIDENT_ID)
+}
+
+/**
+ * Merge two records of the same person
+ * The survivor keeps its own values except for the fields listed in fromRetired; empty values
+ * (including a guest's placeholder Resident ID) never overwrite.
+ * Document requests, appointments and family/household heads move to the survivor, the retired
+ * record is deleted and its Resident ID is kept as an alias so old barcodes still resolve.
+ */
+export const merge = mutation({
+  args: {
+    survivorId: v.id("residents"),
+    retiredId: v.id("residents"),
+    fromRetired: v.array(v.string()), // Fields to take from the retired record
+  },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admins can merge residents")
 
-    // Only admin/superadmin can delete
-    if (user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only admins can delete residents")
+    if (args.survivorId === args.retiredId) {
+      throw new Error("Cannot merge a resident with itself")
     }
+    const survivor = await ctx.db.get(args.survivorId)
+    const retired = await ctx.db.get(args.retiredId)
+    if (!survivor || !retired) throw new Error("Resident not found")
+
+    const patch: Record<string, unknown> = {}
+    for (const field of MERGE_FIELDS) {
+      if (!args.fromRetired.includes(field) || isEmptyMergeValue(field, retired[field])) continue
+      patch[field] = retired[field]
+      if (field === "familyId") patch.relationshipToHead = retired.relationshipToHead
+    }
+    const survivorResidentId = (patch.residentId as string | undefined) ?? survivor.residentId
+    const retiredResidentId = survivorResidentId === retired.residentId ? survivor.residentId : retired.residentId
 
-    await ctx.db.delete(args.id)
-    return args.id
-  },
-})
+    // Re-point everything that references the retired record
+    const requests = await ctx.db
+      .query("documentRequests")
+      .withIndex("by_residentId", (q) => q.eq("residentId", args.retiredId))
+      .collect()
+    for (const request of requests) {
+      await ctx.db.patch(request._id, { residentId: args.survivorId })
+    }
 
-// ==================== EXCEL IMPORT HELPERS ====================
+    const appointments = await ctx.db
+      .query("appointments")
+      .withIndex("by_residentId_status", (q) => q.eq("residentId", args.retiredId))
+      .collect()
+    for (const appointment of appointments) {
+      await ctx.db.patch(appointment._id, { residentId: args.survivorId })
+    }
 
-/**
- * Parse date string to timestamp
- * Accepts multiple formats: MM/DD/YYYY, DD/MM/YYYY, YYYY-MM-DD, DD-MM-YYYY, MM-DD-YYYY
- */
-function parseDate(dateStr: string): number | null {
-  if (!dateStr || typeof dateStr !== "string") return null
-  
-  const trimmed = dateStr.trim()
-  if (!trimmed) return null
-
-  // Try different date formats
-  const formats = [
-    /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, // MM/DD/YYYY or DD/MM/YYYY
-    /^(\d{4})-(\d{1,2})-(\d{1,2})$/, // YYYY-MM-DD
-    /^(\d{1,2})-(\d{1,2})-(\d{4})$/, // DD-MM-YYYY or MM-DD-YYYY
-  ]
-
-  for (const format of formats) {
-    const match = trimmed.match(format)
-    if (match) {
-      let year: number, month: number, day: number
-      
-      if (format === formats[1]) {
-        // YYYY-MM-DD
-        year = parseInt(match[1], 10)
-        month = parseInt(match[2], 10)
-        day = parseInt(match[3], 10)
-      } else if (format === formats[0]) {
-        // MM/DD/YYYY or DD/MM/YYYY - try both interpretations
-        const m1 = parseInt(match[1], 10)
-        const m2 = parseInt(match[2], 10)
-        const y = parseInt(match[3], 10)
-        
-        // Heuristic: if first number > 12, it's DD/MM/YYYY
-        if (m1 > 12) {
-          day = m1
-          month = m2
-          year = y
-        } else if (m2 > 12) {
-          month = m1
-          day = m2
-          year = y
-        } else {
-          // Ambiguous - prefer MM/DD/YYYY (US format)
-          month = m1
-          day = m2
-          year = y
-        }
-      } else {
-        // DD-MM-YYYY or MM-DD-YYYY
-        const m1 = parseInt(match[1], 10)
-        const m2 = parseInt(match[2], 10)
-        const y = parseInt(match[3], 10)
-        
-        if (m1 > 12) {
-          day = m1
-          month = m2
-          year = y
-        } else if (m2 > 12) {
-          month = m1
-          day = m2
-          year = y
-        } else {
-          // Ambiguous - prefer MM-DD-YYYY
-          month = m1
-          day = m2
-          year = y
-        }
-      }
+    const families = await ctx.db
+      .query("families")
+      .withIndex("by_headOfFamilyId", (q) => q.eq("headOfFamilyId", args.retiredId))
+      .collect()
+    for (const family of families) {
+      await ctx.db.patch(family._id, { headOfFamilyId: args.survivorId, updatedAt: Date.now() })
+    }
 
-      // Validate date
-      if (month < 1 || month > 12 || day < 1 || day > 31 || year < 1900 || year > 2100) {
-        continue
-      }
+    const households = await ctx.db
+      .query("households")
+      .withIndex("by_headOfHouseholdId", (q) => q.eq("headOfHouseholdId", args.retiredId))
+      .collect()
+    for (const household of households) {
+      await ctx.db.patch(household._id, { headOfHouseholdId: args.survivorId, updatedAt: Date.now() })
+    }
 
-      const date = new Date(year, month - 1, day)
-      if (date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day) {
-        return date.getTime()
-      }
+    // Import rows that created or were flagged against the retired record, so a rollback
+    // of that import finds the survivor (and keeps it when it is in use)
+    const importRows = await ctx.db
+      .query("importRows")
+      .withIndex("by_residentId", (q) => q.eq("residentId", args.retiredId))
+      .collect()
+    for (const row of importRows) {
+      await ctx.db.patch(row._id, { residentId: args.survivorId })
+    }
+    const duplicateRows = await ctx.db
+      .query("importRows")
+      .withIndex("by_duplicateOfId", (q) => q.eq("duplicateOfId", args.retiredId))
+      .collect()
+    for (const row of duplicateRows) {
+      await ctx.db.patch(row._id, { duplicateOfId: args.survivorId })
     }
-  }
 
-  return null
-}
+    // Keep the survivor in the retired record's family/household when it had none
+    if (!survivor.familyId && retired.familyId && patch.familyId === undefined) {
+      patch.familyId = retired.familyId
+      patch.relationshipToHead = retired.relationshipToHead
+    }
+    if (!survivor.householdId && retired.householdId && patch.householdId === undefined) {
+      patch.householdId = retired.householdId
+    }
 
-/**
- * Parse boolean/yes-no string to boolean
- * Accepts: Yes/No, Y/N, true/false, 1/0 (case-insensitive)
- */
-function parseBoolean(value: string | boolean | number | null | undefined): boolean {
-  if (typeof value === "boolean") return value
-  if (typeof value === "number") return value !== 0
-  if (!value) return false
-  
-  const str = String(value).trim().toLowerCase()
-  return str === "yes" || str === "y" || str === "true" || str === "1"
-}
+    // Aliases of the retired record now point at the survivor
+    const aliases = await ctx.db
+      .query("residentIdAliases")
+      .withIndex("by_residentId", (q) => q.eq("residentId", args.retiredId))
+      .collect()
+    for (const alias of aliases) {
+      await ctx.db.patch(alias._id, { residentId: args.survivorId })
+    }
 
-/**
- * Find or create household by Block+Lot
- * Returns household ID
- */
-async function findOrCreateHousehold(
-  ctx: any,
-  block: string,
-  lot: string,
-  phase: string,
-  purok: string
-): Promise<string> {
-  // Check if household exists
-  const existing = await ctx.db
-    .query("households")
-    .withIndex("by_block_lot", (q) => q.eq("block", block).eq("lot", lot))
-    .first()
+    // Delete first so the survivor can take over the retired Resident ID
+    await ctx.db.delete(args.retiredId)
+    await ctx.db.patch(args.survivorId, {
+      ...patch,
+      searchKey: residentSearchKey({ ...survivor, ...patch }),
+      updatedAt: Date.now(),
+    })
 
-  if (existing) {
-    return existing._id
-  }
+    // Pending guest records only have a placeholder ID, nothing to keep
+    const keepsAlias = retiredResidentId !== GUEST_RESIDENT_ID
+    if (keepsAlias) {
+      await ctx.db.insert("residentIdAliases", {
+        alias: retiredResidentId,
+        residentId: args.survivorId,
+        mergedBy: user.externalId,
+        mergedAt: Date.now(),
+      })
+    }
 
-  // Create new household
-  const now = Date.now()
-  const householdId = await ctx.db.insert("households", {
-    block,
-    lot,
-    phase,
-    purok,
-    createdAt: now,
-    updatedAt: now,
-  })
-
-  return householdId
-}
+    await logAudit(ctx, {
+      user,
+      action: "merge_residents",
+      resourceType: "resident",
+      resourceId: args.survivorId,
+      before: survivor,
+      after: await ctx.db.get(args.survivorId),
+      details: {
+        retired,
+        alias: keepsAlias ? retiredResidentId : null,
+        fields: Object.keys(patch),
+        movedRequests: requests.length,
+        movedAppointments: appointments.length,
+        movedFamilies: families.length,
+        movedHouseholds: households.length,
+        movedImportRows: importRows.length + duplicateRows.length,
+      },
+    })
+
+    return { id: args.survivorId, residentId: survivorResidentId }
+  },
+})
 
 /**
- * Check for duplicate resident
- * Checks by: Resident ID (if provided) OR Last Name + First Name + Birthdate
+ * Delete a resident (hard delete)
+ * Only Admin/Superadmin should delete residents
+ * Note: Consider soft delete (status update) instead
  */
-async function findDuplicateResident(
-  ctx: any,
-  residentId: string | null,
-  lastName: string,
-  firstName: string,
-  birthdate: number
-): Promise<string | null> {
-  // Check by Resident ID first
-  if (residentId) {
-    const existingById = await ctx.db
-      .query("residents")
-      .withIndex("by_residentId", (q) => q.eq("residentId", residentId))
-      .first()
-    
-    if (existingById) {
-      return existingById._id
-    }
-  }
+export const remove = mutation({
+  args: { id: v.id("residents") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admins can delete residents")
 
-  // Check by Name + Birthdate combination
-  // Note: This requires scanning, but we'll optimize with index
-  const residents = await ctx.db
-    .query("residents")
-    .withIndex("by_name", (q) => q.eq("lastName", lastName).eq("firstName", firstName))
-    .collect()
+    const resident = await ctx.db.get(args.id)
+    if (!resident) throw new Error("Resident not found")
 
-  for (const resident of residents) {
-    // Check if birthdate matches (within same day to account for timezone)
-    const residentDate = new Date(resident.birthdate)
-    const checkDate = new Date(birthdate)
-    
-    if (
-      residentDate.getFullYear() === checkDate.getFullYear() &&
-      residentDate.getMonth() === checkDate.getMonth() &&
-      residentDate.getDate() === checkDate.getDate()
-    ) {
-      return resident._id
-    }
-  }
+    await ctx.db.delete(args.id)
 
-  return null
-}
+    await logAudit(ctx, {
+      user,
+      action: "delete_resident",
+      resourceType: "resident",
+      resourceId: args.id,
+      before: resident,
+      after: null,
+    })
 
-// ==================== EXCEL IMPORT MUTATION ====================
+    return args.id
+  },
+})
 
 /**
- * Import residents from Excel/CSV data
- * Processes in batches of 100 rows
- * Auto-generates Resident IDs, auto-creates households, handles duplicates
- * 
- * @param rows - Array of parsed row data from Excel
- * @param batchSize - Number of rows to process per batch (default: 100)
- * @returns Import results with success/skip/error counts
+ * Fill in searchKey for residents saved before fuzzy name search (internal)
+ * Runs from crons.ts; each full batch schedules the next, and once every
+ * resident has a key a run is a single empty index read
  */
-export const importResidents = mutation({
-  args: {
-    rows: v.array(
-      v.object({
-        // Required fields
-        block: v.string(),
-        lot: v.string(),
-        lastName: v.string(),
-        firstName: v.string(),
-        birthdate: v.string(), // Will be parsed to timestamp
-        sex: v.string(), // Will be normalized
-        phase: v.string(),
-        purok: v.string(),
-        civilStatus: v.string(), // Will be validated
-        educationalAttainment: v.string(), // Will be validated
-        
-        // Optional fields
-        middleName: v.optional(v.string()),
-        suffix: v.optional(v.string()),
-        residentId: v.optional(v.string()), // Optional - will auto-generate if not provided
-        
-        occupation: v.optional(v.string()),
-        employmentStatus: v.optional(v.string()),
-        contactNumber: v.optional(v.string()),
-        email: v.optional(v.string()),
-        
-        // Boolean fields (as strings, will be parsed)
-        isResidentVoter: v.optional(v.string()),
-        isRegisteredVoter: v.optional(v.string()),
-        isOFW: v.optional(v.string()),
-        isPWD: v.optional(v.string()),
-        isOSY: v.optional(v.string()),
-        isSeniorCitizen: v.optional(v.string()),
-        isSoloParent: v.optional(v.string()),
-        isIP: v.optional(v.string()),
-        isMigrant: v.optional(v.string()),
-        
-        estimatedMonthlyIncome: v.optional(v.string()), // Will be parsed to number
-        primarySourceOfLivelihood: v.optional(v.string()),
-        tenureStatus: v.optional(v.string()),
-        housingType: v.optional(v.string()),
-        constructionType: v.optional(v.string()),
-        sanitationMethod: v.optional(v.string()),
-        religion: v.optional(v.string()),
-        
-        debilitatingDiseases: v.optional(v.string()),
-        isBedBound: v.optional(v.string()),
-        isWheelchairBound: v.optional(v.string()),
-        isDialysisPatient: v.optional(v.string()),
-        isCancerPatient: v.optional(v.string()),
-        isNationalPensioner: v.optional(v.string()),
-        isLocalPensioner: v.optional(v.string()),
-      })
-    ),
-    batchSize: v.optional(v.number()),
-  },
-  handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-
-    // Only admin/superadmin can import
-    if (user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only admins can import residents")
-    }
+export const backfillSearchKeys = internalMutation({
+  args: {},
+  handler: async (ctx): Promise<number> => {
+    const residents = await ctx.db
+      .query("residents")
+      .withIndex("by_searchKey", (q) => q.eq("searchKey", undefined))
+      .take(SEARCH_KEY_BACKFILL_BATCH)
 
-    const batchSize = args.batchSize ?? 100
-    const results = {
-      successful: 0,
-      skipped: 0,
-      errors: [] as Array<{ row: number; error: string }>,
+    for (const resident of residents) {
+      await ctx.db.patch(resident._id, { searchKey: residentSearchKey(resident) })
     }
 
-    // Process in batches
-    for (let i = 0; i < args.rows.length; i += batchSize) {
-      const batch = args.rows.slice(i, i + batchSize)
-      
-      for (let j = 0; j < batch.length; j++) {
-        const row = batch[j]
-        const rowNumber = i + j + 1 // 1-indexed for user display
-
-        try {
-          // Validate required fields
-          if (!row.block || !row.lot || !row.lastName || !row.firstName || !row.birthdate || !row.sex || !row.phase || !row.purok || !row.civilStatus || !row.educationalAttainment) {
-            results.errors.push({
-              row: rowNumber,
-              error: "Missing required fields",
-            })
-            results.skipped++
-            continue
-          }
-
-          // Parse birthdate
-          const birthdateTimestamp = parseDate(row.birthdate)
-          if (!birthdateTimestamp) {
-            results.errors.push({
-              row: rowNumber,
-              error: `Invalid birthdate format: ${row.birthdate}`,
-            })
-            results.skipped++
-            continue
-          }
-
-          // Normalize sex
-          const sexLower = row.sex.trim().toLowerCase()
-          let sex: "male" | "female" | "other"
-          if (sexLower === "male" || sexLower === "m") {
-            sex = "male"
-          } else if (sexLower === "female" || sexLower === "f") {
-            sex = "female"
-          } else {
-            sex = "other"
-          }
-
-          // Validate civil status
-          const validCivilStatuses = ["Single", "Married", "Widowed", "Separated", "Live-in"]
-          const civilStatus = row.civilStatus.trim()
-          if (!validCivilStatuses.includes(civilStatus)) {
-            results.errors.push({
-              row: rowNumber,
-              error: `Invalid civil status: ${civilStatus}. Must be one of: ${validCivilStatuses.join(", ")}`,
-            })
-            results.skipped++
-            continue
-          }
-
-          // Validate educational attainment
-          const validEducation = ["No Grade", "Elementary", "High School", "Vocational", "College", "Grad School"]
-          const education = row.educationalAttainment.trim()
-          if (!validEducation.includes(education)) {
-            results.errors.push({
-              row: rowNumber,
-              error: `Invalid educational attainment: ${education}. Must be one of: ${validEducation.join(", ")}`,
-            })
-            results.skipped++
-            continue
-          }
-
-          // Validate employment status
-          let employmentStatus: "Employed" | "Unemployed" = "Unemployed"
-          if (row.employmentStatus) {
-            const empStatus = row.employmentStatus.trim()
-            if (empStatus === "Employed") {
-              employmentStatus = "Employed"
-            } else if (empStatus !== "Unemployed") {
-              results.errors.push({
-                row: rowNumber,
-                error: `Invalid employment status: ${empStatus}. Must be 'Employed' or 'Unemployed'`,
-              })
-              results.skipped++
-              continue
-            }
-          }
-
-          // Validate housing type
-          let housingType: "Owned" | "Rented" | "Shared" = "Owned"
-          if (row.housingType) {
-            const houseType = row.housingType.trim()
-            if (houseType === "Owned" || houseType === "Rented" || houseType === "Shared") {
-              housingType = houseType as "Owned" | "Rented" | "Shared"
-            } else {
-              results.errors.push({
-                row: rowNumber,
-                error: `Invalid housing type: ${houseType}. Must be 'Owned', 'Rented', or 'Shared'`,
-              })
-              results.skipped++
-              continue
-            }
-          }
-
-          // Validate construction type
-          let constructionType: "Light" | "Medium" | "Heavy" = "Medium"
-          if (row.constructionType) {
-            const constType = row.constructionType.trim()
-            if (constType === "Light" || constType === "Medium" || constType === "Heavy") {
-              constructionType = constType as "Light" | "Medium" | "Heavy"
-            } else {
-              results.errors.push({
-                row: rowNumber,
-                error: `Invalid construction type: ${constType}. Must be 'Light', 'Medium', or 'Heavy'`,
-              })
-              results.skipped++
-              continue
-            }
-          }
-
-          // Check for duplicate
-          const duplicateId = await findDuplicateResident(
-            ctx,
-            row.residentId || null,
-            row.lastName.trim(),
-            row.firstName.trim(),
-            birthdateTimestamp
-          )
-
-          if (duplicateId) {
-            results.errors.push({
-              row: rowNumber,
-              error: `Duplicate resident found (ID: ${duplicateId})`,
-            })
-            results.skipped++
-            continue
-          }
-
-          // Generate Resident ID if not provided
-          let residentId = row.residentId?.trim()
-          if (!residentId) {
-            residentId = await generateNextResidentId(ctx)
-          } else {
-            // Validate Resident ID format
-            if (!residentId.match(/^BH-\d{5}$/i)) {
-              // Invalid format, generate new one
-              residentId = await generateNextResidentId(ctx)
-            } else {
-              // Check if ID already exists
-              const existing = await ctx.db
-                .query("residents")
-                .withIndex("by_residentId", (q) => q.eq("residentId", residentId.toUpperCase()))
-                .first()
-              
-              if (existing) {
-                // Duplicate ID, generate new one
-                residentId = await generateNextResidentId(ctx)
-              } else {
-                residentId = residentId.toUpperCase()
-              }
-            }
-          }
-
-          // Find or create household
-          const householdId = await findOrCreateHousehold(
-            ctx,
-            row.block.trim(),
-            row.lot.trim(),
-            row.phase.trim(),
-            row.purok.trim()
-          )
-
-          // Parse optional fields
-          const estimatedIncome = row.estimatedMonthlyIncome
-            ? parseFloat(row.estimatedMonthlyIncome.replace(/[^0-9.]/g, "")) || undefined
-            : undefined
-
-          // Create resident
-          const now = Date.now()
-          await ctx.db.insert("residents", {
-            residentId,
-            block: row.block.trim(),
-            lot: row.lot.trim(),
-            phase: row.phase.trim(),
-            purok: row.purok.trim(),
-            firstName: row.firstName.trim(),
-            middleName: row.middleName?.trim() || "",
-            lastName: row.lastName.trim(),
-            suffix: row.suffix?.trim() || undefined,
-            sex,
-            birthdate: birthdateTimestamp,
-            civilStatus: civilStatus as "Single" | "Married" | "Widowed" | "Separated" | "Live-in",
-            educationalAttainment: education as "No Grade" | "Elementary" | "High School" | "Vocational" | "College" | "Grad School",
-            occupation: row.occupation?.trim() || undefined,
-            employmentStatus,
-            isResidentVoter: parseBoolean(row.isResidentVoter),
-            isRegisteredVoter: parseBoolean(row.isRegisteredVoter),
-            isOFW: parseBoolean(row.isOFW),
-            isPWD: parseBoolean(row.isPWD),
-            isOSY: parseBoolean(row.isOSY),
-            isSeniorCitizen: parseBoolean(row.isSeniorCitizen),
-            isSoloParent: parseBoolean(row.isSoloParent),
-            isIP: parseBoolean(row.isIP),
-            isMigrant: parseBoolean(row.isMigrant),
-            contactNumber: row.contactNumber?.trim() || undefined,
-            email: row.email?.trim() || undefined,
-            estimatedMonthlyIncome: estimatedIncome,
-            primarySourceOfLivelihood: row.primarySourceOfLivelihood?.trim() || undefined,
-            tenureStatus: row.tenureStatus?.trim() || undefined,
-            housingType,
-            constructionType,
-            sanitationMethod: row.sanitationMethod?.trim() || undefined,
-            religion: row.religion?.trim() || undefined,
-            debilitatingDiseases: row.debilitatingDiseases?.trim() || undefined,
-            isBedBound: parseBoolean(row.isBedBound) || undefined,
-            isWheelchairBound: parseBoolean(row.isWheelchairBound),
-            isDialysisPatient: parseBoolean(row.isDialysisPatient),
-            isCancerPatient: parseBoolean(row.isCancerPatient),
-            isNationalPensioner: parseBoolean(row.isNationalPensioner),
-            isLocalPensioner: parseBoolean(row.isLocalPensioner),
-            householdId,
-            status: "resident",
-            createdAt: now,
-            updatedAt: now,
-          })
-
-          results.successful++
-        } catch (error: any) {
-          results.errors.push({
-            row: rowNumber,
-            error: error.message || "Unknown error",
-          })
-          results.skipped++
-        }
-      }
+    if (residents.length === SEARCH_KEY_BACKFILL_BATCH) {
+      await ctx.scheduler.runAfter(0, internal.residents.backfillSearchKeys, {})
     }
-
-    return results
+    return residents.length
   },
 })
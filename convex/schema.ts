@@ -1,5 +1,6 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import { layoutElementValidator, pageSizeValidator } from "./lib/certificates";
 
 export default defineSchema({
   // Clerk Integration - User management
@@ -38,6 +39,7 @@ export default defineSchema({
     middleName: v.string(),
     lastName: v.string(),
     suffix: v.optional(v.string()), // Optional suffix (e.g., Jr., Sr., I, II, III, IV)
+    searchKey: v.optional(v.string()), // Normalized name + sound-alike codes (see lib/names.ts)
     
     // Demographics
     sex: v.union(v.literal("male"), v.literal("female"), v.literal("other")),
@@ -124,12 +126,18 @@ export default defineSchema({
     .index("by_phase", ["phase"]) // For filtering by phase
     .index("by_block_lot", ["block", "lot"]) // For household detection
     .index("by_familyId", ["familyId"]) // For family queries
-    .index("by_householdId", ["householdId"]), // For household queries
+    .index("by_householdId", ["householdId"]) // For household queries
+    .index("by_searchKey", ["searchKey"]) // For backfilling residents saved without one
+    .searchIndex("search_name", {
+      searchField: "searchKey",
+      filterFields: ["status", "purok", "phase"],
+    }), // Fuzzy name search (spelling variants, particles, abbreviations)
 
   // Document Types Configuration
   documentTypes: defineTable({
     name: v.string(), // e.g., "Barangay Clearance"
-    templateKey: v.string(), // References template file name
+    templateKey: v.string(), // Built-in layout key (e.g., "clearance.pdf"), used when templateId is not set
+    templateId: v.optional(v.id("certificateTemplates")), // Stored template designed in settings
     price: v.number(), // Stored in cents (e.g., 5000 = ₱50.00)
     requiresPurpose: v.boolean(),
     isActive: v.boolean(),
@@ -147,6 +155,7 @@ export default defineSchema({
       v.literal("pending"),
       v.literal("queued"),
       v.literal("serving"),
+      v.literal("skipped"), // Resident didn't answer the call; in the recall pool
       v.literal("completed"),
       v.literal("cancelled")
     ),
@@ -174,39 +183,188 @@ export default defineSchema({
 
   // Queue System
   queue: defineTable({
-    documentRequestId: v.id("documentRequests"), // FK to documentRequests (unique)
-    queueNumber: v.string(), // Format: Q-001, Q-002 (resets daily)
-    serviceType: v.string(), // Default: 'service'
+    documentRequestId: v.optional(v.id("documentRequests")), // FK to documentRequests (unique); missing for service tickets
+    queueNumber: v.string(), // Format: Q-001 regular, P-001 priority, service prefix e.g. B-001 (resets daily)
+    serviceType: v.string(), // 'service' for document requests, otherwise the service type's name
+    serviceTypeId: v.optional(v.id("serviceTypes")), // Set for non-certificate tickets (blotter, health, payments)
+    documentTypeIds: v.optional(v.array(v.id("documentTypes"))), // One per requested document, kept in sync for wait estimates
+    guestName: v.optional(v.string()), // Service tickets: name given at the kiosk (optional)
+    lane: v.optional(v.union(v.literal("regular"), v.literal("priority"))), // Missing = regular
+    priorityReason: v.optional(
+      v.union(v.literal("senior"), v.literal("pwd"), v.literal("pregnant"), v.literal("appointment"))
+    ), // Why the ticket is in the priority lane
     status: v.union(
       v.literal("waiting"),
       v.literal("serving"),
       v.literal("done"),
-      v.literal("skipped")
+      v.literal("skipped"), // No answer when called; staff can recall until end of day
+      v.literal("expired") // Skipped and never recalled (set at end of day)
     ),
     counterNumber: v.optional(v.number()), // Assigned when serving
     servedBy: v.optional(v.string()), // Clerk user ID
     createdAt: v.number(),
     startedAt: v.optional(v.number()), // When status becomes serving
+    calledAt: v.optional(v.number()), // Last time the number was called on the display
+    callCount: v.optional(v.number()), // Times called (Process Next, Call Again, Recall)
+    skippedAt: v.optional(v.number()),
+    returnedAt: v.optional(v.number()), // Set when transferred back to the head of the waiting list
+    handoffs: v.optional(
+      v.array(
+        v.object({
+          fromStaffId: v.optional(v.string()), // Clerk user ID
+          fromCounterNumber: v.optional(v.number()),
+          toStaffId: v.optional(v.string()), // Missing when returned to the waiting list
+          toCounterNumber: v.optional(v.number()),
+          reason: v.optional(v.string()),
+          transferredBy: v.string(), // Clerk user ID
+          transferredAt: v.number(),
+        })
+      )
+    ), // Every hop between counters/staff, oldest first
     completedAt: v.optional(v.number()),
   })
     .index("by_status", ["status"]) // CRITICAL for real-time queue updates
     .index("by_queueNumber", ["queueNumber"]) // For queue number lookups
     .index("by_status_createdAt", ["status", "createdAt"]) // Composite for queue ordering
+    .index("by_status_lane_createdAt", ["status", "lane", "createdAt"]) // For per-lane queue ordering
+    .index("by_status_returnedAt", ["status", "returnedAt"]) // For transferred-back tickets (served first)
     .index("by_counterNumber_status", ["counterNumber", "status"]) // For counter-specific queues
     .index("by_documentRequestId", ["documentRequestId"]) // For efficient request lookup (unique)
+    .index("by_serviceTypeId_status", ["serviceTypeId", "status"]) // For service ticket lists
     .index("by_createdAt", ["createdAt"]), // ✅ NEW: For queue number generation (daily reset)
 
+  // Queue Settings - Single row; interleave rule for priority and regular lanes
+  queueSettings: defineTable({
+    priorityPerCycle: v.number(), // Priority tickets called per cycle
+    regularPerCycle: v.number(), // Regular tickets called per cycle
+    cyclePosition: v.number(), // Calls made in the current cycle (priority calls come first)
+    updatedAt: v.number(),
+    updatedBy: v.optional(v.string()), // Clerk user ID
+  }),
+
+  // Appointment Settings - Single row; bookable hours and slot capacity
+  appointmentSettings: defineTable({
+    openHour: v.number(), // First slot starts at this hour (Manila time, 0-23)
+    closeHour: v.number(), // Last slot ends by this hour
+    slotMinutes: v.number(), // Length of each slot
+    capacityByWeekday: v.array(v.number()), // Bookings per slot, Sunday first; 0 = no bookings that day
+    bookingDaysAhead: v.number(), // How far ahead residents can book
+    updatedAt: v.number(),
+    updatedBy: v.optional(v.string()), // Clerk user ID
+  }),
+
+  // Appointments - Pre-booked certificate pickup; checked in at the kiosk with the booking code
+  appointments: defineTable({
+    bookingCode: v.string(), // 6 characters, e.g. "K7M2QX"
+    residentId: v.id("residents"),
+    documentTypeId: v.id("documentTypes"),
+    purpose: v.string(),
+    slotStart: v.number(), // Timestamp of the booked slot
+    status: v.union(
+      v.literal("booked"),
+      v.literal("checked_in"), // Arrived; request and queue ticket created
+      v.literal("cancelled"),
+      v.literal("no_show") // Slot day ended without check-in
+    ),
+    source: v.union(v.literal("online"), v.literal("staff")),
+    bookedBy: v.optional(v.string()), // Clerk user ID when booked by staff
+    documentRequestId: v.optional(v.id("documentRequests")), // Set on check-in
+    checkedInAt: v.optional(v.number()),
+    cancelledAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index("by_bookingCode", ["bookingCode"]) // For kiosk check-in
+    .index("by_slotStart", ["slotStart"]) // For slot capacity and daily lists
+    .index("by_status_slotStart", ["status", "slotStart"]) // For end-of-day no-shows
+    .index("by_residentId_status", ["residentId", "status"]), // For limiting open bookings per resident
+
+  // Online Booking Attempts - rate limit for the public booking page, one row per Resident ID
+  // Fixed window like kioskDevices; wrong birthdates count too, so birthdates can't be guessed
+  bookingAttempts: defineTable({
+    key: v.string(), // Resident _id, or the typed Resident ID when it matches nobody
+    windowStart: v.number(), // Start of the current rate limit window
+    count: v.number(), // Attempts in the current window
+  })
+    .index("by_key", ["key"]) // For the check on every booking attempt
+    .index("by_windowStart", ["windowStart"]), // For clearing old windows
+
+  // Sequences - Next queue/request/resident numbers (see convex/sequences.ts)
+  sequences: defineTable({
+    name: v.string(), // e.g. "queue:regular", "queue:priority", "request", "residentId"
+    scope: v.string(), // Manila day (YYYYMMDD) for daily sequences, "all" otherwise
+    value: v.number(), // Last number handed out
+    updatedAt: v.number(),
+  }).index("by_name_scope", ["name", "scope"]),
+
+  // Service Types - Non-certificate queues (blotter, health center, payments)
+  serviceTypes: defineTable({
+    name: v.string(), // e.g. "Blotter / Complaints"
+    description: v.optional(v.string()), // Shown on the kiosk button
+    prefix: v.string(), // Ticket prefix, e.g. "B" → B-001; Q and P are reserved for document requests
+    counterIds: v.array(v.id("counters")), // Empty = any counter can call these tickets
+    isActive: v.boolean(), // Inactive types are hidden from the kiosk
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_prefix", ["prefix"]) // For unique prefixes
+    .index("by_isActive", ["isActive"]), // For the kiosk entry points
+
+  // Service Counters - Where staff call and serve queue numbers
+  counters: defineTable({
+    number: v.number(), // Shown on the queue display: "Counter 2"
+    name: v.string(), // e.g. "Clearances & Indigency"
+    documentTypeIds: v.array(v.id("documentTypes")), // Empty = serves every document type
+    activeStaffId: v.optional(v.string()), // Clerk user ID of the staff currently at the counter
+    isOpen: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_number", ["number"]) // For display and counter lookups
+    .index("by_activeStaffId", ["activeStaffId"]), // For finding a staff member's counter
+
   // Printed Documents History
   printedDocuments: defineTable({
     documentRequestItemId: v.id("documentRequestItems"), // FK to documentRequestItems
     printedBy: v.string(), // Clerk user ID
     printedAt: v.number(),
-    reprintCount: v.number(), // Default: 0
+    reprintCount: v.number(), // Default: 0 - each reprint of an item increments it
+    reprintReason: v.optional(v.string()), // Required for reprints (e.g. "Printer jam")
     pdfPath: v.optional(v.string()), // Path to saved PDF file (Convex storage)
+    templateVersionId: v.optional(v.id("certificateTemplateVersions")), // Template version used to render
+    verificationCode: v.optional(v.string()), // Printed as a QR code, checked at /verify/$code
+    revokedAt: v.optional(v.number()), // Set when an admin revokes the certificate
+    revokedBy: v.optional(v.string()), // Clerk user ID
+    revocationReason: v.optional(v.string()),
+    supersededAt: v.optional(v.number()), // Set when the item is reprinted; only the newest copy is valid
+    supersededById: v.optional(v.id("printedDocuments")), // The reprint that replaced this copy
   })
     .index("by_documentRequestItemId", ["documentRequestItemId"]) // For item history
     .index("by_printedAt", ["printedAt"]) // For date range queries
-    .index("by_printedBy", ["printedBy"]), // For staff statistics
+    .index("by_printedBy", ["printedBy"]) // For staff statistics
+    .index("by_verificationCode", ["verificationCode"]), // For public certificate verification
+
+  // Certificate Templates - Layouts designed in superadmin settings
+  certificateTemplates: defineTable({
+    name: v.string(), // e.g., "Barangay Clearance (2026)"
+    currentVersion: v.number(), // Latest version number in certificateTemplateVersions
+    isActive: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_name", ["name"]) // For name lookups
+    .index("by_isActive", ["isActive"]), // For filtering active templates
+
+  // Certificate Template Versions - Immutable snapshots, one per save
+  certificateTemplateVersions: defineTable({
+    templateId: v.id("certificateTemplates"), // FK to certificateTemplates
+    version: v.number(), // 1, 2, 3... per template
+    pageSize: pageSizeValidator,
+    backgroundStorageId: v.optional(v.id("_storage")), // Letterhead/background image (PNG or JPEG)
+    elements: v.array(layoutElementValidator), // Text elements with {{placeholders}}
+    createdBy: v.string(), // Clerk user ID
+    createdAt: v.number(),
+  })
+    .index("by_templateId_version", ["templateId", "version"]), // For version history and lookups
 
   // Barangay Officials Configuration
   barangayOfficials: defineTable({
@@ -241,7 +399,18 @@ export default defineSchema({
   })
     .index("by_block_lot", ["block", "lot"]) // For finding household by Block+Lot
     .index("by_purok", ["purok"]) // For filtering by purok
-    .index("by_phase", ["phase"]), // For filtering by phase
+    .index("by_phase", ["phase"]) // For filtering by phase
+    .index("by_headOfHouseholdId", ["headOfHouseholdId"]), // For re-pointing heads on resident merge
+
+  // Resident ID Aliases - Resident IDs retired by a merge, kept so old barcodes still resolve
+  residentIdAliases: defineTable({
+    alias: v.string(), // Retired Resident ID (BH-00001 format)
+    residentId: v.id("residents"), // Surviving resident
+    mergedBy: v.string(), // Clerk user ID
+    mergedAt: v.number(),
+  })
+    .index("by_alias", ["alias"]) // For barcode lookup
+    .index("by_residentId", ["residentId"]), // For moving aliases on a later merge
 
   // Statistics Cache - Pre-calculated statistics per Purok for performance
   statisticsCache: defineTable({
@@ -365,6 +534,81 @@ export default defineSchema({
     .index("by_purok", ["purok"]) // For querying by purok
     .index("by_phase", ["phase"]), // For querying by phase
 
+  // Kiosk Devices - Registered public kiosks allowed to submit requests
+  kioskDevices: defineTable({
+    name: v.string(), // e.g. "Lobby Kiosk 1"
+    token: v.string(), // Secret stored on the kiosk device
+    isActive: v.boolean(),
+    createdBy: v.string(), // Clerk user ID
+    createdAt: v.number(),
+    lastSeenAt: v.optional(v.number()), // Last accepted submission
+    rateWindowStart: v.number(), // Start of the current rate limit window
+    rateWindowCount: v.number(), // Submissions in the current window
+  })
+    .index("by_token", ["token"]), // For device lookups on every kiosk call
+
+  // Resident Import Batches - one per uploaded spreadsheet
+  // Rows are staged and validated first, then committed in chunks; a batch can be rolled back
+  importBatches: defineTable({
+    fileName: v.string(),
+    status: v.union(
+      v.literal("staging"), // Rows still uploading
+      v.literal("staged"), // Ready for review
+      v.literal("committing"), // Chunks being inserted (resume if interrupted)
+      v.literal("committed"),
+      v.literal("rolling_back"),
+      v.literal("rolled_back")
+    ),
+    totalRows: v.number(),
+    stagedRows: v.number(),
+    problemRows: v.number(), // Rows with errors or an unresolved duplicate
+    importedRows: v.number(),
+    skippedRows: v.number(),
+    keptRows: v.number(), // Rows a rollback left in place (resident already in use, see residentImports.ts)
+    removedRows: v.optional(v.number()), // Residents a rollback deleted so far
+    createdBy: v.string(), // Clerk user ID
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    committedAt: v.optional(v.number()),
+    rolledBackAt: v.optional(v.number()),
+  })
+    .index("by_createdAt", ["createdAt"]), // For import history
+
+  // Resident Import Rows - staged spreadsheet rows of an import batch
+  importRows: defineTable({
+    batchId: v.id("importBatches"),
+    rowNumber: v.number(), // 1-indexed data row in the file
+    data: v.record(v.string(), v.string()), // Cell text keyed by import field (lastName, birthdate, ...)
+    errors: v.array(v.object({ field: v.string(), message: v.string() })),
+    duplicateOfId: v.optional(v.id("residents")), // Existing resident with the same ID or a matching name + birthdate
+    importAnyway: v.optional(v.boolean()), // Admin confirmed the duplicate is a different person
+    hasProblems: v.boolean(),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("imported"),
+      v.literal("skipped"),
+      v.literal("rolled_back")
+    ),
+    skipReason: v.optional(v.string()),
+    residentId: v.optional(v.id("residents")), // Created resident
+    createdHouseholdId: v.optional(v.id("households")), // Household this row created (removed on rollback)
+  })
+    .index("by_batchId_rowNumber", ["batchId", "rowNumber"]) // For the review grid
+    .index("by_batchId_hasProblems_rowNumber", ["batchId", "hasProblems", "rowNumber"]) // For problem rows
+    .index("by_batchId_status_rowNumber", ["batchId", "status", "rowNumber"]) // For chunked commit/rollback
+    .index("by_residentId", ["residentId"]) // For re-pointing rows when residents are merged
+    .index("by_duplicateOfId", ["duplicateOfId"]), // Same, for flagged duplicates
+
+  // Import Mapping Profiles - saved spreadsheet header choices, e.g. one per purok leader's template
+  importMappingProfiles: defineTable({
+    name: v.string(),
+    mapping: v.record(v.string(), v.string()), // Import field -> file header
+    createdBy: v.string(), // Clerk user ID
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_name", ["name"]), // For listing and unique names
+
   // Audit Logs (Optional - for tracking system actions)
   auditLogs: defineTable({
     userId: v.optional(v.string()), // Clerk user ID
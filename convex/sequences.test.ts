@@ -0,0 +1,74 @@
+import { convexTest } from "convex-test"
+import { describe, expect, test } from "vitest"
+import schema from "./schema"
+import { modules } from "./test.setup"
+import { manilaDateKey, manilaDayStart, nextSequence } from "./sequences"
+
+describe("nextSequence", () => {
+  test("hands out distinct numbers to concurrent submissions", async () => {
+    const t = convexTest(schema, modules)
+
+    const numbers = await Promise.all(
+      Array.from({ length: 10 }, () => t.run((ctx) => nextSequence(ctx, "request", "20260101")))
+    )
+
+    expect(new Set(numbers).size).toBe(10)
+    expect([...numbers].sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
+  })
+
+  test("keeps counting across repeated calls", async () => {
+    const t = convexTest(schema, modules)
+
+    for (let expected = 1; expected <= 5; expected++) {
+      expect(await t.run((ctx) => nextSequence(ctx, "queue:regular", "20260101"))).toBe(expected)
+    }
+  })
+
+  test("starts again at 1 on a new day key", async () => {
+    const t = convexTest(schema, modules)
+
+    await t.run((ctx) => nextSequence(ctx, "queue:regular", "20260101"))
+    await t.run((ctx) => nextSequence(ctx, "queue:regular", "20260101"))
+
+    expect(await t.run((ctx) => nextSequence(ctx, "queue:regular", "20260102"))).toBe(1)
+    expect(await t.run((ctx) => nextSequence(ctx, "queue:regular", "20260101"))).toBe(3)
+  })
+
+  test("seeds a new row once from numbers already issued", async () => {
+    const t = convexTest(schema, modules)
+    let seedCalls = 0
+    const seed = async () => {
+      seedCalls++
+      return 41
+    }
+
+    expect(await t.run((ctx) => nextSequence(ctx, "residentId", "all", seed))).toBe(42)
+    expect(await t.run((ctx) => nextSequence(ctx, "residentId", "all", seed))).toBe(43)
+    expect(seedCalls).toBe(1)
+  })
+})
+
+describe("Manila day boundaries", () => {
+  // Midnight in Manila (UTC+8) is 16:00 UTC the day before
+  const beforeMidnight = Date.UTC(2026, 0, 1, 15, 59, 59)
+  const atMidnight = Date.UTC(2026, 0, 1, 16, 0, 0)
+
+  test("manilaDateKey rolls over at 16:00:00Z", () => {
+    expect(manilaDateKey(beforeMidnight)).toBe("20260101")
+    expect(manilaDateKey(atMidnight)).toBe("20260102")
+  })
+
+  test("manilaDayStart returns the 16:00Z that starts the Manila day", () => {
+    expect(manilaDayStart(beforeMidnight)).toBe(Date.UTC(2025, 11, 31, 16, 0, 0))
+    expect(manilaDayStart(atMidnight)).toBe(atMidnight)
+  })
+
+  test("tickets on either side of midnight use different sequences", async () => {
+    const t = convexTest(schema, modules)
+
+    await t.run((ctx) => nextSequence(ctx, "queue:regular", manilaDateKey(beforeMidnight)))
+    await t.run((ctx) => nextSequence(ctx, "queue:regular", manilaDateKey(beforeMidnight)))
+
+    expect(await t.run((ctx) => nextSequence(ctx, "queue:regular", manilaDateKey(atMidnight)))).toBe(1)
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Daily sequence numbers for queue tickets, request numbers and resident IDs
+ * One row per (name, scope); Convex mutations are transactions, so two
+ * submissions reading the same row conflict and one is retried with the new value
+ */
+
+import { MutationCtx } from "./_generated/server"
+
+// Asia/Manila is UTC+8 all year (no daylight saving)
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ==================== HELPERS ====================
+
+/**
+ * Manila calendar day for a timestamp (YYYYMMDD)
+ * Used as the scope for sequences that reset daily
+ */
+export function manilaDateKey(timestamp: number): string {
+  return new Date(timestamp + MANILA_OFFSET_MS).toISOString().slice(0, 10).replace(/-/g, "")
+}
+
+/**
+ * Start of the Manila day containing a timestamp (epoch ms)
+ */
+export function manilaDayStart(timestamp: number): number {
+  return Math.floor((timestamp + MANILA_OFFSET_MS) / DAY_MS) * DAY_MS - MANILA_OFFSET_MS
+}
+
+/**
+ * Start of a Manila day given as YYYYMMDD (epoch ms), or null if malformed
+ */
+export function manilaDayStartFromKey(dateKey: string): number | null {
+  const match = dateKey.match(/^(\d{4})(\d{2})(\d{2})$/)
+  if (!match) return null
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) - MANILA_OFFSET_MS
+}
+
+/**
+ * Manila weekday (0 = Sunday) and hour of day for a timestamp
+ */
+export function manilaWeekdayHour(timestamp: number): { weekday: number; hour: number } {
+  const local = new Date(timestamp + MANILA_OFFSET_MS)
+  return { weekday: local.getUTCDay(), hour: local.getUTCHours() }
+}
+
+/**
+ * Atomically take the next number in a sequence
+ * seed returns the highest number already in use, for sequences created after
+ * records exist (e.g. the day this table was introduced); it only runs once per row
+ */
+export async function nextSequence(
+  ctx: MutationCtx,
+  name: string,
+  scope: string,
+  seed?: () => Promise<number>
+): Promise<number> {
+  const existing = await ctx.db
+    .query("sequences")
+    .withIndex("by_name_scope", (q) => q.eq("name", name).eq("scope", scope))
+    .unique()
+
+  if (existing) {
+    const value = existing.value + 1
+    await ctx.db.patch(existing._id, { value, updatedAt: Date.now() })
+    return value
+  }
+
+  const value = (seed ? await seed() : 0) + 1
+  await ctx.db.insert("sequences", { name, scope, value, updatedAt: Date.now() })
+  return value
+}
+
+/**
+ * Highest number captured by pattern's first group across existing values
+ * Used to seed a sequence from records created before it existed
+ */
+export function maxSequenceNumber(values: Array<string | undefined>, pattern: RegExp): number {
+  let max = 0
+  for (const value of values) {
+    const match = value?.match(pattern)
+    if (match) {
+      const num = parseInt(match[1], 10)
+      if (num > max) max = num
+    }
+  }
+  return max
+}
@@ -0,0 +1,189 @@
+/**
+ * Convex functions for service types
+ * Non-certificate queues (blotter, health center, payments), each with its own
+ * ticket prefix, eligible counters and kiosk button
+ */
+
+import { v } from "convex/values"
+import { query, mutation, QueryCtx } from "./_generated/server"
+import { Id } from "./_generated/dataModel"
+import { requireRole, STAFF_ROLES, SUPERADMIN_ROLES } from "./users"
+import { logAudit } from "./auditLogs"
+import { QUEUE_PREFIXES } from "./queue"
+
+// ==================== HELPERS ====================
+
+/**
+ * Normalize and validate a ticket prefix (1-2 letters, unique, not Q or P)
+ */
+async function validatePrefix(ctx: QueryCtx, prefix: string, excludeId?: Id<"serviceTypes">) {
+  const normalized = prefix.trim().toUpperCase()
+
+  if (!/^[A-Z]{1,2}$/.test(normalized)) {
+    throw new Error("Prefix must be 1 or 2 letters")
+  }
+  if (Object.values(QUEUE_PREFIXES).includes(normalized)) {
+    throw new Error(`Prefix ${normalized} is reserved for document requests`)
+  }
+
+  const existing = await ctx.db
+    .query("serviceTypes")
+    .withIndex("by_prefix", (q) => q.eq("prefix", normalized))
+    .first()
+  if (existing && existing._id !== excludeId) {
+    throw new Error(`Prefix ${normalized} is already used by ${existing.name}`)
+  }
+
+  return normalized
+}
+
+// ==================== QUERIES ====================
+
+/**
+ * List all service types (active and inactive), ordered by name
+ */
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireRole(ctx, STAFF_ROLES, "Only staff can view service types")
+
+    const serviceTypes = await ctx.db.query("serviceTypes").collect()
+    return serviceTypes.sort((a, b) => a.name.localeCompare(b.name))
+  },
+})
+
+// ==================== MUTATIONS ====================
+
+/**
+ * Create a service type (Superadmin only)
+ */
+export const create = mutation({
+  args: {
+    name: v.string(),
+    description: v.optional(v.string()),
+    prefix: v.string(),
+    counterIds: v.array(v.id("counters")),
+    isActive: v.optional(v.boolean()), // Default: true
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage service types")
+
+    const name = args.name.trim()
+    if (!name) throw new Error("Name is required")
+    const prefix = await validatePrefix(ctx, args.prefix)
+
+    const now = Date.now()
+    const id = await ctx.db.insert("serviceTypes", {
+      name,
+      description: args.description?.trim() || undefined,
+      prefix,
+      counterIds: args.counterIds,
+      isActive: args.isActive ?? true,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: "create_service_type",
+      resourceType: "serviceType",
+      resourceId: id,
+      before: null,
+      after: await ctx.db.get(id),
+    })
+
+    return id
+  },
+})
+
+/**
+ * Update a service type (Superadmin only)
+ * A new prefix applies to tickets issued from now on
+ */
+export const update = mutation({
+  args: {
+    id: v.id("serviceTypes"),
+    name: v.optional(v.string()),
+    description: v.optional(v.string()),
+    prefix: v.optional(v.string()),
+    counterIds: v.optional(v.array(v.id("counters"))),
+    isActive: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage service types")
+
+    const before = await ctx.db.get(args.id)
+    if (!before) throw new Error("Service type not found")
+
+    const { id, ...updates } = args
+    if (updates.name !== undefined) {
+      updates.name = updates.name.trim()
+      if (!updates.name) throw new Error("Name is required")
+    }
+    if (updates.prefix !== undefined) {
+      updates.prefix = await validatePrefix(ctx, updates.prefix, id)
+    }
+    if (updates.description !== undefined) {
+      updates.description = updates.description.trim() || undefined
+    }
+
+    // Keep a cleared description (undefined) so the patch removes it
+    const cleanUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([key, value]) => value !== undefined || key === "description")
+    )
+
+    await ctx.db.patch(id, {
+      ...cleanUpdates,
+      updatedAt: Date.now(),
+    })
+
+    await logAudit(ctx, {
+      user,
+      action: "update_service_type",
+      resourceType: "serviceType",
+      resourceId: id,
+      before,
+      after: await ctx.db.get(id),
+    })
+
+    return id
+  },
+})
+
+/**
+ * Delete a service type (Superadmin only)
+ * Refuses while it has tickets waiting, being served or in the recall list;
+ * past tickets keep the service type's name
+ */
+export const remove = mutation({
+  args: { id: v.id("serviceTypes") },
+  handler: async (ctx, args) => {
+    const user = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage service types")
+
+    const serviceType = await ctx.db.get(args.id)
+    if (!serviceType) throw new Error("Service type not found")
+
+    for (const status of ["waiting", "serving", "skipped"] as const) {
+      const open = await ctx.db
+        .query("queue")
+        .withIndex("by_serviceTypeId_status", (q) => q.eq("serviceTypeId", args.id).eq("status", status))
+        .first()
+      if (open) {
+        throw new Error(`${serviceType.name} still has tickets in the queue. Deactivate it instead.`)
+      }
+    }
+
+    await ctx.db.delete(args.id)
+
+    await logAudit(ctx, {
+      user,
+      action: "delete_service_type",
+      resourceType: "serviceType",
+      resourceId: args.id,
+      before: serviceType,
+      after: null,
+    })
+
+    return args.id
+  },
+})
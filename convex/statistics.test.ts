@@ -0,0 +1,170 @@
+import { convexTest } from "convex-test"
+import { describe, expect, test } from "vitest"
+import { api } from "./_generated/api"
+import { buildReprintReport, ReprintCounts } from "./lib/reprints"
+import schema from "./schema"
+import { modules, testResident } from "./test.setup"
+
+describe("getReprintReport", () => {
+  test("pages through the date range and flags the unusual reprint rate", async () => {
+    const t = convexTest(schema, modules)
+    await t.run(async (ctx) => {
+      const now = Date.now()
+      for (const [externalId, name, role] of [
+        ["user_superadmin", "Superadmin", "superadmin"],
+        ["user_1", "Ana", "staff"],
+        ["user_2", "Ben", "staff"],
+      ] as const) {
+        await ctx.db.insert("users", { name, externalId, role, isActive: true, createdAt: now, updatedAt: now })
+      }
+      const documentTypeId = await ctx.db.insert("documentTypes", {
+        name: "Barangay Clearance",
+        templateKey: "clearance.pdf",
+        price: 5000,
+        requiresPurpose: false,
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      const residentId = await ctx.db.insert("residents", testResident())
+      const documentRequestId = await ctx.db.insert("documentRequests", {
+        residentId,
+        requestNumber: "REQ-20260101-001",
+        status: "completed",
+        totalPrice: 5000,
+        requestedAt: now,
+      })
+      const documentRequestItemId = await ctx.db.insert("documentRequestItems", {
+        documentRequestId,
+        documentTypeId,
+        purpose: "",
+        status: "printed",
+        createdAt: now,
+      })
+
+      // Ana: 12 prints, 4 of them reprints; Ben: 20 prints, no reprints
+      const prints = [
+        ...Array.from({ length: 12 }, (_, i) => ({ printedBy: "user_1", reprintCount: i < 4 ? 1 : 0 })),
+        ...Array.from({ length: 20 }, () => ({ printedBy: "user_2", reprintCount: 0 })),
+      ]
+      for (const [index, print] of prints.entries()) {
+        await ctx.db.insert("printedDocuments", {
+          ...print,
+          documentRequestItemId,
+          printedAt: Date.UTC(2026, 0, 5) + index * 60_000,
+          reprintReason: print.reprintCount > 0 ? "Printer jam" : undefined,
+        })
+      }
+      // Outside the range
+      await ctx.db.insert("printedDocuments", {
+        documentRequestItemId,
+        printedBy: "user_2",
+        printedAt: Date.UTC(2025, 11, 31),
+        reprintCount: 1,
+        reprintReason: "Typo",
+      })
+    })
+
+    const superadmin = t.withIdentity({ subject: "user_superadmin" })
+    const pages: ReprintCounts[] = []
+    let cursor: string | null = null
+    for (;;) {
+      const result: { page: ReprintCounts[]; isDone: boolean; continueCursor: string } = await superadmin.query(
+        api.statistics.getReprintReport,
+        {
+          startDate: Date.UTC(2026, 0, 1),
+          endDate: Date.UTC(2026, 0, 31),
+          paginationOpts: { numItems: 5, cursor },
+        }
+      )
+      pages.push(...result.page)
+      if (result.isDone) break
+      cursor = result.continueCursor
+    }
+
+    const report = buildReprintReport(pages)
+    expect(report).toMatchObject({ totalPrints: 32, totalReprints: 4 })
+    expect(report.staff).toEqual([
+      {
+        userId: "user_1",
+        name: "Ana",
+        prints: 12,
+        reprints: 4,
+        reprintRate: 4 / 12,
+        isUnusual: true,
+        topReasons: [{ reason: "Printer jam", count: 4 }],
+      },
+      { userId: "user_2", name: "Ben", prints: 20, reprints: 0, reprintRate: 0, isUnusual: false, topReasons: [] },
+    ])
+  })
+})
+
+describe("getQueueAnalytics", () => {
+  test("splits service time by the ticket's document types and caps the range", async () => {
+    const t = convexTest(schema, modules)
+    const end = Date.UTC(2026, 5, 30, 8)
+    const { clearanceId, indigencyId } = await t.run(async (ctx) => {
+      const now = Date.now()
+      await ctx.db.insert("users", {
+        name: "Superadmin",
+        externalId: "user_superadmin",
+        role: "superadmin",
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      const documentType = { templateKey: "clearance.pdf", price: 5000, requiresPurpose: false, isActive: true }
+      const clearanceId = await ctx.db.insert("documentTypes", {
+        ...documentType,
+        name: "Barangay Clearance",
+        createdAt: now,
+        updatedAt: now,
+      })
+      const indigencyId = await ctx.db.insert("documentTypes", {
+        ...documentType,
+        name: "Certificate of Indigency",
+        createdAt: now,
+        updatedAt: now,
+      })
+
+      // 10 minutes waiting, 20 minutes at the counter for two documents
+      const createdAt = end - 60 * 60 * 1000
+      await ctx.db.insert("queue", {
+        queueNumber: "Q-001",
+        serviceType: "document",
+        status: "done",
+        documentTypeIds: [clearanceId, indigencyId],
+        createdAt,
+        startedAt: createdAt + 10 * 60 * 1000,
+        completedAt: createdAt + 30 * 60 * 1000,
+      })
+      // Before the 92-day cap
+      await ctx.db.insert("queue", {
+        queueNumber: "Q-001",
+        serviceType: "document",
+        status: "waiting",
+        documentTypeIds: [clearanceId],
+        createdAt: Date.UTC(2026, 0, 5),
+      })
+      return { clearanceId, indigencyId }
+    })
+
+    const analytics = await t.withIdentity({ subject: "user_superadmin" }).query(api.statistics.getQueueAnalytics, {
+      startDate: Date.UTC(2026, 0, 1),
+      endDate: end,
+    })
+
+    expect(analytics.range).toEqual({ startDate: end - 92 * 24 * 60 * 60 * 1000, endDate: end, isClamped: true })
+    expect(analytics.summary).toMatchObject({ tickets: 1, served: 1, avgWaitMinutes: 10, avgServiceMinutes: 20 })
+    expect(
+      analytics.documentTypes.map(({ documentTypeId, tickets, avgServiceMinutes }) => ({
+        documentTypeId,
+        tickets,
+        avgServiceMinutes,
+      }))
+    ).toEqual([
+      { documentTypeId: clearanceId, tickets: 1, avgServiceMinutes: 10 },
+      { documentTypeId: indigencyId, tickets: 1, avgServiceMinutes: 10 },
+    ])
+  })
+})
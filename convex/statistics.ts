@@ -24,8 +24,12 @@
  */
 
 import { v } from "convex/values"
+import { paginationOptsValidator } from "convex/server"
 import { query } from "./_generated/server"
-import { getCurrentUser } from "./users"
+import { Id } from "./_generated/dataModel"
+import { requireRole, ADMIN_ROLES, SUPERADMIN_ROLES, userByExternalId } from "./users"
+import { manilaDateKey, manilaWeekdayHour } from "./sequences"
+import { countReprints } from "./lib/reprints"
 
 /**
  * Get dashboard statistics for Admin/Superadmin
@@ -35,13 +39,7 @@ import { getCurrentUser } from "./users"
 export const getDashboardStats = query({
   args: {},
   handler: async (ctx) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-    
-    // Only admin/superadmin can view statistics
-    if (user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only admins can view statistics")
-    }
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admins can view statistics")
 
     // OPTIMIZATION: Single query for residents, then count in memory
     // This is more efficient than multiple queries
@@ -144,12 +142,7 @@ export const getDashboardStats = query({
 export const getResidentsByStatus = query({
   args: {},
   handler: async (ctx) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-    
-    if (user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only admins can view statistics")
-    }
+    await requireRole(ctx, ADMIN_ROLES, "Only admins can view statistics")
 
     // Query each status using indexed queries (parallel for efficiency)
     const [residentCount, pendingCount, deceasedCount, movedCount] = await Promise.all([
@@ -288,12 +281,7 @@ export const getDetailedStats = query({
     endDate: v.optional(v.number()), // Timestamp
   },
   handler: async (ctx, args) => {
-    const user = await getCurrentUser(ctx)
-    if (!user) throw new Error("Unauthorized")
-    
-    if (user.role !== "admin" && user.role !== "superadmin") {
-      throw new Error("Unauthorized: Only admins can view statistics")
-    }
+    const user = await requireRole(ctx, ADMIN_ROLES, "Only admins can view statistics")
 
     // Build resident query based on filters
     let residents
@@ -356,6 +344,201 @@ export const getDetailedStats = query({
   },
 })
 
+/**
+ * Get reprint counts per staff member, one page of prints at a time (Superadmin only)
+ * Uses by_printedAt index for the date range; the page adds the pages up with
+ * buildReprintReport (convex/lib/reprints.ts), which flags unusual reprint rates
+ */
+export const getReprintReport = query({
+  args: {
+    startDate: v.optional(v.number()), // Timestamp
+    endDate: v.optional(v.number()), // Timestamp
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can view reprint reports")
+
+    const result = await ctx.db
+      .query("printedDocuments")
+      .withIndex("by_printedAt", (q) => {
+        if (args.startDate && args.endDate) {
+          return q.gte("printedAt", args.startDate).lte("printedAt", args.endDate)
+        }
+        if (args.startDate) return q.gte("printedAt", args.startDate)
+        if (args.endDate) return q.lte("printedAt", args.endDate)
+        return q
+      })
+      .paginate(args.paginationOpts)
+
+    // Staff names for this page only
+    const staffIds = Array.from(new Set(result.page.map((doc) => doc.printedBy)))
+    const names = new Map(
+      await Promise.all(
+        staffIds.map(async (externalId) => {
+          const staffUser = await userByExternalId(ctx, externalId)
+          return [externalId, staffUser?.name ?? "Unknown"] as const
+        })
+      )
+    )
+
+    return {
+      ...result,
+      page: countReprints(result.page, (externalId) => names.get(externalId) ?? "Unknown"),
+    }
+  },
+})
+
+// Running totals for one group of queue tickets (a day, a staff member, a document type)
+type QueueTotals = {
+  tickets: number
+  served: number
+  skipped: number // Skipped or expired (never recalled)
+  waitMinutes: number
+  waitCount: number
+  serviceMinutes: number
+  serviceCount: number
+}
+
+function emptyQueueTotals(): QueueTotals {
+  return { tickets: 0, served: 0, skipped: 0, waitMinutes: 0, waitCount: 0, serviceMinutes: 0, serviceCount: 0 }
+}
+
+/**
+ * Averages and abandonment rate for a group of tickets
+ * Averages are null when no ticket in the group has the timestamps needed
+ */
+function summarizeQueueTotals(totals: QueueTotals) {
+  return {
+    tickets: totals.tickets,
+    served: totals.served,
+    skipped: totals.skipped,
+    avgWaitMinutes: totals.waitCount > 0 ? totals.waitMinutes / totals.waitCount : null,
+    avgServiceMinutes: totals.serviceCount > 0 ? totals.serviceMinutes / totals.serviceCount : null,
+    skipRate: totals.tickets > 0 ? totals.skipped / totals.tickets : 0,
+  }
+}
+
+// Longest range getQueueAnalytics reads; longer ranges keep their most recent days
+const MAX_QUEUE_ANALYTICS_DAYS = 92
+
+/**
+ * Get queue performance for a date range (Superadmin only)
+ * Wait = ticket taken → first called; service = first called → done
+ * Days, weekdays and hours are Manila time; tickets still waiting or serving
+ * count toward volume but not the averages
+ * Uses by_createdAt index for the date range, capped at MAX_QUEUE_ANALYTICS_DAYS
+ */
+export const getQueueAnalytics = query({
+  args: {
+    startDate: v.number(), // Timestamp
+    endDate: v.optional(v.number()), // Timestamp, defaults to now
+  },
+  handler: async (ctx, args) => {
+    await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can view queue analytics")
+
+    const endDate = args.endDate ?? Date.now()
+    const startDate = Math.max(args.startDate, endDate - MAX_QUEUE_ANALYTICS_DAYS * 24 * 60 * 60 * 1000)
+
+    const tickets = await ctx.db
+      .query("queue")
+      .withIndex("by_createdAt", (q) => q.gte("createdAt", startDate).lte("createdAt", endDate))
+      .collect()
+
+    const overall = emptyQueueTotals()
+    const byDay = new Map<string, QueueTotals>()
+    const byStaff = new Map<string, QueueTotals>()
+    const byDocumentType = new Map<Id<"documentTypes">, QueueTotals>()
+    // 7 weekdays × 24 hours of ticket counts
+    const heatmap = Array.from({ length: 7 }, () => Array.from({ length: 24 }, () => 0))
+
+    const add = (totals: QueueTotals, wait: number | null, service: number | null, skipped: boolean) => {
+      totals.tickets++
+      if (skipped) totals.skipped++
+      if (service !== null) {
+        totals.served++
+        totals.serviceMinutes += service
+        totals.serviceCount++
+      }
+      if (wait !== null) {
+        totals.waitMinutes += wait
+        totals.waitCount++
+      }
+    }
+
+    for (const ticket of tickets) {
+      const skipped = ticket.status === "skipped" || ticket.status === "expired"
+      const wait = ticket.startedAt ? (ticket.startedAt - ticket.createdAt) / 60000 : null
+      const service =
+        ticket.status === "done" && ticket.startedAt && ticket.completedAt
+          ? (ticket.completedAt - ticket.startedAt) / 60000
+          : null
+
+      add(overall, wait, service, skipped)
+
+      const day = manilaDateKey(ticket.createdAt)
+      const dayTotals = byDay.get(day) ?? emptyQueueTotals()
+      add(dayTotals, wait, service, skipped)
+      byDay.set(day, dayTotals)
+
+      const { weekday, hour } = manilaWeekdayHour(ticket.createdAt)
+      heatmap[weekday][hour]++
+
+      if (ticket.servedBy) {
+        const staffTotals = byStaff.get(ticket.servedBy) ?? emptyQueueTotals()
+        add(staffTotals, wait, service, skipped)
+        byStaff.set(ticket.servedBy, staffTotals)
+      }
+
+      // Service time is split evenly across the documents on the request
+      // (service tickets have no documents)
+      const documentTypeIds = ticket.documentTypeIds ?? []
+      for (const documentTypeId of documentTypeIds) {
+        const typeTotals = byDocumentType.get(documentTypeId) ?? emptyQueueTotals()
+        add(typeTotals, wait, service !== null ? service / documentTypeIds.length : null, skipped)
+        byDocumentType.set(documentTypeId, typeTotals)
+      }
+    }
+
+    const staff = await Promise.all(
+      Array.from(byStaff.entries()).map(async ([externalId, totals]) => {
+        const staffUser = await userByExternalId(ctx, externalId)
+        return {
+          userId: externalId,
+          name: staffUser?.name ?? "Unknown",
+          ...summarizeQueueTotals(totals),
+        }
+      })
+    )
+
+    const documentTypes = await Promise.all(
+      Array.from(byDocumentType.entries()).map(async ([documentTypeId, totals]) => {
+        const documentType = await ctx.db.get(documentTypeId)
+        return {
+          documentTypeId,
+          documentTypeName: documentType?.name ?? "Unknown",
+          ...summarizeQueueTotals(totals),
+        }
+      })
+    )
+
+    return {
+      // The range actually read, so the page can say when it was shortened
+      range: { startDate, endDate, isClamped: startDate > args.startDate },
+      summary: summarizeQueueTotals(overall),
+      byDay: Array.from(byDay.entries())
+        .map(([day, totals]) => ({
+          // YYYYMMDD → YYYY-MM-DD
+          date: `${day.slice(0, 4)}-${day.slice(4, 6)}-${day.slice(6, 8)}`,
+          ...summarizeQueueTotals(totals),
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      heatmap,
+      staff: staff.sort((a, b) => b.served - a.served),
+      documentTypes: documentTypes.sort((a, b) => b.tickets - a.tickets),
+    }
+  },
+})
+
 /**
  * Helper: Get documents issued statistics
  * Returns total documents issued, by month, and by document type
@@ -0,0 +1,54 @@
+/**
+ * Shared setup for convex-test suites
+ * modules is every function file in convex/, loaded the way the Convex runtime sees them
+ */
+
+/// <reference types="vite/client" />
+
+import { Doc } from "./_generated/dataModel"
+
+export const modules = import.meta.glob("./**/!(*.*.*)*.*s")
+
+/**
+ * A complete residents row for seeding: Juan Santos Dela Cruz, born 1990-01-01
+ */
+export function testResident(
+  overrides: Partial<Omit<Doc<"residents">, "_id" | "_creationTime">> = {}
+): Omit<Doc<"residents">, "_id" | "_creationTime"> {
+  const now = Date.now()
+  return {
+    residentId: "BH-00001",
+    block: "1",
+    lot: "2",
+    phase: "1",
+    purok: "1",
+    firstName: "Juan",
+    middleName: "Santos",
+    lastName: "Dela Cruz",
+    sex: "male",
+    birthdate: Date.UTC(1990, 0, 1),
+    civilStatus: "Single",
+    educationalAttainment: "College",
+    employmentStatus: "Employed",
+    isResidentVoter: true,
+    isRegisteredVoter: true,
+    isOFW: false,
+    isPWD: false,
+    isOSY: false,
+    isSeniorCitizen: false,
+    isSoloParent: false,
+    isIP: false,
+    isMigrant: false,
+    housingType: "Owned",
+    constructionType: "Heavy",
+    isWheelchairBound: false,
+    isDialysisPatient: false,
+    isCancerPatient: false,
+    isNationalPensioner: false,
+    isLocalPensioner: false,
+    status: "resident",
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  }
+}
@@ -0,0 +1,72 @@
+import type { UserJSON } from "@clerk/backend"
+import { convexTest } from "convex-test"
+import { describe, expect, test } from "vitest"
+import { internal } from "./_generated/api"
+import schema from "./schema"
+import { modules } from "./test.setup"
+
+/**
+ * The parts of a Clerk user.updated payload that upsertFromClerk reads
+ */
+function clerkUser(publicMetadata: Record<string, unknown>): UserJSON {
+  return {
+    id: "user_1",
+    first_name: "Ana",
+    last_name: "Reyes",
+    email_addresses: [{ email_address: "ana@example.com" }],
+    public_metadata: publicMetadata,
+  } as unknown as UserJSON
+}
+
+describe("upsertFromClerk", () => {
+  test("keeps the Convex role and active status over stale Clerk metadata", async () => {
+    const t = convexTest(schema, modules)
+    await t.run(async (ctx) => {
+      const now = Date.now()
+      await ctx.db.insert("users", {
+        name: "Ana",
+        externalId: "user_1",
+        role: "staff",
+        isActive: false,
+        createdAt: now,
+        updatedAt: now,
+      })
+    })
+
+    await t.mutation(internal.users.upsertFromClerk, {
+      data: clerkUser({ role: "superadmin", isActive: true }),
+    })
+
+    const user = await t.run((ctx) => ctx.db.query("users").first())
+    expect(user).toMatchObject({ name: "Ana Reyes", email: "ana@example.com", role: "staff", isActive: false })
+  })
+
+  test("takes the role from Clerk for new users", async () => {
+    const t = convexTest(schema, modules)
+
+    await t.mutation(internal.users.upsertFromClerk, { data: clerkUser({ role: "superadmin" }) })
+
+    const user = await t.run((ctx) => ctx.db.query("users").first())
+    expect(user).toMatchObject({ externalId: "user_1", role: "superadmin", isActive: true })
+  })
+
+  test("approves a pending user from a role set in Clerk", async () => {
+    const t = convexTest(schema, modules)
+    await t.mutation(internal.users.upsertFromClerk, { data: clerkUser({}) })
+
+    await t.mutation(internal.users.upsertFromClerk, { data: clerkUser({ role: "admin" }) })
+
+    const user = await t.run((ctx) => ctx.db.query("users").first())
+    expect(user?.role).toBe("admin")
+  })
+})
+
+describe("syncClerkMetadata", () => {
+  test("fails without CLERK_SECRET_KEY so the scheduled run is recorded as failed", async () => {
+    const t = convexTest(schema, modules)
+
+    await expect(
+      t.action(internal.users.syncClerkMetadata, { clerkUserId: "user_1", role: "staff", isActive: true })
+    ).rejects.toThrow("CLERK_SECRET_KEY is not set")
+  })
+})
@@ -1,6 +1,14 @@
-import { internalMutation, query, QueryCtx } from "./_generated/server";
-import { UserJSON } from "@clerk/backend";
+import { internalAction, internalMutation, mutation, query, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { createClerkClient, UserJSON } from "@clerk/backend";
 import { v, Validator } from "convex/values";
+import { logAudit } from "./auditLogs";
+
+const roleValidator = v.union(
+  v.literal("superadmin"),
+  v.literal("admin"),
+  v.literal("staff")
+);
 
 // Get current user (exposed to client)
 export const current = query({
@@ -11,15 +19,19 @@ export const current = query({
 });
 
 // Get user role for current user
+// Deactivated users get null, same as pending approval, so route guards keep them out
 export const getUserRole = query({
   args: {},
   handler: async (ctx) => {
     const user = await getCurrentUser(ctx);
-    return user?.role || null;
+    if (!user?.isActive) return null;
+    return user.role || null;
   },
 });
 
 // Upsert user from Clerk webhook (internal mutation)
+// Convex owns role and isActive (set from user management); Clerk public_metadata is only
+// a copy of them, so it is read just for new users and users still pending approval
 export const upsertFromClerk = internalMutation({
   args: { data: v.any() as Validator<UserJSON> }, // no runtime validation, trust Clerk
   async handler(ctx, { data }) {
@@ -31,12 +43,10 @@ export const upsertFromClerk = internalMutation({
       ? (roleFromMetadata as "superadmin" | "admin" | "staff")
       : undefined; // undefined = pending approval (no default role)
 
-    const userAttributes = {
+    const profile = {
       name: `${data.first_name || ""} ${data.last_name || ""}`.trim() || "User",
       externalId: data.id, // Clerk user ID (stored in subject JWT field)
       email: data.email_addresses[0]?.email_address || "",
-      role, // Can be undefined if no role assigned
-      isActive: true,
       updatedAt: Date.now(),
     };
 
@@ -48,7 +58,9 @@ export const upsertFromClerk = internalMutation({
       // Don't include lastLoginAt - it's optional and will be undefined by default
       try {
         await ctx.db.insert("users", {
-          ...userAttributes,
+          ...profile,
+          role, // Can be undefined if no role assigned
+          isActive: data.public_metadata?.isActive !== false,
           createdAt: Date.now(),
         });
       } catch (error) {
@@ -56,15 +68,16 @@ export const upsertFromClerk = internalMutation({
         // Re-check and update if it now exists
         user = await userByExternalId(ctx, data.id);
         if (user) {
-          await ctx.db.patch(user._id, userAttributes);
+          await ctx.db.patch(user._id, profile);
         } else {
           // If still not found, re-throw the error
           throw error;
         }
       }
     } else {
-      // Existing user - update
-      await ctx.db.patch(user._id, userAttributes);
+      // Existing user - update the profile only
+      // A role set in the Clerk dashboard still approves a pending user (e.g. the first superadmin)
+      await ctx.db.patch(user._id, user.role ? profile : { ...profile, role });
     }
   },
 });
@@ -88,15 +101,27 @@ export const deleteFromClerk = internalMutation({
   },
 });
 
+// Record a sign-in from Clerk's session.created webhook (internal mutation)
+export const recordLogin = internalMutation({
+  args: { clerkUserId: v.string() },
+  async handler(ctx, { clerkUserId }) {
+    const user = await userByExternalId(ctx, clerkUserId);
+
+    if (user !== null) {
+      await ctx.db.patch(user._id, { lastLoginAt: Date.now() });
+    } else {
+      console.warn(
+        `Can't record login, there is no user for Clerk user ID: ${clerkUserId}`,
+      );
+    }
+  },
+});
+
 // Update user role (Superadmin only)
 export const updateRole = internalMutation({
   args: {
     clerkUserId: v.string(),
-    role: v.union(
-      v.literal("superadmin"),
-      v.literal("admin"),
-      v.literal("staff")
-    ),
+    role: roleValidator,
   },
   handler: async (ctx, args) => {
     const user = await userByExternalId(ctx, args.clerkUserId);
@@ -114,10 +139,115 @@ export const updateRole = internalMutation({
 export const list = query({
   args: {},
   handler: async (ctx) => {
+    await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage users");
+
     return await ctx.db.query("users").collect();
   },
 });
 
+// Assign a role (Superadmin only)
+// Approving a pending user is assigning their first role
+export const setRole = mutation({
+  args: {
+    userId: v.id("users"),
+    role: roleValidator,
+  },
+  handler: async (ctx, args) => {
+    const currentUser = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage users");
+
+    const user = await ctx.db.get(args.userId);
+    if (!user) throw new Error("User not found");
+
+    // Prevent superadmins from locking themselves out of user management
+    if (user._id === currentUser._id) {
+      throw new Error("You cannot change your own role");
+    }
+
+    await ctx.db.patch(args.userId, {
+      role: args.role,
+      updatedAt: Date.now(),
+    });
+
+    await logAudit(ctx, {
+      user: currentUser,
+      action: user.role ? "change_user_role" : "approve_user",
+      resourceType: "user",
+      resourceId: args.userId,
+      before: { role: user.role },
+      after: { role: args.role },
+    });
+
+    await ctx.scheduler.runAfter(0, internal.users.syncClerkMetadata, {
+      clerkUserId: user.externalId,
+      role: args.role,
+      isActive: user.isActive,
+    });
+  },
+});
+
+// Activate or deactivate an account (Superadmin only)
+export const setActive = mutation({
+  args: {
+    userId: v.id("users"),
+    isActive: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const currentUser = await requireRole(ctx, SUPERADMIN_ROLES, "Only superadmin can manage users");
+
+    const user = await ctx.db.get(args.userId);
+    if (!user) throw new Error("User not found");
+
+    if (user._id === currentUser._id) {
+      throw new Error("You cannot deactivate your own account");
+    }
+
+    await ctx.db.patch(args.userId, {
+      isActive: args.isActive,
+      updatedAt: Date.now(),
+    });
+
+    await logAudit(ctx, {
+      user: currentUser,
+      action: args.isActive ? "activate_user" : "deactivate_user",
+      resourceType: "user",
+      resourceId: args.userId,
+      before: { isActive: user.isActive },
+      after: { isActive: args.isActive },
+    });
+
+    await ctx.scheduler.runAfter(0, internal.users.syncClerkMetadata, {
+      clerkUserId: user.externalId,
+      role: user.role,
+      isActive: args.isActive,
+    });
+  },
+});
+
+// Push role and active status back to Clerk public_metadata (internal action)
+// Clerk then fires user.updated, which upsertFromClerk applies as a no-op
+// Throws when Clerk can't be reached so the scheduled run is recorded as failed
+export const syncClerkMetadata = internalAction({
+  args: {
+    clerkUserId: v.string(),
+    role: v.optional(roleValidator),
+    isActive: v.boolean(),
+  },
+  handler: async (_ctx, args): Promise<void> => {
+    const secretKey = process.env.CLERK_SECRET_KEY;
+    if (!secretKey) {
+      throw new Error("CLERK_SECRET_KEY is not set, so role and active status were not synced to Clerk");
+    }
+
+    const clerk = createClerkClient({ secretKey });
+    await clerk.users.updateUserMetadata(args.clerkUserId, {
+      publicMetadata: {
+        role: args.role ?? null, // null removes the key (pending approval)
+        isActive: args.isActive,
+      },
+    });
+  },
+});
+
 // Helper: Get current user or throw error
 export async function getCurrentUserOrThrow(ctx: QueryCtx) {
   const userRecord = await getCurrentUser(ctx);
@@ -125,6 +255,36 @@ export async function getCurrentUserOrThrow(ctx: QueryCtx) {
   return userRecord;
 }
 
+export type UserRole = "superadmin" | "admin" | "staff";
+
+// Role groups for requireRole
+export const STAFF_ROLES: ReadonlyArray<UserRole> = ["staff", "admin", "superadmin"];
+export const ADMIN_ROLES: ReadonlyArray<UserRole> = ["admin", "superadmin"];
+export const SUPERADMIN_ROLES: ReadonlyArray<UserRole> = ["superadmin"];
+
+// Helper: Get current user, rejecting anonymous callers and deactivated accounts
+// Use this (not getCurrentUser) in every function that requires a signed-in user
+export async function requireUser(ctx: QueryCtx) {
+  const user = await getCurrentUser(ctx);
+  if (!user) throw new Error("Unauthorized");
+  if (!user.isActive) throw new Error("Unauthorized: Account is deactivated");
+  return user;
+}
+
+// Helper: Require an active user with one of the given roles
+// e.g. requireRole(ctx, STAFF_ROLES, "Only staff can process queue")
+export async function requireRole(
+  ctx: QueryCtx,
+  roles: ReadonlyArray<UserRole>,
+  message: string,
+) {
+  const user = await requireUser(ctx);
+  if (!user.role || !roles.includes(user.role)) {
+    throw new Error(`Unauthorized: ${message}`);
+  }
+  return user;
+}
+
 // Helper: Get current user (returns null if not authenticated)
 // ✅ SAFETY: Multiple defensive checks to prevent ctx.auth errors
 export async function getCurrentUser(ctx: QueryCtx) {
@@ -172,7 +332,7 @@ export async function getCurrentUser(ctx: QueryCtx) {
 }
 
 // Helper: Get user by Clerk ID (externalId)
-async function userByExternalId(ctx: QueryCtx, externalId: string) {
+export async function userByExternalId(ctx: QueryCtx, externalId: string) {
   return await ctx.db
     .query("users")
     .withIndex("byExternalId", (q) => q.eq("externalId", externalId))
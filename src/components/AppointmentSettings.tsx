@@ -0,0 +1,183 @@
+import { useEffect, useId, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { CalendarClock, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const SLOT_MINUTES = ['15', '20', '30', '60']
+
+/**
+ * Appointments card for superadmin settings
+ * Sets bookable hours, slot length and how many bookings each slot takes per weekday
+ */
+export function AppointmentSettingsCard() {
+  const settings = useQuery(api.appointments.getSettings, {})
+  const updateSettings = useMutation(api.appointments.updateSettings)
+
+  const [openHour, setOpenHour] = useState('')
+  const [closeHour, setCloseHour] = useState('')
+  const [slotMinutes, setSlotMinutes] = useState('')
+  const [capacityByWeekday, setCapacityByWeekday] = useState<Array<string>>([])
+  const [bookingDaysAhead, setBookingDaysAhead] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const openHourId = useId()
+  const closeHourId = useId()
+  const slotMinutesId = useId()
+  const daysAheadId = useId()
+  const capacityId = useId()
+
+  useEffect(() => {
+    if (!settings) return
+    setOpenHour(String(settings.openHour))
+    setCloseHour(String(settings.closeHour))
+    setSlotMinutes(String(settings.slotMinutes))
+    setCapacityByWeekday(settings.capacityByWeekday.map(String))
+    setBookingDaysAhead(String(settings.bookingDaysAhead))
+  }, [settings])
+
+  const isChanged =
+    settings !== undefined &&
+    (Number(openHour) !== settings.openHour ||
+      Number(closeHour) !== settings.closeHour ||
+      Number(slotMinutes) !== settings.slotMinutes ||
+      Number(bookingDaysAhead) !== settings.bookingDaysAhead ||
+      capacityByWeekday.some((capacity, i) => Number(capacity) !== settings.capacityByWeekday[i]))
+
+  const setCapacity = (weekday: number, value: string) => {
+    setCapacityByWeekday((prev) => prev.map((capacity, i) => (i === weekday ? value : capacity)))
+  }
+
+  const handleSave = async () => {
+    if (isSaving) return
+    setIsSaving(true)
+    try {
+      await updateSettings({
+        openHour: Number(openHour),
+        closeHour: Number(closeHour),
+        slotMinutes: Number(slotMinutes),
+        capacityByWeekday: capacityByWeekday.map(Number),
+        bookingDaysAhead: Number(bookingDaysAhead),
+      })
+      toast.success('Appointment settings saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save appointment settings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          Appointments
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          Residents book pickup times at /book and check in at the kiosk with their code. Checked-in
+          bookings join the priority lane. Set a day's capacity to 0 to close it.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {settings === undefined ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={openHourId}>Opens (hour)</Label>
+                <Input
+                  id={openHourId}
+                  type="number"
+                  min={0}
+                  max={23}
+                  value={openHour}
+                  onChange={(e) => setOpenHour(e.target.value)}
+                  className="w-32"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={closeHourId}>Closes (hour)</Label>
+                <Input
+                  id={closeHourId}
+                  type="number"
+                  min={1}
+                  max={24}
+                  value={closeHour}
+                  onChange={(e) => setCloseHour(e.target.value)}
+                  className="w-32"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={slotMinutesId}>Slot length</Label>
+                <Select value={slotMinutes} onValueChange={setSlotMinutes}>
+                  <SelectTrigger id={slotMinutesId} className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SLOT_MINUTES.map((minutes) => (
+                      <SelectItem key={minutes} value={minutes}>
+                        {minutes} min
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={daysAheadId}>Days ahead</Label>
+                <Input
+                  id={daysAheadId}
+                  type="number"
+                  min={1}
+                  max={90}
+                  value={bookingDaysAhead}
+                  onChange={(e) => setBookingDaysAhead(e.target.value)}
+                  className="w-32"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Bookings per slot</Label>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAYS.map((weekday, i) => (
+                  <div key={weekday} className="space-y-1">
+                    <Label htmlFor={`${capacityId}-${i}`} className="text-xs font-normal text-muted-foreground">
+                      {weekday}
+                    </Label>
+                    <Input
+                      id={`${capacityId}-${i}`}
+                      type="number"
+                      min={0}
+                      max={50}
+                      value={capacityByWeekday[i] ?? ''}
+                      onChange={(e) => setCapacity(i, e.target.value)}
+                      className="w-20"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+            <Button onClick={handleSave} disabled={!isChanged || isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,76 @@
+import { useQuery } from 'convex/react'
+import { addDays, format, startOfDay } from 'date-fns'
+import { api } from '../../convex/_generated/api'
+import { Button } from './ui/button'
+import { Loader2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+
+/**
+ * Day and time slot picker for appointments
+ * Days are yyyyMMdd keys; full slots are shown but can't be picked
+ */
+export function AppointmentSlotPicker({
+  date,
+  onDateChange,
+  slotStart,
+  onSlotChange,
+}: {
+  date: string
+  onDateChange: (date: string) => void
+  slotStart: number | null
+  onSlotChange: (slotStart: number) => void
+}) {
+  const availability = useQuery(api.appointments.getAvailableSlots, { date })
+
+  const today = startOfDay(new Date())
+  const days = Array.from({ length: (availability?.bookingDaysAhead ?? 14) + 1 }, (_, i) => addDays(today, i))
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {days.map((day) => {
+          const key = format(day, 'yyyyMMdd')
+          return (
+            <Button
+              key={key}
+              type="button"
+              variant={key === date ? 'default' : 'outline'}
+              className="flex-col h-auto py-2 px-3 shrink-0"
+              onClick={() => onDateChange(key)}
+            >
+              <span className="text-xs">{format(day, 'EEE')}</span>
+              <span className="text-lg font-semibold">{format(day, 'd')}</span>
+              <span className="text-xs">{format(day, 'MMM')}</span>
+            </Button>
+          )
+        })}
+      </div>
+
+      {availability === undefined ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+        </div>
+      ) : availability.slots.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">No bookings on this day.</p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+          {availability.slots.map((slot) => (
+            <Button
+              key={slot.slotStart}
+              type="button"
+              variant={slot.slotStart === slotStart ? 'default' : 'outline'}
+              disabled={slot.remaining === 0}
+              className={cn('flex-col h-auto py-2', slot.remaining === 0 && 'line-through')}
+              onClick={() => onSlotChange(slot.slotStart)}
+            >
+              <span>{format(new Date(slot.slotStart), 'h:mm a')}</span>
+              <span className="text-xs font-normal">
+                {slot.remaining === 0 ? 'Full' : `${slot.remaining} left`}
+              </span>
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
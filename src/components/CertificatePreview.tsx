@@ -0,0 +1,182 @@
+import { useMemo, useRef } from 'react'
+import { cn } from '../lib/utils'
+import {
+  PAGE_SIZES,
+  fillLayout,
+  getQrModules,
+  getQrPlacement,
+  wrapText,
+  type CertificateLayout,
+  type CertificateValues,
+} from '../../convex/lib/certificates'
+
+const LINE_HEIGHT = 1.4 // Keep in sync with convex/certificates.ts
+
+// Canvas is only used to measure text so wrapping matches the PDF renderer
+let measureContext: CanvasRenderingContext2D | null = null
+
+function measureText(text: string, fontSize: number, bold?: boolean) {
+  if (typeof document === 'undefined') return text.length * fontSize * 0.5
+  if (!measureContext) {
+    measureContext = document.createElement('canvas').getContext('2d')
+  }
+  if (!measureContext) return text.length * fontSize * 0.5
+  measureContext.font = `${bold ? 'bold ' : ''}${fontSize}px Helvetica, Arial, sans-serif`
+  return measureContext.measureText(text).width
+}
+
+const TEXT_ANCHOR = { left: 'start', center: 'middle', right: 'end' } as const
+
+/**
+ * Scaled, in-browser rendering of a certificate layout
+ * Draws the same elements as the server-side PDF renderer
+ */
+export function CertificatePreview({
+  layout,
+  values,
+  backgroundUrl,
+  selectedElementId,
+  onSelectElement,
+  onMoveElement,
+  className,
+}: {
+  layout: CertificateLayout
+  values: CertificateValues
+  backgroundUrl?: string | null
+  selectedElementId?: string | null
+  onSelectElement?: (id: string) => void
+  onMoveElement?: (id: string, x: number, y: number) => void
+  className?: string
+}) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<{ id: string; offsetX: number; offsetY: number } | null>(null)
+  const { width, height } = PAGE_SIZES[layout.pageSize]
+
+  const elements = useMemo(
+    () =>
+      fillLayout(layout, values).map((element) => ({
+        ...element,
+        lines: element.maxWidth
+          ? wrapText(element.text, element.maxWidth, (line) =>
+              measureText(line, element.fontSize, element.bold)
+            )
+          : [element.text],
+      })),
+    [layout, values]
+  )
+
+  const qr = useMemo(() => {
+    if (!values.verification.code) return null
+    const placement = getQrPlacement(layout.pageSize)
+    const modules = getQrModules(values.verification.url)
+    const cell = placement.size / modules.length
+    // One path for all dark modules keeps the SVG light
+    const path = modules
+      .flatMap((row, rowIndex) =>
+        row.map((isDark, colIndex) =>
+          isDark ? `M${placement.x + colIndex * cell} ${placement.y + rowIndex * cell}h${cell}v${cell}h${-cell}z` : ''
+        )
+      )
+      .join('')
+    return { placement, path }
+  }, [layout.pageSize, values.verification])
+
+  // Convert a pointer position to page points
+  const toPagePoint = (event: React.PointerEvent) => {
+    const svg = svgRef.current
+    if (!svg) return { x: 0, y: 0 }
+    const rect = svg.getBoundingClientRect()
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * width,
+      y: ((event.clientY - rect.top) / rect.height) * height,
+    }
+  }
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      className={cn('w-full h-auto bg-white border shadow-sm', className)}
+      role="img"
+      aria-label={values.documentType.name || 'Certificate preview'}
+      onPointerMove={(event) => {
+        if (!dragRef.current || !onMoveElement) return
+        const point = toPagePoint(event)
+        onMoveElement(
+          dragRef.current.id,
+          Math.round(point.x - dragRef.current.offsetX),
+          Math.round(point.y - dragRef.current.offsetY)
+        )
+      }}
+      onPointerUp={() => {
+        dragRef.current = null
+      }}
+      onPointerLeave={() => {
+        dragRef.current = null
+      }}
+    >
+      {backgroundUrl && (
+        <image href={backgroundUrl} x={0} y={0} width={width} height={height} preserveAspectRatio="none" />
+      )}
+      {elements.map((element) => {
+        const isSelected = element.id === selectedElementId
+        const isInteractive = Boolean(onSelectElement || onMoveElement)
+        return (
+          <text
+            key={element.id}
+            x={element.x}
+            y={element.y + element.fontSize}
+            fontSize={element.fontSize}
+            fontWeight={element.bold ? 'bold' : 'normal'}
+            fontFamily="Helvetica, Arial, sans-serif"
+            textAnchor={TEXT_ANCHOR[element.align ?? 'left']}
+            fill={isSelected ? '#2563eb' : '#000'}
+            className={isInteractive ? 'cursor-move select-none' : undefined}
+            onPointerDown={(event) => {
+              if (!isInteractive) return
+              event.preventDefault()
+              onSelectElement?.(element.id)
+              const point = toPagePoint(event)
+              dragRef.current = {
+                id: element.id,
+                offsetX: point.x - element.x,
+                offsetY: point.y - element.y,
+              }
+            }}
+          >
+            {element.lines.map((line, index) => (
+              <tspan
+                key={`${element.id}-${index}`}
+                x={element.x}
+                dy={index === 0 ? 0 : element.fontSize * LINE_HEIGHT}
+              >
+                {line}
+              </tspan>
+            ))}
+          </text>
+        )
+      })}
+      {qr && (
+        <g>
+          <rect
+            x={qr.placement.x - 4}
+            y={qr.placement.y - 4}
+            width={qr.placement.size + 8}
+            height={qr.placement.size + 8}
+            fill="#fff"
+          />
+          <path d={qr.path} fill="#000" />
+          <text
+            x={qr.placement.x + qr.placement.size / 2}
+            y={qr.placement.y + qr.placement.size + qr.placement.labelFontSize + 3}
+            fontSize={qr.placement.labelFontSize}
+            fontFamily="Helvetica, Arial, sans-serif"
+            textAnchor="middle"
+          >
+            {values.verification.code}
+          </text>
+        </g>
+      )}
+    </svg>
+  )
+}
@@ -0,0 +1,773 @@
+import { useEffect, useId, useMemo, useRef, useState } from 'react'
+import { useQuery, useMutation } from 'convex/react'
+import { format } from 'date-fns'
+import { api } from '../../convex/_generated/api'
+import type { Doc, Id } from '../../convex/_generated/dataModel'
+import {
+  BUILT_IN_LAYOUTS,
+  PLACEHOLDERS,
+  SAMPLE_RESIDENT,
+  SAMPLE_VERIFICATION_CODE,
+  buildCertificateValues,
+  type LayoutElement,
+  type PageSize,
+} from '../../convex/lib/certificates'
+import { CertificatePreview } from './CertificatePreview'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Edit, FileImage, LayoutTemplate, Loader2, Plus, RotateCcw, Save, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+// Human-readable names for the built-in layouts (keyed by templateKey)
+export const BUILT_IN_LAYOUT_LABELS: Record<string, string> = {
+  'clearance.pdf': 'Barangay Clearance',
+  'residency.pdf': 'Certificate of Residency',
+  'indigency.pdf': 'Certificate of Indigency',
+}
+
+/**
+ * Certificate templates card for superadmin settings
+ * Lists stored templates and opens the designer
+ */
+export function CertificateTemplatesCard() {
+  const templates = useQuery(api.certificateTemplates.list, { includeInactive: true })
+  const toggleActive = useMutation(api.certificateTemplates.toggleActive)
+
+  const [createDialogOpen, setCreateDialogOpen] = useState(false)
+  const [designerTemplateId, setDesignerTemplateId] = useState<Id<'certificateTemplates'> | null>(null)
+
+  const handleToggleActive = async (template: Doc<'certificateTemplates'>) => {
+    try {
+      await toggleActive({ id: template._id, isActive: !template.isActive })
+      toast.success(`Template ${!template.isActive ? 'activated' : 'deactivated'}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update template')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <LayoutTemplate className="h-5 w-5" />
+              Certificate Templates
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Design certificate layouts with letterheads and placeholders
+            </p>
+          </div>
+          <Button onClick={() => setCreateDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Template
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {templates === undefined ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+          </div>
+        ) : templates.length === 0 ? (
+          <div className="text-center py-12">
+            <LayoutTemplate className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-600 mb-4">No certificate templates yet</p>
+            <Button onClick={() => setCreateDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create First Template
+            </Button>
+          </div>
+        ) : (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Last Updated</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map((template) => (
+                  <TableRow key={template._id}>
+                    <TableCell className="font-medium">{template.name}</TableCell>
+                    <TableCell>v{template.currentVersion}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {format(new Date(template.updatedAt), 'MMM dd, yyyy h:mm a')}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={template.isActive}
+                          onCheckedChange={() => handleToggleActive(template)}
+                        />
+                        <Badge variant={template.isActive ? 'default' : 'secondary'}>
+                          {template.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDesignerTemplateId(template._id)}
+                      >
+                        <Edit className="h-4 w-4 mr-2" />
+                        Design
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <CreateTemplateDialog
+        open={createDialogOpen}
+        onOpenChange={setCreateDialogOpen}
+        onCreated={(templateId) => setDesignerTemplateId(templateId)}
+      />
+
+      {designerTemplateId && (
+        <TemplateDesignerDialog
+          templateId={designerTemplateId}
+          onClose={() => setDesignerTemplateId(null)}
+        />
+      )}
+    </Card>
+  )
+}
+
+// Create Template Dialog Component
+function CreateTemplateDialog({
+  open,
+  onOpenChange,
+  onCreated,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onCreated: (templateId: Id<'certificateTemplates'>) => void
+}) {
+  const createTemplate = useMutation(api.certificateTemplates.create)
+  const [name, setName] = useState('')
+  const [baseTemplateKey, setBaseTemplateKey] = useState('clearance.pdf')
+  const [isCreating, setIsCreating] = useState(false)
+  const nameId = useId()
+
+  const handleCreate = async () => {
+    if (!name.trim() || isCreating) return
+    setIsCreating(true)
+    try {
+      const templateId = await createTemplate({
+        name: name.trim(),
+        baseTemplateKey: baseTemplateKey === 'blank' ? undefined : baseTemplateKey,
+      })
+      toast.success('Template created')
+      setName('')
+      onOpenChange(false)
+      onCreated(templateId)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create template')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Certificate Template</DialogTitle>
+          <DialogDescription>
+            Start from a built-in layout, then adjust it in the designer.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor={nameId}>
+              Template Name <span className="text-red-500">*</span>
+            </Label>
+            <Input
+              id={nameId}
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g., Barangay Clearance 2026"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Start From</Label>
+            <Select value={baseTemplateKey} onValueChange={setBaseTemplateKey}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.keys(BUILT_IN_LAYOUTS).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {BUILT_IN_LAYOUT_LABELS[key] ?? key}
+                  </SelectItem>
+                ))}
+                <SelectItem value="blank">Generic certificate</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCreating}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={!name.trim() || isCreating}>
+            {isCreating ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Plus className="h-4 w-4 mr-2" />
+            )}
+            Create Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+type TemplateDraft = {
+  name: string
+  pageSize: PageSize
+  backgroundStorageId?: Id<'_storage'>
+  backgroundUrl: string | null
+  elements: Array<LayoutElement>
+}
+
+// Template Designer Dialog Component
+function TemplateDesignerDialog({
+  templateId,
+  onClose,
+}: {
+  templateId: Id<'certificateTemplates'>
+  onClose: () => void
+}) {
+  const data = useQuery(api.certificateTemplates.get, { id: templateId })
+  const versions = useQuery(api.certificateTemplates.listVersions, { templateId })
+  const officials = useQuery(api.barangayOfficials.getActive)
+  const saveVersion = useMutation(api.certificateTemplates.saveVersion)
+  const restoreVersion = useMutation(api.certificateTemplates.restoreVersion)
+  const generateUploadUrl = useMutation(api.certificateTemplates.generateUploadUrl)
+
+  const [draft, setDraft] = useState<TemplateDraft | null>(null)
+  const [selectedElementId, setSelectedElementId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const nameId = useId()
+  const textId = useId()
+
+  // Load the current version into the draft (and again after save/restore)
+  useEffect(() => {
+    if (!data) return
+    setDraft({
+      name: data.template.name,
+      pageSize: data.version.pageSize,
+      backgroundStorageId: data.version.backgroundStorageId,
+      backgroundUrl: data.backgroundUrl,
+      elements: data.version.elements,
+    })
+  }, [data])
+
+  // Sample values for the live preview, using real signatories when available
+  const sampleValues = useMemo(
+    () =>
+      buildCertificateValues({
+        resident: SAMPLE_RESIDENT,
+        documentTypeName: draft?.name ?? '',
+        requestNumber: 'REQ-20260101-001',
+        purpose: 'employment requirements',
+        issuedAt: Date.now(),
+        officials: officials ?? [],
+        verificationCode: SAMPLE_VERIFICATION_CODE,
+      }),
+    [draft?.name, officials]
+  )
+
+  const selectedElement = draft?.elements.find((element) => element.id === selectedElementId)
+
+  const updateElement = (id: string, changes: Partial<LayoutElement>) => {
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            elements: prev.elements.map((element) =>
+              element.id === id ? { ...element, ...changes } : element
+            ),
+          }
+        : prev
+    )
+  }
+
+  const addElement = () => {
+    const id = `text-${Date.now()}`
+    setDraft((prev) =>
+      prev
+        ? {
+            ...prev,
+            elements: [...prev.elements, { id, text: 'New text', x: 70, y: 500, fontSize: 12 }],
+          }
+        : prev
+    )
+    setSelectedElementId(id)
+  }
+
+  const removeElement = (id: string) => {
+    setDraft((prev) =>
+      prev ? { ...prev, elements: prev.elements.filter((element) => element.id !== id) } : prev
+    )
+    setSelectedElementId(null)
+  }
+
+  const handleBackgroundUpload = async (file: File) => {
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      toast.error('Background must be a PNG or JPEG image')
+      return
+    }
+    setIsUploading(true)
+    try {
+      const uploadUrl = await generateUploadUrl()
+      const response = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type },
+        body: file,
+      })
+      if (!response.ok) throw new Error('Upload failed')
+      const { storageId } = await response.json()
+      setDraft((prev) =>
+        prev
+          ? { ...prev, backgroundStorageId: storageId, backgroundUrl: URL.createObjectURL(file) }
+          : prev
+      )
+      toast.success('Background uploaded. Save to create a new version.')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to upload background')
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!draft || isSaving) return
+    setIsSaving(true)
+    try {
+      const { version } = await saveVersion({
+        templateId,
+        name: draft.name,
+        pageSize: draft.pageSize,
+        backgroundStorageId: draft.backgroundStorageId,
+        elements: draft.elements,
+      })
+      toast.success(`Saved as version ${version}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save template')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRestore = async (version: number) => {
+    try {
+      const result = await restoreVersion({ templateId, version })
+      toast.success(`Version ${version} restored as version ${result.version}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore version')
+    }
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Template Designer</DialogTitle>
+          <DialogDescription>
+            Drag text on the preview to position it. Saving creates a new version; printed
+            certificates keep the version they were issued with.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!draft ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="w-8 h-8 text-muted-foreground animate-spin" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+            {/* Live Preview */}
+            <div className="lg:col-span-3">
+              <p className="text-xs text-muted-foreground mb-2">
+                Live preview with sample resident {SAMPLE_RESIDENT.firstName} {SAMPLE_RESIDENT.lastName}
+              </p>
+              <CertificatePreview
+                layout={{ pageSize: draft.pageSize, elements: draft.elements }}
+                values={sampleValues}
+                backgroundUrl={draft.backgroundUrl}
+                selectedElementId={selectedElementId}
+                onSelectElement={setSelectedElementId}
+                onMoveElement={(id, x, y) => updateElement(id, { x, y })}
+              />
+            </div>
+
+            {/* Settings & Element Editor */}
+            <div className="lg:col-span-2 space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor={nameId}>Template Name</Label>
+                <Input
+                  id={nameId}
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Page Size</Label>
+                  <Select
+                    value={draft.pageSize}
+                    onValueChange={(value) => setDraft({ ...draft, pageSize: value as PageSize })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="letter">Letter</SelectItem>
+                      <SelectItem value="a4">A4</SelectItem>
+                      <SelectItem value="legal">Legal</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Background</Label>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      if (file) handleBackgroundUpload(file)
+                      e.target.value = ''
+                    }}
+                  />
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="flex-1"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={isUploading}
+                    >
+                      {isUploading ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <FileImage className="h-4 w-4 mr-2" />
+                      )}
+                      Upload
+                    </Button>
+                    {draft.backgroundStorageId && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setDraft({ ...draft, backgroundStorageId: undefined, backgroundUrl: null })
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {/* Elements */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Text Elements</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={addElement}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Text
+                  </Button>
+                </div>
+                <div className="border rounded-lg max-h-40 overflow-y-auto divide-y">
+                  {draft.elements.map((element) => (
+                    <button
+                      key={element.id}
+                      type="button"
+                      onClick={() => setSelectedElementId(element.id)}
+                      className={`w-full text-left px-3 py-2 text-sm truncate ${
+                        element.id === selectedElementId ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      {element.text || '(empty)'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {selectedElement && (
+                <div className="space-y-3 p-4 border rounded-lg">
+                  <div className="space-y-2">
+                    <Label htmlFor={textId}>Text</Label>
+                    <Textarea
+                      id={textId}
+                      rows={3}
+                      value={selectedElement.text}
+                      onChange={(e) => updateElement(selectedElement.id, { text: e.target.value })}
+                    />
+                    <Select
+                      value=""
+                      onValueChange={(key) =>
+                        updateElement(selectedElement.id, {
+                          text: `${selectedElement.text}{{${key}}}`,
+                        })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Insert placeholder..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PLACEHOLDERS.map((placeholder) => (
+                          <SelectItem key={placeholder.key} value={placeholder.key}>
+                            {placeholder.label} ({`{{${placeholder.key}}}`})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-4 gap-2">
+                    <NumberField
+                      label="X"
+                      value={selectedElement.x}
+                      onChange={(x) => updateElement(selectedElement.id, { x })}
+                    />
+                    <NumberField
+                      label="Y"
+                      value={selectedElement.y}
+                      onChange={(y) => updateElement(selectedElement.id, { y })}
+                    />
+                    <NumberField
+                      label="Size"
+                      value={selectedElement.fontSize}
+                      onChange={(fontSize) => updateElement(selectedElement.id, { fontSize })}
+                    />
+                    <NumberField
+                      label="Wrap"
+                      value={selectedElement.maxWidth ?? 0}
+                      onChange={(maxWidth) =>
+                        updateElement(selectedElement.id, { maxWidth: maxWidth || undefined })
+                      }
+                    />
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <Select
+                      value={selectedElement.align ?? 'left'}
+                      onValueChange={(align) =>
+                        updateElement(selectedElement.id, {
+                          align: align as LayoutElement['align'],
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="left">Left</SelectItem>
+                        <SelectItem value="center">Center</SelectItem>
+                        <SelectItem value="right">Right</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={selectedElement.bold ?? false}
+                        onCheckedChange={(bold) => updateElement(selectedElement.id, { bold })}
+                      />
+                      <span className="text-sm">Bold</span>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="ml-auto text-red-600 hover:text-red-700"
+                      onClick={() => removeElement(selectedElement.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {/* Version History */}
+              <div className="space-y-2">
+                <Label>Version History</Label>
+                <div className="border rounded-lg max-h-40 overflow-y-auto divide-y">
+                  {versions?.map((version) => (
+                    <div key={version._id} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span>
+                        v{version.version}
+                        <span className="text-muted-foreground ml-2">
+                          {format(new Date(version.createdAt), 'MMM dd, yyyy h:mm a')}
+                        </span>
+                      </span>
+                      {version.version === data?.template.currentVersion ? (
+                        <Badge variant="secondary">Current</Badge>
+                      ) : (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRestore(version.version)}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Close
+          </Button>
+          <Button onClick={handleSave} disabled={!draft || isSaving || isUploading}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save New Version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function NumberField({
+  label,
+  value,
+  onChange,
+}: {
+  label: string
+  value: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value) || 0)}
+      />
+    </div>
+  )
+}
+
+/**
+ * Select between stored templates and built-in layouts for a document type
+ * Values are encoded as "template:<id>" or "builtin:<templateKey>"
+ */
+export function CertificateTemplateSelect({
+  id,
+  value,
+  onChange,
+  onBlur,
+}: {
+  id?: string
+  value: string
+  onChange: (value: string) => void
+  onBlur?: () => void
+}) {
+  const templates = useQuery(api.certificateTemplates.list, {})
+
+  // Keep a legacy templateKey selectable so editing doesn't silently change it
+  const legacyKey = value.startsWith('builtin:') ? value.slice('builtin:'.length) : null
+  const showLegacyKey = legacyKey !== null && !(legacyKey in BUILT_IN_LAYOUTS)
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} onBlur={onBlur}>
+        <SelectValue placeholder="Select a template" />
+      </SelectTrigger>
+      <SelectContent>
+        {templates?.map((template) => (
+          <SelectItem key={template._id} value={`template:${template._id}`}>
+            {template.name} (v{template.currentVersion})
+          </SelectItem>
+        ))}
+        {Object.keys(BUILT_IN_LAYOUTS).map((key) => (
+          <SelectItem key={key} value={`builtin:${key}`}>
+            Built-in: {BUILT_IN_LAYOUT_LABELS[key] ?? key}
+          </SelectItem>
+        ))}
+        {showLegacyKey && (
+          <SelectItem value={value}>Built-in: Generic ({legacyKey || 'no key'})</SelectItem>
+        )}
+      </SelectContent>
+    </Select>
+  )
+}
+
+/**
+ * Encode a document type's template reference for CertificateTemplateSelect
+ */
+export function encodeTemplateChoice(documentType: { templateId?: string; templateKey: string }) {
+  return documentType.templateId
+    ? `template:${documentType.templateId}`
+    : `builtin:${documentType.templateKey}`
+}
+
+/**
+ * Decode a CertificateTemplateSelect value into documentTypes fields
+ */
+export function decodeTemplateChoice(value: string): {
+  templateId: Id<'certificateTemplates'> | null
+  templateKey?: string
+} {
+  if (value.startsWith('template:')) {
+    return { templateId: value.slice('template:'.length) as Id<'certificateTemplates'> }
+  }
+  return { templateId: null, templateKey: value.slice('builtin:'.length) }
+}
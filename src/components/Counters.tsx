@@ -0,0 +1,323 @@
+import { useEffect, useId, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import type { FunctionReturnType } from 'convex/server'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Edit, Loader2, MonitorSmartphone, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+type Counter = FunctionReturnType<typeof api.counters.list>[number]
+
+/**
+ * Service counters card for superadmin settings
+ * Staff pick one of these counters at the start of their shift
+ */
+export function CountersCard() {
+  const counters = useQuery(api.counters.list, {})
+  const documentTypes = useQuery(api.documentTypes.list, {})
+  const removeCounter = useMutation(api.counters.remove)
+
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingCounter, setEditingCounter] = useState<Counter | null>(null)
+  const [counterToDelete, setCounterToDelete] = useState<Counter | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const typeNames = new Map(documentTypes?.map((type) => [type._id, type.name]) ?? [])
+
+  const handleCreate = () => {
+    setEditingCounter(null)
+    setDialogOpen(true)
+  }
+
+  const handleEdit = (counter: Counter) => {
+    setEditingCounter(counter)
+    setDialogOpen(true)
+  }
+
+  const handleDelete = async () => {
+    if (!counterToDelete || isDeleting) return
+    setIsDeleting(true)
+    try {
+      await removeCounter({ id: counterToDelete._id })
+      toast.success('Counter deleted')
+      setCounterToDelete(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete counter')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  const nextNumber = counters && counters.length > 0
+    ? Math.max(...counters.map((c) => c.number)) + 1
+    : 1
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MonitorSmartphone className="h-5 w-5" />
+              Service Counters
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Staff choose a counter at the start of their shift and only receive requests it can serve.
+            </p>
+          </div>
+          <Button onClick={handleCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Counter
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {counters === undefined ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+          </div>
+        ) : counters.length === 0 ? (
+          <div className="text-center py-12">
+            <MonitorSmartphone className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-600 mb-4">No counters yet. Staff can't process the queue until one exists.</p>
+            <Button onClick={handleCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add First Counter
+            </Button>
+          </div>
+        ) : (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Counter</TableHead>
+                  <TableHead>Serves</TableHead>
+                  <TableHead>Staff</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {counters.map((counter) => (
+                  <TableRow key={counter._id}>
+                    <TableCell>
+                      <div className="font-medium">Counter {counter.number}</div>
+                      <div className="text-sm text-muted-foreground">{counter.name}</div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-xs">
+                      {counter.documentTypeIds.length === 0
+                        ? 'All documents'
+                        : counter.documentTypeIds
+                            .map((id) => typeNames.get(id) ?? 'Unknown')
+                            .join(', ')}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {counter.activeStaffName ?? <span className="text-muted-foreground">-</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={counter.isOpen ? 'default' : 'secondary'}>
+                        {counter.isOpen ? 'Open' : 'Closed'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(counter)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setCounterToDelete(counter)}>
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <CounterDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        counter={editingCounter}
+        defaultNumber={nextNumber}
+        documentTypes={documentTypes ?? []}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog
+        open={counterToDelete !== null}
+        onOpenChange={(open) => !open && !isDeleting && setCounterToDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Counter {counterToDelete?.number}</DialogTitle>
+            <DialogDescription>
+              Staff will no longer be able to select this counter.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCounterToDelete(null)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4 mr-2" />
+              )}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
+
+// Create / Edit Counter Dialog Component
+function CounterDialog({
+  open,
+  onOpenChange,
+  counter,
+  defaultNumber,
+  documentTypes,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  counter: Counter | null
+  defaultNumber: number
+  documentTypes: Array<{ _id: Id<'documentTypes'>; name: string }>
+}) {
+  const createCounter = useMutation(api.counters.create)
+  const updateCounter = useMutation(api.counters.update)
+  const [number, setNumber] = useState('')
+  const [name, setName] = useState('')
+  const [documentTypeIds, setDocumentTypeIds] = useState<Array<Id<'documentTypes'>>>([])
+  const [isSaving, setIsSaving] = useState(false)
+  const numberId = useId()
+  const nameId = useId()
+  const typesId = useId()
+
+  useEffect(() => {
+    if (!open) return
+    setNumber(String(counter?.number ?? defaultNumber))
+    setName(counter?.name ?? '')
+    setDocumentTypeIds(counter?.documentTypeIds ?? [])
+  }, [open, counter, defaultNumber])
+
+  const toggleType = (id: Id<'documentTypes'>, checked: boolean) => {
+    setDocumentTypeIds((prev) => (checked ? [...prev, id] : prev.filter((t) => t !== id)))
+  }
+
+  const handleSave = async () => {
+    const parsedNumber = Number(number)
+    if (!Number.isInteger(parsedNumber) || parsedNumber < 1 || isSaving) return
+    setIsSaving(true)
+    try {
+      if (counter) {
+        await updateCounter({ id: counter._id, number: parsedNumber, name: name.trim(), documentTypeIds })
+        toast.success('Counter updated')
+      } else {
+        await createCounter({ number: parsedNumber, name: name.trim(), documentTypeIds })
+        toast.success('Counter added')
+      }
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save counter')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{counter ? `Edit Counter ${counter.number}` : 'Add Counter'}</DialogTitle>
+          <DialogDescription>
+            Leave all documents unchecked for a general counter that serves everything. Requests for
+            documents from different counters go to a counter that serves all of them, or to any counter
+            serving one of them while none is open.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={numberId}>Number *</Label>
+              <Input
+                id={numberId}
+                type="number"
+                min={1}
+                value={number}
+                onChange={(e) => setNumber(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor={nameId}>Name</Label>
+              <Input
+                id={nameId}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Clearances"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Documents Served</Label>
+            <div className="border rounded-lg p-3 max-h-60 overflow-y-auto space-y-2">
+              {documentTypes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No document types yet.</p>
+              ) : (
+                documentTypes.map((type) => (
+                  <div key={type._id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`${typesId}-${type._id}`}
+                      checked={documentTypeIds.includes(type._id)}
+                      onCheckedChange={(checked) => toggleType(type._id, checked === true)}
+                    />
+                    <Label htmlFor={`${typesId}-${type._id}`} className="font-normal cursor-pointer">
+                      {type.name}
+                    </Label>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!number || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {counter ? 'Save' : 'Add Counter'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
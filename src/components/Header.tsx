@@ -17,7 +17,7 @@ export default function Header() {
   const publicPaths = ['/', '/login', '/kiosk', '/queue-display']
   
   // Hide header on public pages, admin pages, and superadmin pages (they use sidebar instead)
-  if (publicPaths.includes(currentPath) || currentPath.startsWith('/admin') || currentPath.startsWith('/superadmin')) {
+  if (publicPaths.includes(currentPath) || currentPath.startsWith('/verify/') || currentPath.startsWith('/admin') || currentPath.startsWith('/superadmin')) {
     return null
   }
 
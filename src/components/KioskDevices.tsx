@@ -0,0 +1,289 @@
+import { useId, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import type { FunctionReturnType } from 'convex/server'
+import { format } from 'date-fns'
+import { api } from '../../convex/_generated/api'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Copy, KeyRound, Loader2, Monitor, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+type KioskDevice = FunctionReturnType<typeof api.kioskDevices.list>[number]
+
+/**
+ * Kiosk devices card for superadmin settings
+ * Only registered devices can submit requests from /kiosk
+ */
+export function KioskDevicesCard() {
+  const devices = useQuery(api.kioskDevices.list)
+  const setActive = useMutation(api.kioskDevices.setActive)
+  const regenerateToken = useMutation(api.kioskDevices.regenerateToken)
+  const removeDevice = useMutation(api.kioskDevices.remove)
+
+  const [registerDialogOpen, setRegisterDialogOpen] = useState(false)
+  const [issuedToken, setIssuedToken] = useState<{ name: string; token: string } | null>(null)
+  const [deviceToDelete, setDeviceToDelete] = useState<KioskDevice | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const handleToggleActive = async (device: KioskDevice) => {
+    try {
+      await setActive({ id: device._id, isActive: !device.isActive })
+      toast.success(`${device.name} ${!device.isActive ? 'enabled' : 'disabled'}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update kiosk device')
+    }
+  }
+
+  const handleRegenerate = async (device: KioskDevice) => {
+    try {
+      const token = await regenerateToken({ id: device._id })
+      setIssuedToken({ name: device.name, token })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to issue a new token')
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!deviceToDelete || isDeleting) return
+    setIsDeleting(true)
+    try {
+      await removeDevice({ id: deviceToDelete._id })
+      toast.success('Kiosk device removed')
+      setDeviceToDelete(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove kiosk device')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Monitor className="h-5 w-5" />
+              Kiosk Devices
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Only registered kiosks can submit requests. Each device is limited to a few submissions per minute.
+            </p>
+          </div>
+          <Button onClick={() => setRegisterDialogOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Register Kiosk
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {devices === undefined ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+          </div>
+        ) : devices.length === 0 ? (
+          <div className="text-center py-12">
+            <Monitor className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-600 mb-4">No kiosks registered. The kiosk page will ask for a device token.</p>
+            <Button onClick={() => setRegisterDialogOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Register First Kiosk
+            </Button>
+          </div>
+        ) : (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Last Submission</TableHead>
+                  <TableHead>Registered</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {devices.map((device) => (
+                  <TableRow key={device._id}>
+                    <TableCell className="font-medium">{device.name}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {device.lastSeenAt ? format(new Date(device.lastSeenAt), 'MMM dd, yyyy h:mm a') : 'Never'}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {format(new Date(device.createdAt), 'MMM dd, yyyy')}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={device.isActive}
+                          onCheckedChange={() => handleToggleActive(device)}
+                        />
+                        <Badge variant={device.isActive ? 'default' : 'secondary'}>
+                          {device.isActive ? 'Enabled' : 'Disabled'}
+                        </Badge>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleRegenerate(device)}>
+                          <KeyRound className="h-4 w-4 mr-2" />
+                          New Token
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setDeviceToDelete(device)}>
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <RegisterKioskDialog
+        open={registerDialogOpen}
+        onOpenChange={setRegisterDialogOpen}
+        onRegistered={setIssuedToken}
+      />
+
+      {/* Issued Token Dialog - the token is only shown here */}
+      <Dialog open={issuedToken !== null} onOpenChange={(open) => !open && setIssuedToken(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Token for {issuedToken?.name}</DialogTitle>
+            <DialogDescription>
+              Open /kiosk on the device and paste this token. It won't be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={issuedToken?.token ?? ''} className="font-mono text-xs" />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={async () => {
+                if (!issuedToken) return
+                await navigator.clipboard.writeText(issuedToken.token)
+                toast.success('Token copied')
+              }}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedToken(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog
+        open={deviceToDelete !== null}
+        onOpenChange={(open) => !open && !isDeleting && setDeviceToDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove {deviceToDelete?.name}</DialogTitle>
+            <DialogDescription>
+              The kiosk will stop accepting requests until it is registered again.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeviceToDelete(null)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4 mr-2" />
+              )}
+              Remove
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
+
+// Register Kiosk Dialog Component
+function RegisterKioskDialog({
+  open,
+  onOpenChange,
+  onRegistered,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onRegistered: (issued: { name: string; token: string }) => void
+}) {
+  const register = useMutation(api.kioskDevices.register)
+  const [name, setName] = useState('')
+  const [isRegistering, setIsRegistering] = useState(false)
+  const nameId = useId()
+
+  const handleRegister = async () => {
+    if (!name.trim() || isRegistering) return
+    setIsRegistering(true)
+    try {
+      const { token } = await register({ name: name.trim() })
+      onRegistered({ name: name.trim(), token })
+      setName('')
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to register kiosk')
+    } finally {
+      setIsRegistering(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Register Kiosk</DialogTitle>
+          <DialogDescription>Give the device a name staff will recognize.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={nameId}>Device Name *</Label>
+          <Input
+            id={nameId}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Lobby Kiosk 1"
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isRegistering}>
+            Cancel
+          </Button>
+          <Button onClick={handleRegister} disabled={!name.trim() || isRegistering}>
+            {isRegistering && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Register
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
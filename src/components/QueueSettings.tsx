@@ -0,0 +1,108 @@
+import { useEffect, useId, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { ListOrdered, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+/**
+ * Priority lane card for superadmin settings
+ * Sets how many priority and regular tickets Process Next calls per cycle
+ */
+export function QueueSettingsCard() {
+  const settings = useQuery(api.queue.getQueueSettings, {})
+  const updateSettings = useMutation(api.queue.updateQueueSettings)
+
+  const [priorityPerCycle, setPriorityPerCycle] = useState('')
+  const [regularPerCycle, setRegularPerCycle] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const priorityId = useId()
+  const regularId = useId()
+
+  useEffect(() => {
+    if (!settings) return
+    setPriorityPerCycle(String(settings.priorityPerCycle))
+    setRegularPerCycle(String(settings.regularPerCycle))
+  }, [settings])
+
+  const isChanged =
+    settings !== undefined &&
+    (Number(priorityPerCycle) !== settings.priorityPerCycle ||
+      Number(regularPerCycle) !== settings.regularPerCycle)
+
+  const handleSave = async () => {
+    if (isSaving) return
+    setIsSaving(true)
+    try {
+      await updateSettings({
+        priorityPerCycle: Number(priorityPerCycle),
+        regularPerCycle: Number(regularPerCycle),
+      })
+      toast.success('Queue settings saved')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save queue settings')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListOrdered className="h-5 w-5" />
+          Priority Lane
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          Senior citizens, PWDs and pregnant residents get P- tickets. Process Next calls priority
+          tickets first in each cycle, then regular tickets.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {settings === undefined ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={priorityId}>Priority per cycle</Label>
+              <Input
+                id={priorityId}
+                type="number"
+                min={0}
+                max={20}
+                value={priorityPerCycle}
+                onChange={(e) => setPriorityPerCycle(e.target.value)}
+                className="w-32"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={regularId}>Regular per cycle</Label>
+              <Input
+                id={regularId}
+                type="number"
+                min={0}
+                max={20}
+                value={regularPerCycle}
+                onChange={(e) => setRegularPerCycle(e.target.value)}
+                className="w-32"
+              />
+            </div>
+            <Button onClick={handleSave} disabled={!isChanged || isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+            <p className="text-sm text-muted-foreground w-full">
+              Currently: {settings.priorityPerCycle} priority for every {settings.regularPerCycle} regular.
+              An empty lane is skipped.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,115 @@
+import { useEffect, useId, useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { Loader2, Printer } from 'lucide-react'
+
+export const REPRINT_REASONS = [
+  'Printer jam',
+  'Typo corrected',
+  'Damaged or smudged copy',
+  'Lost by resident',
+  'Other',
+] as const
+
+/**
+ * Asks staff why an already printed document is being printed again
+ * A reason is mandatory; "Other" requires details
+ */
+export function ReprintDialog({
+  open,
+  onOpenChange,
+  documentName,
+  isPrinting,
+  onConfirm,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  documentName: string
+  isPrinting: boolean
+  onConfirm: (reason: string) => void
+}) {
+  const [reason, setReason] = useState<string>('')
+  const [details, setDetails] = useState('')
+  const reasonId = useId()
+  const detailsId = useId()
+
+  // Start fresh every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setReason('')
+      setDetails('')
+    }
+  }, [open])
+
+  const fullReason = reason === 'Other' ? details.trim() : [reason, details.trim()].filter(Boolean).join(' - ')
+  const canConfirm = reason !== '' && fullReason !== ''
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reprint {documentName}</DialogTitle>
+          <DialogDescription>
+            This document was already printed. Reprints are recorded with your name and reason.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={reasonId}>Reason *</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger id={reasonId}>
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {REPRINT_REASONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={detailsId}>Details {reason === 'Other' && '*'}</Label>
+            <Textarea
+              id={detailsId}
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="e.g. Corrected middle name spelling"
+              rows={2}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPrinting}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(fullReason)} disabled={!canConfirm || isPrinting}>
+            {isPrinting ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Printer className="w-4 h-4 mr-2" />
+            )}
+            Reprint
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
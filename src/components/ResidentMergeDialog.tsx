@@ -0,0 +1,316 @@
+import { useEffect, useId, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { format } from 'date-fns'
+import { api } from '../../convex/_generated/api'
+import type { Doc, Id } from '../../convex/_generated/dataModel'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Loader2, Merge } from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+
+type MergeSide = {
+  resident: Doc<'residents'>
+  requestCount: number
+  familyName: string | null
+  householdLabel: string | null
+  isFamilyHead: boolean
+  isHouseholdHead: boolean
+}
+
+// Same fields as MERGE_FIELDS in convex/residents.ts
+const MERGE_FIELD_LABELS: Array<{ field: keyof Doc<'residents'>; label: string }> = [
+  { field: 'residentId', label: 'Resident ID' },
+  { field: 'firstName', label: 'First Name' },
+  { field: 'middleName', label: 'Middle Name' },
+  { field: 'lastName', label: 'Last Name' },
+  { field: 'suffix', label: 'Suffix' },
+  { field: 'sex', label: 'Sex' },
+  { field: 'birthdate', label: 'Birthdate' },
+  { field: 'civilStatus', label: 'Civil Status' },
+  { field: 'block', label: 'Block' },
+  { field: 'lot', label: 'Lot' },
+  { field: 'phase', label: 'Phase' },
+  { field: 'purok', label: 'Purok' },
+  { field: 'contactNumber', label: 'Contact Number' },
+  { field: 'email', label: 'Email' },
+  { field: 'educationalAttainment', label: 'Education' },
+  { field: 'occupation', label: 'Occupation' },
+  { field: 'employmentStatus', label: 'Employment' },
+  { field: 'estimatedMonthlyIncome', label: 'Monthly Income' },
+  { field: 'primarySourceOfLivelihood', label: 'Livelihood' },
+  { field: 'isResidentVoter', label: 'Resident Voter' },
+  { field: 'isRegisteredVoter', label: 'Registered Voter' },
+  { field: 'isOFW', label: 'OFW' },
+  { field: 'isPWD', label: 'PWD' },
+  { field: 'isOSY', label: 'OSY' },
+  { field: 'isSeniorCitizen', label: 'Senior Citizen' },
+  { field: 'isSoloParent', label: 'Solo Parent' },
+  { field: 'isIP', label: 'Indigenous Person' },
+  { field: 'isMigrant', label: 'Migrant' },
+  { field: 'tenureStatus', label: 'Tenure Status' },
+  { field: 'housingType', label: 'Housing Type' },
+  { field: 'constructionType', label: 'Construction' },
+  { field: 'sanitationMethod', label: 'Sanitation' },
+  { field: 'religion', label: 'Religion' },
+  { field: 'debilitatingDiseases', label: 'Diseases' },
+  { field: 'isBedBound', label: 'Bed Bound' },
+  { field: 'isWheelchairBound', label: 'Wheelchair Bound' },
+  { field: 'isDialysisPatient', label: 'Dialysis Patient' },
+  { field: 'isCancerPatient', label: 'Cancer Patient' },
+  { field: 'isNationalPensioner', label: 'National Pensioner' },
+  { field: 'isLocalPensioner', label: 'Local Pensioner' },
+  { field: 'familyId', label: 'Family' },
+  { field: 'householdId', label: 'Household' },
+  { field: 'status', label: 'Status' },
+]
+
+// Pending kiosk guests have this placeholder instead of a Resident ID
+const GUEST_RESIDENT_ID = 'GUEST-TEMP'
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === ''
+
+// Same rule as isEmptyMergeValue in convex/residents.ts: these never overwrite the kept record
+const isEmptyField = (side: MergeSide, field: keyof Doc<'residents'>) =>
+  isEmpty(side.resident[field]) || (field === 'residentId' && side.resident.residentId === GUEST_RESIDENT_ID)
+
+function formatMergeValue(side: MergeSide, field: keyof Doc<'residents'>): string {
+  const value = side.resident[field]
+  if (isEmpty(value)) return '—'
+  if (field === 'birthdate') return format(new Date(value as number), 'MMM dd, yyyy')
+  if (field === 'estimatedMonthlyIncome') return `₱${(value as number).toLocaleString()}`
+  if (field === 'familyId') {
+    return `${side.familyName ?? 'Family'}${side.resident.relationshipToHead ? ` (${side.resident.relationshipToHead})` : ''}`
+  }
+  if (field === 'householdId') return side.householdLabel ?? 'Household'
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return String(value)
+}
+
+// Keep the survivor's value unless it is empty and the other record has one
+function defaultChoices(sides: Array<MergeSide>, survivor: number): Record<string, number> {
+  const choices: Record<string, number> = {}
+  for (const { field } of MERGE_FIELD_LABELS) {
+    const other = 1 - survivor
+    choices[field] = isEmptyField(sides[survivor], field) && !isEmptyField(sides[other], field) ? other : survivor
+  }
+  return choices
+}
+
+/**
+ * Side-by-side merge of two records of the same person
+ * The admin picks the surviving record, then which record each field comes from.
+ * Without secondId the admin first looks up the duplicate by Resident ID.
+ */
+export function ResidentMergeDialog({
+  open,
+  onOpenChange,
+  firstId,
+  secondId,
+  onMerged,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  firstId: Id<'residents'> | null
+  secondId?: Id<'residents'> | null
+  onMerged?: (survivorId: Id<'residents'>) => void
+}) {
+  const [otherCode, setOtherCode] = useState('')
+  const [searchCode, setSearchCode] = useState('')
+  const other = useQuery(
+    api.residents.getByResidentId,
+    open && !secondId && searchCode ? { residentId: searchCode } : 'skip'
+  )
+  const otherId = secondId ?? (other && other._id !== firstId ? other._id : null)
+  const preview = useQuery(
+    api.residents.getMergePreview,
+    open && firstId && otherId ? { firstId, secondId: otherId } : 'skip'
+  )
+  const mergeResidents = useMutation(api.residents.merge)
+  const [survivor, setSurvivor] = useState(0)
+  const [choices, setChoices] = useState<Record<string, number>>({})
+  const [differencesOnly, setDifferencesOnly] = useState(true)
+  const [isMerging, setIsMerging] = useState(false)
+  const differencesOnlyId = useId()
+  const otherCodeId = useId()
+
+  const isReady = preview !== undefined && preview !== null
+
+  // Start fresh every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setOtherCode('')
+      setSearchCode('')
+      setSurvivor(0)
+      setDifferencesOnly(true)
+    }
+  }, [open])
+
+  useEffect(() => {
+    if (isReady) setChoices(defaultChoices(preview, survivor))
+  }, [isReady, preview, survivor])
+
+  const handleMerge = async () => {
+    if (!isReady || isMerging) return
+    const retired = 1 - survivor
+    setIsMerging(true)
+    try {
+      const result = await mergeResidents({
+        survivorId: preview[survivor].resident._id,
+        retiredId: preview[retired].resident._id,
+        fromRetired: MERGE_FIELD_LABELS.filter(({ field }) => choices[field] === retired).map(({ field }) => field),
+      })
+      toast.success(`Records merged into ${result.residentId}`)
+      onOpenChange(false)
+      onMerged?.(result.id)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to merge residents')
+    } finally {
+      setIsMerging(false)
+    }
+  }
+
+  const rows = isReady
+    ? MERGE_FIELD_LABELS.filter(
+        ({ field }) =>
+          !differencesOnly ||
+          formatMergeValue(preview[0], field) !== formatMergeValue(preview[1], field)
+      )
+    : []
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge Residents</DialogTitle>
+          <DialogDescription>
+            Pick the record to keep, then click the value to keep for each field. Requests, appointments and
+            family or household links move to the kept record. The other record is deleted, but its Resident ID
+            still finds the kept record.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!otherId ? (
+          <div className="space-y-2">
+            <Label htmlFor={otherCodeId}>Resident ID of the duplicate record</Label>
+            <div className="flex gap-2">
+              <Input
+                id={otherCodeId}
+                value={otherCode}
+                onChange={(e) => setOtherCode(e.target.value.toUpperCase())}
+                placeholder="BH-00001"
+                className="font-mono"
+              />
+              <Button variant="outline" onClick={() => setSearchCode(otherCode.trim())} disabled={!otherCode.trim()}>
+                Find
+              </Button>
+            </div>
+            {searchCode && other !== undefined && (
+              <p className="text-sm text-muted-foreground">
+                {other ? 'That is this same record' : 'No resident with that ID'}
+              </p>
+            )}
+          </div>
+        ) : preview === undefined ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 text-muted-foreground animate-spin" />
+          </div>
+        ) : preview === null ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">One of these records no longer exists.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Switch id={differencesOnlyId} checked={differencesOnly} onCheckedChange={setDifferencesOnly} />
+              <Label htmlFor={differencesOnlyId}>Show only fields that differ</Label>
+            </div>
+
+            <div className="border rounded-lg overflow-hidden">
+              <div className="grid grid-cols-[10rem_1fr_1fr] bg-muted/50 text-sm">
+                <div className="p-3 font-medium text-muted-foreground">Keep record</div>
+                {preview.map((side, index) => (
+                  <div key={side.resident._id} className="p-3 space-y-2">
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={survivor === index ? 'default' : 'outline'}
+                      onClick={() => setSurvivor(index)}
+                      className="w-full"
+                    >
+                      {survivor === index ? 'Kept' : 'Keep this record'}
+                    </Button>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline">{side.requestCount} request(s)</Badge>
+                      {side.isFamilyHead && <Badge variant="outline">Family head</Badge>}
+                      {side.isHouseholdHead && <Badge variant="outline">Household head</Badge>}
+                      {survivor !== index && (
+                        <Badge variant="outline" className="bg-red-50 text-red-700 border-red-300">
+                          Will be deleted
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {rows.length === 0 ? (
+                <p className="p-6 text-center text-sm text-muted-foreground">Both records have the same values.</p>
+              ) : (
+                rows.map(({ field, label }) => (
+                  <div key={field} className="grid grid-cols-[10rem_1fr_1fr] border-t text-sm">
+                    <div className="p-3 text-muted-foreground">{label}</div>
+                    {preview.map((side, index) => {
+                      const otherHasValue = !isEmptyField(preview[1 - index], field)
+                      const disabled = isEmptyField(side, field) && otherHasValue
+                      return (
+                        <button
+                          key={side.resident._id}
+                          type="button"
+                          aria-pressed={choices[field] === index}
+                          disabled={disabled}
+                          onClick={() => setChoices((prev) => ({ ...prev, [field]: index }))}
+                          className={cn(
+                            'p-3 text-left border-l transition-colors',
+                            choices[field] === index
+                              ? 'bg-blue-50 text-blue-900 font-medium'
+                              : 'text-muted-foreground hover:bg-muted/50',
+                            disabled && 'cursor-not-allowed hover:bg-transparent'
+                          )}
+                        >
+                          {formatMergeValue(side, field)}
+                        </button>
+                      )
+                    })}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isMerging}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={!isReady || isMerging}>
+            {isMerging ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Merge className="h-4 w-4 mr-2" />
+            )}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
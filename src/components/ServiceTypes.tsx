@@ -0,0 +1,341 @@
+import { useEffect, useId, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import type { Doc, Id } from '../../convex/_generated/dataModel'
+import { api } from '../../convex/_generated/api'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Switch } from './ui/switch'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Edit, Loader2, Plus, Ticket, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+type ServiceType = Doc<'serviceTypes'>
+
+/**
+ * Service types card for superadmin settings
+ * Non-certificate queues (blotter, health center, payments) with their own
+ * ticket prefix, counters and kiosk button
+ */
+export function ServiceTypesCard() {
+  const serviceTypes = useQuery(api.serviceTypes.list, {})
+  const counters = useQuery(api.counters.list, {})
+  const removeServiceType = useMutation(api.serviceTypes.remove)
+
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingServiceType, setEditingServiceType] = useState<ServiceType | null>(null)
+  const [serviceTypeToDelete, setServiceTypeToDelete] = useState<ServiceType | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const counterNames = new Map(counters?.map((counter) => [counter._id, `Counter ${counter.number}`]) ?? [])
+
+  const handleCreate = () => {
+    setEditingServiceType(null)
+    setDialogOpen(true)
+  }
+
+  const handleEdit = (serviceType: ServiceType) => {
+    setEditingServiceType(serviceType)
+    setDialogOpen(true)
+  }
+
+  const handleDelete = async () => {
+    if (!serviceTypeToDelete || isDeleting) return
+    setIsDeleting(true)
+    try {
+      await removeServiceType({ id: serviceTypeToDelete._id })
+      toast.success('Service type deleted')
+      setServiceTypeToDelete(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete service type')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Ticket className="h-5 w-5" />
+              Other Services
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Queues for services without certificates. Each gets a kiosk button and its own ticket prefix.
+            </p>
+          </div>
+          <Button onClick={handleCreate}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Service
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {serviceTypes === undefined ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+          </div>
+        ) : serviceTypes.length === 0 ? (
+          <div className="text-center py-12">
+            <Ticket className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-gray-600 mb-4">No other services yet. The kiosk only offers document requests.</p>
+            <Button onClick={handleCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add First Service
+            </Button>
+          </div>
+        ) : (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Service</TableHead>
+                  <TableHead>Prefix</TableHead>
+                  <TableHead>Counters</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {serviceTypes.map((serviceType) => (
+                  <TableRow key={serviceType._id}>
+                    <TableCell>
+                      <div className="font-medium">{serviceType.name}</div>
+                      {serviceType.description && (
+                        <div className="text-sm text-muted-foreground">{serviceType.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-mono">{serviceType.prefix}-001</TableCell>
+                    <TableCell className="text-sm text-muted-foreground max-w-xs">
+                      {serviceType.counterIds.length === 0
+                        ? 'Any counter'
+                        : serviceType.counterIds
+                            .map((id) => counterNames.get(id) ?? 'Unknown')
+                            .join(', ')}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={serviceType.isActive ? 'default' : 'secondary'}>
+                        {serviceType.isActive ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => handleEdit(serviceType)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setServiceTypeToDelete(serviceType)}>
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <ServiceTypeDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        serviceType={editingServiceType}
+        counters={counters ?? []}
+      />
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog
+        open={serviceTypeToDelete !== null}
+        onOpenChange={(open) => !open && !isDeleting && setServiceTypeToDelete(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete {serviceTypeToDelete?.name}</DialogTitle>
+            <DialogDescription>
+              The kiosk will stop offering this service. Past tickets keep their numbers.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setServiceTypeToDelete(null)} disabled={isDeleting}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isDeleting}>
+              {isDeleting ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4 mr-2" />
+              )}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
+
+// Create / Edit Service Type Dialog Component
+function ServiceTypeDialog({
+  open,
+  onOpenChange,
+  serviceType,
+  counters,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  serviceType: ServiceType | null
+  counters: Array<{ _id: Id<'counters'>; number: number; name: string }>
+}) {
+  const createServiceType = useMutation(api.serviceTypes.create)
+  const updateServiceType = useMutation(api.serviceTypes.update)
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [prefix, setPrefix] = useState('')
+  const [counterIds, setCounterIds] = useState<Array<Id<'counters'>>>([])
+  const [isActive, setIsActive] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const nameId = useId()
+  const descriptionId = useId()
+  const prefixId = useId()
+  const countersId = useId()
+  const activeId = useId()
+
+  useEffect(() => {
+    if (!open) return
+    setName(serviceType?.name ?? '')
+    setDescription(serviceType?.description ?? '')
+    setPrefix(serviceType?.prefix ?? '')
+    setCounterIds(serviceType?.counterIds ?? [])
+    setIsActive(serviceType?.isActive ?? true)
+  }, [open, serviceType])
+
+  const toggleCounter = (id: Id<'counters'>, checked: boolean) => {
+    setCounterIds((prev) => (checked ? [...prev, id] : prev.filter((c) => c !== id)))
+  }
+
+  const handleSave = async () => {
+    if (!name.trim() || !prefix.trim() || isSaving) return
+    setIsSaving(true)
+    try {
+      const values = {
+        name: name.trim(),
+        description: description.trim(),
+        prefix: prefix.trim(),
+        counterIds,
+        isActive,
+      }
+      if (serviceType) {
+        await updateServiceType({ id: serviceType._id, ...values })
+        toast.success('Service type updated')
+      } else {
+        await createServiceType(values)
+        toast.success('Service type added')
+      }
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save service type')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{serviceType ? `Edit ${serviceType.name}` : 'Add Service'}</DialogTitle>
+          <DialogDescription>
+            Leave all counters unchecked to let any counter call these tickets.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor={nameId}>Name *</Label>
+              <Input
+                id={nameId}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Blotter / Complaints"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={prefixId}>Prefix *</Label>
+              <Input
+                id={prefixId}
+                value={prefix}
+                onChange={(e) => setPrefix(e.target.value.toUpperCase())}
+                placeholder="B"
+                maxLength={2}
+                className="font-mono"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={descriptionId}>Kiosk Description</Label>
+            <Input
+              id={descriptionId}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. File a complaint or request mediation"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Counters</Label>
+            <div className="border rounded-lg p-3 max-h-60 overflow-y-auto space-y-2">
+              {counters.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No counters yet.</p>
+              ) : (
+                counters.map((counter) => (
+                  <div key={counter._id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`${countersId}-${counter._id}`}
+                      checked={counterIds.includes(counter._id)}
+                      onCheckedChange={(checked) => toggleCounter(counter._id, checked === true)}
+                    />
+                    <Label htmlFor={`${countersId}-${counter._id}`} className="font-normal cursor-pointer">
+                      Counter {counter.number} · {counter.name}
+                    </Label>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id={activeId} checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor={activeId} className="font-normal">Show on the kiosk</Label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || !prefix.trim() || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {serviceType ? 'Save' : 'Add Service'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -21,7 +21,10 @@ import {
   Users,
   Settings,
   FileText,
+  ScrollText,
   Shield,
+  UserCog,
+  Clock,
 } from 'lucide-react'
 import { UserButton } from '@clerk/tanstack-react-start'
 import { Badge } from './ui/badge'
@@ -76,18 +79,36 @@ function SuperadminSidebar({ variant }: { variant?: "sidebar" | "floating" | "in
       icon: Users,
       description: 'Detailed Reports & Analytics',
     },
+    {
+      title: 'Queue Analytics',
+      url: '/superadmin/queue-analytics',
+      icon: Clock,
+      description: 'Wait & Service Times',
+    },
     {
       title: 'Settings',
       url: '/superadmin/settings',
       icon: Settings,
       description: 'Document Types & Services',
     },
+    {
+      title: 'Users',
+      url: '/superadmin/users',
+      icon: UserCog,
+      description: 'Roles & Account Access',
+    },
     {
       title: 'Transactions',
       url: '/superadmin/transactions',
       icon: FileText,
       description: 'All Document Requests',
     },
+    {
+      title: 'Audit Log',
+      url: '/superadmin/audit',
+      icon: ScrollText,
+      description: 'Who Changed What',
+    },
   ]
 
   return (
@@ -0,0 +1,128 @@
+import { useEffect, useId, useState } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { ArrowRightLeft, Loader2 } from 'lucide-react'
+
+// Select value for sending the ticket back instead of to a counter
+const RETURN_TO_QUEUE = 'queue'
+
+/**
+ * Hands a serving ticket to another open counter, or back to the head of the waiting list
+ */
+export function TransferDialog({
+  open,
+  onOpenChange,
+  queueNumber,
+  currentCounterNumber,
+  isTransferring,
+  onConfirm,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  queueNumber: string
+  currentCounterNumber?: number
+  isTransferring: boolean
+  onConfirm: (args: { toCounterId?: Id<'counters'>; reason: string }) => void
+}) {
+  const counters = useQuery(api.counters.list, open ? {} : 'skip')
+  const [target, setTarget] = useState('')
+  const [reason, setReason] = useState('')
+  const targetId = useId()
+  const reasonId = useId()
+
+  // Start fresh every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTarget('')
+      setReason('')
+    }
+  }, [open])
+
+  const openCounters = (counters ?? []).filter(
+    (counter) => counter.isOpen && counter.activeStaffId && counter.number !== currentCounterNumber
+  )
+
+  const handleConfirm = () => {
+    onConfirm({
+      toCounterId: target === RETURN_TO_QUEUE ? undefined : (target as Id<'counters'>),
+      reason: reason.trim(),
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transfer {queueNumber}</DialogTitle>
+          <DialogDescription>
+            The display will call the number to the new counter. Every transfer is kept in the ticket's history.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={targetId}>Transfer to *</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger id={targetId}>
+                <SelectValue placeholder="Select a counter" />
+              </SelectTrigger>
+              <SelectContent>
+                {openCounters.map((counter) => (
+                  <SelectItem key={counter._id} value={counter._id}>
+                    Counter {counter.number} · {counter.name}
+                    {counter.activeStaffName && ` (${counter.activeStaffName})`}
+                  </SelectItem>
+                ))}
+                <SelectItem value={RETURN_TO_QUEUE}>Back to the front of the waiting list</SelectItem>
+              </SelectContent>
+            </Select>
+            {counters !== undefined && openCounters.length === 0 && (
+              <p className="text-sm text-muted-foreground">No other counters are open right now.</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={reasonId}>Reason</Label>
+            <Textarea
+              id={reasonId}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Cedula is handled by the treasurer"
+              rows={2}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isTransferring}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!target || isTransferring}>
+            {isTransferring ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <ArrowRightLeft className="w-4 h-4 mr-2" />
+            )}
+            Transfer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
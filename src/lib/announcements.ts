@@ -0,0 +1,118 @@
+/**
+ * Queue display announcements
+ * Chime plus browser speech synthesis when a number is called to a counter
+ */
+
+export type AnnouncementLanguage = 'fil' | 'hil' | 'en'
+
+export const ANNOUNCEMENT_LANGUAGES: Array<{ value: AnnouncementLanguage; label: string }> = [
+  { value: 'fil', label: 'Filipino' },
+  { value: 'hil', label: 'Hiligaynon' },
+  { value: 'en', label: 'English' },
+]
+
+// Browsers have no Hiligaynon voice; a Filipino voice pronounces it closest
+const SPEECH_LANG: Record<AnnouncementLanguage, string> = {
+  fil: 'fil-PH',
+  hil: 'fil-PH',
+  en: 'en-PH',
+}
+
+/**
+ * Spoken form of a ticket: "Q-014" → "Q, 14" so voices don't read "Q minus zero fourteen"
+ */
+function spokenTicket(queueNumber: string): string {
+  const match = queueNumber.match(/^([A-Z]+)-0*(\d+)$/)
+  return match ? `${match[1]}, ${match[2]}` : queueNumber
+}
+
+/**
+ * Announcement text for a ticket called to a counter
+ */
+export function buildAnnouncement(
+  language: AnnouncementLanguage,
+  queueNumber: string,
+  counterNumber?: number
+): string {
+  const ticket = spokenTicket(queueNumber)
+  switch (language) {
+    case 'fil':
+      return counterNumber
+        ? `Numero ${ticket}, pumunta po sa Counter ${counterNumber}.`
+        : `Numero ${ticket}, pumunta po sa counter.`
+    case 'hil':
+      return counterNumber
+        ? `Numero ${ticket}, palihog magkadto sa Counter ${counterNumber}.`
+        : `Numero ${ticket}, palihog magkadto sa counter.`
+    default:
+      return counterNumber
+        ? `Now serving number ${ticket}, at Counter ${counterNumber}.`
+        : `Now serving number ${ticket}.`
+  }
+}
+
+/**
+ * Two-tone chime using Web Audio (no audio file needed)
+ * Resolves when the chime has finished
+ */
+export function playChime(audioContext: AudioContext): Promise<void> {
+  const start = audioContext.currentTime
+  const notes = [
+    { frequency: 880, at: 0 },
+    { frequency: 660, at: 0.35 },
+  ]
+
+  for (const note of notes) {
+    const oscillator = audioContext.createOscillator()
+    const gain = audioContext.createGain()
+    oscillator.type = 'sine'
+    oscillator.frequency.value = note.frequency
+    gain.gain.setValueAtTime(0.0001, start + note.at)
+    gain.gain.exponentialRampToValueAtTime(0.4, start + note.at + 0.02)
+    gain.gain.exponentialRampToValueAtTime(0.0001, start + note.at + 0.6)
+    oscillator.connect(gain).connect(audioContext.destination)
+    oscillator.start(start + note.at)
+    oscillator.stop(start + note.at + 0.65)
+  }
+
+  return new Promise((resolve) => setTimeout(resolve, 1000))
+}
+
+// Some platforms report voice languages as "fil_PH" instead of "fil-PH"
+const normalizeLang = (lang: string) => lang.replace(/_/g, '-').toLowerCase()
+
+/**
+ * Voice for a language tag: same language and region first, then same language in any region
+ * Compares the whole language subtag, so "fil" never falls back to a Finnish ("fi") voice
+ */
+function pickVoice(voices: Array<SpeechSynthesisVoice>, lang: string): SpeechSynthesisVoice | null {
+  const wanted = normalizeLang(lang)
+  const language = wanted.split('-')[0]
+  return (
+    voices.find((voice) => normalizeLang(voice.lang) === wanted) ??
+    voices.find((voice) => normalizeLang(voice.lang).split('-')[0] === language) ??
+    null
+  )
+}
+
+/**
+ * Speak text with the best matching voice for the language
+ * Resolves when speech ends (or right away if speech synthesis is unavailable)
+ */
+export function speak(text: string, language: AnnouncementLanguage): Promise<void> {
+  if (typeof window === 'undefined' || !('speechSynthesis' in window)) {
+    return Promise.resolve()
+  }
+
+  return new Promise((resolve) => {
+    const lang = SPEECH_LANG[language]
+    const voices = window.speechSynthesis.getVoices()
+    const utterance = new SpeechSynthesisUtterance(text)
+    utterance.lang = lang
+    utterance.voice = pickVoice(voices, lang)
+    utterance.rate = 0.9
+    utterance.onend = () => resolve()
+    utterance.onerror = () => resolve()
+    window.speechSynthesis.speak(utterance)
+  })
+}
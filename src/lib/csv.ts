@@ -0,0 +1,36 @@
+/**
+ * CSV export helpers
+ * Used by report pages that let users download what they're viewing
+ */
+
+/**
+ * Quote a single CSV cell (RFC 4180)
+ * Text cells starting with =, +, - or @ are prefixed so spreadsheets don't run them as formulas
+ */
+function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  let text = String(value)
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Build CSV text from a header row and data rows
+ */
+export function toCsv(header: Array<string>, rows: Array<Array<unknown>>): string {
+  return [header, ...rows].map((row) => row.map(toCsvCell).join(',')).join('\r\n')
+}
+
+/**
+ * Trigger a browser download for generated text
+ * Adds a UTF-8 BOM so Excel shows ñ and other accented names correctly
+ */
+export function downloadCsv(csv: string, filename: string) {
+  const blob = new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
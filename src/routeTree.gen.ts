@@ -13,12 +13,18 @@ import { Route as QueueDisplayRouteImport } from './routes/queue-display'
 import { Route as PendingApprovalRouteImport } from './routes/pending-approval'
 import { Route as LoginRouteImport } from './routes/login'
 import { Route as KioskRouteImport } from './routes/kiosk'
+import { Route as BookRouteImport } from './routes/book'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as VerifyCodeRouteImport } from './routes/verify.$code'
+import { Route as SuperadminUsersRouteImport } from './routes/superadmin/users'
 import { Route as SuperadminTransactionsRouteImport } from './routes/superadmin/transactions'
 import { Route as SuperadminStatisticsRouteImport } from './routes/superadmin/statistics'
 import { Route as SuperadminSettingsRouteImport } from './routes/superadmin/settings'
+import { Route as SuperadminQueueAnalyticsRouteImport } from './routes/superadmin/queue-analytics'
 import { Route as SuperadminDashboardRouteImport } from './routes/superadmin/dashboard'
+import { Route as SuperadminAuditRouteImport } from './routes/superadmin/audit'
 import { Route as StaffQueueRouteImport } from './routes/staff/queue'
+import { Route as StaffAppointmentsRouteImport } from './routes/staff/appointments'
 import { Route as AdminResidentsRouteImport } from './routes/admin/residents'
 import { Route as AdminDashboardRouteImport } from './routes/admin/dashboard'
 import { Route as AdminLayoutRouteImport } from './routes/admin/_layout'
@@ -46,11 +52,26 @@ const KioskRoute = KioskRouteImport.update({
   path: '/kiosk',
   getParentRoute: () => rootRouteImport,
 } as any)
+const BookRoute = BookRouteImport.update({
+  id: '/book',
+  path: '/book',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const VerifyCodeRoute = VerifyCodeRouteImport.update({
+  id: '/verify/$code',
+  path: '/verify/$code',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const SuperadminUsersRoute = SuperadminUsersRouteImport.update({
+  id: '/superadmin/users',
+  path: '/superadmin/users',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const SuperadminTransactionsRoute = SuperadminTransactionsRouteImport.update({
   id: '/superadmin/transactions',
   path: '/superadmin/transactions',
@@ -66,16 +87,32 @@ const SuperadminSettingsRoute = SuperadminSettingsRouteImport.update({
   path: '/superadmin/settings',
   getParentRoute: () => rootRouteImport,
 } as any)
+const SuperadminQueueAnalyticsRoute =
+  SuperadminQueueAnalyticsRouteImport.update({
+    id: '/superadmin/queue-analytics',
+    path: '/superadmin/queue-analytics',
+    getParentRoute: () => rootRouteImport,
+  } as any)
 const SuperadminDashboardRoute = SuperadminDashboardRouteImport.update({
   id: '/superadmin/dashboard',
   path: '/superadmin/dashboard',
   getParentRoute: () => rootRouteImport,
 } as any)
+const SuperadminAuditRoute = SuperadminAuditRouteImport.update({
+  id: '/superadmin/audit',
+  path: '/superadmin/audit',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const StaffQueueRoute = StaffQueueRouteImport.update({
   id: '/staff/queue',
   path: '/staff/queue',
   getParentRoute: () => rootRouteImport,
 } as any)
+const StaffAppointmentsRoute = StaffAppointmentsRouteImport.update({
+  id: '/staff/appointments',
+  path: '/staff/appointments',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AdminResidentsRoute = AdminResidentsRouteImport.update({
   id: '/admin/residents',
   path: '/admin/residents',
@@ -109,6 +146,7 @@ const AdminResidentsIdRoute = AdminResidentsIdRouteImport.update({
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/book': typeof BookRoute
   '/kiosk': typeof KioskRoute
   '/login': typeof LoginRoute
   '/pending-approval': typeof PendingApprovalRoute
@@ -116,17 +154,23 @@ export interface FileRoutesByFullPath {
   '/admin': typeof AdminLayoutRoute
   '/admin/dashboard': typeof AdminDashboardRoute
   '/admin/residents': typeof AdminResidentsRouteWithChildren
+  '/staff/appointments': typeof StaffAppointmentsRoute
   '/staff/queue': typeof StaffQueueRoute
+  '/superadmin/audit': typeof SuperadminAuditRoute
   '/superadmin/dashboard': typeof SuperadminDashboardRoute
+  '/superadmin/queue-analytics': typeof SuperadminQueueAnalyticsRoute
   '/superadmin/settings': typeof SuperadminSettingsRoute
   '/superadmin/statistics': typeof SuperadminStatisticsRoute
   '/superadmin/transactions': typeof SuperadminTransactionsRoute
+  '/superadmin/users': typeof SuperadminUsersRoute
+  '/verify/$code': typeof VerifyCodeRoute
   '/admin/residents/$id': typeof AdminResidentsIdRoute
   '/staff/process/$requestId': typeof StaffProcessRequestIdRoute
   '/superadmin/residents/$id': typeof SuperadminResidentsIdRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/book': typeof BookRoute
   '/kiosk': typeof KioskRoute
   '/login': typeof LoginRoute
   '/pending-approval': typeof PendingApprovalRoute
@@ -134,11 +178,16 @@ export interface FileRoutesByTo {
   '/admin': typeof AdminLayoutRoute
   '/admin/dashboard': typeof AdminDashboardRoute
   '/admin/residents': typeof AdminResidentsRouteWithChildren
+  '/staff/appointments': typeof StaffAppointmentsRoute
   '/staff/queue': typeof StaffQueueRoute
+  '/superadmin/audit': typeof SuperadminAuditRoute
   '/superadmin/dashboard': typeof SuperadminDashboardRoute
+  '/superadmin/queue-analytics': typeof SuperadminQueueAnalyticsRoute
   '/superadmin/settings': typeof SuperadminSettingsRoute
   '/superadmin/statistics': typeof SuperadminStatisticsRoute
   '/superadmin/transactions': typeof SuperadminTransactionsRoute
+  '/superadmin/users': typeof SuperadminUsersRoute
+  '/verify/$code': typeof VerifyCodeRoute
   '/admin/residents/$id': typeof AdminResidentsIdRoute
   '/staff/process/$requestId': typeof StaffProcessRequestIdRoute
   '/superadmin/residents/$id': typeof SuperadminResidentsIdRoute
@@ -146,6 +195,7 @@ export interface FileRoutesByTo {
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/book': typeof BookRoute
   '/kiosk': typeof KioskRoute
   '/login': typeof LoginRoute
   '/pending-approval': typeof PendingApprovalRoute
@@ -153,11 +203,16 @@ export interface FileRoutesById {
   '/admin/_layout': typeof AdminLayoutRoute
   '/admin/dashboard': typeof AdminDashboardRoute
   '/admin/residents': typeof AdminResidentsRouteWithChildren
+  '/staff/appointments': typeof StaffAppointmentsRoute
   '/staff/queue': typeof StaffQueueRoute
+  '/superadmin/audit': typeof SuperadminAuditRoute
   '/superadmin/dashboard': typeof SuperadminDashboardRoute
+  '/superadmin/queue-analytics': typeof SuperadminQueueAnalyticsRoute
   '/superadmin/settings': typeof SuperadminSettingsRoute
   '/superadmin/statistics': typeof SuperadminStatisticsRoute
   '/superadmin/transactions': typeof SuperadminTransactionsRoute
+  '/superadmin/users': typeof SuperadminUsersRoute
+  '/verify/$code': typeof VerifyCodeRoute
   '/admin/residents/$id': typeof AdminResidentsIdRoute
   '/staff/process/$requestId': typeof StaffProcessRequestIdRoute
   '/superadmin/residents/$id': typeof SuperadminResidentsIdRoute
@@ -166,6 +221,7 @@ export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/book'
     | '/kiosk'
     | '/login'
     | '/pending-approval'
@@ -173,17 +229,23 @@ export interface FileRouteTypes {
     | '/admin'
     | '/admin/dashboard'
     | '/admin/residents'
+    | '/staff/appointments'
     | '/staff/queue'
+    | '/superadmin/audit'
     | '/superadmin/dashboard'
+    | '/superadmin/queue-analytics'
     | '/superadmin/settings'
     | '/superadmin/statistics'
     | '/superadmin/transactions'
+    | '/superadmin/users'
+    | '/verify/$code'
     | '/admin/residents/$id'
     | '/staff/process/$requestId'
     | '/superadmin/residents/$id'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/book'
     | '/kiosk'
     | '/login'
     | '/pending-approval'
@@ -191,17 +253,23 @@ export interface FileRouteTypes {
     | '/admin'
     | '/admin/dashboard'
     | '/admin/residents'
+    | '/staff/appointments'
     | '/staff/queue'
+    | '/superadmin/audit'
     | '/superadmin/dashboard'
+    | '/superadmin/queue-analytics'
     | '/superadmin/settings'
     | '/superadmin/statistics'
     | '/superadmin/transactions'
+    | '/superadmin/users'
+    | '/verify/$code'
     | '/admin/residents/$id'
     | '/staff/process/$requestId'
     | '/superadmin/residents/$id'
   id:
     | '__root__'
     | '/'
+    | '/book'
     | '/kiosk'
     | '/login'
     | '/pending-approval'
@@ -209,11 +277,16 @@ export interface FileRouteTypes {
     | '/admin/_layout'
     | '/admin/dashboard'
     | '/admin/residents'
+    | '/staff/appointments'
     | '/staff/queue'
+    | '/superadmin/audit'
     | '/superadmin/dashboard'
+    | '/superadmin/queue-analytics'
     | '/superadmin/settings'
     | '/superadmin/statistics'
     | '/superadmin/transactions'
+    | '/superadmin/users'
+    | '/verify/$code'
     | '/admin/residents/$id'
     | '/staff/process/$requestId'
     | '/superadmin/residents/$id'
@@ -221,6 +294,7 @@ export interface FileRouteTypes {
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
+  BookRoute: typeof BookRoute
   KioskRoute: typeof KioskRoute
   LoginRoute: typeof LoginRoute
   PendingApprovalRoute: typeof PendingApprovalRoute
@@ -228,11 +302,16 @@ export interface RootRouteChildren {
   AdminLayoutRoute: typeof AdminLayoutRoute
   AdminDashboardRoute: typeof AdminDashboardRoute
   AdminResidentsRoute: typeof AdminResidentsRouteWithChildren
+  StaffAppointmentsRoute: typeof StaffAppointmentsRoute
   StaffQueueRoute: typeof StaffQueueRoute
+  SuperadminAuditRoute: typeof SuperadminAuditRoute
   SuperadminDashboardRoute: typeof SuperadminDashboardRoute
+  SuperadminQueueAnalyticsRoute: typeof SuperadminQueueAnalyticsRoute
   SuperadminSettingsRoute: typeof SuperadminSettingsRoute
   SuperadminStatisticsRoute: typeof SuperadminStatisticsRoute
   SuperadminTransactionsRoute: typeof SuperadminTransactionsRoute
+  SuperadminUsersRoute: typeof SuperadminUsersRoute
+  VerifyCodeRoute: typeof VerifyCodeRoute
   StaffProcessRequestIdRoute: typeof StaffProcessRequestIdRoute
   SuperadminResidentsIdRoute: typeof SuperadminResidentsIdRoute
 }
@@ -267,6 +346,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof KioskRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/book': {
+      id: '/book'
+      path: '/book'
+      fullPath: '/book'
+      preLoaderRoute: typeof BookRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -274,6 +360,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/verify/$code': {
+      id: '/verify/$code'
+      path: '/verify/$code'
+      fullPath: '/verify/$code'
+      preLoaderRoute: typeof VerifyCodeRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/superadmin/users': {
+      id: '/superadmin/users'
+      path: '/superadmin/users'
+      fullPath: '/superadmin/users'
+      preLoaderRoute: typeof SuperadminUsersRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/superadmin/transactions': {
       id: '/superadmin/transactions'
       path: '/superadmin/transactions'
@@ -295,6 +395,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SuperadminSettingsRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/superadmin/queue-analytics': {
+      id: '/superadmin/queue-analytics'
+      path: '/superadmin/queue-analytics'
+      fullPath: '/superadmin/queue-analytics'
+      preLoaderRoute: typeof SuperadminQueueAnalyticsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/superadmin/dashboard': {
       id: '/superadmin/dashboard'
       path: '/superadmin/dashboard'
@@ -302,6 +409,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof SuperadminDashboardRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/superadmin/audit': {
+      id: '/superadmin/audit'
+      path: '/superadmin/audit'
+      fullPath: '/superadmin/audit'
+      preLoaderRoute: typeof SuperadminAuditRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/staff/queue': {
       id: '/staff/queue'
       path: '/staff/queue'
@@ -309,6 +423,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof StaffQueueRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/staff/appointments': {
+      id: '/staff/appointments'
+      path: '/staff/appointments'
+      fullPath: '/staff/appointments'
+      preLoaderRoute: typeof StaffAppointmentsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/admin/residents': {
       id: '/admin/residents'
       path: '/admin/residents'
@@ -368,6 +489,7 @@ const AdminResidentsRouteWithChildren = AdminResidentsRoute._addFileChildren(
 
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
+  BookRoute: BookRoute,
   KioskRoute: KioskRoute,
   LoginRoute: LoginRoute,
   PendingApprovalRoute: PendingApprovalRoute,
@@ -375,11 +497,16 @@ const rootRouteChildren: RootRouteChildren = {
   AdminLayoutRoute: AdminLayoutRoute,
   AdminDashboardRoute: AdminDashboardRoute,
   AdminResidentsRoute: AdminResidentsRouteWithChildren,
+  StaffAppointmentsRoute: StaffAppointmentsRoute,
   StaffQueueRoute: StaffQueueRoute,
+  SuperadminAuditRoute: SuperadminAuditRoute,
   SuperadminDashboardRoute: SuperadminDashboardRoute,
+  SuperadminQueueAnalyticsRoute: SuperadminQueueAnalyticsRoute,
   SuperadminSettingsRoute: SuperadminSettingsRoute,
   SuperadminStatisticsRoute: SuperadminStatisticsRoute,
   SuperadminTransactionsRoute: SuperadminTransactionsRoute,
+  SuperadminUsersRoute: SuperadminUsersRoute,
+  VerifyCodeRoute: VerifyCodeRoute,
   StaffProcessRequestIdRoute: StaffProcessRequestIdRoute,
   SuperadminResidentsIdRoute: SuperadminResidentsIdRoute,
 }
@@ -10,7 +10,8 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import { ArrowLeft, Edit, Save, X, Loader2 } from 'lucide-react'
+import { ResidentMergeDialog } from '@/components/ResidentMergeDialog'
+import { ArrowLeft, Edit, Save, X, Loader2, Merge } from 'lucide-react'
 import { toast } from 'sonner'
 import { format } from 'date-fns'
 
@@ -29,6 +30,7 @@ function ResidentProfileContent() {
   const [isEditing, setIsEditing] = useState(false)
   const [editedData, setEditedData] = useState<any>(null)
   const [isSaving, setIsSaving] = useState(false)
+  const [mergeOpen, setMergeOpen] = useState(false)
 
   const shouldSkipQuery = !authLoaded || !isSignedIn
   const resident = useQuery(
@@ -39,6 +41,10 @@ function ResidentProfileContent() {
     api.documentRequests.listByResident,
     shouldSkipQuery || !resident ? 'skip' : { residentId: resident._id, limit: 100 }
   )
+  const reprints = useQuery(
+    api.certificates.listReprintsByResident,
+    shouldSkipQuery || !resident ? 'skip' : { residentId: resident._id }
+  )
   const updateResident = useMutation(api.residents.update)
 
   // Initialize edited data when resident loads
@@ -283,10 +289,16 @@ function ResidentProfileContent() {
               </div>
             </div>
             {!isEditing ? (
-              <Button onClick={() => setIsEditing(true)}>
-                <Edit className="h-4 w-4 mr-2" />
-                Edit
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setMergeOpen(true)}>
+                  <Merge className="h-4 w-4 mr-2" />
+                  Merge Duplicate
+                </Button>
+                <Button onClick={() => setIsEditing(true)}>
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit
+                </Button>
+              </div>
             ) : (
               <div className="flex gap-2">
                 <Button variant="outline" onClick={handleCancel} disabled={isSaving}>
@@ -604,6 +616,7 @@ function ResidentProfileContent() {
                             <TableHead>Date</TableHead>
                             <TableHead>Status</TableHead>
                             <TableHead>Total Price</TableHead>
+                            <TableHead>Reprints</TableHead>
                           </TableRow>
                         </TableHeader>
                         <TableBody>
@@ -626,12 +639,52 @@ function ResidentProfileContent() {
                                   maximumFractionDigits: 2,
                                 })}
                               </TableCell>
+                              <TableCell>
+                                {reprints?.filter((r) => r.documentRequestId === transaction._id).length || '-'}
+                              </TableCell>
                             </TableRow>
                           ))}
                         </TableBody>
                       </Table>
                     </div>
                   )}
+
+                  {reprints && reprints.length > 0 && (
+                    <div className="mt-6">
+                      <h3 className="text-sm font-semibold mb-2">Reprint History</h3>
+                      <div className="border rounded-lg">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Date</TableHead>
+                              <TableHead>Request Number</TableHead>
+                              <TableHead>Document</TableHead>
+                              <TableHead>Reason</TableHead>
+                              <TableHead>Reprinted By</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {reprints.map((reprint) => (
+                              <TableRow key={reprint._id}>
+                                <TableCell>
+                                  {format(new Date(reprint.printedAt), 'MMM dd, yyyy h:mm a')}
+                                </TableCell>
+                                <TableCell className="font-mono text-sm">
+                                  {reprint.requestNumber}
+                                </TableCell>
+                                <TableCell>
+                                  {reprint.documentTypeName}{' '}
+                                  <Badge variant="outline">#{reprint.reprintCount}</Badge>
+                                </TableCell>
+                                <TableCell>{reprint.reprintReason || '-'}</TableCell>
+                                <TableCell>{reprint.printedByName}</TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             </div>
@@ -673,6 +726,13 @@ function ResidentProfileContent() {
       </div>
     </div>
   </div>
+
+  <ResidentMergeDialog
+    open={mergeOpen}
+    onOpenChange={setMergeOpen}
+    firstId={resident._id}
+    onMerged={(survivorId) => navigate({ to: `/admin/residents/${survivorId}` })}
+  />
 </div>
   )
 }
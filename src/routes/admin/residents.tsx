@@ -1,15 +1,18 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
-import { useState, useMemo, useEffect } from 'react'
-import { useQuery, useMutation } from 'convex/react'
+import { useState, useMemo, useEffect, useId } from 'react'
+import { useConvex, useQuery, useMutation } from 'convex/react'
 import { useAuth } from '@clerk/tanstack-react-start'
 import { api } from '../../../convex/_generated/api'
-import type { Doc } from '../../../convex/_generated/dataModel'
+import type { Doc, Id } from '../../../convex/_generated/dataModel'
+import type { FunctionReturnType } from 'convex/server'
 import { RouteGuard } from '@/lib/route-guards'
 import { AdminSidebarLayout } from '@/components/AdminSidebar'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
 import {
   Table,
   TableBody,
@@ -39,7 +42,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { Search, Plus, MoreVertical, Edit, Trash2, Eye, Upload, ChevronLeft, ChevronRight, Loader2, Save, FileSpreadsheet, CheckCircle2 } from 'lucide-react'
+import { Search, Plus, MoreVertical, Edit, Trash2, Eye, Upload, ChevronLeft, ChevronRight, Loader2, Save, FileSpreadsheet, CheckCircle2, Download, Undo2 } from 'lucide-react'
 import { toast } from 'sonner'
 import { useForm } from '@tanstack/react-form'
 import { format } from 'date-fns'
@@ -53,6 +56,8 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Textarea } from '@/components/ui/textarea'
 import { Separator } from '@/components/ui/separator'
+import { Progress } from '@/components/ui/progress'
+import { downloadCsv, toCsv } from '@/lib/csv'
 
 export const Route = createFileRoute('/admin/residents')({
   component: AdminResidentsPage,
@@ -99,6 +104,136 @@ function calculateAge(birthdate: number): number {
   return age
 }
 
+// Resident spreadsheet columns - the import accepts these headers and the export writes them
+const RESIDENT_COLUMNS = {
+  // Required
+  block: 'Block',
+  lot: 'Lot',
+  lastName: 'Last Name',
+  firstName: 'First Name',
+  middleName: 'Middle Name',
+  suffix: 'Suffix',
+  birthdate: 'Birthdate',
+  sex: 'Sex',
+  phase: 'Phase',
+  purok: 'Purok',
+  civilStatus: 'Civil Status',
+  educationalAttainment: 'Educational Attainment',
+  // Optional
+  residentId: 'Resident ID',
+  occupation: 'Occupation',
+  employmentStatus: 'Employment Status',
+  contactNumber: 'Contact Number',
+  email: 'Email',
+  isResidentVoter: 'Is Resident Voter',
+  isRegisteredVoter: 'Is Registered Voter',
+  isOFW: 'Is OFW',
+  isPWD: 'Is PWD',
+  isOSY: 'Is OSY',
+  isSeniorCitizen: 'Is Senior Citizen',
+  isSoloParent: 'Is Solo Parent',
+  isIP: 'Is IP',
+  isMigrant: 'Is Migrant',
+  estimatedMonthlyIncome: 'Estimated Monthly Income',
+  primarySourceOfLivelihood: 'Primary Source of Livelihood',
+  tenureStatus: 'Tenure Status',
+  housingType: 'Housing Type',
+  constructionType: 'Construction Type',
+  sanitationMethod: 'Sanitation Method',
+  religion: 'Religion',
+  debilitatingDiseases: 'Debilitating Diseases',
+  isBedBound: 'Is Bed Bound',
+  isWheelchairBound: 'Is Wheelchair Bound',
+  isDialysisPatient: 'Is Dialysis Patient',
+  isCancerPatient: 'Is Cancer Patient',
+  isNationalPensioner: 'Is National Pensioner',
+  isLocalPensioner: 'Is Local Pensioner',
+}
+
+// Header spellings seen in purok leaders' spreadsheets (English, Tagalog, Cebuano)
+// Compared after normalizing, so "LAST NAME", "Last_Name" and "lastname" all match
+const COLUMN_SYNONYMS: Record<keyof typeof RESIDENT_COLUMNS, Array<string>> = {
+  block: ['block', 'blk', 'block no', 'blk no'],
+  lot: ['lot', 'lot no'],
+  lastName: ['last name', 'surname', 'family name', 'lname', 'apelyido', 'apelido', 'apilyido'],
+  firstName: ['first name', 'given name', 'fname', 'pangalan', 'unang pangalan', 'ngalan'],
+  middleName: ['middle name', 'middle initial', 'mi', 'mname', 'gitnang pangalan', 'apelyido sa ina'],
+  suffix: ['suffix', 'qualifier', 'ext', 'name extension', 'extension'],
+  birthdate: ['birthdate', 'date of birth', 'dob', 'birthday', 'bday', 'kaarawan', 'petsa ng kapanganakan', 'adlaw sa pagkatawo'],
+  sex: ['sex', 'gender', 'kasarian'],
+  phase: ['phase'],
+  purok: ['purok', 'zone', 'sitio'],
+  civilStatus: ['civil status', 'marital status', 'status', 'katayuang sibil', 'kahimtang sibil'],
+  educationalAttainment: ['educational attainment', 'highest educational attainment', 'education', 'educ', 'antas ng edukasyon', 'natapos'],
+  residentId: ['resident id', 'resident no', 'id no', 'id'],
+  occupation: ['occupation', 'job', 'profession', 'work', 'trabaho', 'hanapbuhay', 'panginabuhian'],
+  employmentStatus: ['employment status', 'employment', 'employed'],
+  contactNumber: ['contact number', 'contact no', 'contact', 'phone', 'mobile', 'mobile no', 'cellphone', 'cp no', 'telepono'],
+  email: ['email', 'e-mail', 'email address'],
+  isResidentVoter: ['resident voter'],
+  isRegisteredVoter: ['registered voter', 'botante'],
+  isOFW: ['ofw'],
+  isPWD: ['pwd', 'person with disability'],
+  isOSY: ['osy', 'out of school youth'],
+  isSeniorCitizen: ['senior citizen', 'senior'],
+  isSoloParent: ['solo parent'],
+  isIP: ['ip', 'indigenous', 'indigenous people'],
+  isMigrant: ['migrant'],
+  estimatedMonthlyIncome: ['estimated monthly income', 'monthly income', 'income', 'kita', 'buwanang kita'],
+  primarySourceOfLivelihood: ['primary source of livelihood', 'source of livelihood', 'livelihood', 'kabuhayan'],
+  tenureStatus: ['tenure status', 'tenure'],
+  housingType: ['housing type', 'housing'],
+  constructionType: ['construction type', 'construction'],
+  sanitationMethod: ['sanitation method', 'sanitation', 'toilet'],
+  religion: ['religion', 'relihiyon'],
+  debilitatingDiseases: ['debilitating diseases', 'diseases', 'illness', 'sakit'],
+  isBedBound: ['bed bound', 'bedridden'],
+  isWheelchairBound: ['wheelchair bound', 'wheelchair'],
+  isDialysisPatient: ['dialysis patient', 'dialysis'],
+  isCancerPatient: ['cancer patient', 'cancer'],
+  isNationalPensioner: ['national pensioner'],
+  isLocalPensioner: ['local pensioner'],
+}
+
+// Lowercase and drop spaces/punctuation; a leading "is" is dropped so "Is PWD" matches "PWD"
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9ñ]/g, '').replace(/^is(?=[a-z]{2})/, '')
+}
+
+// Suggest file header -> import field matches
+// Exact (normalized) matches are claimed first; then headers containing a synonym
+// Each header is used once, so "Last Name" can't also become First Name
+function suggestColumnMapping(fileHeaders: Array<string>): Record<string, string> {
+  const mapping: Record<string, string> = {}
+  const claimed = new Set<string>()
+  const normalized = fileHeaders.map((header) => ({ header, key: normalizeHeader(header) }))
+  const fields = Object.keys(RESIDENT_COLUMNS) as Array<keyof typeof RESIDENT_COLUMNS>
+  const candidates = (field: keyof typeof RESIDENT_COLUMNS) =>
+    [RESIDENT_COLUMNS[field], ...COLUMN_SYNONYMS[field]].map(normalizeHeader)
+
+  for (const field of fields) {
+    const names = candidates(field)
+    const match = normalized.find(({ header, key }) => !claimed.has(header) && names.includes(key))
+    if (match) {
+      mapping[field] = match.header
+      claimed.add(match.header)
+    }
+  }
+
+  // Short synonyms like "mi" or "ip" would match inside unrelated headers
+  for (const field of fields) {
+    if (mapping[field]) continue
+    const names = candidates(field).filter((name) => name.length >= 4)
+    const match = normalized.find(({ header, key }) => !claimed.has(header) && names.some((name) => key.includes(name)))
+    if (match) {
+      mapping[field] = match.header
+      claimed.add(match.header)
+    }
+  }
+
+  return mapping
+}
+
 // Excel Import Dialog Component
 function ExcelImportDialog({
   open,
@@ -109,155 +244,86 @@ function ExcelImportDialog({
   onOpenChange: (open: boolean) => void
   onSuccess: () => void
 }) {
-  const [step, setStep] = useState<'upload' | 'mapping' | 'preview' | 'importing' | 'results'>('upload')
+  const [step, setStep] = useState<'upload' | 'mapping' | 'preview' | 'staging' | 'review' | 'importing' | 'results'>('upload')
   const [file, setFile] = useState<File | null>(null)
   const [parsedData, setParsedData] = useState<any[]>([])
   const [headers, setHeaders] = useState<string[]>([])
   const [columnMapping, setColumnMapping] = useState<Record<string, string>>({})
   const [previewRows, setPreviewRows] = useState<any[]>([])
-  const [importResults, setImportResults] = useState<{
-    successful: number
-    skipped: number
-    errors: Array<{ row: number; error: string }>
-  } | null>(null)
+  const [batchId, setBatchId] = useState<Id<'importBatches'> | null>(null)
+  const [stagedCount, setStagedCount] = useState(0)
   const [isImporting, setIsImporting] = useState(false)
-  const importMutation = useMutation(api.residents.importResidents)
-
-  // Expected columns mapping
-  const expectedColumns = {
-    // Required
-    block: 'Block',
-    lot: 'Lot',
-    lastName: 'Last Name',
-    firstName: 'First Name',
-    middleName: 'Middle Name',
-    suffix: 'Suffix',
-    birthdate: 'Birthdate',
-    sex: 'Sex',
-    phase: 'Phase',
-    purok: 'Purok',
-    civilStatus: 'Civil Status',
-    educationalAttainment: 'Educational Attainment',
-    // Optional
-    residentId: 'Resident ID',
-    occupation: 'Occupation',
-    employmentStatus: 'Employment Status',
-    contactNumber: 'Contact Number',
-    email: 'Email',
-    isResidentVoter: 'Is Resident Voter',
-    isRegisteredVoter: 'Is Registered Voter',
-    isOFW: 'Is OFW',
-    isPWD: 'Is PWD',
-    isOSY: 'Is OSY',
-    isSeniorCitizen: 'Is Senior Citizen',
-    isSoloParent: 'Is Solo Parent',
-    isIP: 'Is IP',
-    isMigrant: 'Is Migrant',
-    estimatedMonthlyIncome: 'Estimated Monthly Income',
-    primarySourceOfLivelihood: 'Primary Source of Livelihood',
-    tenureStatus: 'Tenure Status',
-    housingType: 'Housing Type',
-    constructionType: 'Construction Type',
-    sanitationMethod: 'Sanitation Method',
-    religion: 'Religion',
-    debilitatingDiseases: 'Debilitating Diseases',
-    isBedBound: 'Is Bed Bound',
-    isWheelchairBound: 'Is Wheelchair Bound',
-    isDialysisPatient: 'Is Dialysis Patient',
-    isCancerPatient: 'Is Cancer Patient',
-    isNationalPensioner: 'Is National Pensioner',
-    isLocalPensioner: 'Is Local Pensioner',
+  const [rollbackBatchId, setRollbackBatchId] = useState<Id<'importBatches'> | null>(null)
+  const [isRollingBack, setIsRollingBack] = useState(false)
+  const batch = useQuery(api.residentImports.getBatch, batchId ? { batchId } : 'skip')
+  const createBatch = useMutation(api.residentImports.createBatch)
+  const stageRows = useMutation(api.residentImports.stageRows)
+  const commitChunk = useMutation(api.residentImports.commitChunk)
+  const rollbackChunk = useMutation(api.residentImports.rollbackChunk)
+  const discardBatch = useMutation(api.residentImports.discardBatch)
+  const mappingProfiles = useQuery(api.residentImports.listMappingProfiles, open ? {} : 'skip')
+  const saveMappingProfile = useMutation(api.residentImports.saveMappingProfile)
+  const deleteMappingProfile = useMutation(api.residentImports.deleteMappingProfile)
+  const [profileId, setProfileId] = useState('')
+  const [profileName, setProfileName] = useState('')
+  const profileNameId = useId()
+
+  // The saved profile whose headers all appear in this file, preferring the one that maps the most fields
+  const findMatchingProfile = (fileHeaders: Array<string>) => {
+    const matches = (mappingProfiles ?? []).filter((profile) =>
+      Object.values(profile.mapping).every((header) => fileHeaders.includes(header))
+    )
+    return matches.sort((a, b) => Object.keys(b.mapping).length - Object.keys(a.mapping).length)[0] ?? null
   }
 
-  // Auto-detect column mapping with improved matching
-  const autoDetectMapping = (fileHeaders: string[]) => {
+  // Profile choices win; remaining fields fall back to suggestions for headers the profile didn't use
+  const applyProfile = (profileMapping: Record<string, string>, fileHeaders: Array<string>) => {
     const mapping: Record<string, string> = {}
-    const lowerHeaders = fileHeaders.map(h => h.toLowerCase().trim())
-    
-    // Common variations for each field
-    const fieldVariations: Record<string, string[]> = {
-      block: ['block', 'blk'],
-      lot: ['lot'],
-      lastName: ['last name', 'lastname', 'surname', 'family name'],
-      firstName: ['first name', 'firstname', 'given name', 'name'],
-      middleName: ['middle name', 'middlename', 'middle initial', 'mi'],
-      suffix: ['suffix', 'qualifier', 'jr', 'sr'],
-      birthdate: ['birthdate', 'birth date', 'date of birth', 'dob', 'birthday'],
-      sex: ['sex', 'gender'],
-      phase: ['phase'],
-      purok: ['purok', 'zone'],
-      civilStatus: ['civil status', 'civilstatus', 'marital status', 'status'],
-      educationalAttainment: ['educational attainment', 'education', 'educational', 'educ'],
-      residentId: ['resident id', 'residentid', 'id', 'resident id'],
-      occupation: ['occupation', 'job', 'profession'],
-      employmentStatus: ['employment status', 'employment', 'employed'],
-      contactNumber: ['contact number', 'contact', 'phone', 'mobile', 'cell'],
-      email: ['email', 'e-mail'],
-      isResidentVoter: ['is resident voter', 'resident voter', 'residentvoter'],
-      isRegisteredVoter: ['is registered voter', 'registered voter', 'registeredvoter'],
-      isOFW: ['is ofw', 'ofw'],
-      isPWD: ['is pwd', 'pwd'],
-      isOSY: ['is osy', 'osy'],
-      isSeniorCitizen: ['is senior citizen', 'senior citizen', 'senior'],
-      isSoloParent: ['is solo parent', 'solo parent', 'soloparent'],
-      isIP: ['is ip', 'ip', 'indigenous'],
-      isMigrant: ['is migrant', 'migrant'],
-      estimatedMonthlyIncome: ['estimated monthly income', 'income', 'monthly income'],
-      primarySourceOfLivelihood: ['primary source of livelihood', 'livelihood', 'source'],
-      tenureStatus: ['tenure status', 'tenure'],
-      housingType: ['housing type', 'housing'],
-      constructionType: ['construction type', 'construction'],
-      sanitationMethod: ['sanitation method', 'sanitation'],
-      religion: ['religion'],
-      debilitatingDiseases: ['debilitating diseases', 'diseases', 'health'],
-      isBedBound: ['is bed bound', 'bed bound', 'bedbound'],
-      isWheelchairBound: ['is wheelchair bound', 'wheelchair bound', 'wheelchair'],
-      isDialysisPatient: ['is dialysis patient', 'dialysis'],
-      isCancerPatient: ['is cancer patient', 'cancer'],
-      isNationalPensioner: ['is national pensioner', 'national pensioner'],
-      isLocalPensioner: ['is local pensioner', 'local pensioner'],
+    for (const [field, header] of Object.entries(profileMapping)) {
+      if (fileHeaders.includes(header)) mapping[field] = header
+    }
+    const used = new Set(Object.values(mapping))
+    for (const [field, header] of Object.entries(suggestColumnMapping(fileHeaders))) {
+      if (!mapping[field] && !used.has(header)) mapping[field] = header
     }
-    
-    Object.entries(expectedColumns).forEach(([key, expectedName]) => {
-      const variations = fieldVariations[key] || [expectedName.toLowerCase()]
-      const lowerExpected = expectedName.toLowerCase()
-      
-      // Try exact match first
-      let index = lowerHeaders.findIndex(h => h === lowerExpected)
-      
-      // Try variations
-      if (index === -1) {
-        for (const variation of variations) {
-          index = lowerHeaders.findIndex(h => {
-            const normalizedH = h.toLowerCase().trim()
-            const normalizedVar = variation.toLowerCase().trim()
-            return normalizedH === normalizedVar || 
-                   normalizedH.includes(normalizedVar) || 
-                   normalizedVar.includes(normalizedH) ||
-                   normalizedH.replace(/\s+/g, '') === normalizedVar.replace(/\s+/g, '')
-          })
-          if (index !== -1) break
-        }
-      }
-      
-      // Fallback: partial match
-      if (index === -1) {
-        index = lowerHeaders.findIndex(h => {
-          const normalizedH = h.toLowerCase().trim()
-          const normalizedExpected = lowerExpected.trim()
-          return normalizedH.includes(normalizedExpected) || 
-                 normalizedExpected.includes(normalizedH)
-        })
-      }
-      
-      if (index !== -1) {
-        mapping[key] = fileHeaders[index]
-      }
-    })
-
     return mapping
   }
 
+  const handleSelectProfile = (id: string) => {
+    const profile = mappingProfiles?.find((p) => p._id === id)
+    if (!profile) return
+    setProfileId(id)
+    setProfileName(profile.name)
+    setColumnMapping(applyProfile(profile.mapping, headers))
+    const missing = Object.values(profile.mapping).filter((header) => !headers.includes(header))
+    if (missing.length > 0) {
+      toast.warning(`Not in this file: ${missing.join(', ')}`)
+    }
+  }
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) return
+    try {
+      const id = await saveMappingProfile({ name: profileName.trim(), mapping: columnMapping })
+      setProfileId(id)
+      toast.success(`Mapping saved as "${profileName.trim()}"`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save mapping')
+    }
+  }
+
+  const handleDeleteProfile = async () => {
+    if (!profileId) return
+    try {
+      await deleteMappingProfile({ id: profileId as Id<'importMappingProfiles'> })
+      setProfileId('')
+      setProfileName('')
+      toast.success('Mapping profile deleted')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete mapping profile')
+    }
+  }
+
   // Handle file upload and parsing
   const handleFileSelect = async (selectedFile: File) => {
     if (!selectedFile) {
@@ -356,6 +422,12 @@ function ExcelImportDialog({
             return
           }
 
+          // Saved profile for this file layout if there is one, otherwise synonym suggestions
+          const profile = findMatchingProfile(fileHeaders)
+          const detectedMapping = profile
+            ? applyProfile(profile.mapping, fileHeaders)
+            : suggestColumnMapping(fileHeaders)
+
           // Convert rows to objects
           const rows = jsonData.slice(1).map((row: any[], rowIndex: number) => {
             const obj: any = {}
@@ -365,7 +437,8 @@ function ExcelImportDialog({
               
               // Only convert to date if this column is mapped to birthdate
               const lowerHeader = header.toLowerCase().trim()
-              const isBirthdateColumn = lowerHeader.includes('birthdate') || 
+              const isBirthdateColumn = header === detectedMapping.birthdate ||
+                                       lowerHeader.includes('birthdate') || 
                                        lowerHeader.includes('birth date') || 
                                        lowerHeader.includes('date of birth') || 
                                        lowerHeader === 'dob' ||
@@ -410,10 +483,12 @@ function ExcelImportDialog({
           setHeaders(fileHeaders)
           setParsedData(rows)
           
-          // Auto-detect column mapping
-          const detectedMapping = autoDetectMapping(fileHeaders)
           console.log('Auto-detected mapping:', detectedMapping)
           setColumnMapping(detectedMapping)
+          setProfileId(profile?._id ?? '')
+          if (profile) {
+            toast.info(`Using saved mapping "${profile.name}"`)
+          }
 
           // Check if all required columns are mapped
           const requiredColumns = ['block', 'lot', 'lastName', 'firstName', 'birthdate', 'sex', 'phase', 'purok', 'civilStatus', 'educationalAttainment']
@@ -429,7 +504,7 @@ function ExcelImportDialog({
           } else {
             setStep('mapping')
             const missing = requiredColumns.filter(col => !detectedMapping[col])
-            toast.warning(`File loaded: ${rows.length} rows found. Please map missing columns: ${missing.map(c => expectedColumns[c as keyof typeof expectedColumns]).join(`, `)}`)
+            toast.warning(`File loaded: ${rows.length} rows found. Please map missing columns: ${missing.map(c => RESIDENT_COLUMNS[c as keyof typeof RESIDENT_COLUMNS]).join(`, `)}`)
           }
         } catch (error: any) {
           console.error('Error parsing file:', error)
@@ -453,8 +528,8 @@ function ExcelImportDialog({
     }
   }
 
-  // Handle import
-  const handleImport = async () => {
+  // Phase 1: upload the mapped rows to a staging batch, where each row is validated
+  const handleStage = async () => {
     if (parsedData.length === 0) {
       toast.error('No data to import')
       return
@@ -465,48 +540,119 @@ function ExcelImportDialog({
     const missingColumns = requiredColumns.filter(col => !columnMapping[col])
     
     if (missingColumns.length > 0) {
-      toast.error(`Missing required column mappings: ${missingColumns.map(c => expectedColumns[c as keyof typeof expectedColumns]).join(`, `)}`)
+      toast.error(`Missing required column mappings: ${missingColumns.map(c => RESIDENT_COLUMNS[c as keyof typeof RESIDENT_COLUMNS]).join(`, `)}`)
       return
     }
 
     setIsImporting(true)
-    setStep('importing')
+    setStagedCount(0)
+    setStep('staging')
 
     try {
       // Transform data using column mapping
-      const transformedRows = parsedData.map((row) => {
-        const transformed: any = {}
+      const transformedRows = parsedData.map((row, index) => {
+        const data: Record<string, string> = {}
         Object.entries(columnMapping).forEach(([key, header]) => {
           if (header && row[header] !== undefined) {
-            transformed[key] = row[header]
+            data[key] = String(row[header])
           }
         })
-        return transformed
+        return { rowNumber: index + 1, data }
       })
 
-      // Call import mutation
-      const results = await importMutation({
-        rows: transformedRows,
-        batchSize: 100,
+      const newBatchId = await createBatch({
+        fileName: file?.name ?? 'Import',
+        totalRows: transformedRows.length,
       })
+      setBatchId(newBatchId)
 
-      setImportResults(results)
+      for (let i = 0; i < transformedRows.length; i += IMPORT_STAGE_CHUNK) {
+        const result = await stageRows({
+          batchId: newBatchId,
+          rows: transformedRows.slice(i, i + IMPORT_STAGE_CHUNK),
+        })
+        setStagedCount(result.stagedRows)
+      }
+
+      setStep('review')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to upload rows')
+      setStep('mapping')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  // Phase 2: insert valid rows chunk by chunk; safe to call again to resume
+  const handleCommit = async (id: Id<'importBatches'>) => {
+    setBatchId(id)
+    setIsImporting(true)
+    setStep('importing')
+
+    try {
+      let done = false
+      while (!done) {
+        const result = await commitChunk({ batchId: id })
+        done = result.done
+        if (done) {
+          toast.success(`Imported ${result.importedRows} residents`)
+          if (result.skippedRows > 0) {
+            toast.warning(`${result.skippedRows} rows were skipped`)
+          }
+        }
+      }
       setStep('results')
+    } catch (error) {
+      toast.error(`Import paused: ${error instanceof Error ? error.message : 'Unknown error'}. Resume to continue.`)
+    } finally {
+      setIsImporting(false)
+    }
+  }
 
-      if (results.successful > 0) {
-        toast.success(`Successfully imported ${results.successful} residents`)
+  // Remove every resident a batch created, chunk by chunk
+  const handleRollback = async () => {
+    if (!rollbackBatchId || isRollingBack) return
+    setIsRollingBack(true)
+    try {
+      let result = await rollbackChunk({ batchId: rollbackBatchId })
+      while (!result.done) {
+        result = await rollbackChunk({ batchId: rollbackBatchId })
       }
-      if (results.skipped > 0) {
-        toast.warning(`${results.skipped} rows were skipped`)
+      toast.success('Import rolled back')
+      if (result.keptRows > 0) {
+        toast.warning(`${result.keptRows} residents were kept because they are already in use`)
       }
-    } catch (error: any) {
-      toast.error(`Import failed: ${error.message}`)
-      setStep('mapping')
+      setRollbackBatchId(null)
+      onSuccess()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to roll back import')
     } finally {
-      setIsImporting(false)
+      setIsRollingBack(false)
     }
   }
 
+  // Throw away a batch that was never committed
+  const handleDiscard = async (id: Id<'importBatches'>) => {
+    try {
+      let result = await discardBatch({ batchId: id })
+      while (!result.done) {
+        result = await discardBatch({ batchId: id })
+      }
+      toast.success('Import discarded')
+      if (id === batchId) handleReset()
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to discard import')
+    }
+  }
+
+  // Open a batch from the import history at the step matching its status
+  const handleOpenBatch = (id: Id<'importBatches'>, status: Doc<'importBatches'>['status']) => {
+    setBatchId(id)
+    if (status === 'staged') setStep('review')
+    else if (status === 'committing') handleCommit(id)
+    else setStep('results')
+  }
+
   // Reset dialog
   const handleReset = () => {
     setFile(null)
@@ -514,12 +660,15 @@ function ExcelImportDialog({
     setHeaders([])
     setColumnMapping({})
     setPreviewRows([])
-    setImportResults(null)
+    setBatchId(null)
+    setStagedCount(0)
+    setProfileId('')
+    setProfileName('')
     setStep('upload')
   }
 
   const handleClose = (open: boolean) => {
-    if (!isImporting) {
+    if (!isImporting && !isRollingBack) {
       if (!open) {
         handleReset()
       }
@@ -528,320 +677,919 @@ function ExcelImportDialog({
   }
 
   return (
-    <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
-        <DialogHeader>
-          <DialogTitle className="flex items-center gap-2">
-            <FileSpreadsheet className="h-5 w-5" />
-            Import Residents from Excel
-          </DialogTitle>
-          <DialogDescription>
-            Upload an Excel or CSV file to import resident data in bulk
-          </DialogDescription>
-        </DialogHeader>
-
-        <div className="flex-1 overflow-y-auto">
-          {step === 'upload' && (
-            <div className="space-y-4">
-              <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
-                <Upload className="h-12 w-12 mx-auto mb-4 text-gray-400" />
-                <p className="text-sm text-gray-600 mb-4">
-                  Select an Excel (.xlsx, .xls) or CSV file
-                </p>
-                <input
-                  type="file"
-                  accept=".xlsx,.xls,.csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel,text/csv"
-                  onChange={(e) => {
-                    const selectedFile = e.target.files?.[0]
-                    if (selectedFile) {
-                      console.log('File selected:', selectedFile.name, selectedFile.type)
-                      handleFileSelect(selectedFile)
-                    }
-                    // Reset input so onChange fires even if same file is selected again
-                    e.target.value = ''
-                  }}
-                  className="hidden"
-                  id="excel-file-input"
-                />
-                <label htmlFor="excel-file-input" className="cursor-pointer">
-                  <Button type="button" variant="outline" onClick={() => {
-                    const input = document.getElementById('excel-file-input') as HTMLInputElement
-                    input?.click()
-                  }}>
-                    Choose File
-                  </Button>
-                </label>
-                {file && (
-                  <p className="mt-2 text-sm text-gray-500">{file.name}</p>
-                )}
-              </div>
-              <div className="text-xs text-muted-foreground">
-                <p className="font-semibold mb-2">Required columns:</p>
-                <p>Block, Lot, Last Name, First Name, Birthdate, Sex, Phase, Purok, Civil Status, Educational Attainment</p>
-                <p className="font-semibold mt-3 mb-2">Optional columns:</p>
-                <p>Middle Name, Suffix, Occupation, Employment Status, Contact Number, Email, and all sectoral/health fields</p>
+    <>
+      <Dialog open={open} onOpenChange={handleClose}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="h-5 w-5" />
+              Import Residents from Excel
+            </DialogTitle>
+            <DialogDescription>
+              Upload an Excel or CSV file to import resident data in bulk
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex-1 overflow-y-auto">
+            {step === 'upload' && (
+              <div className="space-y-4">
+                <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+                  <Upload className="h-12 w-12 mx-auto mb-4 text-gray-400" />
+                  <p className="text-sm text-gray-600 mb-4">
+                    Select an Excel (.xlsx, .xls) or CSV file
+                  </p>
+                  <input
+                    type="file"
+                    accept=".xlsx,.xls,.csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,application/vnd.ms-excel,text/csv"
+                    onChange={(e) => {
+                      const selectedFile = e.target.files?.[0]
+                      if (selectedFile) {
+                        console.log('File selected:', selectedFile.name, selectedFile.type)
+                        handleFileSelect(selectedFile)
+                      }
+                      // Reset input so onChange fires even if same file is selected again
+                      e.target.value = ''
+                    }}
+                    className="hidden"
+                    id="excel-file-input"
+                  />
+                  <label htmlFor="excel-file-input" className="cursor-pointer">
+                    <Button type="button" variant="outline" onClick={() => {
+                      const input = document.getElementById('excel-file-input') as HTMLInputElement
+                      input?.click()
+                    }}>
+                      Choose File
+                    </Button>
+                  </label>
+                  {file && (
+                    <p className="mt-2 text-sm text-gray-500">{file.name}</p>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  <p className="font-semibold mb-2">Required columns:</p>
+                  <p>Block, Lot, Last Name, First Name, Birthdate, Sex, Phase, Purok, Civil Status, Educational Attainment</p>
+                  <p className="font-semibold mt-3 mb-2">Optional columns:</p>
+                  <p>Middle Name, Suffix, Occupation, Employment Status, Contact Number, Email, and all sectoral/health fields</p>
+                </div>
+                <ImportHistory
+                  onOpen={handleOpenBatch}
+                  onRollback={setRollbackBatchId}
+                  onDiscard={handleDiscard}
+                />
               </div>
-            </div>
-          )}
+            )}
 
-          {step === 'mapping' && (
-            <div className="space-y-4">
-              <div>
-                <h3 className="font-semibold mb-2">Column Mapping</h3>
-                <p className="text-sm text-muted-foreground mb-4">
-                  Map your Excel columns to the system fields. Required fields are marked with *
-                </p>
-              </div>
-              <div className="space-y-3 max-h-[400px] overflow-y-auto">
-                {Object.entries(expectedColumns).map(([key, label]) => {
-                  const isRequired = ['block', 'lot', 'lastName', 'firstName', 'birthdate', 'sex', 'phase', 'purok', 'civilStatus', 'educationalAttainment'].includes(key)
-                  return (
-                    <div key={key} className="flex items-center gap-4">
-                      <div className="w-48 text-sm font-medium">
-                        {label} {isRequired && <span className="text-red-500">*</span>}
+            {step === 'mapping' && (
+              <div className="space-y-4">
+                <div>
+                  <h3 className="font-semibold mb-2">Column Mapping</h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Map your Excel columns to the system fields. Required fields are marked with *
+                  </p>
+                </div>
+                <div className="flex flex-wrap items-end gap-2 border rounded-lg p-3 bg-gray-50">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Saved mapping</Label>
+                    <Select value={profileId} onValueChange={handleSelectProfile}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder={mappingProfiles?.length ? 'Choose a profile...' : 'No saved profiles'} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {mappingProfiles?.map((profile) => (
+                          <SelectItem key={profile._id} value={profile._id}>
+                            {profile.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {profileId && (
+                    <Button variant="ghost" size="sm" onClick={handleDeleteProfile}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  )}
+                  <div className="space-y-1 ml-auto">
+                    <Label htmlFor={profileNameId} className="text-xs">Save this mapping as</Label>
+                    <Input
+                      id={profileNameId}
+                      value={profileName}
+                      onChange={(e) => setProfileName(e.target.value)}
+                      placeholder="e.g. Purok 3 template"
+                      className="w-56"
+                    />
+                  </div>
+                  <Button variant="outline" onClick={handleSaveProfile} disabled={!profileName.trim()}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </Button>
+                </div>
+                <div className="space-y-3 max-h-[400px] overflow-y-auto">
+                  {Object.entries(RESIDENT_COLUMNS).map(([key, label]) => {
+                    const isRequired = ['block', 'lot', 'lastName', 'firstName', 'birthdate', 'sex', 'phase', 'purok', 'civilStatus', 'educationalAttainment'].includes(key)
+                    return (
+                      <div key={key} className="flex items-center gap-4">
+                        <div className="w-48 text-sm font-medium">
+                          {label} {isRequired && <span className="text-red-500">*</span>}
+                        </div>
+                        <Select
+                          value={columnMapping[key] || ''}
+                          onValueChange={(value) => {
+                            setColumnMapping(prev => ({
+                              ...prev,
+                              [key]: value === 'none' ? '' : value,
+                            }))
+                          }}
+                        >
+                          <SelectTrigger className="flex-1">
+                            <SelectValue placeholder="Select column..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">-- None --</SelectItem>
+                            {headers.map((header) => (
+                              <SelectItem key={header} value={header}>
+                                {header}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
-                      <Select
-                        value={columnMapping[key] || ''}
-                        onValueChange={(value) => {
-                          setColumnMapping(prev => ({
-                            ...prev,
-                            [key]: value === 'none' ? '' : value,
-                          }))
-                        }}
-                      >
-                        <SelectTrigger className="flex-1">
-                          <SelectValue placeholder="Select column..." />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="none">-- None --</SelectItem>
-                          {headers.map((header) => (
-                            <SelectItem key={header} value={header}>
-                              {header}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  )
-                })}
-              </div>
+                    )
+                  })}
+                </div>
 
-              <div className="mt-4">
-                <h3 className="font-semibold mb-2">Preview (First 10 rows)</h3>
-                <div className="border rounded-lg overflow-auto max-h-[300px]">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        {Object.entries(columnMapping)
-                          .filter(([_, header]) => header)
-                          .map(([key, header]) => (
-                            <TableHead key={key} className="text-xs">
-                              {expectedColumns[key as keyof typeof expectedColumns]}
-                            </TableHead>
-                          ))}
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {previewRows.map((row, idx) => (
-                        <TableRow key={idx}>
+                <div className="mt-4">
+                  <h3 className="font-semibold mb-2">Preview (First 10 rows)</h3>
+                  <div className="border rounded-lg overflow-auto max-h-[300px]">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
                           {Object.entries(columnMapping)
                             .filter(([_, header]) => header)
                             .map(([key, header]) => (
-                              <TableCell key={key} className="text-xs">
-                                {row[header] || '-'}
-                              </TableCell>
+                              <TableHead key={key} className="text-xs">
+                                {RESIDENT_COLUMNS[key as keyof typeof RESIDENT_COLUMNS]}
+                              </TableHead>
                             ))}
                         </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
+                      </TableHeader>
+                      <TableBody>
+                        {previewRows.map((row, idx) => (
+                          <TableRow key={idx}>
+                            {Object.entries(columnMapping)
+                              .filter(([_, header]) => header)
+                              .map(([key, header]) => (
+                                <TableCell key={key} className="text-xs">
+                                  {row[header] || '-'}
+                                </TableCell>
+                              ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
                 </div>
               </div>
-            </div>
-          )}
+            )}
 
-          {step === 'preview' && (
-            <div className="space-y-4">
-              <div className="bg-green-50 border border-green-200 rounded-lg p-4">
-                <div className="flex items-center gap-2 text-green-800">
-                  <CheckCircle2 className="h-5 w-5" />
-                  <p className="font-semibold">All required columns auto-detected!</p>
+            {step === 'preview' && (
+              <div className="space-y-4">
+                <div className="bg-green-50 border border-green-200 rounded-lg p-4">
+                  <div className="flex items-center gap-2 text-green-800">
+                    <CheckCircle2 className="h-5 w-5" />
+                    <p className="font-semibold">All required columns auto-detected!</p>
+                  </div>
+                  <p className="text-sm text-green-700 mt-2">
+                    Review the preview below and click "Import" to proceed.
+                  </p>
                 </div>
-                <p className="text-sm text-green-700 mt-2">
-                  Review the preview below and click "Import" to proceed.
-                </p>
-              </div>
               
-              <div>
-                <h3 className="font-semibold mb-2">Preview (First 10 rows)</h3>
-                <div className="border rounded-lg overflow-auto max-h-[400px]">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        {Object.entries(columnMapping)
-                          .filter(([_, header]) => header)
-                          .map(([key, header]) => (
-                            <TableHead key={key} className="text-xs">
-                              {expectedColumns[key as keyof typeof expectedColumns]}
-                            </TableHead>
-                          ))}
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {previewRows.map((row, idx) => (
-                        <TableRow key={idx}>
-                          {Object.entries(columnMapping)
-                            .filter(([_, header]) => header)
-                            .map(([key, header]) => (
-                              <TableCell key={key} className="text-xs">
-                                {row[header] || '-'}
-                              </TableCell>
-                            ))}
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                </div>
-                <p className="text-xs text-muted-foreground mt-2">
-                  Total rows to import: {parsedData.length}
-                </p>
-              </div>
-            </div>
-          )}
-
-          {step === 'importing' && (
-            <div className="flex flex-col items-center justify-center py-8">
-              <Loader2 className="h-12 w-12 animate-spin text-primary mb-4" />
-              <p className="text-lg font-medium">Importing residents...</p>
-              <p className="text-sm text-muted-foreground mt-2">
-                Processing {parsedData.length} rows in batches of 100
-              </p>
-            </div>
-          )}
-
-          {step === 'results' && importResults && (
-            <div className="space-y-4">
-              <div className="grid grid-cols-3 gap-4">
-                <Card>
-                  <CardContent className="pt-6">
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-green-600">
-                        {importResults.successful}
-                      </div>
-                      <div className="text-sm text-muted-foreground">Successful</div>
-                    </div>
-                  </CardContent>
-                </Card>
-                <Card>
-                  <CardContent className="pt-6">
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-yellow-600">
-                        {importResults.skipped}
-                      </div>
-                      <div className="text-sm text-muted-foreground">Skipped</div>
-                    </div>
-                  </CardContent>
-                </Card>
-                <Card>
-                  <CardContent className="pt-6">
-                    <div className="text-center">
-                      <div className="text-2xl font-bold text-red-600">
-                        {importResults.errors.length}
-                      </div>
-                      <div className="text-sm text-muted-foreground">Errors</div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </div>
-
-              {importResults.errors.length > 0 && (
                 <div>
-                  <h3 className="font-semibold mb-2">Errors:</h3>
-                  <div className="border rounded-lg overflow-auto max-h-[300px]">
+                  <h3 className="font-semibold mb-2">Preview (First 10 rows)</h3>
+                  <div className="border rounded-lg overflow-auto max-h-[400px]">
                     <Table>
                       <TableHeader>
                         <TableRow>
-                          <TableHead>Row</TableHead>
-                          <TableHead>Error</TableHead>
+                          {Object.entries(columnMapping)
+                            .filter(([_, header]) => header)
+                            .map(([key, header]) => (
+                              <TableHead key={key} className="text-xs">
+                                {RESIDENT_COLUMNS[key as keyof typeof RESIDENT_COLUMNS]}
+                              </TableHead>
+                            ))}
                         </TableRow>
                       </TableHeader>
                       <TableBody>
-                        {importResults.errors.map((error, idx) => (
+                        {previewRows.map((row, idx) => (
                           <TableRow key={idx}>
-                            <TableCell>{error.row}</TableCell>
-                            <TableCell className="text-red-600">{error.error}</TableCell>
+                            {Object.entries(columnMapping)
+                              .filter(([_, header]) => header)
+                              .map(([key, header]) => (
+                                <TableCell key={key} className="text-xs">
+                                  {row[header] || '-'}
+                                </TableCell>
+                              ))}
                           </TableRow>
                         ))}
                       </TableBody>
                     </Table>
                   </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Total rows to import: {parsedData.length}
+                  </p>
                 </div>
-              )}
-            </div>
-          )}
-        </div>
+              </div>
+            )}
 
-        <DialogFooter>
-          {step === 'upload' && (
-            <>
-              <Button variant="outline" onClick={() => handleClose(false)}>
-                Cancel
-              </Button>
-            </>
-          )}
-          {step === 'mapping' && (
-            <>
-              <Button variant="outline" onClick={() => setStep("upload")}>
-                Back
-              </Button>
-              <Button onClick={handleImport} disabled={isImporting}>
-                {isImporting ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Importing...
-                  </>
+            {step === 'staging' && (
+              <div className="flex flex-col items-center justify-center py-8 gap-4">
+                <Loader2 className="h-12 w-12 animate-spin text-primary" />
+                <p className="text-lg font-medium">Checking rows...</p>
+                <Progress value={(stagedCount / Math.max(parsedData.length, 1)) * 100} className="w-80" />
+                <p className="text-sm text-muted-foreground">
+                  {stagedCount} of {parsedData.length} rows uploaded and validated
+                </p>
+              </div>
+            )}
+
+            {step === 'review' && batchId && batch && (
+              <div className="space-y-4">
+                {batch.problemRows === 0 ? (
+                  <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-center gap-2 text-green-800">
+                    <CheckCircle2 className="h-5 w-5" />
+                    <p className="font-semibold">All {batch.totalRows} rows are ready to import</p>
+                  </div>
                 ) : (
-                  <>
-                    <Upload className="h-4 w-4 mr-2" />
-                    Import {parsedData.length} Rows
-                  </>
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-amber-800">
+                    <p className="font-semibold">
+                      {batch.problemRows} of {batch.totalRows} rows need attention
+                    </p>
+                    <p className="text-sm mt-1">
+                      Fix the highlighted cells, or confirm a possible duplicate is a different person.
+                      Rows still marked will be skipped.
+                    </p>
+                  </div>
                 )}
-              </Button>
-            </>
-          )}
-          {step === 'preview' && (
-            <>
-              <Button variant="outline" onClick={() => handleClose(false)}>
-                Cancel
-              </Button>
-              <Button onClick={handleImport} disabled={isImporting}>
-                {isImporting ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Importing...
-                  </>
-                ) : (
+                <ImportReviewGrid batchId={batchId} />
+              </div>
+            )}
+
+            {step === 'importing' && (
+              <div className="flex flex-col items-center justify-center py-8 gap-4">
+                {isImporting && <Loader2 className="h-12 w-12 animate-spin text-primary" />}
+                <p className="text-lg font-medium">{isImporting ? 'Importing residents...' : 'Import paused'}</p>
+                {batch && (
                   <>
-                    <Upload className="h-4 w-4 mr-2" />
-                    Import {parsedData.length} Rows
+                    <Progress
+                      value={((batch.importedRows + batch.skippedRows) / Math.max(batch.totalRows, 1)) * 100}
+                      className="w-80"
+                    />
+                    <p className="text-sm text-muted-foreground">
+                      {batch.importedRows + batch.skippedRows} of {batch.totalRows} rows processed
+                    </p>
                   </>
                 )}
+                {!isImporting && (
+                  <p className="text-sm text-muted-foreground">
+                    Rows already imported stay in place. Resume to continue from where it stopped.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {step === 'results' && batchId && batch && (
+              <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-green-600">
+                          {batch.importedRows}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {batch.status === 'rolled_back' ? 'Kept After Rollback' : 'Imported'}
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="text-center">
+                        <div className="text-2xl font-bold text-yellow-600">
+                          {batch.skippedRows}
+                        </div>
+                        <div className="text-sm text-muted-foreground">Skipped</div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="pt-6">
+                      <div className="text-center">
+                        <div className="text-2xl font-bold">
+                          {batch.totalRows}
+                        </div>
+                        <div className="text-sm text-muted-foreground">Rows in File</div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+
+                {batch.skippedRows > 0 && (
+                  <div>
+                    <h3 className="font-semibold mb-2">Skipped rows:</h3>
+                    <ImportSkippedRows batchId={batchId} />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            {step === 'upload' && (
+              <>
+                <Button variant="outline" onClick={() => handleClose(false)}>
+                  Cancel
+                </Button>
+              </>
+            )}
+            {step === 'mapping' && (
+              <>
+                <Button variant="outline" onClick={() => setStep("upload")}>
+                  Back
+                </Button>
+                <Button onClick={handleStage} disabled={isImporting}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Check {parsedData.length} Rows
+                </Button>
+              </>
+            )}
+            {step === 'preview' && (
+              <>
+                <Button variant="outline" onClick={() => handleClose(false)}>
+                  Cancel
+                </Button>
+                <Button variant="outline" onClick={() => setStep('mapping')}>
+                  Edit Mapping
+                </Button>
+                <Button onClick={handleStage} disabled={isImporting}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Check {parsedData.length} Rows
+                </Button>
+              </>
+            )}
+            {step === 'review' && batchId && batch && (
+              <>
+                <Button variant="outline" onClick={() => handleDiscard(batchId)}>
+                  Discard
+                </Button>
+                <Button
+                  onClick={() => handleCommit(batchId)}
+                  disabled={batch.totalRows === batch.problemRows}
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import {batch.totalRows - batch.problemRows} Rows
+                </Button>
+              </>
+            )}
+            {step === 'importing' && batchId && !isImporting && (
+              <>
+                <Button variant="outline" onClick={() => setRollbackBatchId(batchId)}>
+                  Roll Back
+                </Button>
+                <Button onClick={() => handleCommit(batchId)}>
+                  Resume
+                </Button>
+              </>
+            )}
+            {step === 'results' && (
+              <>
+                {batchId && batch?.status === 'committed' && (
+                  <Button variant="outline" onClick={() => setRollbackBatchId(batchId)}>
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Roll Back Import
+                  </Button>
+                )}
+                <Button variant="outline" onClick={handleReset}>
+                  Import Another File
+                </Button>
+                <Button onClick={() => {
+                  onSuccess()
+                  handleClose(false)
+                }}>
+                  Done
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rollback Confirmation Dialog */}
+      <Dialog
+        open={rollbackBatchId !== null}
+        onOpenChange={(next) => !next && !isRollingBack && setRollbackBatchId(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Roll Back Import</DialogTitle>
+            <DialogDescription>
+              Every resident this import created will be deleted, along with households it created.
+              Residents that already have document requests, a family link, appointments or merged records are
+              kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRollbackBatchId(null)} disabled={isRollingBack}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleRollback} disabled={isRollingBack}>
+              {isRollingBack ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Undo2 className="h-4 w-4 mr-2" />
+              )}
+              Roll Back
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
+
+// Rows per stageRows call (the server accepts up to 200)
+const IMPORT_STAGE_CHUNK = 200
+
+const IMPORT_STATUS_LABELS: Record<Doc<'importBatches'>['status'], string> = {
+  staging: 'Uploading',
+  staged: 'Ready for Review',
+  committing: 'Paused',
+  committed: 'Imported',
+  rolling_back: 'Rolling Back',
+  rolled_back: 'Rolled Back',
+}
+
+// Import History Component - resume, review or roll back earlier imports
+function ImportHistory({
+  onOpen,
+  onRollback,
+  onDiscard,
+}: {
+  onOpen: (batchId: Id<'importBatches'>, status: Doc<'importBatches'>['status']) => void
+  onRollback: (batchId: Id<'importBatches'>) => void
+  onDiscard: (batchId: Id<'importBatches'>) => void
+}) {
+  const batches = useQuery(api.residentImports.listBatches, {})
+
+  if (!batches || batches.length === 0) return null
+
+  return (
+    <div>
+      <h3 className="font-semibold mb-2">Recent Imports</h3>
+      <div className="border rounded-lg overflow-auto max-h-[240px]">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>File</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Imported</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {batches.map((batch) => (
+              <TableRow key={batch._id}>
+                <TableCell className="text-sm">
+                  <div className="font-medium">{batch.fileName}</div>
+                  <div className="text-xs text-muted-foreground">{batch.createdByName}</div>
+                </TableCell>
+                <TableCell className="text-sm">{format(new Date(batch.createdAt), 'MMM d, yyyy h:mm a')}</TableCell>
+                <TableCell>
+                  <Badge variant={batch.status === 'committed' ? 'default' : 'outline'}>
+                    {IMPORT_STATUS_LABELS[batch.status]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {batch.importedRows} / {batch.totalRows}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    {batch.status === 'staged' && (
+                      <Button variant="outline" size="sm" onClick={() => onOpen(batch._id, batch.status)}>
+                        Review
+                      </Button>
+                    )}
+                    {batch.status === 'committing' && (
+                      <Button variant="outline" size="sm" onClick={() => onOpen(batch._id, batch.status)}>
+                        Resume
+                      </Button>
+                    )}
+                    {(batch.status === 'staging' || batch.status === 'staged') && (
+                      <Button variant="ghost" size="sm" onClick={() => onDiscard(batch._id)}>
+                        Discard
+                      </Button>
+                    )}
+                    {(batch.status === 'committing' ||
+                      batch.status === 'committed' ||
+                      batch.status === 'rolling_back') && (
+                      <Button variant="ghost" size="sm" onClick={() => onRollback(batch._id)}>
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Roll Back
+                      </Button>
+                    )}
+                    {(batch.status === 'committed' || batch.status === 'rolled_back') && (
+                      <Button variant="ghost" size="sm" onClick={() => onOpen(batch._id, batch.status)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  )
+}
+
+// Editable staged cell - saves on blur, red when the server flagged it
+function ImportCell({
+  value,
+  error,
+  onSave,
+}: {
+  value: string
+  error?: string
+  onSave: (value: string) => void
+}) {
+  const [draft, setDraft] = useState(value)
+
+  useEffect(() => {
+    setDraft(value)
+  }, [value])
+
+  return (
+    <Input
+      value={draft}
+      title={error}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => draft !== value && onSave(draft)}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      className={`h-8 text-xs min-w-[110px] ${error ? 'border-red-500 bg-red-50' : ''}`}
+    />
+  )
+}
+
+// Import Review Grid Component - per-row validation with inline fixes
+function ImportReviewGrid({ batchId }: { batchId: Id<'importBatches'> }) {
+  const [filter, setFilter] = useState<'problems' | 'all'>('problems')
+  // Last row number of each previous page, for Back
+  const [pageStarts, setPageStarts] = useState<Array<number>>([])
+  const afterRowNumber = pageStarts[pageStarts.length - 1] ?? 0
+  const result = useQuery(api.residentImports.listRows, { batchId, filter, afterRowNumber, limit: 25 })
+  const updateRow = useMutation(api.residentImports.updateRow)
+
+  const requiredFields = ['lastName', 'firstName', 'birthdate', 'sex', 'civilStatus', 'educationalAttainment', 'block', 'lot', 'phase', 'purok']
+  // Required fields plus any other field flagged on this page
+  const fields = [
+    ...requiredFields,
+    ...[...new Set(result?.rows.flatMap((row) => row.errors.map((error) => error.field)) ?? [])].filter(
+      (field) => !requiredFields.includes(field)
+    ),
+  ]
+
+  const handleSave = async (rowId: Id<'importRows'>, changes: { data?: Record<string, string>; importAnyway?: boolean }) => {
+    try {
+      await updateRow({ rowId, ...changes })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update row')
+    }
+  }
+
+  const changeFilter = (value: 'problems' | 'all') => {
+    setFilter(value)
+    setPageStarts([])
+  }
+
+  return (
+    <div className="space-y-2">
+      <Tabs value={filter} onValueChange={(value) => changeFilter(value as 'problems' | 'all')}>
+        <TabsList>
+          <TabsTrigger value="problems">Needs Attention</TabsTrigger>
+          <TabsTrigger value="all">All Rows</TabsTrigger>
+        </TabsList>
+      </Tabs>
+      {result === undefined ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : result.rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          {filter === 'problems' ? 'No rows need attention.' : 'No rows.'}
+        </p>
+      ) : (
+        <div className="border rounded-lg overflow-auto max-h-[420px]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Row</TableHead>
+                <TableHead className="text-xs min-w-[200px]">Problems</TableHead>
+                {fields.map((field) => (
+                  <TableHead key={field} className="text-xs">
+                    {RESIDENT_COLUMNS[field as keyof typeof RESIDENT_COLUMNS] ?? field}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.rows.map((row) => {
+                const errorByField = new Map(row.errors.map((error) => [error.field, error.message]))
+                return (
+                  <TableRow key={row._id}>
+                    <TableCell className="text-xs font-mono">{row.rowNumber}</TableCell>
+                    <TableCell className="text-xs space-y-1">
+                      {row.errors.map((error) => (
+                        <div key={error.field} className="text-red-600">
+                          {RESIDENT_COLUMNS[error.field as keyof typeof RESIDENT_COLUMNS] ?? error.field}: {error.message}
+                        </div>
+                      ))}
+                      {row.duplicateOf && (
+                        <div className="flex items-center gap-2 text-amber-700">
+                          <Checkbox
+                            id={`${row._id}-anyway`}
+                            checked={row.importAnyway === true}
+                            onCheckedChange={(checked) => handleSave(row._id, { importAnyway: checked === true })}
+                          />
+                          <Label htmlFor={`${row._id}-anyway`} className="text-xs font-normal cursor-pointer">
+                            Possible duplicate of {row.duplicateOf.residentId} ({row.duplicateOf.name}) - import anyway
+                          </Label>
+                        </div>
+                      )}
+                      {!row.hasProblems && <span className="text-green-700">Ready</span>}
+                    </TableCell>
+                    {fields.map((field) => (
+                      <TableCell key={field}>
+                        <ImportCell
+                          value={row.data[field] ?? ''}
+                          error={errorByField.get(field)}
+                          onSave={(value) => handleSave(row._id, { data: { [field]: value } })}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setPageStarts((prev) => prev.slice(0, -1))}
+          disabled={pageStarts.length === 0}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => result && setPageStarts((prev) => [...prev, result.rows[result.rows.length - 1].rowNumber])}
+          disabled={!result?.hasMore}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// Skipped rows of a committed import with the reason for each
+function ImportSkippedRows({ batchId }: { batchId: Id<'importBatches'> }) {
+  const result = useQuery(api.residentImports.listRows, { batchId, filter: 'skipped', limit: 200 })
+
+  return (
+    <div className="border rounded-lg overflow-auto max-h-[300px]">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Row</TableHead>
+            <TableHead>Name</TableHead>
+            <TableHead>Reason</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {result?.rows.map((row) => (
+            <TableRow key={row._id}>
+              <TableCell>{row.rowNumber}</TableCell>
+              <TableCell>
+                {row.data.firstName} {row.data.lastName}
+              </TableCell>
+              <TableCell className="text-red-600">
+                {row.skipReason}
+                {row.errors.length > 0 && `: ${row.errors.map((error) => error.message).join('; ')}`}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {result?.hasMore && (
+        <p className="text-xs text-muted-foreground p-2">Showing the first 200 skipped rows.</p>
+      )}
+    </div>
+  )
+}
+
+// Filters shared by the residents table and the export
+type ResidentFilters = {
+  status?: 'resident' | 'deceased' | 'moved' | 'pending'
+  purok?: string
+  phase?: string
+  gender?: 'male' | 'female' | 'other'
+} & Partial<Record<SectorFilter, boolean>>
+
+type SectorFilter =
+  | 'isOFW'
+  | 'isPWD'
+  | 'isOSY'
+  | 'isSeniorCitizen'
+  | 'isSoloParent'
+  | 'isIP'
+  | 'isMigrant'
+  | 'isResidentVoter'
+  | 'isRegisteredVoter'
+
+const SECTOR_FILTERS: Record<SectorFilter, string> = {
+  isSeniorCitizen: 'Senior Citizens',
+  isPWD: 'PWD',
+  isSoloParent: 'Solo Parents',
+  isOFW: 'OFW',
+  isOSY: 'Out-of-School Youth',
+  isIP: 'Indigenous People',
+  isMigrant: 'Migrants',
+  isResidentVoter: 'Resident Voters',
+  isRegisteredVoter: 'Registered Voters',
+}
+
+// Convert a resident field to the text the import accepts back
+function toExportCell(resident: Doc<'residents'>, key: keyof typeof RESIDENT_COLUMNS): string | number {
+  if (key === 'birthdate') return format(new Date(resident.birthdate), 'yyyy-MM-dd')
+  const value = resident[key]
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No'
+  return value ?? ''
+}
+
+// Resident Export Dialog Component
+function ResidentExportDialog({
+  open,
+  onOpenChange,
+  filters,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  filters: ResidentFilters
+}) {
+  const convex = useConvex()
+  const allColumns = Object.keys(RESIDENT_COLUMNS) as Array<keyof typeof RESIDENT_COLUMNS>
+  const [columns, setColumns] = useState<Array<keyof typeof RESIDENT_COLUMNS>>(allColumns)
+  const [fileType, setFileType] = useState<'xlsx' | 'csv'>('xlsx')
+  const [isExporting, setIsExporting] = useState(false)
+  const [fetchedCount, setFetchedCount] = useState(0)
+  const columnsId = useId()
+
+  const requiredColumns = allColumns.slice(0, allColumns.indexOf('residentId'))
+  const missingRequired = requiredColumns.filter((key) => !columns.includes(key))
+
+  const toggleColumn = (key: keyof typeof RESIDENT_COLUMNS, checked: boolean) => {
+    // Keep the import column order no matter the click order
+    setColumns((prev) => allColumns.filter((c) => (c === key ? checked : prev.includes(c))))
+  }
+
+  const handleExport = async () => {
+    if (columns.length === 0 || isExporting) return
+    setIsExporting(true)
+    setFetchedCount(0)
+    try {
+      // Page through Convex so large barangays stay under per-query read limits
+      const residents: Array<Doc<'residents'>> = []
+      let cursor: string | null = null
+      let isDone = false
+      while (!isDone) {
+        const result: FunctionReturnType<typeof api.residents.exportPage> = await convex.query(api.residents.exportPage, {
+          ...filters,
+          paginationOpts: { numItems: 500, cursor },
+        })
+        residents.push(...result.page)
+        setFetchedCount(residents.length)
+        cursor = result.continueCursor
+        isDone = result.isDone
+      }
+
+      if (residents.length === 0) {
+        toast.error('No residents match the current filters')
+        return
+      }
+
+      const header = columns.map((key) => RESIDENT_COLUMNS[key])
+      const rows = residents.map((resident) => columns.map((key) => toExportCell(resident, key)))
+      const filename = `residents-${format(new Date(), 'yyyyMMdd-HHmm')}`
+
+      if (fileType === 'csv') {
+        downloadCsv(toCsv(header, rows), `${filename}.csv`)
+      } else {
+        const XLSX = await import('xlsx')
+        const worksheet = XLSX.utils.aoa_to_sheet([header, ...rows])
+        const workbook = XLSX.utils.book_new()
+        XLSX.utils.book_append_sheet(workbook, worksheet, 'Residents')
+        XLSX.writeFile(workbook, `${filename}.xlsx`)
+      }
+      toast.success(`Exported ${residents.length} residents`)
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export residents')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isExporting && onOpenChange(next)}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Export Residents
+          </DialogTitle>
+          <DialogDescription>
+            Exports every resident matching the current filters (search text is not applied). The
+            file uses the import layout, so it can be edited and imported back.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Select value={fileType} onValueChange={(value) => setFileType(value as 'xlsx' | 'csv')}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                <SelectItem value="csv">CSV (.csv)</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setColumns(allColumns)}>
+                All Columns
               </Button>
-            </>
-          )}
-          {step === 'results' && (
-            <>
-              <Button variant="outline" onClick={handleReset}>
-                Import Another File
-              </Button>
-              <Button onClick={() => {
-                onSuccess()
-                handleClose(false)
-              }}>
-                Done
+              <Button variant="outline" size="sm" onClick={() => setColumns(requiredColumns)}>
+                Required Only
               </Button>
-            </>
+            </div>
+          </div>
+
+          <div className="border rounded-lg p-3 grid grid-cols-2 md:grid-cols-3 gap-2">
+            {allColumns.map((key) => (
+              <div key={key} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${columnsId}-${key}`}
+                  checked={columns.includes(key)}
+                  onCheckedChange={(checked) => toggleColumn(key, checked === true)}
+                />
+                <Label htmlFor={`${columnsId}-${key}`} className="font-normal cursor-pointer">
+                  {RESIDENT_COLUMNS[key]}
+                  {requiredColumns.includes(key) && <span className="text-red-500">*</span>}
+                </Label>
+              </div>
+            ))}
+          </div>
+
+          {missingRequired.length > 0 && (
+            <p className="text-sm text-amber-700">
+              Without {missingRequired.map((key) => RESIDENT_COLUMNS[key]).join(', ')} the file can't be
+              imported back as-is.
+            </p>
           )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={columns.length === 0 || isExporting}>
+            {isExporting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                {fetchedCount > 0 ? `Fetched ${fetchedCount}...` : 'Exporting...'}
+              </>
+            ) : (
+              <>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </>
+            )}
+          </Button>
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -856,6 +1604,9 @@ function ResidentsManagementSection() {
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [genderFilter, setGenderFilter] = useState<string>('all')
+  const [purokFilter, setPurokFilter] = useState<string>('all')
+  const [phaseFilter, setPhaseFilter] = useState('')
+  const [sectorFilter, setSectorFilter] = useState<string>('all')
   const [currentPage, setCurrentPage] = useState(1)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [residentToDelete, setResidentToDelete] = useState<string | null>(null)
@@ -864,6 +1615,7 @@ function ResidentsManagementSection() {
   const [editDialogOpen, setEditDialogOpen] = useState(false)
   const [residentToEdit, setResidentToEdit] = useState<Doc<'residents'> | null>(null)
   const [importDialogOpen, setImportDialogOpen] = useState(false)
+  const [exportDialogOpen, setExportDialogOpen] = useState(false)
   // ✅ OPTIMIZATION: Refresh key to force query refetch after mutations
   const [refreshKey, setRefreshKey] = useState(0)
 
@@ -886,20 +1638,30 @@ function ResidentsManagementSection() {
   // Reset page when filters change
   useEffect(() => {
     setCurrentPage(1)
-  }, [statusFilter, genderFilter])
+  }, [statusFilter, genderFilter, purokFilter, phaseFilter, sectorFilter])
 
   const shouldSkipQuery = !authLoaded || !isSignedIn
   const offset = (currentPage - 1) * PAGE_SIZE
 
-  // ✅ OPTIMIZED: Query residents with all filters (server-side: status, gender)
+  const puroks = useQuery(api.residents.getUniquePuroks, shouldSkipQuery ? 'skip' : {})
+
+  // Same filters drive the table and the export
+  const filters: ResidentFilters = {
+    status: statusFilter !== 'all' ? (statusFilter as ResidentFilters['status']) : undefined,
+    gender: genderFilter !== 'all' ? (genderFilter as ResidentFilters['gender']) : undefined,
+    purok: purokFilter !== 'all' ? purokFilter : undefined,
+    phase: phaseFilter.trim() || undefined,
+    ...(sectorFilter !== 'all' ? { [sectorFilter]: true } : {}),
+  }
+
+  // ✅ OPTIMIZED: Query residents with all filters (server-side: status, gender, purok, phase, sector)
   // ✅ Added refreshKey to query args to force refetch after mutations
   const residents = useQuery(
     api.residents.list,
     shouldSkipQuery
       ? 'skip'
       : {
-          status: statusFilter !== 'all' ? (statusFilter as any) : undefined,
-          gender: genderFilter !== 'all' ? (genderFilter as any) : undefined,
+          ...filters,
           limit: PAGE_SIZE,
           offset: offset,
           _refreshKey: refreshKey, // Force refetch when this changes
@@ -994,6 +1756,10 @@ function ResidentsManagementSection() {
             </p>
           </div>
           <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setExportDialogOpen(true)}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
             <Button variant="outline" size="sm" onClick={() => setImportDialogOpen(true)}>
               <Upload className="h-4 w-4 mr-2" />
               Import Excel
@@ -1041,6 +1807,40 @@ function ResidentsManagementSection() {
             </SelectContent>
           </Select>
         </div>
+        <div className="flex flex-col md:flex-row gap-4 mb-6 -mt-2">
+          <Select value={purokFilter} onValueChange={setPurokFilter}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Filter by purok" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Puroks</SelectItem>
+              {puroks?.map((purok) => (
+                <SelectItem key={purok} value={purok}>
+                  {purok}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Phase"
+            value={phaseFilter}
+            onChange={(e) => setPhaseFilter(e.target.value)}
+            className="w-[180px]"
+          />
+          <Select value={sectorFilter} onValueChange={setSectorFilter}>
+            <SelectTrigger className="w-[220px]">
+              <SelectValue placeholder="Filter by sector" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Sectors</SelectItem>
+              {Object.entries(SECTOR_FILTERS).map(([key, label]) => (
+                <SelectItem key={key} value={key}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
 
         {/* Residents Table */}
         {residents === undefined || (debouncedSearchTerm && searchResults === undefined) ? (
@@ -1188,6 +1988,9 @@ function ResidentsManagementSection() {
           />
         )}
 
+        {/* Export Dialog */}
+        <ResidentExportDialog open={exportDialogOpen} onOpenChange={setExportDialogOpen} filters={filters} />
+
         {/* Excel Import Dialog */}
         <ExcelImportDialog
           open={importDialogOpen}
@@ -0,0 +1,195 @@
+import { useId, useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import { useAction, useQuery } from 'convex/react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Field, FieldDescription, FieldLabel } from '@/components/ui/field'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AppointmentSlotPicker } from '@/components/AppointmentSlotPicker'
+import { CalendarCheck, Loader2 } from 'lucide-react'
+
+export const Route = createFileRoute('/book')({
+  component: BookAppointmentPage,
+})
+
+/**
+ * Public Appointment Booking Page
+ *
+ * Features:
+ * - Residents book a time slot to pick up one document
+ * - Identity check: Resident ID + birthdate
+ * - Shows a booking code to enter at the kiosk on the day
+ */
+function BookAppointmentPage() {
+  const documentTypes = useQuery(api.documentTypes.getActive)
+  const book = useAction(api.appointments.book)
+
+  const [residentId, setResidentId] = useState('')
+  const [birthdate, setBirthdate] = useState('')
+  const [documentTypeId, setDocumentTypeId] = useState('')
+  const [purpose, setPurpose] = useState('')
+  const [date, setDate] = useState(() => format(new Date(), 'yyyyMMdd'))
+  const [slotStart, setSlotStart] = useState<number | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [booking, setBooking] = useState<{ bookingCode: string; slotStart: number } | null>(null)
+  const residentIdId = useId()
+  const birthdateId = useId()
+  const documentTypeIdId = useId()
+  const purposeId = useId()
+
+  const documentType = documentTypes?.find((type) => type._id === documentTypeId)
+  const canSubmit =
+    residentId.trim() &&
+    birthdate &&
+    documentType &&
+    (!documentType.requiresPurpose || purpose.trim()) &&
+    slotStart !== null
+
+  const handleSubmit = async () => {
+    if (!canSubmit || slotStart === null || isSubmitting) return
+    setIsSubmitting(true)
+    try {
+      const result = await book({
+        residentId: residentId.trim(),
+        birthdate,
+        documentTypeId: documentTypeId as Id<'documentTypes'>,
+        purpose: purpose.trim(),
+        slotStart,
+      })
+      setBooking(result)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to book')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold mb-2 text-gray-800">Barangay Handumanan</h1>
+          <p className="text-xl font-semibold text-gray-700">Book a Pickup Time</p>
+        </div>
+
+        {booking ? (
+          <Card className="border-2 border-green-300">
+            <CardContent className="p-8 text-center space-y-4">
+              <CalendarCheck className="w-16 h-16 mx-auto text-green-600" />
+              <p className="text-gray-700">Your booking code is</p>
+              <p className="text-5xl font-bold font-mono tracking-widest text-blue-600">{booking.bookingCode}</p>
+              <p className="text-lg text-gray-800">
+                {format(new Date(booking.slotStart), "EEEE, MMMM d 'at' h:mm a")}
+              </p>
+              <p className="text-sm text-gray-600">
+                Enter this code at the kiosk when you arrive. Arrive on time to be called in the priority lane.
+                Take a screenshot or write the code down.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Details</CardTitle>
+              <CardDescription>
+                For registered residents. No Resident ID yet? Visit the barangay hall and use the kiosk.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                className="space-y-6"
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  handleSubmit()
+                }}
+              >
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <Field>
+                    <FieldLabel htmlFor={residentIdId}>Resident ID</FieldLabel>
+                    <Input
+                      id={residentIdId}
+                      value={residentId}
+                      onChange={(e) => setResidentId(e.target.value.toUpperCase())}
+                      placeholder="BH-00001"
+                      className="font-mono"
+                      autoComplete="off"
+                    />
+                  </Field>
+                  <Field>
+                    <FieldLabel htmlFor={birthdateId}>Birthdate</FieldLabel>
+                    <Input
+                      id={birthdateId}
+                      type="date"
+                      value={birthdate}
+                      onChange={(e) => setBirthdate(e.target.value)}
+                    />
+                  </Field>
+                </div>
+
+                <Field>
+                  <FieldLabel htmlFor={documentTypeIdId}>Document</FieldLabel>
+                  <Select value={documentTypeId} onValueChange={setDocumentTypeId}>
+                    <SelectTrigger id={documentTypeIdId}>
+                      <SelectValue placeholder="Select a document" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {documentTypes?.map((type) => (
+                        <SelectItem key={type._id} value={type._id}>
+                          {type.name} · ₱{(type.price / 100).toFixed(2)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </Field>
+
+                {documentType?.requiresPurpose && (
+                  <Field>
+                    <FieldLabel htmlFor={purposeId}>Purpose</FieldLabel>
+                    <Textarea
+                      id={purposeId}
+                      value={purpose}
+                      onChange={(e) => setPurpose(e.target.value)}
+                      placeholder="e.g. Employment"
+                      rows={2}
+                    />
+                  </Field>
+                )}
+
+                <Field>
+                  <FieldLabel>Day and Time</FieldLabel>
+                  <FieldDescription>Payment is made at the counter when you pick up.</FieldDescription>
+                  <AppointmentSlotPicker
+                    date={date}
+                    onDateChange={(value) => {
+                      setDate(value)
+                      setSlotStart(null)
+                    }}
+                    slotStart={slotStart}
+                    onSlotChange={setSlotStart}
+                  />
+                </Field>
+
+                <Button type="submit" size="lg" className="w-full" disabled={!canSubmit || isSubmitting}>
+                  {isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Book
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
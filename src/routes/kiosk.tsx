@@ -1,8 +1,9 @@
 import { createFileRoute } from '@tanstack/react-router'
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useId, useRef } from 'react'
 import { useForm } from '@tanstack/react-form'
 import { useMutation, useQuery } from 'convex/react'
 import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
 import * as z from 'zod'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -19,14 +20,26 @@ import {
   FieldSet,
   FieldLegend,
 } from '@/components/ui/field'
-import { CheckCircle2, Loader2, ScanLine, UserPlus, Calendar, X } from 'lucide-react'
+import { CheckCircle2, KeyRound, Loader2, ScanLine, UserPlus, Calendar, CalendarCheck, X, Ticket } from 'lucide-react'
 import { toast } from 'sonner'
 
 export const Route = createFileRoute('/kiosk')({
   component: KioskPage,
 })
 
-type Mode = 'select' | 'lookup' | 'manual'
+type Mode = 'select' | 'lookup' | 'manual' | 'service' | 'booking'
+
+// Estimated wait in words: "5 minutes", "1 hr 10 min"
+function formatWait(minutes: number): string {
+  if (minutes < 1) return 'less than a minute'
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return rest > 0 ? `${hours} hr ${rest} min` : `${hours} hr`
+}
+
+// localStorage key for the token issued in superadmin settings → Kiosk Devices
+const KIOSK_TOKEN_KEY = 'bhims-kiosk-device-token'
 
 // Zod Schemas
 const serviceItemSchema = z.object({
@@ -37,14 +50,42 @@ const serviceItemSchema = z.object({
 function KioskPage() {
   const [mode, setMode] = useState<Mode>('select')
   const [queueNumber, setQueueNumber] = useState<string | null>(null)
+  const [queueLane, setQueueLane] = useState<'regular' | 'priority'>('regular')
+  const [isAppointment, setIsAppointment] = useState(false) // Priority from a booking, not an ID
+  const [submittedRequestId, setSubmittedRequestId] = useState<Id<'documentRequests'> | null>(null)
+  const [submittedQueueId, setSubmittedQueueId] = useState<Id<'queue'> | null>(null) // Service tickets
+  const [serviceTypeId, setServiceTypeId] = useState<Id<'serviceTypes'> | null>(null)
   const [manualStep, setManualStep] = useState<1 | 2>(1)
   const [lookupStep, setLookupStep] = useState<1 | 2>(1) // Add lookup step state
   const [searchResidentId, setSearchResidentId] = useState<string>('') // Only query when this is set
   const residentIdInputRef = useRef<HTMLInputElement>(null)
 
+  // Device token: undefined until read from localStorage (client only)
+  const [deviceToken, setDeviceToken] = useState<string | null | undefined>(undefined)
+
+  useEffect(() => {
+    setDeviceToken(localStorage.getItem(KIOSK_TOKEN_KEY))
+  }, [])
+
   // Queries
+  const device = useQuery(
+    api.kioskDevices.validate,
+    deviceToken ? { token: deviceToken } : 'skip'
+  )
   const activeDocumentTypes = useQuery(api.documentTypes.getActive)
+  const serviceTypes = useQuery(
+    api.kiosk.listServiceTypes,
+    deviceToken ? { deviceToken } : 'skip'
+  )
   const submitRequest = useMutation(api.kiosk.submitRequest)
+  const waitEstimate = useQuery(
+    api.kiosk.getWaitEstimate,
+    deviceToken && queueNumber && submittedRequestId
+      ? { deviceToken, documentRequestId: submittedRequestId }
+      : deviceToken && queueNumber && submittedQueueId
+        ? { deviceToken, queueId: submittedQueueId }
+        : 'skip'
+  )
 
   // Lookup Form (Step 1: Resident ID only)
   const lookupForm = useForm({
@@ -94,12 +135,14 @@ function KioskPage() {
   const serviceForm = useForm({
     defaultValues: {
       services: [] as Array<{ documentTypeId: string; purpose: string }>,
+      isPregnant: false,
     },
     validators: {
       onSubmit: z.object({
         services: z
           .array(serviceItemSchema)
           .min(1, 'Please select at least one service'),
+        isPregnant: z.boolean(),
       }),
     },
     onSubmit: async () => {
@@ -114,8 +157,8 @@ function KioskPage() {
   
   // Only query when searchResidentId is set (after clicking Search button)
   const resident = useQuery(
-    api.residents.getByResidentId,
-    shouldQuery ? { residentId: residentIdToSearch } : 'skip'
+    api.kiosk.lookupResident,
+    shouldQuery && deviceToken ? { deviceToken, residentId: residentIdToSearch } : 'skip'
   )
   
   // Handle search button click
@@ -199,11 +242,15 @@ function KioskPage() {
       }))
 
       const result = await submitRequest({
+        deviceToken: deviceToken ?? '',
         residentId: resident._id,
+        isPregnant: serviceForm.state.values.isPregnant,
         items,
       })
 
       setQueueNumber(result.queueNumber)
+      setQueueLane(result.lane)
+      setSubmittedRequestId(result.documentRequestId)
 
       // Auto-return after 15 seconds
       setTimeout(() => {
@@ -245,6 +292,7 @@ function KioskPage() {
       }))
 
       const result = await submitRequest({
+        deviceToken: deviceToken ?? '',
         guestResident: {
           firstName: guestData.firstName,
           middleName: guestData.middleName || '',
@@ -255,10 +303,13 @@ function KioskPage() {
           purok: guestData.purok,
           seniorOrPwd: guestData.seniorOrPwd || 'none',
         },
+        isPregnant: serviceForm.state.values.isPregnant,
         items,
       })
 
       setQueueNumber(result.queueNumber)
+      setQueueLane(result.lane)
+      setSubmittedRequestId(result.documentRequestId)
 
       // Auto-return after 15 seconds
       setTimeout(() => {
@@ -275,6 +326,11 @@ function KioskPage() {
 
   const handleReset = () => {
     setQueueNumber(null)
+    setQueueLane('regular')
+    setSubmittedRequestId(null)
+    setSubmittedQueueId(null)
+    setServiceTypeId(null)
+    setIsAppointment(false)
     setMode('select')
     lookupForm.reset()
     guestForm.reset()
@@ -297,6 +353,28 @@ function KioskPage() {
     return age
   }
 
+  // Device check (waits for localStorage, then the validate query)
+  if (deviceToken === undefined || (deviceToken && device === undefined)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100">
+        <Loader2 className="w-12 h-12 text-gray-400 animate-spin" />
+      </div>
+    )
+  }
+
+  // Unregistered or disabled device
+  if (!deviceToken || device === null) {
+    return (
+      <KioskSetup
+        isInvalid={!!deviceToken}
+        onSave={(token) => {
+          localStorage.setItem(KIOSK_TOKEN_KEY, token)
+          setDeviceToken(token)
+        }}
+      />
+    )
+  }
+
   // Success screen (queue number displayed)
   if (queueNumber) {
     return (
@@ -311,6 +389,23 @@ function KioskPage() {
           </CardHeader>
           <CardContent className="text-center space-y-6">
             <div className="text-6xl font-bold text-blue-600 py-8">{queueNumber}</div>
+            {waitEstimate?.position != null && (
+              <p className="text-xl text-gray-800">
+                You are <span className="font-bold">#{waitEstimate.position}</span> in line
+                {waitEstimate.estimatedMinutes != null && (
+                  <>
+                    {' '}· about <span className="font-bold">{formatWait(waitEstimate.estimatedMinutes)}</span>
+                  </>
+                )}
+              </p>
+            )}
+            {queueLane === 'priority' && (
+              <p className="text-lg font-semibold text-purple-700">
+                {isAppointment
+                  ? 'Priority Lane · Thank you for booking ahead.'
+                  : 'Priority Lane · Please have your Senior Citizen, PWD ID or proof of pregnancy ready.'}
+              </p>
+            )}
             <p className="text-gray-600">Please wait for your number to be called.</p>
             <div className="flex gap-4 justify-center">
               <Button onClick={handleReset} size="lg" variant="outline">
@@ -336,7 +431,7 @@ function KioskPage() {
             <p className="text-xl text-gray-600">Document Request Kiosk</p>
           </div>
 
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => setMode('lookup')}>
               <CardContent className="p-12 text-center">
                 <div className="mb-6">
@@ -364,12 +459,96 @@ function KioskPage() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card className="cursor-pointer hover:shadow-lg transition-shadow" onClick={() => setMode('booking')}>
+              <CardContent className="p-12 text-center">
+                <div className="mb-6">
+                  <div className="mx-auto w-20 h-20 rounded-full bg-purple-100 flex items-center justify-center mb-4">
+                    <CalendarCheck className="w-10 h-10 text-purple-600" />
+                  </div>
+                  <CardTitle className="text-2xl mb-2">I Have a Booking</CardTitle>
+                  <CardDescription className="text-base">
+                    Enter your booking code
+                  </CardDescription>
+                </div>
+              </CardContent>
+            </Card>
           </div>
+
+          {/* Other Services - queue tickets without a document request */}
+          {serviceTypes && serviceTypes.length > 0 && (
+            <div className="mt-8">
+              <h2 className="text-xl font-semibold text-gray-700 mb-4 text-center">Other Services</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {serviceTypes.map((serviceType) => (
+                  <Card
+                    key={serviceType._id}
+                    className="cursor-pointer hover:shadow-lg transition-shadow"
+                    onClick={() => {
+                      setServiceTypeId(serviceType._id)
+                      setMode('service')
+                    }}
+                  >
+                    <CardContent className="p-6 text-center">
+                      <Ticket className="w-8 h-8 mx-auto mb-3 text-indigo-600" />
+                      <CardTitle className="text-lg">{serviceType.name}</CardTitle>
+                      {serviceType.description && (
+                        <CardDescription className="mt-1">{serviceType.description}</CardDescription>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     )
   }
 
+  // Appointment check-in screen
+  if (mode === 'booking') {
+    return (
+      <KioskBookingCheckIn
+        deviceToken={deviceToken}
+        onCancel={handleReset}
+        onCheckedIn={(result) => {
+          setQueueNumber(result.queueNumber)
+          setQueueLane(result.lane)
+          setIsAppointment(result.priorityReason === 'appointment')
+          setSubmittedRequestId(result.documentRequestId)
+
+          // Auto-return after 15 seconds
+          setTimeout(() => {
+            handleReset()
+          }, 15000)
+        }}
+      />
+    )
+  }
+
+  // Service ticket screen (blotter, health center, payments)
+  const selectedServiceType = serviceTypes?.find((serviceType) => serviceType._id === serviceTypeId)
+  if (mode === 'service' && selectedServiceType) {
+    return (
+      <KioskServiceEntry
+        deviceToken={deviceToken}
+        serviceType={selectedServiceType}
+        onCancel={handleReset}
+        onIssued={(result) => {
+          setQueueNumber(result.queueNumber)
+          setQueueLane(result.lane)
+          setSubmittedQueueId(result.queueId)
+
+          // Auto-return after 15 seconds
+          setTimeout(() => {
+            handleReset()
+          }, 15000)
+        }}
+      />
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4 relative">
       {/* Close button - top right corner */}
@@ -633,6 +812,22 @@ function KioskPage() {
                       />
                     )}
 
+                    {/* Priority Lane - pregnant residents (seniors/PWDs are detected automatically) */}
+                    <serviceForm.Field name="isPregnant">
+                      {(field) => (
+                        <Field orientation="horizontal" className="p-4 border rounded-lg">
+                          <Checkbox
+                            id={field.name}
+                            checked={field.state.value}
+                            onCheckedChange={(checked) => field.handleChange(checked === true)}
+                          />
+                          <FieldLabel htmlFor={field.name} className="font-normal">
+                            I am pregnant (priority lane)
+                          </FieldLabel>
+                        </Field>
+                      )}
+                    </serviceForm.Field>
+
                     {/* Total Price */}
                     {serviceForm.state.values.services.length > 0 && (
                       <div className="bg-blue-50 rounded-lg p-6 text-center border-2 border-blue-200">
@@ -1081,6 +1276,22 @@ function KioskPage() {
                       />
                     )}
 
+                    {/* Priority Lane - pregnant residents (seniors/PWDs are detected automatically) */}
+                    <serviceForm.Field name="isPregnant">
+                      {(field) => (
+                        <Field orientation="horizontal" className="p-4 border rounded-lg">
+                          <Checkbox
+                            id={field.name}
+                            checked={field.state.value}
+                            onCheckedChange={(checked) => field.handleChange(checked === true)}
+                          />
+                          <FieldLabel htmlFor={field.name} className="font-normal">
+                            I am pregnant (priority lane)
+                          </FieldLabel>
+                        </Field>
+                      )}
+                    </serviceForm.Field>
+
                     {/* Total Price */}
                     {serviceForm.state.values.services.length > 0 && (
                       <div className="bg-blue-50 rounded-lg p-4 text-center">
@@ -1129,3 +1340,258 @@ function KioskPage() {
     </div>
   )
 }
+
+/**
+ * Shown until this device has a valid kiosk token
+ * A superadmin registers the device in Settings → Kiosk Devices and enters the token here once
+ */
+function KioskSetup({
+  isInvalid,
+  onSave,
+}: {
+  isInvalid: boolean
+  onSave: (token: string) => void
+}) {
+  const [token, setToken] = useState('')
+  const tokenId = useId()
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 w-16 h-16 rounded-full bg-gray-100 flex items-center justify-center">
+            <KeyRound className="w-8 h-8 text-gray-600" />
+          </div>
+          <CardTitle className="text-2xl">Kiosk Setup</CardTitle>
+          <CardDescription>
+            {isInvalid
+              ? 'This kiosk token is no longer valid. Ask a superadmin for a new one.'
+              : 'This device is not registered as a kiosk yet.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault()
+              if (token.trim()) onSave(token.trim())
+            }}
+          >
+            <Field>
+              <FieldLabel htmlFor={tokenId}>Device Token</FieldLabel>
+              <Input
+                id={tokenId}
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                placeholder="Paste the token from Settings → Kiosk Devices"
+                className="font-mono"
+                autoComplete="off"
+              />
+            </Field>
+            <Button type="submit" className="w-full" disabled={!token.trim()}>
+              Save
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+/**
+ * Take a ticket for a non-certificate service
+ * No document request is created; a name is optional so staff can call it out
+ */
+function KioskServiceEntry({
+  deviceToken,
+  serviceType,
+  onCancel,
+  onIssued,
+}: {
+  deviceToken: string
+  serviceType: { _id: Id<'serviceTypes'>; name: string; description?: string }
+  onCancel: () => void
+  onIssued: (result: { queueNumber: string; lane: 'regular' | 'priority'; queueId: Id<'queue'> }) => void
+}) {
+  const joinServiceQueue = useMutation(api.kiosk.joinServiceQueue)
+  const [guestName, setGuestName] = useState('')
+  const [priority, setPriority] = useState<'none' | 'senior' | 'pwd' | 'pregnant'>('none')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const nameId = useId()
+  const priorityId = useId()
+
+  const handleSubmit = async () => {
+    if (isSubmitting) return
+    setIsSubmitting(true)
+    try {
+      const result = await joinServiceQueue({
+        deviceToken,
+        serviceTypeId: serviceType._id,
+        guestName: guestName.trim() || undefined,
+        priorityReason: priority === 'none' ? undefined : priority,
+      })
+      onIssued(result)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to get a number')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4 relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onCancel}
+        className="absolute top-4 right-4 z-10 h-10 w-10 rounded-full hover:bg-gray-200"
+        aria-label="Close"
+      >
+        <X className="h-5 w-5" />
+      </Button>
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">{serviceType.name}</CardTitle>
+          {serviceType.description && <CardDescription>{serviceType.description}</CardDescription>}
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-6"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleSubmit()
+            }}
+          >
+            <Field>
+              <FieldLabel htmlFor={nameId}>Your Name (optional)</FieldLabel>
+              <Input
+                id={nameId}
+                value={guestName}
+                onChange={(e) => setGuestName(e.target.value)}
+                placeholder="Juan Dela Cruz"
+                className="h-12 text-lg"
+                autoComplete="off"
+              />
+            </Field>
+            <FieldSet>
+              <FieldLegend variant="label">Priority Lane</FieldLegend>
+              <FieldDescription>Senior citizens, PWDs and pregnant residents are called first.</FieldDescription>
+              <RadioGroup
+                value={priority}
+                onValueChange={(value) => setPriority(value as typeof priority)}
+                className="grid grid-cols-2 gap-3"
+              >
+                {[
+                  { value: 'none', label: 'None' },
+                  { value: 'senior', label: 'Senior Citizen' },
+                  { value: 'pwd', label: 'PWD' },
+                  { value: 'pregnant', label: 'Pregnant' },
+                ].map((option) => (
+                  <div key={option.value} className="flex items-center gap-2">
+                    <RadioGroupItem value={option.value} id={`${priorityId}-${option.value}`} />
+                    <FieldLabel htmlFor={`${priorityId}-${option.value}`} className="font-normal">
+                      {option.label}
+                    </FieldLabel>
+                  </div>
+                ))}
+              </RadioGroup>
+            </FieldSet>
+            <Button type="submit" size="lg" className="w-full h-14 text-lg" disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="w-5 h-5 mr-2 animate-spin" />}
+              Get Queue Number
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+/**
+ * Check in a pre-booked appointment with its booking code
+ * Creates the request and queue ticket right away
+ */
+function KioskBookingCheckIn({
+  deviceToken,
+  onCancel,
+  onCheckedIn,
+}: {
+  deviceToken: string
+  onCancel: () => void
+  onCheckedIn: (result: {
+    queueNumber: string
+    lane: 'regular' | 'priority'
+    priorityReason: string | null
+    documentRequestId: Id<'documentRequests'>
+  }) => void
+}) {
+  const checkInAppointment = useMutation(api.kiosk.checkInAppointment)
+  const [bookingCode, setBookingCode] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const codeId = useId()
+
+  const handleSubmit = async () => {
+    if (!bookingCode.trim() || isSubmitting) return
+    setIsSubmitting(true)
+    try {
+      const result = await checkInAppointment({ deviceToken, bookingCode: bookingCode.trim() })
+      onCheckedIn(result)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to check in')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 to-indigo-100 p-4 relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onCancel}
+        className="absolute top-4 right-4 z-10 h-10 w-10 rounded-full hover:bg-gray-200"
+        aria-label="Close"
+      >
+        <X className="h-5 w-5" />
+      </Button>
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Check In</CardTitle>
+          <CardDescription>Enter or scan the booking code you received when you booked.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-6"
+            onSubmit={(e) => {
+              e.preventDefault()
+              handleSubmit()
+            }}
+          >
+            <Field>
+              <FieldLabel htmlFor={codeId}>Booking Code</FieldLabel>
+              <Input
+                id={codeId}
+                value={bookingCode}
+                onChange={(e) => setBookingCode(e.target.value.toUpperCase())}
+                placeholder="K7M2QX"
+                className="text-2xl text-center h-14 font-mono tracking-widest"
+                maxLength={6}
+                autoComplete="off"
+                autoFocus
+              />
+            </Field>
+            <Button
+              type="submit"
+              size="lg"
+              className="w-full h-14 text-lg"
+              disabled={!bookingCode.trim() || isSubmitting}
+            >
+              {isSubmitting && <Loader2 className="w-5 h-5 mr-2 animate-spin" />}
+              Get Queue Number
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -3,7 +3,7 @@ import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useEffect } from 'react'
 import { useQuery } from 'convex/react'
 import { api } from '../../convex/_generated/api'
-import { Clock } from 'lucide-react'
+import { Clock, UserX } from 'lucide-react'
 
 export const Route = createFileRoute('/pending-approval')({
   component: PendingApprovalPage,
@@ -19,6 +19,11 @@ function PendingApprovalPage() {
     api.users.getUserRole,
     isSignedIn ? {} : 'skip'
   )
+  // Deactivated users also land here (getUserRole returns null for them)
+  const currentUser = useQuery(
+    api.users.current,
+    isSignedIn ? {} : 'skip'
+  )
 
   // ✅ OPTIMIZED: Single useEffect handles all redirects
   // Server-side beforeLoad already ensures user is authenticated,
@@ -58,6 +63,20 @@ function PendingApprovalPage() {
 
   // If not signed in or role exists, will redirect (handled in useEffect)
   // This page only shows when role is null (pending approval)
+  if (currentUser && !currentUser.isActive) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <UserX className="w-16 h-16 mx-auto mb-4 text-gray-400" />
+          <h1 className="text-4xl font-bold mb-4">Account Deactivated</h1>
+          <p className="text-gray-600">
+            Your account has been deactivated. Please contact your administrator.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center">
       <div className="text-center">
@@ -1,19 +1,45 @@
 import { createFileRoute } from '@tanstack/react-router'
+import { useEffect, useRef, useState } from 'react'
 import { useQuery } from 'convex/react'
 import { api } from '../../convex/_generated/api'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Clock, CheckCircle2, FileText } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Clock, CheckCircle2, FileText, Volume2, VolumeX } from 'lucide-react'
+import {
+  ANNOUNCEMENT_LANGUAGES,
+  type AnnouncementLanguage,
+  buildAnnouncement,
+  playChime,
+  speak,
+} from '@/lib/announcements'
 
 export const Route = createFileRoute('/queue-display')({
   component: QueueDisplayPage,
 })
 
+// localStorage key for the announcement language chosen on this screen
+const LANGUAGE_KEY = 'bhims-display-language'
+
+// How long the "now serving" card flashes after a call
+const FLASH_MS = 8000
+
 /**
  * Public Queue Display Screen (TV Screen)
  * 
  * Features:
  * - Real-time queue updates via Convex subscriptions
  * - Three-column table layout: Queue | Processing | Claim
+ * - Missed (skipped) numbers listed below until recalled or expired
+ * - Estimated wait per waiting number and for a new ticket
+ * - Chime + spoken announcement (Filipino/Hiligaynon/English) when a number is
+ *   called or called again; the serving card flashes
  * - Large, readable format for TV screens
  * - Support for custom backgrounds/ads via CSS
  * - Optimized single query using by_status_createdAt index
@@ -25,6 +51,79 @@ function QueueDisplayPage() {
   // Real-time updates via Convex subscriptions (no polling needed)
   const queueData = useQuery(api.queue.getDisplayData, { doneLimit: 10 })
 
+  // Announcements: browsers only allow audio after a click, so sound starts disabled
+  const [soundEnabled, setSoundEnabled] = useState(false)
+  const [language, setLanguage] = useState<AnnouncementLanguage>('fil')
+  const [flashingIds, setFlashingIds] = useState<Set<string>>(new Set())
+  const audioContextRef = useRef<AudioContext | null>(null)
+  const lastCalledRef = useRef<Map<string, number> | null>(null)
+  const announceChainRef = useRef<Promise<void>>(Promise.resolve())
+  const languageRef = useRef(language)
+  const soundEnabledRef = useRef(soundEnabled)
+  languageRef.current = language
+  soundEnabledRef.current = soundEnabled
+
+  useEffect(() => {
+    const saved = localStorage.getItem(LANGUAGE_KEY)
+    if (saved === 'fil' || saved === 'hil' || saved === 'en') setLanguage(saved)
+  }, [])
+
+  // Announce serving items whose calledAt is new (Process Next, Call Again, Recall)
+  const serving = queueData?.serving
+  useEffect(() => {
+    if (!serving) return
+
+    // First load: remember what's already being served without announcing it
+    if (lastCalledRef.current === null) {
+      lastCalledRef.current = new Map(
+        serving.map((item) => [item._id, item.calledAt ?? 0])
+      )
+      return
+    }
+
+    const lastCalled = lastCalledRef.current
+    for (const item of serving) {
+      const calledAt = item.calledAt ?? 0
+      if (calledAt <= (lastCalled.get(item._id) ?? 0)) continue
+      lastCalled.set(item._id, calledAt)
+
+      setFlashingIds((prev) => new Set(prev).add(item._id))
+      setTimeout(() => {
+        setFlashingIds((prev) => {
+          const next = new Set(prev)
+          next.delete(item._id)
+          return next
+        })
+      }, FLASH_MS)
+
+      // Queue announcements so back-to-back calls don't talk over each other
+      announceChainRef.current = announceChainRef.current.then(async () => {
+        const audioContext = audioContextRef.current
+        if (!soundEnabledRef.current || !audioContext) return
+        await playChime(audioContext)
+        await speak(
+          buildAnnouncement(languageRef.current, item.queueNumber, item.counterNumber),
+          languageRef.current
+        )
+      })
+    }
+  }, [serving])
+
+  const handleEnableSound = async () => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new AudioContext()
+    }
+    await audioContextRef.current.resume()
+    setSoundEnabled(true)
+    await playChime(audioContextRef.current)
+  }
+
+  const handleLanguageChange = (value: string) => {
+    const next = value as AnnouncementLanguage
+    setLanguage(next)
+    localStorage.setItem(LANGUAGE_KEY, next)
+  }
+
   // Show loading state
   if (queueData === undefined) {
     return (
@@ -37,6 +136,9 @@ function QueueDisplayPage() {
     )
   }
 
+  const priorityWaiting = queueData.waiting.filter((item) => item.lane === 'priority')
+  const regularWaiting = queueData.waiting.filter((item) => item.lane !== 'priority')
+
   // Custom Background/Ad Area - Easy to customize
   // To add background: className="bg-[url('/path/to/image.jpg')] bg-cover bg-center"
   // For ads: Add your ad content in the designated areas below
@@ -64,35 +166,32 @@ function QueueDisplayPage() {
 
         {/* Three-Column Table Layout: Queue | Processing | Claim */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          {/* Column 1: Queue (Waiting) */}
+          {/* Column 1: Queue (Waiting) - priority lane above regular lane */}
           <Card className="bg-blue-50 border-2 border-blue-300">
             <CardHeader className="pb-3">
               <CardTitle className="text-2xl md:text-3xl font-bold text-center text-blue-700">
                 QUEUE
               </CardTitle>
             </CardHeader>
-            <CardContent className="space-y-2">
+            <CardContent className="space-y-4">
+              <p className="text-center text-sm md:text-base text-blue-700">
+                Estimated wait for a new ticket: <span className="font-bold">~{queueData.nextTicketMinutes} min</span>
+              </p>
               {queueData.waiting.length > 0 ? (
                 <>
-                  {queueData.waiting.slice(0, 15).map((item) => (
-                    <Card
-                      key={item._id}
-                      className="border-2 border-blue-300 hover:bg-blue-100 transition-all"
-                    >
-                      <CardContent className="p-3 text-center">
-                        <p className="text-3xl md:text-4xl font-bold text-blue-600">
-                          {item.queueNumber}
-                        </p>
-                      </CardContent>
-                    </Card>
-                  ))}
-                  {queueData.waiting.length > 15 && (
-                    <div className="text-center pt-2">
-                      <p className="text-sm md:text-base text-blue-600 font-semibold">
-                        +{queueData.waiting.length - 15} more
-                      </p>
-                    </div>
-                  )}
+                  <WaitingLane
+                    title="PRIORITY"
+                    subtitle="Senior · PWD · Pregnant"
+                    items={priorityWaiting}
+                    limit={5}
+                    className="border-purple-300 text-purple-600"
+                  />
+                  <WaitingLane
+                    title="REGULAR"
+                    items={regularWaiting}
+                    limit={10}
+                    className="border-blue-300 text-blue-600"
+                  />
                 </>
               ) : (
                 <div className="text-center py-8">
@@ -115,17 +214,17 @@ function QueueDisplayPage() {
                 queueData.serving.map((item) => (
                   <Card
                     key={item._id}
-                    className="bg-yellow-100 border-2 border-yellow-400 hover:bg-yellow-200 transition-all"
+                    className={`bg-yellow-100 border-2 border-yellow-400 hover:bg-yellow-200 transition-all ${
+                      flashingIds.has(item._id) ? 'animate-pulse ring-4 ring-yellow-500' : ''
+                    }`}
                   >
                     <CardContent className="p-3 text-center">
                       <p className="text-3xl md:text-4xl font-bold text-yellow-700">
                         {item.queueNumber}
+                        {item.counterNumber && (
+                          <span className="text-yellow-800"> → Counter {item.counterNumber}</span>
+                        )}
                       </p>
-                      {item.counterNumber && (
-                        <p className="text-sm md:text-base text-yellow-800 mt-1 font-semibold">
-                          Counter {item.counterNumber}
-                        </p>
-                      )}
                     </CardContent>
                   </Card>
                 ))
@@ -169,6 +268,48 @@ function QueueDisplayPage() {
           </Card>
         </div>
 
+        {/* Missed Numbers - skipped tickets that can still be recalled today */}
+        {queueData.skipped.length > 0 && (
+          <Card className="mt-4 bg-gray-50 border-2 border-gray-300">
+            <CardContent className="p-4 flex flex-wrap items-center justify-center gap-3">
+              <p className="text-lg md:text-xl font-bold text-gray-700">
+                MISSED · Please approach any counter:
+              </p>
+              {queueData.skipped.map((item) => (
+                <span key={item._id} className="text-2xl md:text-3xl font-bold text-gray-600">
+                  {item.queueNumber}
+                </span>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Sound Controls - enabling sound needs one click on the TV */}
+        <div className="fixed bottom-4 right-4 flex items-center gap-2 bg-white/80 rounded-lg shadow p-2">
+          <Select value={language} onValueChange={handleLanguageChange}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANNOUNCEMENT_LANGUAGES.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {soundEnabled ? (
+            <Button variant="outline" size="icon" onClick={() => setSoundEnabled(false)} aria-label="Mute">
+              <Volume2 className="w-5 h-5" />
+            </Button>
+          ) : (
+            <Button onClick={handleEnableSound}>
+              <VolumeX className="w-5 h-5 mr-2" />
+              Enable Sound
+            </Button>
+          )}
+        </div>
+
         {/* Ad/Background Area - Customize here */}
         {/* 
           Example 1: Large Image Ad Banner
@@ -200,3 +341,50 @@ function QueueDisplayPage() {
     </div>
   )
 }
+
+// One lane of the waiting column (Priority or Regular)
+function WaitingLane({
+  title,
+  subtitle,
+  items,
+  limit,
+  className,
+}: {
+  title: string
+  subtitle?: string
+  items: Array<{ _id: string; queueNumber: string; estimatedMinutes: number | null }>
+  limit: number
+  className: string
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="text-center">
+        <p className={`text-lg md:text-xl font-bold ${className}`}>{title}</p>
+        {subtitle && <p className="text-xs md:text-sm text-gray-500">{subtitle}</p>}
+      </div>
+      {items.length > 0 ? (
+        <>
+          {items.slice(0, limit).map((item) => (
+            <Card key={item._id} className={`border-2 ${className} hover:bg-blue-100 transition-all`}>
+              <CardContent className="p-3 text-center">
+                <p className="text-3xl md:text-4xl font-bold">{item.queueNumber}</p>
+                {item.estimatedMinutes !== null && (
+                  <p className="text-xs md:text-sm text-gray-500">
+                    {item.estimatedMinutes < 1 ? 'Next' : `~${item.estimatedMinutes} min`}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+          {items.length > limit && (
+            <p className={`text-center text-sm md:text-base font-semibold ${className}`}>
+              +{items.length - limit} more
+            </p>
+          )}
+        </>
+      ) : (
+        <p className="text-center text-sm text-gray-400 font-medium py-2">None waiting</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,296 @@
+import { useEffect, useId, useState } from 'react'
+import { createFileRoute, Link } from '@tanstack/react-router'
+import { useMutation, useQuery } from 'convex/react'
+import { addDays, format, parse } from 'date-fns'
+import { toast } from 'sonner'
+import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
+import { RouteGuard } from '@/lib/route-guards'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { AppointmentSlotPicker } from '@/components/AppointmentSlotPicker'
+import { ArrowLeft, CalendarPlus, ChevronLeft, ChevronRight, Loader2, X } from 'lucide-react'
+
+export const Route = createFileRoute('/staff/appointments')({
+  component: StaffAppointmentsPage,
+})
+
+const STATUS_LABELS: Record<string, { label: string; className: string }> = {
+  booked: { label: 'Booked', className: 'bg-blue-50 text-blue-700 border-blue-300' },
+  checked_in: { label: 'Checked In', className: 'bg-green-50 text-green-700 border-green-300' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-50 text-gray-600 border-gray-300' },
+  no_show: { label: 'No Show', className: 'bg-red-50 text-red-700 border-red-300' },
+}
+
+function StaffAppointmentsPage() {
+  return (
+    <RouteGuard allowedRoles={['staff']}>
+      <StaffAppointmentsContent />
+    </RouteGuard>
+  )
+}
+
+function StaffAppointmentsContent() {
+  const [date, setDate] = useState(() => format(new Date(), 'yyyyMMdd'))
+  const [bookOpen, setBookOpen] = useState(false)
+  const appointments = useQuery(api.appointments.listForDay, { date })
+  const cancelAppointment = useMutation(api.appointments.cancel)
+
+  const day = parse(date, 'yyyyMMdd', new Date())
+  const shiftDay = (days: number) => setDate(format(addDays(day, days), 'yyyyMMdd'))
+
+  const handleCancel = async (id: Id<'appointments'>, bookingCode: string) => {
+    try {
+      await cancelAppointment({ id })
+      toast.success(`Booking ${bookingCode} cancelled`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel booking')
+    }
+  }
+
+  const sorted = [...(appointments ?? [])].sort((a, b) => a.slotStart - b.slotStart)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container mx-auto px-4 py-6 max-w-5xl">
+        {/* Header */}
+        <div className="mb-6 flex items-center justify-between gap-4">
+          <div>
+            <Link to="/staff/queue" className="text-sm text-gray-600 hover:text-gray-900 flex items-center gap-1 mb-1">
+              <ArrowLeft className="w-4 h-4" />
+              Queue
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Appointments</h1>
+            <p className="text-sm text-gray-600 mt-1">
+              Residents check in at the kiosk with their booking code
+            </p>
+          </div>
+          <Button onClick={() => setBookOpen(true)} size="lg" className="gap-2">
+            <CalendarPlus className="w-5 h-5" />
+            Book for Resident
+          </Button>
+        </div>
+
+        {/* Day Navigation */}
+        <div className="flex items-center gap-2 mb-4">
+          <Button variant="outline" size="icon" onClick={() => shiftDay(-1)} aria-label="Previous day">
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="font-semibold text-gray-900 w-56 text-center">{format(day, 'EEEE, MMMM d')}</span>
+          <Button variant="outline" size="icon" onClick={() => shiftDay(1)} aria-label="Next day">
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setDate(format(new Date(), 'yyyyMMdd'))}>
+            Today
+          </Button>
+        </div>
+
+        {appointments === undefined ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 text-gray-400 animate-spin" />
+          </div>
+        ) : sorted.length === 0 ? (
+          <Card>
+            <CardContent className="py-16 text-center text-gray-600">No bookings for this day</CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {sorted.map((appointment) => (
+              <Card key={appointment._id}>
+                <CardContent className="p-4 flex items-center justify-between gap-4">
+                  <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+                    <span className="font-semibold text-gray-900 w-20">
+                      {format(new Date(appointment.slotStart), 'h:mm a')}
+                    </span>
+                    <span className="font-mono font-bold text-blue-700">{appointment.bookingCode}</span>
+                    <span className="font-medium text-gray-900">
+                      {appointment.residentName}
+                      {appointment.residentCode && (
+                        <span className="font-mono text-gray-500 ml-2">{appointment.residentCode}</span>
+                      )}
+                    </span>
+                    <span>{appointment.documentTypeName}</span>
+                    <Badge variant="outline" className={STATUS_LABELS[appointment.status].className}>
+                      {STATUS_LABELS[appointment.status].label}
+                    </Badge>
+                    {appointment.bookedByName && (
+                      <span className="text-gray-500">Booked by {appointment.bookedByName}</span>
+                    )}
+                  </div>
+                  {appointment.status === 'booked' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleCancel(appointment._id, appointment.bookingCode)}
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Cancel
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <BookForResidentDialog open={bookOpen} onOpenChange={setBookOpen} />
+    </div>
+  )
+}
+
+// Book Appointment Dialog Component (staff booking on a resident's behalf)
+function BookForResidentDialog({
+  open,
+  onOpenChange,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}) {
+  const documentTypes = useQuery(api.documentTypes.getActive)
+  const bookForResident = useMutation(api.appointments.bookForResident)
+  const [residentCode, setResidentCode] = useState('')
+  const [searchCode, setSearchCode] = useState('')
+  const [documentTypeId, setDocumentTypeId] = useState('')
+  const [purpose, setPurpose] = useState('')
+  const [date, setDate] = useState(() => format(new Date(), 'yyyyMMdd'))
+  const [slotStart, setSlotStart] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const residentId = useId()
+  const documentTypeFieldId = useId()
+  const purposeId = useId()
+
+  const resident = useQuery(
+    api.residents.getByResidentId,
+    searchCode ? { residentId: searchCode } : 'skip'
+  )
+  const documentType = documentTypes?.find((type) => type._id === documentTypeId)
+
+  // Start fresh every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setResidentCode('')
+      setSearchCode('')
+      setDocumentTypeId('')
+      setPurpose('')
+      setDate(format(new Date(), 'yyyyMMdd'))
+      setSlotStart(null)
+    }
+  }, [open])
+
+  const canSave =
+    resident && documentType && (!documentType.requiresPurpose || purpose.trim()) && slotStart !== null
+
+  const handleSave = async () => {
+    if (!canSave || !resident || slotStart === null || isSaving) return
+    setIsSaving(true)
+    try {
+      const result = await bookForResident({
+        residentId: resident._id,
+        documentTypeId: documentTypeId as Id<'documentTypes'>,
+        purpose: purpose.trim(),
+        slotStart,
+      })
+      toast.success(`Booked. Code ${result.bookingCode} for ${format(new Date(result.slotStart), 'MMM d, h:mm a')}`)
+      onOpenChange(false)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to book')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Book for Resident</DialogTitle>
+          <DialogDescription>Give the booking code to the resident to enter at the kiosk.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={residentId}>Resident ID *</Label>
+            <div className="flex gap-2">
+              <Input
+                id={residentId}
+                value={residentCode}
+                onChange={(e) => setResidentCode(e.target.value.toUpperCase())}
+                placeholder="BH-00001"
+                className="font-mono"
+              />
+              <Button variant="outline" onClick={() => setSearchCode(residentCode.trim())} disabled={!residentCode.trim()}>
+                Find
+              </Button>
+            </div>
+            {searchCode && resident !== undefined && (
+              <p className="text-sm text-gray-600">
+                {resident ? `${resident.firstName} ${resident.lastName} · ${resident.purok}` : 'No resident with that ID'}
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={documentTypeFieldId}>Document *</Label>
+            <Select value={documentTypeId} onValueChange={setDocumentTypeId}>
+              <SelectTrigger id={documentTypeFieldId}>
+                <SelectValue placeholder="Select a document" />
+              </SelectTrigger>
+              <SelectContent>
+                {documentTypes?.map((type) => (
+                  <SelectItem key={type._id} value={type._id}>
+                    {type.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {documentType?.requiresPurpose && (
+            <div className="space-y-2">
+              <Label htmlFor={purposeId}>Purpose *</Label>
+              <Textarea id={purposeId} value={purpose} onChange={(e) => setPurpose(e.target.value)} rows={2} />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Day and Time *</Label>
+            <AppointmentSlotPicker
+              date={date}
+              onDateChange={(value) => {
+                setDate(value)
+                setSlotStart(null)
+              }}
+              slotStart={slotStart}
+              onSlotChange={setSlotStart}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Book
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,15 +1,20 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useState, useEffect } from 'react'
-import { useQuery, useMutation } from 'convex/react'
+import { useQuery, useMutation, useAction } from 'convex/react'
 import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
 import { RouteGuard } from '@/lib/route-guards'
+import { CertificatePreview } from '@/components/CertificatePreview'
+import { ReprintDialog } from '@/components/ReprintDialog'
+import { TransferDialog } from '@/components/TransferDialog'
+import { SAMPLE_VERIFICATION_CODE, buildCertificateValues } from '../../../convex/lib/certificates'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
-import { Loader2, CheckCircle2, Printer, ArrowLeft } from 'lucide-react'
+import { Loader2, CheckCircle2, Printer, ArrowLeft, Megaphone, SkipForward, ArrowRightLeft } from 'lucide-react'
 import { toast } from 'sonner'
 import { format } from 'date-fns'
 
@@ -37,13 +42,33 @@ function StaffProcessContent() {
   // Mutations
   const updateResident = useMutation(api.residents.update)
   const updatePurpose = useMutation(api.documentRequestItems.updatePurpose)
-  const markPrinted = useMutation(api.documentRequestItems.markPrinted)
+  const renderCertificate = useAction(api.certificates.render)
   const markAsClaim = useMutation(api.documentRequests.markAsClaim)
+  const callAgain = useMutation(api.queue.callAgain)
+  const skipQueue = useMutation(api.queue.skip)
+  const transferQueue = useMutation(api.queue.transfer)
 
   // State for editable resident info
   const [residentData, setResidentData] = useState<any>(null)
   const [selectedServiceIndex, setSelectedServiceIndex] = useState(0)
   const [purposeValues, setPurposeValues] = useState<Record<string, string>>({})
+  const [printingItemId, setPrintingItemId] = useState<string | null>(null)
+  const [reprintItem, setReprintItem] = useState<NonNullable<typeof requestData>['items'][number] | null>(null)
+  const [transferOpen, setTransferOpen] = useState(false)
+  const [isTransferring, setIsTransferring] = useState(false)
+
+  // Every hop this ticket took between counters/staff
+  const handoffHistory = useQuery(
+    api.queue.getHandoffHistory,
+    requestData?.queue?.handoffs?.length ? { id: requestData.queue._id } : 'skip'
+  )
+
+  // Layout, background and signatories for the selected service's live preview
+  const selectedItemId = requestData?.items?.[selectedServiceIndex]?._id
+  const previewLayout = useQuery(
+    api.certificates.getPreviewLayout,
+    selectedItemId ? { documentRequestItemId: selectedItemId } : 'skip'
+  )
 
   // Initialize resident data and purpose values when request data loads
   useEffect(() => {
@@ -136,21 +161,41 @@ function StaffProcessContent() {
   }
 
   // Handle print certificate
-  const handlePrint = async (item: any) => {
+  const handlePrint = async (item: any, reprintReason?: string) => {
+    // Open the tab while still in the click; browsers block popups opened after an await
+    const printWindow = window.open('', '_blank')
+    if (printWindow) printWindow.opener = null
+    setPrintingItemId(item._id)
     try {
-      // TODO: Generate PDF here
-      // For now, just mark as printed
-      await markPrinted({ id: item._id })
-      toast.success(`${item.documentType?.name || 'Service'} printed successfully`)
+      // Render PDF on the server (stores it and marks the item as printed)
+      const { url } = await renderCertificate({ documentRequestItemId: item._id, reprintReason })
+      if (url && printWindow) {
+        printWindow.location.href = url
+      } else {
+        printWindow?.close()
+        // Popup blocked anyway: the item is printed, so offer the PDF instead of a reprint
+        if (url) {
+          toast.info('Popup blocked - open the PDF to print it', {
+            action: { label: 'Open PDF', onClick: () => window.open(url, '_blank', 'noopener') },
+          })
+        }
+      }
+      toast.success(
+        `${item.documentType?.name || 'Service'} ${reprintReason ? 'reprinted' : 'printed'} successfully`
+      )
+      setReprintItem(null)
 
       // Auto-advance to next pending certificate
       // Note: requestData will update automatically via Convex real-time subscription
       // We'll use useEffect to handle the auto-advance when items update
     } catch (error) {
+      printWindow?.close()
       console.error('Error printing certificate:', error)
       toast.error(
         error instanceof Error ? error.message : 'Failed to print service'
       )
+    } finally {
+      setPrintingItemId(null)
     }
   }
 
@@ -185,6 +230,47 @@ function StaffProcessContent() {
     }
   }
 
+  // Resident didn't come up: call the number again, or skip to the recall list
+  const handleCallAgain = async () => {
+    if (!queue) return
+    try {
+      await callAgain({ id: queue._id })
+      toast.success(`Calling ${queue.queueNumber} again`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to call again')
+    }
+  }
+
+  const handleSkip = async () => {
+    if (!queue) return
+    try {
+      await skipQueue({ id: queue._id })
+      toast.success(`${queue.queueNumber} moved to the recall list`)
+      navigate({ to: '/staff/queue' })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to skip')
+    }
+  }
+
+  const handleTransfer = async (args: { toCounterId?: Id<'counters'>; reason: string }) => {
+    if (!queue || isTransferring) return
+    setIsTransferring(true)
+    try {
+      await transferQueue({ id: queue._id, toCounterId: args.toCounterId, reason: args.reason || undefined })
+      toast.success(
+        args.toCounterId
+          ? `${queue.queueNumber} transferred`
+          : `${queue.queueNumber} returned to the front of the waiting list`
+      )
+      setTransferOpen(false)
+      navigate({ to: '/staff/queue' })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to transfer')
+    } finally {
+      setIsTransferring(false)
+    }
+  }
+
   const formatPrice = (cents: number) => {
     return `₱${(cents / 100).toFixed(2)}`
   }
@@ -221,6 +307,22 @@ function StaffProcessContent() {
             </Button>
             <h1 className="text-2xl font-bold text-gray-900">Process Request</h1>
           </div>
+          {queue?.status === 'serving' && (
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={handleCallAgain}>
+                <Megaphone className="w-4 h-4 mr-2" />
+                Call Again
+              </Button>
+              <Button variant="outline" onClick={handleSkip}>
+                <SkipForward className="w-4 h-4 mr-2" />
+                Skip (No Answer)
+              </Button>
+              <Button variant="outline" onClick={() => setTransferOpen(true)}>
+                <ArrowRightLeft className="w-4 h-4 mr-2" />
+                Transfer
+              </Button>
+            </div>
+          )}
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -252,6 +354,24 @@ function StaffProcessContent() {
                     <p className="font-medium">{formatDate(request.requestedAt)}</p>
                   </div>
                 </div>
+                {handoffHistory && handoffHistory.length > 0 && (
+                  <div className="pt-2 border-t text-sm">
+                    <span className="text-gray-500">Transfers:</span>
+                    <ul className="mt-1 space-y-1">
+                      {handoffHistory.map((handoff) => (
+                        <li key={handoff.transferredAt} className="text-gray-700">
+                          {format(new Date(handoff.transferredAt), 'h:mm a')} ·{' '}
+                          {handoff.fromCounterNumber ? `Counter ${handoff.fromCounterNumber}` : 'Unassigned'}
+                          {handoff.fromStaffName && ` (${handoff.fromStaffName})`} →{' '}
+                          {handoff.toCounterNumber
+                            ? `Counter ${handoff.toCounterNumber}${handoff.toStaffName ? ` (${handoff.toStaffName})` : ''}`
+                            : 'Waiting list'}
+                          {handoff.reason && <span className="text-gray-500"> · {handoff.reason}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -448,17 +568,33 @@ function StaffProcessContent() {
                                 onClick={() => handlePrint(item)}
                                 className="w-full"
                                 size="sm"
+                                disabled={printingItemId !== null}
                               >
-                                <Printer className="w-4 h-4 mr-2" />
+                                {printingItemId === item._id ? (
+                                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                ) : (
+                                  <Printer className="w-4 h-4 mr-2" />
+                                )}
                                 Print {item.documentType?.name || 'Certificate'}
                               </Button>
                             </div>
                           )}
 
                           {isSelected && isPrinted && (
-                            <p className="text-sm text-gray-500 mt-2">
-                              This service has been printed.
-                            </p>
+                            <div className="mt-2 flex items-center justify-between gap-2">
+                              <p className="text-sm text-gray-500">
+                                This service has been printed.
+                              </p>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setReprintItem(item)}
+                                disabled={printingItemId !== null}
+                              >
+                                <Printer className="w-4 h-4 mr-2" />
+                                Reprint
+                              </Button>
+                            </div>
                           )}
                         </div>
                       </div>
@@ -497,39 +633,29 @@ function StaffProcessContent() {
               </CardHeader>
               <CardContent>
                 {selectedItem ? (
-                  <div className="space-y-4">
-                    <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 bg-white min-h-[400px]">
-                      <div className="text-center text-gray-500">
-                        <p className="text-lg font-medium mb-2">
-                          {selectedItem.documentType?.name || 'Service'}
-                        </p>
-                        <p className="text-sm">
-                          Live preview will appear here
-                        </p>
-                        <p className="text-xs mt-4 text-gray-400">
-                          TODO: Implement service template rendering
-                        </p>
+                  <div className="space-y-2">
+                    {previewLayout && residentData ? (
+                      <CertificatePreview
+                        layout={previewLayout.layout}
+                        backgroundUrl={previewLayout.backgroundUrl}
+                        values={buildCertificateValues({
+                          resident: residentData,
+                          documentTypeName: selectedItem.documentType?.name || '',
+                          requestNumber: request.requestNumber,
+                          purpose: purposeValues[selectedItem._id] || '',
+                          issuedAt: selectedItem.printedAt ?? Date.now(),
+                          officials: previewLayout.officials,
+                          verificationCode: SAMPLE_VERIFICATION_CODE,
+                        })}
+                      />
+                    ) : (
+                      <div className="flex items-center justify-center min-h-[400px] border-2 border-dashed border-gray-300 rounded-lg bg-white">
+                        <Loader2 className="w-6 h-6 text-gray-400 animate-spin" />
                       </div>
-                      {/* TODO: Render actual service template here */}
-                      {residentData && (
-                        <div className="mt-4 text-left text-sm space-y-1">
-                          <p>
-                            <strong>Name:</strong>{' '}
-                            {`${residentData.firstName || ''} ${residentData.middleName || ''} ${residentData.lastName || ''}`.trim()}
-                            {residentData.suffix && ` ${residentData.suffix}`}
-                          </p>
-                          <p>
-                            <strong>Purok:</strong> {residentData.purok || 'N/A'}
-                          </p>
-                          <p>
-                            <strong>Senior/PWD:</strong> {residentData.seniorOrPwd === 'none' ? 'None' : residentData.seniorOrPwd === 'both' ? 'Both (Senior & PWD)' : residentData.seniorOrPwd || 'None'}
-                          </p>
-                          <p>
-                            <strong>Purpose:</strong> {purposeValues[selectedItem._id] || 'N/A'}
-                          </p>
-                        </div>
-                      )}
-                    </div>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      Preview updates as you edit resident details and purpose. Save changes before printing.
+                    </p>
                   </div>
                 ) : (
                   <div className="text-center text-gray-500 py-8">
@@ -541,6 +667,27 @@ function StaffProcessContent() {
           </div>
         </div>
       </div>
+
+      <ReprintDialog
+        open={reprintItem !== null}
+        onOpenChange={(open) => {
+          if (!open) setReprintItem(null)
+        }}
+        documentName={reprintItem?.documentType?.name || 'Certificate'}
+        isPrinting={printingItemId !== null}
+        onConfirm={(reason) => handlePrint(reprintItem, reason)}
+      />
+
+      {queue && (
+        <TransferDialog
+          open={transferOpen}
+          onOpenChange={setTransferOpen}
+          queueNumber={queue.queueNumber}
+          currentCounterNumber={queue.counterNumber}
+          isTransferring={isTransferring}
+          onConfirm={handleTransfer}
+        />
+      )}
     </div>
   )
 }
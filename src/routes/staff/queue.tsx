@@ -1,14 +1,28 @@
 import { createFileRoute, useNavigate } from '@tanstack/react-router'
 import { useQuery, useMutation } from 'convex/react'
 import { api } from '../../../convex/_generated/api'
+import type { Id } from '../../../convex/_generated/dataModel'
 import { RouteGuard } from '@/lib/route-guards'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  CalendarClock,
+  CheckCircle2,
   Clock,
   PlayCircle,
   Loader2,
+  MonitorSmartphone,
+  Megaphone,
+  SkipForward,
+  Undo2,
 } from 'lucide-react'
 import { toast } from 'sonner'
 import { format } from 'date-fns'
@@ -17,6 +31,14 @@ export const Route = createFileRoute('/staff/queue')({
   component: StaffQueuePage,
 })
 
+// Why a ticket is in the priority lane
+const PRIORITY_REASON_LABELS: Record<string, string> = {
+  senior: 'Senior',
+  pwd: 'PWD',
+  pregnant: 'Pregnant',
+  appointment: 'Appointment',
+}
+
 function StaffQueuePage() {
   return (
     <RouteGuard allowedRoles={['staff']}>
@@ -30,9 +52,18 @@ function StaffQueueContent() {
 
   // Get document requests for staff dashboard
   const requestsData = useQuery(api.documentRequests.getStaffRequests, {})
+  const serviceTickets = useQuery(api.queue.getServiceTickets, {})
+  const counters = useQuery(api.counters.list, {})
+  const myCounter = useQuery(api.counters.getMine, {})
 
   // Mutations
   const processNext = useMutation(api.queue.processNext)
+  const openCounter = useMutation(api.counters.open)
+  const closeCounter = useMutation(api.counters.close)
+  const callAgain = useMutation(api.queue.callAgain)
+  const skipQueue = useMutation(api.queue.skip)
+  const recallQueue = useMutation(api.queue.recall)
+  const markDone = useMutation(api.queue.markDone)
 
   // Loading state
   if (requestsData === undefined) {
@@ -49,6 +80,12 @@ function StaffQueueContent() {
   const handleProcessNext = async () => {
     try {
       const result = await processNext({})
+
+      // Service tickets have no request to process; they're finished from this page
+      if (!result.documentRequestId) {
+        toast.success(`Now serving ${result.queueNumber}`)
+        return
+      }
       toast.success('Request processed successfully')
       
       // Navigate to process page
@@ -66,6 +103,69 @@ function StaffQueueContent() {
     }
   }
 
+  const handleCallAgain = async (queueId: Id<'queue'>, queueNumber: string) => {
+    try {
+      await callAgain({ id: queueId })
+      toast.success(`Calling ${queueNumber} again`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to call again')
+    }
+  }
+
+  const handleSkip = async (queueId: Id<'queue'>, queueNumber: string) => {
+    try {
+      await skipQueue({ id: queueId })
+      toast.success(`${queueNumber} moved to the recall list`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to skip')
+    }
+  }
+
+  const handleRecall = async (queueId: Id<'queue'>) => {
+    try {
+      const result = await recallQueue({ id: queueId })
+      if (!result.documentRequestId) {
+        toast.success(`Now serving ${result.queueNumber}`)
+        return
+      }
+      navigate({
+        to: '/staff/process/$requestId',
+        params: { requestId: result.documentRequestId },
+      })
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to recall')
+    }
+  }
+
+  const handleMarkDone = async (queueId: Id<'queue'>, queueNumber: string) => {
+    try {
+      await markDone({ id: queueId })
+      toast.success(`${queueNumber} done`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to mark as done')
+    }
+  }
+
+  const handleOpenCounter = async (counterId: string) => {
+    const counter = counters?.find((c) => c._id === counterId)
+    if (!counter) return
+    try {
+      await openCounter({ id: counter._id })
+      toast.success(`You are now at Counter ${counter.number}`)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open counter')
+    }
+  }
+
+  const handleCloseCounter = async () => {
+    try {
+      await closeCounter({})
+      toast.success('Counter closed')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to close counter')
+    }
+  }
+
   const handleItemClick = (requestId: string) => {
     navigate({
       to: '/staff/process/$requestId',
@@ -92,16 +192,67 @@ function StaffQueueContent() {
                   : 'No requests waiting'}
               </p>
             </div>
-            <Button
-              onClick={handleProcessNext}
-              disabled={requestsData.counts.queued === 0}
-              size="lg"
-              className="gap-2"
-            >
-              <PlayCircle className="w-5 h-5" />
-              Process Next
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="lg" className="gap-2" onClick={() => navigate({ to: '/staff/appointments' })}>
+                <CalendarClock className="w-5 h-5" />
+                Appointments
+              </Button>
+              <Button
+                onClick={handleProcessNext}
+                disabled={
+                  (requestsData.counts.queued === 0 && !serviceTickets?.waiting.length) || !myCounter
+                }
+                size="lg"
+                className="gap-2"
+              >
+                <PlayCircle className="w-5 h-5" />
+                Process Next
+              </Button>
+            </div>
           </div>
+
+          {/* Counter Assignment - chosen at the start of each shift */}
+          <Card className="mt-4">
+            <CardContent className="p-4 flex flex-wrap items-center gap-3">
+              <MonitorSmartphone className="w-5 h-5 text-gray-500" />
+              {myCounter ? (
+                <>
+                  <span className="text-sm text-gray-900">
+                    You are at <span className="font-semibold">Counter {myCounter.number}</span>
+                    {myCounter.name !== `Counter ${myCounter.number}` && ` · ${myCounter.name}`}
+                  </span>
+                  <Button variant="outline" size="sm" className="ml-auto" onClick={handleCloseCounter}>
+                    Close Counter
+                  </Button>
+                </>
+              ) : counters && counters.length > 0 ? (
+                <>
+                  <span className="text-sm text-gray-600">Choose your counter to start serving:</span>
+                  <Select onValueChange={handleOpenCounter}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue placeholder="Select counter" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {counters.map((counter) => (
+                        <SelectItem
+                          key={counter._id}
+                          value={counter._id}
+                          disabled={!!counter.activeStaffId}
+                        >
+                          Counter {counter.number} · {counter.name}
+                          {counter.activeStaffName && ` (${counter.activeStaffName})`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </>
+              ) : (
+                <span className="text-sm text-gray-600">
+                  {counters === undefined ? 'Loading counters...' : 'No counters set up yet. Ask a superadmin to add counters in Settings.'}
+                </span>
+              )}
+            </CardContent>
+          </Card>
         </div>
 
         {/* Side-by-Side Layout */}
@@ -149,6 +300,34 @@ function StaffQueueContent() {
                           >
                             Continue →
                           </Button>
+                          {request.queueItem && (
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="flex-1"
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  handleCallAgain(request.queueItem._id, request.queueItem.queueNumber)
+                                }}
+                              >
+                                <Megaphone className="w-4 h-4 mr-1" />
+                                Call Again
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="flex-1"
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  handleSkip(request.queueItem._id, request.queueItem.queueNumber)
+                                }}
+                              >
+                                <SkipForward className="w-4 h-4 mr-1" />
+                                Skip
+                              </Button>
+                            </div>
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -180,6 +359,12 @@ function StaffQueueContent() {
                               <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-300">
                                 Waiting
                               </Badge>
+                              {request.queueItem?.lane === 'priority' && (
+                                <Badge className="bg-purple-100 text-purple-700 border-purple-300 hover:bg-purple-100">
+                                  {request.queueItem.queueNumber} · Priority
+                                  {request.queueItem.priorityReason && ` (${PRIORITY_REASON_LABELS[request.queueItem.priorityReason]})`}
+                                </Badge>
+                              )}
                             </div>
                             <div className="flex items-center gap-6 text-sm text-gray-600">
                               <span className="font-medium text-gray-900">
@@ -227,8 +412,135 @@ function StaffQueueContent() {
                 </CardContent>
               </Card>
             )}
+
+            {/* Recall List - skipped numbers expire at end of day */}
+            {requestsData.skipped.length > 0 && (
+              <div className="mt-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-3">
+                  Skipped ({requestsData.counts.skipped})
+                </h2>
+                <div className="space-y-2">
+                  {requestsData.skipped.map((request) => (
+                    <Card key={request._id} className="border border-gray-300 bg-gray-50">
+                      <CardContent className="p-4 flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-4 text-sm text-gray-600">
+                          <span className="font-mono text-base font-bold text-gray-800">
+                            {request.queueItem?.queueNumber ?? request.requestNumber}
+                          </span>
+                          <span className="font-medium text-gray-900">
+                            {request.resident
+                              ? `${request.resident.firstName} ${request.resident.lastName}`
+                              : 'Guest'}
+                          </span>
+                          {request.queueItem?.skippedAt && (
+                            <span className="text-gray-500">Skipped {formatTime(request.queueItem.skippedAt)}</span>
+                          )}
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!request.queueItem || !myCounter}
+                          onClick={() => request.queueItem && handleRecall(request.queueItem._id)}
+                        >
+                          <Undo2 className="w-4 h-4 mr-1" />
+                          Recall
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
+
+        {/* Service Tickets - blotter, health center, payments (no document request) */}
+        {serviceTickets &&
+          (serviceTickets.waiting.length > 0 ||
+            serviceTickets.serving.length > 0 ||
+            serviceTickets.skipped.length > 0) && (
+            <div className="mt-8">
+              <h2 className="text-xl font-semibold text-gray-900 mb-1">Other Services</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                {serviceTickets.waiting.length} waiting · Process Next calls these too when your counter handles them
+              </p>
+              <div className="space-y-2">
+                {serviceTickets.serving.map((ticket) => (
+                  <Card key={ticket._id} className="border-2 border-yellow-400 bg-yellow-50/50">
+                    <CardContent className="p-4 flex flex-wrap items-center justify-between gap-4">
+                      <div className="flex items-center gap-4 text-sm text-gray-600">
+                        <span className="font-mono text-base font-bold text-yellow-800">{ticket.queueNumber}</span>
+                        <Badge variant="outline">{ticket.serviceType}</Badge>
+                        <span className="font-medium text-gray-900">{ticket.guestName ?? 'Walk-in'}</span>
+                        {ticket.counterNumber && <span>Counter {ticket.counterNumber}</span>}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleCallAgain(ticket._id, ticket.queueNumber)}
+                        >
+                          <Megaphone className="w-4 h-4 mr-1" />
+                          Call Again
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleSkip(ticket._id, ticket.queueNumber)}
+                        >
+                          <SkipForward className="w-4 h-4 mr-1" />
+                          Skip
+                        </Button>
+                        <Button size="sm" onClick={() => handleMarkDone(ticket._id, ticket.queueNumber)}>
+                          <CheckCircle2 className="w-4 h-4 mr-1" />
+                          Done
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+                {serviceTickets.waiting.map((ticket) => (
+                  <Card key={ticket._id} className="border border-blue-200 bg-white">
+                    <CardContent className="p-4 flex items-center gap-4 text-sm text-gray-600">
+                      <span className="font-mono text-base font-bold text-blue-700">{ticket.queueNumber}</span>
+                      <Badge variant="outline">{ticket.serviceType}</Badge>
+                      {ticket.lane === 'priority' && (
+                        <Badge className="bg-purple-100 text-purple-700 border-purple-300 hover:bg-purple-100">
+                          Priority
+                          {ticket.priorityReason && ` (${PRIORITY_REASON_LABELS[ticket.priorityReason]})`}
+                        </Badge>
+                      )}
+                      <span className="font-medium text-gray-900">{ticket.guestName ?? 'Walk-in'}</span>
+                      <span className="text-gray-500">{formatTime(ticket.createdAt)}</span>
+                    </CardContent>
+                  </Card>
+                ))}
+                {serviceTickets.skipped.map((ticket) => (
+                  <Card key={ticket._id} className="border border-gray-300 bg-gray-50">
+                    <CardContent className="p-4 flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-4 text-sm text-gray-600">
+                        <span className="font-mono text-base font-bold text-gray-800">{ticket.queueNumber}</span>
+                        <Badge variant="outline">{ticket.serviceType}</Badge>
+                        <span className="font-medium text-gray-900">{ticket.guestName ?? 'Walk-in'}</span>
+                        {ticket.skippedAt && (
+                          <span className="text-gray-500">Skipped {formatTime(ticket.skippedAt)}</span>
+                        )}
+                      </div>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!myCounter}
+                        onClick={() => handleRecall(ticket._id)}
+                      >
+                        <Undo2 className="w-4 h-4 mr-1" />
+                        Recall
+                      </Button>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            </div>
+          )}
       </div>
     </div>
   )
@@ -0,0 +1,555 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useState } from 'react'
+import { useConvex, useQuery } from 'convex/react'
+import { useAuth } from '@clerk/tanstack-react-start'
+import { api } from '../../../convex/_generated/api'
+import type { Doc } from '../../../convex/_generated/dataModel'
+import type { FieldChange } from '../../../convex/auditLogs'
+import { RouteGuard } from '@/lib/route-guards'
+import { downloadCsv, toCsv } from '@/lib/csv'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Label } from '@/components/ui/label'
+import { Calendar } from '@/components/ui/calendar'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { endOfDay, format, startOfDay } from 'date-fns'
+import {
+  CalendarIcon,
+  ChevronLeft,
+  ChevronRight,
+  Download,
+  Eye,
+  Loader2,
+  ScrollText,
+} from 'lucide-react'
+import { toast } from 'sonner'
+import { cn } from '@/lib/utils'
+import { SuperadminSidebarLayout } from '@/components/SuperadminSidebar'
+import { SuperadminHeader } from '@/components/SuperadminHeader'
+
+export const Route = createFileRoute('/superadmin/audit')({
+  component: SuperadminAuditPage,
+  // Delay showing loading spinner to allow cached data to display first
+  pendingMs: 200,
+  pendingMinMs: 100,
+  pendingComponent: () => (
+    <SuperadminSidebarLayout>
+      <SuperadminHeader />
+      <div className="flex flex-1 flex-col">
+        <div className="@container/main flex flex-1 flex-col gap-2">
+          <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+            <div className="flex items-center justify-center h-64">
+              <Loader2 className="w-8 h-8 text-muted-foreground animate-spin" />
+            </div>
+          </div>
+        </div>
+      </div>
+    </SuperadminSidebarLayout>
+  ),
+})
+
+const RESOURCE_TYPES = [
+  { value: 'resident', label: 'Resident' },
+  { value: 'documentType', label: 'Document Type' },
+  { value: 'documentRequest', label: 'Document Request' },
+  { value: 'queue', label: 'Queue' },
+  { value: 'user', label: 'User' },
+  { value: 'kioskDevice', label: 'Kiosk Device' },
+  { value: 'counter', label: 'Counter' },
+  { value: 'serviceType', label: 'Service Type' },
+  { value: 'appointment', label: 'Appointment' },
+  { value: 'importBatch', label: 'Resident Import' },
+  { value: 'importMappingProfile', label: 'Import Mapping Profile' },
+  { value: 'certificateTemplate', label: 'Certificate Template' },
+]
+
+type AuditEntry = Doc<'auditLogs'>
+
+function getChanges(entry: AuditEntry): Array<FieldChange> {
+  return Array.isArray(entry.details?.changes) ? entry.details.changes : []
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+function SuperadminAuditPage() {
+  return (
+    <RouteGuard allowedRoles={['superadmin']}>
+      <SuperadminSidebarLayout>
+        <SuperadminHeader />
+        <div className="flex flex-1 flex-col">
+          <div className="@container/main flex flex-1 flex-col gap-2">
+            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+              <SuperadminAuditContent />
+            </div>
+          </div>
+        </div>
+      </SuperadminSidebarLayout>
+    </RouteGuard>
+  )
+}
+
+function SuperadminAuditContent() {
+  const { isLoaded: authLoaded, isSignedIn } = useAuth()
+  const convex = useConvex()
+  const [selectedUserId, setSelectedUserId] = useState<string>('')
+  const [selectedResourceType, setSelectedResourceType] = useState<string>('')
+  const [resourceId, setResourceId] = useState<string>('')
+  const [startDate, setStartDate] = useState<Date | undefined>(undefined)
+  const [endDate, setEndDate] = useState<Date | undefined>(undefined)
+  const [selectedEntry, setSelectedEntry] = useState<AuditEntry | null>(null)
+  // Cursor of every page visited so far; the last one is the page on screen
+  const [pageCursors, setPageCursors] = useState<Array<string | null>>([null])
+  const [isExporting, setIsExporting] = useState(false)
+  const pageSize = 50
+
+  // Only skip query if user is not signed in (not if auth is still loading)
+  const shouldSkipQuery = authLoaded && !isSignedIn
+
+  const users = useQuery(api.users.list, shouldSkipQuery ? 'skip' : {})
+
+  const filters = {
+    userId: selectedUserId || undefined,
+    resourceType: selectedResourceType || undefined,
+    resourceId: resourceId.trim() || undefined,
+    startDate: startDate ? startOfDay(startDate).getTime() : undefined,
+    endDate: endDate ? endOfDay(endDate).getTime() : undefined,
+  }
+
+  const result = useQuery(
+    api.auditLogs.list,
+    shouldSkipQuery
+      ? 'skip'
+      : {
+          ...filters,
+          paginationOpts: { numItems: pageSize, cursor: pageCursors[pageCursors.length - 1] },
+        }
+  )
+
+  const hasFilters = Boolean(
+    selectedUserId || selectedResourceType || resourceId || startDate || endDate
+  )
+
+  // Any filter change starts from the first page
+  const updateFilter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value)
+    setPageCursors([null])
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const { entries, isTruncated } = await convex.query(api.auditLogs.listForExport, filters)
+      const csv = toCsv(
+        ['Date', 'User', 'User ID', 'Role', 'Action', 'Resource Type', 'Resource ID', 'Changes'],
+        entries.map((entry) => [
+          format(new Date(entry.createdAt), 'yyyy-MM-dd HH:mm:ss'),
+          entry.details?.actorName ?? '',
+          entry.userId ?? '',
+          entry.details?.actorRole ?? '',
+          entry.action,
+          entry.resourceType,
+          entry.resourceId ?? '',
+          getChanges(entry)
+            .map((change) => `${change.field}: ${formatValue(change.before)} -> ${formatValue(change.after)}`)
+            .join('; '),
+        ])
+      )
+      downloadCsv(csv, `audit-log-${format(new Date(), 'yyyyMMdd-HHmm')}.csv`)
+      if (isTruncated) {
+        toast.warning(`Export limited to ${entries.length} entries. Narrow the date range to export the rest.`)
+      } else {
+        toast.success(`Exported ${entries.length} entries`)
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export audit log')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  if (!authLoaded && result === undefined) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 mx-auto mb-4 text-muted-foreground animate-spin" />
+          <p className="text-sm text-muted-foreground">Loading audit log...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const entries = result?.page ?? []
+  const currentPage = pageCursors.length
+
+  return (
+    <>
+      {/* Page Header */}
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground mt-1">Who changed what, and when</p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+          {isExporting ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          Export CSV
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Filters</CardTitle>
+          <CardDescription>Filter by user, resource, or date range</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            {/* User Filter */}
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select
+                value={selectedUserId || 'all'}
+                onValueChange={updateFilter((value: string) => setSelectedUserId(value === 'all' ? '' : value))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All Users" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Users</SelectItem>
+                  {users?.map((user) => (
+                    <SelectItem key={user._id} value={user.externalId}>
+                      {user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Resource Type Filter */}
+            <div className="space-y-2">
+              <Label>Resource Type</Label>
+              <Select
+                value={selectedResourceType || 'all'}
+                onValueChange={updateFilter((value: string) =>
+                  setSelectedResourceType(value === 'all' ? '' : value)
+                )}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="All Types" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Types</SelectItem>
+                  {RESOURCE_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Resource ID */}
+            <div className="space-y-2">
+              <Label>Resource ID</Label>
+              <Input
+                placeholder="Record ID..."
+                value={resourceId}
+                onChange={(e) => updateFilter(setResourceId)(e.target.value)}
+                className="font-mono"
+              />
+            </div>
+
+            {/* Start Date */}
+            <div className="space-y-2">
+              <Label>Start Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn(
+                      'w-full justify-start text-left font-normal',
+                      !startDate && 'text-muted-foreground'
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {startDate ? format(startDate, 'PPP') : <span>Pick a date</span>}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={startDate}
+                    onSelect={updateFilter(setStartDate)}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            {/* End Date */}
+            <div className="space-y-2">
+              <Label>End Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn(
+                      'w-full justify-start text-left font-normal',
+                      !endDate && 'text-muted-foreground'
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {endDate ? format(endDate, 'PPP') : <span>Pick a date</span>}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={endDate}
+                    onSelect={updateFilter(setEndDate)}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+
+          {/* Clear Filters Button */}
+          {hasFilters && (
+            <div className="mt-4">
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setSelectedUserId('')
+                  setSelectedResourceType('')
+                  setResourceId('')
+                  setStartDate(undefined)
+                  setEndDate(undefined)
+                  setPageCursors([null])
+                }}
+              >
+                Clear Filters
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Audit Entries Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries</CardTitle>
+          <CardDescription>Newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {result === undefined ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-12">
+              <ScrollText className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+              <p className="text-gray-600 mb-2">No audit entries found</p>
+              <p className="text-sm text-gray-500">
+                {hasFilters ? 'Try adjusting your filters' : 'Changes will appear here as they happen'}
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>User</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Resource</TableHead>
+                      <TableHead>Changes</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => (
+                      <TableRow key={entry._id}>
+                        <TableCell>
+                          {format(new Date(entry.createdAt), 'MMM dd, yyyy h:mm:ss a')}
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{entry.details?.actorName ?? 'Unknown'}</div>
+                          {entry.details?.actorRole && (
+                            <div className="text-xs text-muted-foreground">{entry.details.actorRole}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="font-mono text-xs">
+                            {entry.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div>{entry.resourceType}</div>
+                          {entry.resourceId && (
+                            <button
+                              type="button"
+                              className="text-xs font-mono text-muted-foreground hover:underline"
+                              title="Show history for this record"
+                              onClick={() => {
+                                setSelectedResourceType(entry.resourceType)
+                                setResourceId(entry.resourceId ?? '')
+                                setPageCursors([null])
+                              }}
+                            >
+                              {entry.resourceId}
+                            </button>
+                          )}
+                        </TableCell>
+                        <TableCell>{getChanges(entry).length || '—'}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => setSelectedEntry(entry)}>
+                            <Eye className="h-4 w-4 mr-2" />
+                            View
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Pagination */}
+              <div className="flex items-center justify-between mt-4">
+                <div className="text-sm text-muted-foreground">
+                  Page {currentPage} • Showing {entries.length} entries
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPageCursors((cursors) => cursors.slice(0, -1))}
+                    disabled={currentPage === 1}
+                  >
+                    <ChevronLeft className="h-4 w-4 mr-1" />
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPageCursors((cursors) => [...cursors, result.continueCursor])}
+                    disabled={result.isDone}
+                  >
+                    Next
+                    <ChevronRight className="h-4 w-4 ml-1" />
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Entry Detail Dialog */}
+      <Dialog open={selectedEntry !== null} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          {selectedEntry && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="font-mono">{selectedEntry.action}</DialogTitle>
+                <DialogDescription>
+                  {selectedEntry.details?.actorName ?? 'Unknown'} •{' '}
+                  {format(new Date(selectedEntry.createdAt), 'MMMM dd, yyyy h:mm:ss a')} •{' '}
+                  {selectedEntry.resourceType}
+                  {selectedEntry.resourceId && ` ${selectedEntry.resourceId}`}
+                </DialogDescription>
+              </DialogHeader>
+              {getChanges(selectedEntry).length > 0 ? (
+                <div className="border rounded-lg">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Before</TableHead>
+                        <TableHead>After</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {getChanges(selectedEntry).map((change) => (
+                        <TableRow key={change.field}>
+                          <TableCell className="font-mono text-xs">{change.field}</TableCell>
+                          <TableCell className="text-red-700 bg-red-50 break-all">
+                            {formatValue(change.before)}
+                          </TableCell>
+                          <TableCell className="text-green-700 bg-green-50 break-all">
+                            {formatValue(change.after)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No field changes recorded</p>
+              )}
+              <AuditEntryDetails entry={selectedEntry} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
+
+/**
+ * Extra context stored with an entry (e.g. import row, kiosk source)
+ */
+function AuditEntryDetails({ entry }: { entry: AuditEntry }) {
+  const { actorName: _actorName, actorRole: _actorRole, changes: _changes, ...extra } = entry.details ?? {}
+  if (Object.keys(extra).length === 0) return null
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">Details</Label>
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        {Object.entries(extra).map(([key, value]) => (
+          <div key={key} className="contents">
+            <span className="text-muted-foreground">{key}</span>
+            <span className="font-mono break-all">{formatValue(value)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
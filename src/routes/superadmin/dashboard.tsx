@@ -3,8 +3,9 @@ import { useState, useMemo, useEffect } from 'react'
 import { useQuery, useMutation } from 'convex/react'
 import { useAuth } from '@clerk/tanstack-react-start'
 import { api } from '../../../convex/_generated/api'
-import type { Doc } from '../../../convex/_generated/dataModel'
+import type { Doc, Id } from '../../../convex/_generated/dataModel'
 import { RouteGuard } from '@/lib/route-guards'
+import { ResidentMergeDialog } from '@/components/ResidentMergeDialog'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -38,7 +39,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { Users, BarChart3, Clock, Search, Plus, MoreVertical, Edit, Trash2, Eye, Upload, ChevronLeft, ChevronRight, Save, AlertTriangle, CheckCircle2, XCircle } from 'lucide-react'
+import { Users, BarChart3, Clock, Search, Plus, MoreVertical, Edit, Trash2, Eye, Upload, ChevronLeft, ChevronRight, Save, AlertTriangle, CheckCircle2, XCircle, Merge } from 'lucide-react'
 import { Loader2 } from 'lucide-react'
 import { toast } from 'sonner'
 import { useForm } from '@tanstack/react-form'
@@ -268,6 +269,7 @@ function PendingResidentCard({
   )
 
   const hasDuplicates = duplicates && duplicates.length > 0
+  const [mergeWithId, setMergeWithId] = useState<Id<'residents'> | null>(null)
 
   return (
     <Card
@@ -334,17 +336,23 @@ function PendingResidentCard({
                             {format(new Date(dup.resident.birthdate), 'MMM dd, yyyy')}
                           </p>
                         </div>
-                        <Badge
-                          variant={
-                            dup.confidence === 'high'
-                              ? 'destructive'
-                              : dup.confidence === 'medium'
-                              ? 'default'
-                              : 'outline'
-                          }
-                        >
-                          {dup.confidence} match
-                        </Badge>
+                        <div className="flex items-center gap-2">
+                          <Badge
+                            variant={
+                              dup.confidence === 'high'
+                                ? 'destructive'
+                                : dup.confidence === 'medium'
+                                ? 'default'
+                                : 'outline'
+                            }
+                          >
+                            {dup.confidence} match
+                          </Badge>
+                          <Button variant="outline" size="sm" onClick={() => setMergeWithId(dup.resident._id)}>
+                            <Merge className="h-4 w-4 mr-1" />
+                            Merge
+                          </Button>
+                        </div>
                       </div>
                       <p className="text-xs text-muted-foreground mt-1">{dup.reason}</p>
                     </div>
@@ -371,6 +379,12 @@ function PendingResidentCard({
           </div>
         </div>
       </CardContent>
+      <ResidentMergeDialog
+        open={mergeWithId !== null}
+        onOpenChange={(open) => !open && setMergeWithId(null)}
+        firstId={mergeWithId}
+        secondId={resident._id}
+      />
     </Card>
   )
 }
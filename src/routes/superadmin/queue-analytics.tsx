@@ -0,0 +1,465 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useState } from 'react'
+import { useQuery } from 'convex/react'
+import { useAuth } from '@clerk/tanstack-react-start'
+import { api } from '../../../convex/_generated/api'
+import { RouteGuard } from '@/lib/route-guards'
+import { downloadCsv, toCsv } from '@/lib/csv'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Calendar } from '@/components/ui/calendar'
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover'
+import { endOfDay, format, startOfDay, subDays } from 'date-fns'
+import { CalendarIcon, Clock, Download, Loader2, Timer, Ticket, UserX } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { SuperadminSidebarLayout } from '@/components/SuperadminSidebar'
+import { SuperadminHeader } from '@/components/SuperadminHeader'
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart'
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer } from 'recharts'
+
+export const Route = createFileRoute('/superadmin/queue-analytics')({
+  component: SuperadminQueueAnalyticsPage,
+  pendingMs: 200,
+  pendingMinMs: 100,
+  pendingComponent: () => (
+    <SuperadminSidebarLayout>
+      <SuperadminHeader />
+      <div className="flex flex-1 flex-col">
+        <div className="@container/main flex flex-1 flex-col gap-2">
+          <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+            <div className="flex items-center justify-center h-64">
+              <Loader2 className="w-8 h-8 text-muted-foreground animate-spin" />
+            </div>
+          </div>
+        </div>
+      </div>
+    </SuperadminSidebarLayout>
+  ),
+})
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Range shown when the page opens
+const DEFAULT_RANGE_DAYS = 30
+
+// Same as MAX_QUEUE_ANALYTICS_DAYS in convex/statistics.ts
+const MAX_RANGE_DAYS = 92
+
+function defaultStartDate(): Date {
+  return subDays(startOfDay(new Date()), DEFAULT_RANGE_DAYS - 1)
+}
+
+function SuperadminQueueAnalyticsPage() {
+  return (
+    <RouteGuard allowedRoles={['superadmin']}>
+      <SuperadminSidebarLayout>
+        <SuperadminHeader />
+        <div className="flex flex-1 flex-col">
+          <div className="@container/main flex flex-1 flex-col gap-2">
+            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+              <SuperadminQueueAnalyticsContent />
+            </div>
+          </div>
+        </div>
+      </SuperadminSidebarLayout>
+    </RouteGuard>
+  )
+}
+
+/**
+ * Minutes for display: "4.5 min", or a dash when there is nothing to average
+ */
+function formatMinutes(minutes: number | null): string {
+  return minutes === null ? '—' : `${minutes.toFixed(1)} min`
+}
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`
+}
+
+function SuperadminQueueAnalyticsContent() {
+  const { isLoaded: authLoaded, isSignedIn } = useAuth()
+  const [startDate, setStartDate] = useState<Date>(defaultStartDate)
+  const [endDate, setEndDate] = useState<Date | undefined>(undefined)
+
+  const shouldSkipQuery = authLoaded && !isSignedIn
+
+  const analytics = useQuery(
+    api.statistics.getQueueAnalytics,
+    shouldSkipQuery
+      ? 'skip'
+      : {
+          startDate: startDate.getTime(),
+          // Include the whole end day
+          endDate: endDate ? endOfDay(endDate).getTime() : undefined,
+        }
+  )
+
+  const handleExport = () => {
+    if (!analytics) return
+    const row = (
+      section: string,
+      label: string,
+      totals: {
+        tickets: number
+        served: number
+        skipped: number
+        avgWaitMinutes: number | null
+        avgServiceMinutes: number | null
+        skipRate: number
+      }
+    ) => [
+      section,
+      label,
+      totals.tickets,
+      totals.served,
+      totals.skipped,
+      totals.avgWaitMinutes?.toFixed(1),
+      totals.avgServiceMinutes?.toFixed(1),
+      formatRate(totals.skipRate),
+    ]
+
+    const csv = toCsv(
+      ['Section', 'Label', 'Tickets', 'Served', 'Skipped', 'Avg Wait (min)', 'Avg Service (min)', 'Skip Rate'],
+      [
+        row('Overall', 'All tickets', analytics.summary),
+        ...analytics.byDay.map((day) => row('Day', day.date, day)),
+        ...analytics.staff.map((staff) => row('Staff', staff.name, staff)),
+        ...analytics.documentTypes.map((type) => row('Document Type', type.documentTypeName, type)),
+        ...analytics.heatmap.flatMap((hours, weekday) =>
+          hours.map((count, hour) => [
+            'Hour',
+            `${WEEKDAYS[weekday]} ${String(hour).padStart(2, '0')}:00`,
+            count,
+          ])
+        ),
+      ]
+    )
+    downloadCsv(csv, `queue-analytics-${format(new Date(), 'yyyyMMdd-HHmm')}.csv`)
+  }
+
+  if (analytics === undefined) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 mx-auto mb-4 text-muted-foreground animate-spin" />
+          <p className="text-sm text-muted-foreground">Loading queue analytics...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const byDayData = analytics.byDay.map((day) => ({
+    day: format(new Date(`${day.date}T00:00:00`), 'MMM d'),
+    wait: day.avgWaitMinutes === null ? 0 : Number(day.avgWaitMinutes.toFixed(1)),
+    service: day.avgServiceMinutes === null ? 0 : Number(day.avgServiceMinutes.toFixed(1)),
+  }))
+
+  // Only show office hours that had tickets, so the grid stays readable
+  const busyHours = Array.from({ length: 24 }, (_, hour) => hour).filter((hour) =>
+    analytics.heatmap.some((hours) => hours[hour] > 0)
+  )
+  const heatmapMax = Math.max(1, ...analytics.heatmap.flat())
+
+  return (
+    <>
+      {/* Page Header */}
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Queue Analytics</h1>
+          <p className="text-muted-foreground mt-1">Wait times, service times and skipped numbers</p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={analytics.summary.tickets === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Date Range</CardTitle>
+          <CardDescription>Tickets taken between these dates (Manila time), up to {MAX_RANGE_DAYS} days</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {/* Start Date */}
+            <div className="space-y-2">
+              <Label>Start Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-left font-normal"
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {format(startDate, 'PPP')}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={startDate}
+                    // Clicking the selected day again deselects it; a start date is required
+                    onSelect={(date) => date && setStartDate(date)}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            {/* End Date */}
+            <div className="space-y-2">
+              <Label>End Date</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button
+                    variant="outline"
+                    className={cn(
+                      'w-full justify-start text-left font-normal',
+                      !endDate && 'text-muted-foreground'
+                    )}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {endDate ? format(endDate, 'PPP') : <span>Today</span>}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={endDate}
+                    onSelect={setEndDate}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center gap-4">
+            <Button
+              variant="outline"
+              onClick={() => {
+                setStartDate(defaultStartDate())
+                setEndDate(undefined)
+              }}
+            >
+              Last {DEFAULT_RANGE_DAYS} Days
+            </Button>
+            {analytics.range.isClamped && (
+              <p className="text-sm text-amber-700">
+                Ranges are limited to {MAX_RANGE_DAYS} days. Showing{' '}
+                {format(new Date(analytics.range.startDate), 'PPP')} to{' '}
+                {format(new Date(analytics.range.endDate), 'PPP')}.
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Tickets</CardTitle>
+            <Ticket className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{analytics.summary.tickets.toLocaleString()}</div>
+            <p className="text-xs text-muted-foreground">
+              {analytics.summary.served.toLocaleString()} served
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Average Wait</CardTitle>
+            <Clock className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatMinutes(analytics.summary.avgWaitMinutes)}</div>
+            <p className="text-xs text-muted-foreground">Ticket taken to first call</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Average Service</CardTitle>
+            <Timer className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatMinutes(analytics.summary.avgServiceMinutes)}</div>
+            <p className="text-xs text-muted-foreground">First call to done</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Skipped</CardTitle>
+            <UserX className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatRate(analytics.summary.skipRate)}</div>
+            <p className="text-xs text-muted-foreground">
+              {analytics.summary.skipped.toLocaleString()} not answered when called
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Wait & Service per Day */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Wait & Service Time per Day</CardTitle>
+          <CardDescription>Average minutes per ticket</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {byDayData.length > 0 ? (
+            <ChartContainer
+              config={{
+                wait: { label: 'Wait', color: '#f59e0b' },
+                service: { label: 'Service', color: '#3b82f6' },
+              }}
+              className="h-[300px] w-full"
+            >
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={byDayData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="day" />
+                  <YAxis />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="wait" fill="#f59e0b" />
+                  <Bar dataKey="service" fill="#3b82f6" />
+                </BarChart>
+              </ResponsiveContainer>
+            </ChartContainer>
+          ) : (
+            <div className="flex items-center justify-center h-[300px] text-muted-foreground">
+              No tickets in this period
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Hour-of-day Heatmap */}
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Busiest Hours</CardTitle>
+          <CardDescription>Tickets taken by weekday and hour</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {busyHours.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="text-xs border-separate border-spacing-1">
+                <thead>
+                  <tr>
+                    <th />
+                    {busyHours.map((hour) => (
+                      <th key={hour} className="font-normal text-muted-foreground w-10">
+                        {format(new Date(2000, 0, 1, hour), 'ha')}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {analytics.heatmap.map((hours, weekday) => (
+                    <tr key={WEEKDAYS[weekday]}>
+                      <th className="font-normal text-muted-foreground text-left pr-2">{WEEKDAYS[weekday]}</th>
+                      {busyHours.map((hour) => (
+                        <td
+                          key={hour}
+                          title={`${WEEKDAYS[weekday]} ${format(new Date(2000, 0, 1, hour), 'h a')}: ${hours[hour]} tickets`}
+                          className="h-8 w-10 rounded text-center"
+                          style={{
+                            backgroundColor:
+                              hours[hour] > 0
+                                ? `rgba(59, 130, 246, ${0.15 + (hours[hour] / heatmapMax) * 0.85})`
+                                : undefined,
+                          }}
+                        >
+                          {hours[hour] > 0 ? hours[hour] : ''}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No tickets in this period</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Per-staff Throughput */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Staff Throughput</CardTitle>
+            <CardDescription>Tickets served and average service time per staff member</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {analytics.staff.length > 0 ? (
+              <div className="space-y-2">
+                {analytics.staff.map((item) => (
+                  <div key={item.userId} className="flex items-center justify-between gap-4 p-2 border rounded">
+                    <div>
+                      <span className="font-medium">{item.name}</span>
+                      <p className="text-xs text-muted-foreground">
+                        {formatMinutes(item.avgServiceMinutes)} per ticket · {item.skipped} skipped
+                      </p>
+                    </div>
+                    <Badge variant="secondary">{item.served} served</Badge>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No tickets served in this period</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Per-document-type Handling Time */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Handling Time by Document Type</CardTitle>
+            <CardDescription>Service time is split evenly across documents on the same request</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {analytics.documentTypes.length > 0 ? (
+              <div className="space-y-2">
+                {analytics.documentTypes.map((item) => (
+                  <div key={item.documentTypeId} className="flex items-center justify-between gap-4 p-2 border rounded">
+                    <div>
+                      <span className="font-medium">{item.documentTypeName}</span>
+                      <p className="text-xs text-muted-foreground">
+                        {item.tickets} tickets · {formatRate(item.skipRate)} skipped
+                      </p>
+                    </div>
+                    <Badge variant="secondary">{formatMinutes(item.avgServiceMinutes)}</Badge>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">No tickets in this period</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  )
+}
@@ -10,7 +10,8 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
-import { ArrowLeft, Edit, Save, X, Loader2 } from 'lucide-react'
+import { ResidentMergeDialog } from '@/components/ResidentMergeDialog'
+import { ArrowLeft, Edit, Save, X, Loader2, Merge } from 'lucide-react'
 import { toast } from 'sonner'
 import { format } from 'date-fns'
 
@@ -38,6 +39,7 @@ function SuperadminResidentProfileContent() {
   const [isEditing, setIsEditing] = useState(false)
   const [editedData, setEditedData] = useState<any>(null)
   const [isSaving, setIsSaving] = useState(false)
+  const [mergeOpen, setMergeOpen] = useState(false)
 
   // ✅ OPTIMIZED: Only skip query when auth is loaded AND user is not signed in
   const shouldSkipQuery = authLoaded && !isSignedIn
@@ -283,10 +285,16 @@ function SuperadminResidentProfileContent() {
           </div>
         </div>
         {!isEditing ? (
-          <Button onClick={() => setIsEditing(true)}>
-            <Edit className="h-4 w-4 mr-2" />
-            Edit
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setMergeOpen(true)}>
+              <Merge className="h-4 w-4 mr-2" />
+              Merge Duplicate
+            </Button>
+            <Button onClick={() => setIsEditing(true)}>
+              <Edit className="h-4 w-4 mr-2" />
+              Edit
+            </Button>
+          </div>
         ) : (
           <div className="flex gap-2">
             <Button variant="outline" onClick={handleCancel} disabled={isSaving}>
@@ -618,6 +626,13 @@ function SuperadminResidentProfileContent() {
           </Card>
         </div>
       </div>
+
+      <ResidentMergeDialog
+        open={mergeOpen}
+        onOpenChange={setMergeOpen}
+        firstId={resident._id}
+        onMerged={(survivorId) => navigate({ to: `/superadmin/residents/${survivorId}` })}
+      />
     </>
   )
 }
@@ -3,7 +3,7 @@ import { useState, useEffect } from 'react'
 import { useQuery, useMutation } from 'convex/react'
 import { useAuth } from '@clerk/tanstack-react-start'
 import { api } from '../../../convex/_generated/api'
-import type { Doc } from '../../../convex/_generated/dataModel'
+import type { Doc, Id } from '../../../convex/_generated/dataModel'
 import { RouteGuard } from '@/lib/route-guards'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -36,6 +36,18 @@ import { toast } from 'sonner'
 import { useForm } from '@tanstack/react-form'
 import { SuperadminSidebarLayout } from '@/components/SuperadminSidebar'
 import { SuperadminHeader } from '@/components/SuperadminHeader'
+import {
+  BUILT_IN_LAYOUT_LABELS,
+  CertificateTemplateSelect,
+  CertificateTemplatesCard,
+  decodeTemplateChoice,
+  encodeTemplateChoice,
+} from '@/components/CertificateTemplates'
+import { KioskDevicesCard } from '@/components/KioskDevices'
+import { CountersCard } from '@/components/Counters'
+import { QueueSettingsCard } from '@/components/QueueSettings'
+import { ServiceTypesCard } from '@/components/ServiceTypes'
+import { AppointmentSettingsCard } from '@/components/AppointmentSettings'
 
 export const Route = createFileRoute('/superadmin/settings')({
   component: SuperadminSettingsPage,
@@ -91,6 +103,15 @@ function SuperadminSettingsContent() {
     shouldSkipQuery ? 'skip' : { includeInactive: true }
   )
 
+  // Certificate templates (for the Template column)
+  const certificateTemplates = useQuery(
+    api.certificateTemplates.list,
+    shouldSkipQuery ? 'skip' : { includeInactive: true }
+  )
+  const templateNames = new Map(
+    (certificateTemplates ?? []).map((template) => [template._id, template.name])
+  )
+
   const createDocumentType = useMutation(api.documentTypes.create)
   const updateDocumentType = useMutation(api.documentTypes.update)
   const deleteDocumentType = useMutation(api.documentTypes.remove)
@@ -147,7 +168,7 @@ function SuperadminSettingsContent() {
       {/* Page Header */}
       <div className="mb-6">
         <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
-        <p className="text-muted-foreground mt-1">Manage document types and system configuration</p>
+        <p className="text-muted-foreground mt-1">Manage document types, certificate templates and system configuration</p>
       </div>
 
           {/* Document Types Management */}
@@ -185,7 +206,7 @@ function SuperadminSettingsContent() {
                     <TableHeader>
                       <TableRow>
                         <TableHead>Name</TableHead>
-                        <TableHead>Template File</TableHead>
+                        <TableHead>Template</TableHead>
                         <TableHead>Price</TableHead>
                         <TableHead>Requires Purpose</TableHead>
                         <TableHead>Status</TableHead>
@@ -196,7 +217,15 @@ function SuperadminSettingsContent() {
                       {documentTypes?.map((docType) => (
                         <TableRow key={docType._id}>
                           <TableCell className="font-medium">{docType.name}</TableCell>
-                          <TableCell className="font-mono text-sm">{docType.templateKey}</TableCell>
+                          <TableCell className="text-sm">
+                            {docType.templateId ? (
+                              templateNames.get(docType.templateId) ?? 'Stored template'
+                            ) : (
+                              <span className="text-muted-foreground">
+                                Built-in: {BUILT_IN_LAYOUT_LABELS[docType.templateKey] ?? 'Generic'}
+                              </span>
+                            )}
+                          </TableCell>
                           <TableCell>
                             ₱{(docType.price / 100).toLocaleString('en-US', {
                               minimumFractionDigits: 2,
@@ -257,6 +286,24 @@ function SuperadminSettingsContent() {
             </CardContent>
           </Card>
 
+          {/* Certificate Templates */}
+          <CertificateTemplatesCard />
+
+          {/* Kiosk Devices */}
+          <KioskDevicesCard />
+
+          {/* Service Counters */}
+          <CountersCard />
+
+          {/* Priority Lane */}
+          <QueueSettingsCard />
+
+          {/* Other Services */}
+          <ServiceTypesCard />
+
+          {/* Appointments */}
+          <AppointmentSettingsCard />
+
           {/* Add Document Type Dialog */}
           <AddDocumentTypeDialog
             open={addDialogOpen}
@@ -354,7 +401,8 @@ function AddDocumentTypeDialog({
   onOpenChange: (open: boolean) => void
   onCreate: (args: {
     name: string
-    templateKey: string
+    templateKey?: string
+    templateId?: Id<'certificateTemplates'>
     price: number
     requiresPurpose: boolean
     isActive: boolean
@@ -363,7 +411,7 @@ function AddDocumentTypeDialog({
   const form = useForm({
     defaultValues: {
       name: '',
-      templateKey: '',
+      template: 'builtin:clearance.pdf',
       price: '',
       requiresPurpose: false,
       isActive: true,
@@ -374,9 +422,11 @@ function AddDocumentTypeDialog({
         if (isNaN(priceInCents) || priceInCents <= 0) {
           throw new Error('Invalid price')
         }
+        const { templateId, templateKey } = decodeTemplateChoice(value.template)
         await onCreate({
           name: value.name.trim(),
-          templateKey: value.templateKey.trim(),
+          templateKey,
+          templateId: templateId ?? undefined,
           price: priceInCents,
           requiresPurpose: value.requiresPurpose,
           isActive: value.isActive,
@@ -438,40 +488,23 @@ function AddDocumentTypeDialog({
             />
 
             <form.Field
-              name="templateKey"
-              validators={{
-                onChange: ({ value }) => {
-                  if (!value?.trim()) {
-                    return { message: 'Template file name is required' }
-                  }
-                  if (!value.trim().endsWith('.pdf')) {
-                    return { message: 'Template file must be a PDF (e.g., clearance.pdf)' }
-                  }
-                  return undefined
-                },
-              }}
-              children={(field) => {
-                const isInvalid = field.state.meta.isTouched && field.state.meta.errors.length > 0
-                return (
-                  <Field data-invalid={isInvalid}>
-                    <FieldLabel htmlFor={field.name}>
-                      Template File Name <span className="text-red-500">*</span>
-                    </FieldLabel>
-                    <Input
-                      id={field.name}
-                      value={field.state.value}
-                      onBlur={field.handleBlur}
-                      onChange={(e) => field.handleChange(e.target.value)}
-                      placeholder="e.g., clearance.pdf"
-                      aria-invalid={isInvalid}
-                    />
-                    <p className="text-xs text-muted-foreground mt-1">
-                      PDF template file name (stored in /public/templates/services/)
-                    </p>
-                    {isInvalid && <FieldError errors={field.state.meta.errors} />}
-                  </Field>
-                )
-              }}
+              name="template"
+              children={(field) => (
+                <Field>
+                  <FieldLabel htmlFor={field.name}>
+                    Certificate Template <span className="text-red-500">*</span>
+                  </FieldLabel>
+                  <CertificateTemplateSelect
+                    id={field.name}
+                    value={field.state.value}
+                    onBlur={field.handleBlur}
+                    onChange={field.handleChange}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Design templates under Certificate Templates below
+                  </p>
+                </Field>
+              )}
             />
 
             <form.Field
@@ -595,6 +628,7 @@ function EditDocumentTypeDialog({
     id: any
     name?: string
     templateKey?: string
+    templateId?: Id<'certificateTemplates'> | null
     price?: number
     requiresPurpose?: boolean
     isActive?: boolean
@@ -604,7 +638,7 @@ function EditDocumentTypeDialog({
   const form = useForm({
     defaultValues: {
       name: documentType.name,
-      templateKey: documentType.templateKey,
+      template: encodeTemplateChoice(documentType),
       price: (documentType.price / 100).toFixed(2),
       requiresPurpose: documentType.requiresPurpose,
       isActive: documentType.isActive,
@@ -615,10 +649,12 @@ function EditDocumentTypeDialog({
         if (isNaN(priceInCents) || priceInCents <= 0) {
           throw new Error('Invalid price')
         }
+        const { templateId, templateKey } = decodeTemplateChoice(value.template)
         await onUpdate({
           id: documentType._id,
           name: value.name.trim(),
-          templateKey: value.templateKey.trim(),
+          templateKey,
+          templateId,
           price: priceInCents,
           requiresPurpose: value.requiresPurpose,
           isActive: value.isActive,
@@ -635,7 +671,7 @@ function EditDocumentTypeDialog({
   // Update form when documentType changes
   useEffect(() => {
     form.setFieldValue('name', documentType.name)
-    form.setFieldValue('templateKey', documentType.templateKey)
+    form.setFieldValue('template', encodeTemplateChoice(documentType))
     form.setFieldValue('price', (documentType.price / 100).toFixed(2))
     form.setFieldValue('requiresPurpose', documentType.requiresPurpose)
     form.setFieldValue('isActive', documentType.isActive)
@@ -689,40 +725,23 @@ function EditDocumentTypeDialog({
             />
 
             <form.Field
-              name="templateKey"
-              validators={{
-                onChange: ({ value }) => {
-                  if (!value?.trim()) {
-                    return { message: 'Template file name is required' }
-                  }
-                  if (!value.trim().endsWith('.pdf')) {
-                    return { message: 'Template file must be a PDF (e.g., clearance.pdf)' }
-                  }
-                  return undefined
-                },
-              }}
-              children={(field) => {
-                const isInvalid = field.state.meta.isTouched && field.state.meta.errors.length > 0
-                return (
-                  <Field data-invalid={isInvalid}>
-                    <FieldLabel htmlFor={field.name}>
-                      Template File Name <span className="text-red-500">*</span>
-                    </FieldLabel>
-                    <Input
-                      id={field.name}
-                      value={field.state.value}
-                      onBlur={field.handleBlur}
-                      onChange={(e) => field.handleChange(e.target.value)}
-                      placeholder="e.g., clearance.pdf"
-                      aria-invalid={isInvalid}
-                    />
-                    <p className="text-xs text-muted-foreground mt-1">
-                      PDF template file name (stored in /public/templates/services/)
-                    </p>
-                    {isInvalid && <FieldError errors={field.state.meta.errors} />}
-                  </Field>
-                )
-              }}
+              name="template"
+              children={(field) => (
+                <Field>
+                  <FieldLabel htmlFor={field.name}>
+                    Certificate Template <span className="text-red-500">*</span>
+                  </FieldLabel>
+                  <CertificateTemplateSelect
+                    id={field.name}
+                    value={field.state.value}
+                    onBlur={field.handleBlur}
+                    onChange={field.handleChange}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Design templates under Certificate Templates below
+                  </p>
+                </Field>
+              )}
             />
 
             <form.Field
@@ -1,8 +1,9 @@
 import { createFileRoute } from '@tanstack/react-router'
-import { useState } from 'react'
-import { useQuery } from 'convex/react'
+import { useEffect, useMemo, useState } from 'react'
+import { usePaginatedQuery, useQuery } from 'convex/react'
 import { useAuth } from '@clerk/tanstack-react-start'
 import { api } from '../../../convex/_generated/api'
+import { buildReprintReport } from '../../../convex/lib/reprints'
 import { RouteGuard } from '@/lib/route-guards'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -74,6 +75,9 @@ function SuperadminStatisticsPage() {
   )
 }
 
+// Printed documents read per reprint report page
+const REPRINT_PAGE_SIZE = 500
+
 function SuperadminStatisticsContent() {
   const { isLoaded: authLoaded, isSignedIn } = useAuth()
   const [selectedPurok, setSelectedPurok] = useState<string>('')
@@ -104,6 +108,27 @@ function SuperadminStatisticsContent() {
         }
   )
 
+  // Reprint activity per staff member for the same date range
+  // Loaded a page of prints at a time, then added up once every page is in
+  const reprintPages = usePaginatedQuery(
+    api.statistics.getReprintReport,
+    shouldSkipQuery
+      ? 'skip'
+      : {
+          startDate: startDate ? startDate.getTime() : undefined,
+          endDate: endDate ? endDate.getTime() : undefined,
+        },
+    { initialNumItems: REPRINT_PAGE_SIZE }
+  )
+  const { status: reprintStatus, loadMore: loadMoreReprints } = reprintPages
+  useEffect(() => {
+    if (reprintStatus === 'CanLoadMore') loadMoreReprints(REPRINT_PAGE_SIZE)
+  }, [reprintStatus, loadMoreReprints])
+  const reprintReport = useMemo(
+    () => (reprintStatus === 'Exhausted' ? buildReprintReport(reprintPages.results) : undefined),
+    [reprintStatus, reprintPages.results]
+  )
+
   // Only show loading spinner on initial load (when auth is not loaded AND no cached data)
   // This prevents showing loading spinner on every navigation
   const isInitialLoad = !authLoaded && stats === undefined && puroks === undefined
@@ -550,6 +575,59 @@ function SuperadminStatisticsContent() {
           </Card>
         )}
       </div>
+
+      {/* Reprint Activity */}
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Reprint Activity</CardTitle>
+          <CardDescription>
+            {reprintReport
+              ? `${reprintReport.totalReprints} of ${reprintReport.totalPrints} prints were reprints (${(reprintReport.overallRate * 100).toFixed(1)}%). Staff at double the overall rate are flagged.`
+              : 'Reprints per staff member'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {reprintReport === undefined ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 text-muted-foreground animate-spin" />
+            </div>
+          ) : reprintReport.staff.length > 0 ? (
+            <div className="space-y-2">
+              {reprintReport.staff.map((item) => (
+                <div
+                  key={item.userId}
+                  className={cn(
+                    'flex items-center justify-between gap-4 p-2 border rounded',
+                    item.isUnusual && 'border-red-300 bg-red-50'
+                  )}
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{item.name}</span>
+                      {item.isUnusual && <Badge variant="destructive">Unusual</Badge>}
+                    </div>
+                    {item.topReasons.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {item.topReasons.map((r) => `${r.reason} (${r.count})`).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right text-sm">
+                    <Badge variant="secondary">
+                      {item.reprints} / {item.prints} reprinted
+                    </Badge>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {(item.reprintRate * 100).toFixed(1)}%
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No documents printed in this period</p>
+          )}
+        </CardContent>
+      </Card>
     </>
   )
 }
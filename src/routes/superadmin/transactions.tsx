@@ -127,6 +127,7 @@ function SuperadminTransactionsContent() {
                   | 'pending'
                   | 'queued'
                   | 'serving'
+                  | 'skipped'
                   | 'completed'
                   | 'cancelled'),
           startDate: startDate ? startDate.getTime() : undefined,
@@ -182,6 +183,8 @@ function SuperadminTransactionsContent() {
         return 'outline'
       case 'pending':
         return 'outline'
+      case 'skipped':
+        return 'outline'
       case 'cancelled':
         return 'destructive'
       default:
@@ -217,6 +220,7 @@ function SuperadminTransactionsContent() {
                   <SelectItem value="pending">Pending</SelectItem>
                   <SelectItem value="queued">Queued</SelectItem>
                   <SelectItem value="serving">Serving</SelectItem>
+                  <SelectItem value="skipped">Skipped</SelectItem>
                   <SelectItem value="completed">Completed</SelectItem>
                   <SelectItem value="cancelled">Cancelled</SelectItem>
                 </SelectContent>
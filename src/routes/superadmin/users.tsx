@@ -0,0 +1,414 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useMemo, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { useAuth } from '@clerk/tanstack-react-start'
+import { api } from '../../../convex/_generated/api'
+import type { Doc } from '../../../convex/_generated/dataModel'
+import { RouteGuard } from '@/lib/route-guards'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { format } from 'date-fns'
+import { Loader2, Search, UserCheck, UserCog, UserX } from 'lucide-react'
+import { toast } from 'sonner'
+import { SuperadminSidebarLayout } from '@/components/SuperadminSidebar'
+import { SuperadminHeader } from '@/components/SuperadminHeader'
+
+export const Route = createFileRoute('/superadmin/users')({
+  component: SuperadminUsersPage,
+  // Delay showing loading spinner to allow cached data to display first
+  pendingMs: 200,
+  pendingMinMs: 100,
+  pendingComponent: () => (
+    <SuperadminSidebarLayout>
+      <SuperadminHeader />
+      <div className="flex flex-1 flex-col">
+        <div className="@container/main flex flex-1 flex-col gap-2">
+          <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+            <div className="flex items-center justify-center h-64">
+              <Loader2 className="w-8 h-8 text-muted-foreground animate-spin" />
+            </div>
+          </div>
+        </div>
+      </div>
+    </SuperadminSidebarLayout>
+  ),
+})
+
+type Role = 'superadmin' | 'admin' | 'staff'
+type StatusFilter = 'all' | 'pending' | 'active' | 'inactive'
+
+const ROLES: Array<{ value: Role; label: string }> = [
+  { value: 'staff', label: 'Staff' },
+  { value: 'admin', label: 'Admin' },
+  { value: 'superadmin', label: 'Superadmin' },
+]
+
+function SuperadminUsersPage() {
+  return (
+    <RouteGuard allowedRoles={['superadmin']}>
+      <SuperadminSidebarLayout>
+        <SuperadminHeader />
+        <div className="flex flex-1 flex-col">
+          <div className="@container/main flex flex-1 flex-col gap-2">
+            <div className="flex flex-col gap-4 py-4 md:gap-6 md:py-6 px-4 lg:px-6">
+              <SuperadminUsersContent />
+            </div>
+          </div>
+        </div>
+      </SuperadminSidebarLayout>
+    </RouteGuard>
+  )
+}
+
+function SuperadminUsersContent() {
+  const { isLoaded: authLoaded, isSignedIn } = useAuth()
+  const [searchQuery, setSearchQuery] = useState('')
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all')
+  const [approvingUser, setApprovingUser] = useState<Doc<'users'> | null>(null)
+  const [approveRole, setApproveRole] = useState<Role>('staff')
+  const [deactivatingUser, setDeactivatingUser] = useState<Doc<'users'> | null>(null)
+  const [savingUserId, setSavingUserId] = useState<string | null>(null)
+
+  // Only skip query if user is not signed in (not if auth is still loading)
+  const shouldSkipQuery = authLoaded && !isSignedIn
+
+  const users = useQuery(api.users.list, shouldSkipQuery ? 'skip' : {})
+  const currentUser = useQuery(api.users.current, shouldSkipQuery ? 'skip' : {})
+  const setRole = useMutation(api.users.setRole)
+  const setActive = useMutation(api.users.setActive)
+
+  const pendingCount = users?.filter((user) => !user.role).length ?? 0
+
+  // Pending users first, then newest
+  const filteredUsers = useMemo(() => {
+    if (!users) return []
+    const query = searchQuery.trim().toLowerCase()
+
+    return users
+      .filter((user) => {
+        if (statusFilter === 'pending') return !user.role
+        if (statusFilter === 'active') return !!user.role && user.isActive
+        if (statusFilter === 'inactive') return !user.isActive
+        return true
+      })
+      .filter(
+        (user) =>
+          !query ||
+          user.name.toLowerCase().includes(query) ||
+          (user.email ?? '').toLowerCase().includes(query)
+      )
+      .sort((a, b) => {
+        if (!a.role !== !b.role) return a.role ? 1 : -1
+        return b.createdAt - a.createdAt
+      })
+  }, [users, searchQuery, statusFilter])
+
+  const handleRoleChange = async (user: Doc<'users'>, role: Role) => {
+    setSavingUserId(user._id)
+    try {
+      await setRole({ userId: user._id, role })
+      toast.success(user.role ? `${user.name} is now ${role}` : `${user.name} approved as ${role}`)
+      setApprovingUser(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update role')
+    } finally {
+      setSavingUserId(null)
+    }
+  }
+
+  const handleActiveChange = async (user: Doc<'users'>, isActive: boolean) => {
+    setSavingUserId(user._id)
+    try {
+      await setActive({ userId: user._id, isActive })
+      toast.success(isActive ? `${user.name} reactivated` : `${user.name} deactivated`)
+      setDeactivatingUser(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update account')
+    } finally {
+      setSavingUserId(null)
+    }
+  }
+
+  if (users === undefined) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 mx-auto mb-4 text-muted-foreground animate-spin" />
+          <p className="text-sm text-muted-foreground">Loading users...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      {/* Page Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold tracking-tight">Users</h1>
+        <p className="text-muted-foreground mt-1">
+          Approve new accounts, assign roles, and deactivate access
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>All Users</CardTitle>
+          <CardDescription>
+            {pendingCount > 0
+              ? `${pendingCount} user${pendingCount === 1 ? '' : 's'} waiting for approval`
+              : 'Role changes are synced to Clerk automatically'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col md:flex-row gap-4 mb-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name or email..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Users</SelectItem>
+                <SelectItem value="pending">Pending Approval</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="inactive">Deactivated</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {filteredUsers.length === 0 ? (
+            <div className="text-center py-12">
+              <UserCog className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+              <p className="text-gray-600">No users found</p>
+            </div>
+          ) : (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Last Login</TableHead>
+                    <TableHead>Joined</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredUsers.map((user) => {
+                    const isSelf = currentUser?._id === user._id
+                    const isSaving = savingUserId === user._id
+
+                    return (
+                      <TableRow key={user._id}>
+                        <TableCell>
+                          <div className="font-medium">
+                            {user.name}
+                            {isSelf && <span className="text-muted-foreground font-normal"> (you)</span>}
+                          </div>
+                          <div className="text-xs text-muted-foreground">{user.email || '—'}</div>
+                        </TableCell>
+                        <TableCell>
+                          {user.role ? (
+                            <Select
+                              value={user.role}
+                              onValueChange={(value) => handleRoleChange(user, value as Role)}
+                              disabled={isSelf || isSaving}
+                            >
+                              <SelectTrigger className="w-36">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {ROLES.map((role) => (
+                                  <SelectItem key={role.value} value={role.value}>
+                                    {role.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {!user.role ? (
+                            <Badge variant="secondary" className="bg-yellow-100 text-yellow-800">
+                              Pending
+                            </Badge>
+                          ) : user.isActive ? (
+                            <Badge variant="secondary" className="bg-green-100 text-green-800">
+                              Active
+                            </Badge>
+                          ) : (
+                            <Badge variant="secondary" className="bg-red-100 text-red-800">
+                              Deactivated
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {user.lastLoginAt
+                            ? format(new Date(user.lastLoginAt), 'MMM dd, yyyy h:mm a')
+                            : 'Never'}
+                        </TableCell>
+                        <TableCell>{format(new Date(user.createdAt), 'MMM dd, yyyy')}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-2">
+                            {!user.role && (
+                              <Button
+                                size="sm"
+                                onClick={() => {
+                                  setApproveRole('staff')
+                                  setApprovingUser(user)
+                                }}
+                                disabled={isSaving}
+                              >
+                                <UserCheck className="h-4 w-4 mr-2" />
+                                Approve
+                              </Button>
+                            )}
+                            {user.isActive ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setDeactivatingUser(user)}
+                                disabled={isSelf || isSaving}
+                              >
+                                <UserX className="h-4 w-4 mr-2" />
+                                Deactivate
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleActiveChange(user, true)}
+                                disabled={isSaving}
+                              >
+                                {isSaving ? (
+                                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                ) : (
+                                  <UserCheck className="h-4 w-4 mr-2" />
+                                )}
+                                Reactivate
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Approve Dialog */}
+      <Dialog
+        open={approvingUser !== null}
+        onOpenChange={(open) => !open && !savingUserId && setApprovingUser(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Approve {approvingUser?.name}</DialogTitle>
+            <DialogDescription>
+              Choose a role. The user can sign in to their dashboard right away.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={approveRole} onValueChange={(value) => setApproveRole(value as Role)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROLES.map((role) => (
+                <SelectItem key={role.value} value={role.value}>
+                  {role.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApprovingUser(null)} disabled={!!savingUserId}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => approvingUser && handleRoleChange(approvingUser, approveRole)}
+              disabled={!!savingUserId}
+            >
+              {savingUserId ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <UserCheck className="h-4 w-4 mr-2" />
+              )}
+              Approve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Deactivate Confirmation Dialog */}
+      <Dialog
+        open={deactivatingUser !== null}
+        onOpenChange={(open) => !open && !savingUserId && setDeactivatingUser(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Deactivate {deactivatingUser?.name}</DialogTitle>
+            <DialogDescription>
+              They will lose access to BHIMS until reactivated. Their history is kept.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeactivatingUser(null)} disabled={!!savingUserId}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deactivatingUser && handleActiveChange(deactivatingUser, false)}
+              disabled={!!savingUserId}
+            >
+              {savingUserId ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <UserX className="h-4 w-4 mr-2" />
+              )}
+              Deactivate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
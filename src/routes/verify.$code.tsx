@@ -0,0 +1,195 @@
+import { useId, useState } from 'react'
+import { createFileRoute } from '@tanstack/react-router'
+import { useMutation, useQuery } from 'convex/react'
+import { format } from 'date-fns'
+import { toast } from 'sonner'
+import { api } from '../../convex/_generated/api'
+import type { Id } from '../../convex/_generated/dataModel'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { isAdmin, useUserRole } from '@/lib/auth'
+import { Clock, ShieldAlert, ShieldCheck, ShieldX } from 'lucide-react'
+
+export const Route = createFileRoute('/verify/$code')({
+  component: VerifyCertificatePage,
+})
+
+/**
+ * Public Certificate Verification Page
+ *
+ * Features:
+ * - Opened by scanning the QR code printed on every certificate
+ * - Shows document type, masked resident name and issue date
+ * - Flags revoked certificates and copies superseded by a reprint
+ * - Admins signed in on this device can revoke the certificate here
+ */
+function VerifyCertificatePage() {
+  const { code } = Route.useParams()
+  const result = useQuery(api.certificates.verify, { code })
+  const userRole = useUserRole()
+
+  if (result === undefined) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="text-center">
+          <Clock className="w-16 h-16 mx-auto mb-4 text-gray-400 animate-spin" />
+          <p className="text-2xl text-gray-600 font-semibold">Verifying certificate...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-6">
+      <div className="max-w-xl mx-auto space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold mb-2 text-gray-800">Barangay Handumanan</h1>
+          <p className="text-xl font-semibold text-gray-700">Certificate Verification</p>
+        </div>
+
+        {result === null ? (
+          <Card className="border-2 border-red-300 bg-red-50">
+            <CardContent className="p-6 text-center">
+              <ShieldX className="w-16 h-16 mx-auto mb-3 text-red-500" />
+              <p className="text-2xl font-bold text-red-700">Not Found</p>
+              <p className="text-gray-700 mt-2">
+                No certificate was issued with code <span className="font-mono font-semibold">{code}</span>.
+                This document may not be genuine.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card
+            className={
+              result.revokedAt
+                ? 'border-2 border-red-300 bg-red-50'
+                : result.supersededAt
+                  ? 'border-2 border-amber-300 bg-amber-50'
+                  : 'border-2 border-green-400 bg-green-50'
+            }
+          >
+            <CardHeader className="text-center pb-2">
+              {result.revokedAt ? (
+                <ShieldAlert className="w-16 h-16 mx-auto mb-2 text-red-500" />
+              ) : result.supersededAt ? (
+                <ShieldAlert className="w-16 h-16 mx-auto mb-2 text-amber-500" />
+              ) : (
+                <ShieldCheck className="w-16 h-16 mx-auto mb-2 text-green-600" />
+              )}
+              <CardTitle
+                className={
+                  result.revokedAt
+                    ? 'text-2xl text-red-700'
+                    : result.supersededAt
+                      ? 'text-2xl text-amber-700'
+                      : 'text-2xl text-green-700'
+                }
+              >
+                {result.revokedAt ? 'Revoked' : result.supersededAt ? 'Replaced by a Reprint' : 'Valid Certificate'}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <span className="text-gray-600">Document</span>
+                <span className="font-semibold">{result.documentTypeName}</span>
+                <span className="text-gray-600">Issued to</span>
+                <span className="font-semibold">{result.residentName || '—'}</span>
+                <span className="text-gray-600">Date issued</span>
+                <span className="font-semibold">{format(result.issuedAt, 'MMMM d, yyyy')}</span>
+                <span className="text-gray-600">Verification code</span>
+                <span className="font-mono font-semibold">{result.verificationCode}</span>
+                {result.supersededAt && !result.revokedAt && (
+                  <>
+                    <span className="text-gray-600">Reprinted on</span>
+                    <span className="font-semibold text-amber-700">
+                      {format(result.supersededAt, 'MMMM d, yyyy')}
+                    </span>
+                  </>
+                )}
+                {result.revokedAt && (
+                  <>
+                    <span className="text-gray-600">Revoked on</span>
+                    <span className="font-semibold text-red-700">
+                      {format(result.revokedAt, 'MMMM d, yyyy')}
+                    </span>
+                  </>
+                )}
+              </div>
+              {result.revokedAt && (
+                <p className="text-sm text-red-700">
+                  This certificate has been revoked by the barangay and is no longer valid.
+                </p>
+              )}
+              {result.supersededAt && !result.revokedAt && (
+                <p className="text-sm text-amber-700">
+                  This copy was reprinted and is no longer valid. Only the latest printed copy, with its own
+                  verification code, should be accepted.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {result && !result.revokedAt && userRole && isAdmin(userRole) && (
+          <RevokeCertificateCard printedDocumentId={result.printedDocumentId} />
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Revoke form shown to admins only
+ */
+function RevokeCertificateCard({
+  printedDocumentId,
+}: {
+  printedDocumentId: Id<'printedDocuments'>
+}) {
+  const revoke = useMutation(api.certificates.revoke)
+  const [reason, setReason] = useState('')
+  const [isRevoking, setIsRevoking] = useState(false)
+  const reasonId = useId()
+
+  const handleRevoke = async () => {
+    if (!reason.trim()) {
+      toast.error('Please enter a reason for revoking')
+      return
+    }
+
+    setIsRevoking(true)
+    try {
+      await revoke({ printedDocumentId, reason })
+      toast.success('Certificate revoked')
+      setReason('')
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke certificate')
+    } finally {
+      setIsRevoking(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Revoke Certificate</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          <Label htmlFor={reasonId}>Reason</Label>
+          <Textarea
+            id={reasonId}
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Issued with incorrect resident details"
+          />
+        </div>
+        <Button variant="destructive" onClick={handleRevoke} disabled={isRevoking}>
+          {isRevoking ? 'Revoking...' : 'Revoke'}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vitest/config'
+import { fileURLToPath, URL } from 'url'
+
+// Kept apart from vite.config.ts so tests don't load the TanStack Start/Netlify plugins
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    // Convex functions run in convex-test's edge runtime
+    environment: 'edge-runtime',
+    server: { deps: { inline: ['convex-test'] } },
+  },
+})